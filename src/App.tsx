@@ -9,14 +9,18 @@
  */
 
 import { useState, useEffect } from 'react';
-import type { WorkoutBlock, EffortLevel, CardioType } from './types';
+import type { WorkoutBlock, EffortLevel, CardioType, CardioMetrics, CustomCardioActivity, SavedWorkout } from './types';
 import { useWorkout } from './hooks/useWorkout';
+import { useHeartRateMonitor } from './hooks/useHeartRateMonitor';
 import { useLandscape } from './hooks/useLandscape';
 import { seedDefaultWorkouts } from './data/storage';
+import { applyProgression, type ScheduledWorkout } from './data/programs';
+import type { CalendarPlan } from './data/calendar';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { SignUpPromptProvider, useSignUpPrompt } from './contexts/SignUpPromptContext';
 import { ExerciseProvider } from './contexts/ExerciseContext';
 import { performInitialSync, setSyncStatusCallback } from './data/supabaseSync';
+import { initSyncOutbox } from './data/syncOutbox';
 import { NavBar } from './components/NavBar';
 import { WorkoutBuilder } from './components/WorkoutBuilder';
 import { WorkoutStartFlow } from './components/WorkoutStartFlow';
@@ -60,6 +64,8 @@ function AppContent() {
     return (saved as Theme) || 'dark';
   });
   const workout = useWorkout();
+  // Lives here so a paired monitor stays connected while moving between pages mid-workout
+  const heartRateMonitor = useHeartRateMonitor(!!workout.session, workout.logHeartRate);
   const { isLandscape } = useLandscape();
   const { user, loading: authLoading, setSyncStatus } = useAuth();
   const { triggerSignUpPrompt } = useSignUpPrompt();
@@ -94,6 +100,9 @@ function AppContent() {
     }
   }, [user]);
 
+  // Resume queued changes from earlier sessions and flush when back online
+  useEffect(() => initSyncOutbox(), []);
+
   // Apply theme
   useEffect(() => {
     localStorage.setItem('workout_theme', theme);
@@ -137,19 +146,50 @@ function AppContent() {
     setShowBuilder(false);
   };
 
-  const handleCompleteWorkout = (effort?: EffortLevel, distance?: number) => {
-    workout.completeWorkout(effort, distance);
+  const handleCompleteWorkout = async (effort?: EffortLevel, distance?: number, metrics?: CardioMetrics) => {
+    await workout.completeWorkout(effort, distance, metrics);
     setHomeRefreshKey(k => k + 1); // Force HomePage to remount with fresh data
     setCurrentPage('home');
     // Prompt anonymous users to sign up after completing a workout
     triggerSignUpPrompt('workout');
   };
 
-  const handleStartCardio = (type: CardioType) => {
-    workout.startCardioWorkout(type);
+  const handleStartCardio = (type: CardioType, customActivity?: CustomCardioActivity) => {
+    workout.startCardioWorkout(type, customActivity && { name: customActivity.name, customActivityId: customActivity.id });
+    setCurrentPage('workout');
+  };
+
+  // The session records the saved workout it came from, which marks a plan for that day done
+  const handleStartSavedWorkout = (saved: SavedWorkout) => {
+    const origin = { name: saved.name, templateId: saved.id };
+    if (saved.cardioType) {
+      workout.startCardioWorkout(saved.cardioType, origin);
+    } else {
+      workout.startWorkoutWithBlocks(saved.blocks, origin);
+    }
+    setCurrentPage('workout');
+  };
+
+  // The session records the program slot it fills, which marks it done in the plan
+  const handleStartProgramWorkout = ({ program, slot, workout: saved }: ScheduledWorkout) => {
+    if (!saved) return;
+    const origin = { name: saved.name, templateId: saved.id, program: slot };
+    if (saved.cardioType) {
+      workout.startCardioWorkout(saved.cardioType, origin);
+    } else {
+      workout.startWorkoutWithBlocks(applyProgression(program, slot.week, saved.blocks), origin);
+    }
     setCurrentPage('workout');
   };
 
+  const handleStartPlannedWorkout = (plan: CalendarPlan) => {
+    if (plan.scheduled) {
+      handleStartProgramWorkout(plan.scheduled);
+    } else if (plan.workout) {
+      handleStartSavedWorkout(plan.workout);
+    }
+  };
+
   const handleCancelWorkout = () => {
     workout.cancelWorkout();
     setCurrentPage('home');
@@ -210,7 +250,13 @@ function AppContent() {
 
   return (
     <div className="min-h-screen transition-colors bg-slate-100 dark:bg-slate-950 text-slate-900 dark:text-slate-100">
-      {currentPage === 'home' && <HomePage key={homeRefreshKey} />}
+      {currentPage === 'home' && (
+        <HomePage
+          key={homeRefreshKey}
+          onStartProgramWorkout={handleStartProgramWorkout}
+          onStartPlannedWorkout={handleStartPlannedWorkout}
+        />
+      )}
 
       {currentPage === 'workout' && (
         workout.session && (workout.session.blocks?.length > 0 || workout.session.cardioType) ? (
@@ -218,7 +264,15 @@ function AppContent() {
             session={workout.session}
             currentBlockIndex={workout.currentBlockIndex}
             currentExerciseIndex={workout.currentExerciseIndex}
+            currentRound={workout.currentRound}
+            currentBlockRound={workout.currentBlockRound}
+            timers={workout.timers}
+            onUpdateTimers={workout.updateTimers}
             onLogExercise={workout.logExercise}
+            onLogRest={workout.logRest}
+            onLogBlockResult={workout.logBlockResult}
+            onLogTrackPoint={workout.logTrackPoint}
+            heartRateMonitor={heartRateMonitor}
             onNextExercise={workout.nextExercise}
             onPreviousExercise={workout.previousExercise}
             onCompleteWorkout={handleCompleteWorkout}
@@ -231,13 +285,8 @@ function AppContent() {
           <WorkoutStartFlow
             onStartLastWorkout={handleBuilderStart}
             onCreateNew={() => setShowBuilder(true)}
-            onStartSavedWorkout={(savedWorkout) => {
-              if (savedWorkout.cardioType) {
-                handleStartCardio(savedWorkout.cardioType);
-              } else {
-                handleBuilderStart(savedWorkout.blocks);
-              }
-            }}
+            onStartPlannedWorkout={handleStartPlannedWorkout}
+            onStartSavedWorkout={handleStartSavedWorkout}
             onStartCardio={handleStartCardio}
             onManageLibrary={() => setCurrentPage('library')}
           />
@@ -0,0 +1,94 @@
+import type { WorkoutSession, DistanceUnit, CardioMetric } from '../types';
+import { CARDIO_METRIC_LABELS } from '../types';
+import { getCardioSummary } from '../data/cardioStats';
+import { formatDistance, formatPace, formatElevation, KM_PER_MILE, FEET_PER_METER } from '../utils/units';
+
+interface CardioSessionDetailProps {
+  session: WorkoutSession;
+  unit: DistanceUnit;
+}
+
+function formatClock(seconds: number): string {
+  const rounded = Math.round(seconds);
+  const hrs = Math.floor(rounded / 3600);
+  const mins = Math.floor((rounded % 3600) / 60);
+  const secs = rounded % 60;
+  return hrs > 0
+    ? `${hrs}:${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`
+    : `${mins}:${String(secs).padStart(2, '0')}`;
+}
+
+/** Pace, time, climb and per-mile/km splits of a finished cardio session */
+export function CardioSessionDetail({ session, unit }: CardioSessionDetailProps) {
+  const summary = getCardioSummary(session, unit);
+  const stats = [
+    summary.distance ? { label: 'Distance', value: formatDistance(summary.distance, unit) } : null,
+    summary.pace ? { label: 'Avg pace', value: formatPace(summary.pace, unit) } : null,
+    summary.duration ? { label: 'Time', value: formatClock(summary.duration) } : null,
+    summary.movingTime ? { label: 'Moving', value: formatClock(summary.movingTime) } : null,
+    summary.elevationGain !== undefined ? { label: 'Climb', value: formatElevation(summary.elevationGain, unit) } : null,
+    ...Object.entries(session.metrics ?? {}).map(([metric, value]) => {
+      const { label, unit: metricUnit } = CARDIO_METRIC_LABELS[metric as CardioMetric];
+      return { label, value: metricUnit ? `${value} ${metricUnit}` : String(value) };
+    }),
+  ].filter((stat): stat is { label: string; value: string } => stat !== null);
+
+  // Split pace is per whole mile/km, so a short last split compares fairly
+  const splitPaces = summary.splits.map(split => split.seconds / split.distance);
+  const fastest = Math.min(...splitPaces);
+  const slowest = Math.max(...splitPaces);
+  const toMilesPace = (perUnit: number) => (unit === 'km' ? perUnit * KM_PER_MILE : perUnit);
+
+  return (
+    <div className="space-y-4">
+      {stats.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {stats.map(stat => (
+            <div key={stat.label} className="p-3 rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700">
+              <div className="text-base font-semibold text-slate-900 dark:text-slate-100 tabular-nums">{stat.value}</div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">{stat.label}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {summary.splits.length > 0 ? (
+        <div className="rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 overflow-hidden">
+          <h4 className="px-4 pt-3 pb-2 text-sm font-medium text-slate-600 dark:text-slate-400">
+            Splits per {unit === 'km' ? 'km' : 'mile'}
+          </h4>
+          <div className="divide-y divide-slate-100 dark:divide-slate-700/50">
+            {summary.splits.map((split, i) => {
+              const pace = splitPaces[i];
+              const width = slowest > 0 ? (pace / slowest) * 100 : 0;
+              const climb = unit === 'km' ? split.elevationChange : split.elevationChange * FEET_PER_METER;
+              return (
+                <div key={i} className="flex items-center gap-3 px-4 py-2 text-sm">
+                  <span className="w-10 text-slate-500 dark:text-slate-400 tabular-nums">
+                    {split.distance < 1 ? split.distance.toFixed(2) : i + 1}
+                  </span>
+                  <div className="flex-1 h-2 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${pace === fastest && summary.splits.length > 1 ? 'bg-emerald-500' : 'bg-cyan-500'}`}
+                      style={{ width: `${width}%` }}
+                    />
+                  </div>
+                  <span className="w-20 text-right font-medium text-slate-900 dark:text-slate-100 tabular-nums">
+                    {formatPace(toMilesPace(pace), unit)}
+                  </span>
+                  <span className="w-14 text-right text-xs text-slate-500 dark:text-slate-400 tabular-nums">
+                    {climb >= 0 ? '+' : ''}{Math.round(climb)} {unit === 'km' ? 'm' : 'ft'}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : session.track && (
+        <p className="text-sm text-slate-500 dark:text-slate-400 text-center">
+          Splits and elevation need a GPS track.
+        </p>
+      )}
+    </div>
+  );
+}
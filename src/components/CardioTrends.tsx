@@ -0,0 +1,140 @@
+import { useState, useMemo } from 'react';
+import type { CardioType, DistanceUnit } from '../types';
+import { CARDIO_TYPE_LABELS, CARDIO_TYPE_ICONS } from '../types';
+import { getCardioTrends, getCardioTypesDone } from '../data/cardioStats';
+import { parseLocalDate } from '../utils/dates';
+import { toDisplayDistance, formatDistance, formatPace } from '../utils/units';
+
+interface CardioTrendsProps {
+  unit: DistanceUnit;
+}
+
+function formatShortDate(dateStr: string): string {
+  return parseLocalDate(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+// Pace line: faster (lower) pace plots higher
+function PaceChart({ data, unit }: { data: { date: string; pace: number }[]; unit: DistanceUnit }) {
+  if (data.length < 2) {
+    return (
+      <div className="flex items-center justify-center h-12 text-slate-400 dark:text-slate-500 text-sm">
+        Pace shows after two sessions with a distance
+      </div>
+    );
+  }
+
+  const width = 300;
+  const height = 70;
+  const padding = { top: 6, right: 10, bottom: 16, left: 10 };
+  const chartWidth = width - padding.left - padding.right;
+  const chartHeight = height - padding.top - padding.bottom;
+  const paces = data.map(d => d.pace);
+  const min = Math.min(...paces);
+  const range = Math.max(...paces) - min || 1;
+
+  const x = (i: number) => padding.left + (i / (data.length - 1)) * chartWidth;
+  const y = (pace: number) => padding.top + ((pace - min) / range) * chartHeight;
+  const path = data.map((d, i) => `${i === 0 ? 'M' : 'L'} ${x(i)} ${y(d.pace)}`).join(' ');
+  const change = data[data.length - 1].pace - data[0].pace;
+
+  return (
+    <div className="space-y-1">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+        <path d={path} fill="none" stroke="#06b6d4" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+        {data.map((d, i) => (
+          <circle key={i} cx={x(i)} cy={y(d.pace)} r="3" fill="#06b6d4" className="stroke-white dark:stroke-slate-800" strokeWidth="1.5" />
+        ))}
+        <text x={x(0)} y={height - 3} className="fill-slate-400 dark:fill-slate-500 text-[9px]" textAnchor="start">
+          {formatShortDate(data[0].date)}
+        </text>
+        <text x={x(data.length - 1)} y={height - 3} className="fill-slate-400 dark:fill-slate-500 text-[9px]" textAnchor="end">
+          {formatShortDate(data[data.length - 1].date)}
+        </text>
+      </svg>
+      <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+        <span>
+          Latest: <span className="font-medium text-slate-700 dark:text-slate-300">{formatPace(data[data.length - 1].pace, unit)}</span>
+        </span>
+        <span>
+          Trend:{' '}
+          <span className={`font-medium ${change < 0 ? 'text-emerald-500' : change > 0 ? 'text-amber-500' : 'text-slate-500'}`}>
+            {change < 0 ? 'faster' : change > 0 ? 'slower' : 'steady'}
+          </span>
+        </span>
+      </div>
+    </div>
+  );
+}
+
+/** Weekly distance, pace over time and the longest outing for each cardio type done */
+export function CardioTrends({ unit }: CardioTrendsProps) {
+  const [types] = useState(() => getCardioTypesDone());
+  const [selected, setSelected] = useState<CardioType | undefined>(types[0]);
+  const trends = useMemo(() => (selected ? getCardioTrends(selected) : null), [selected]);
+
+  if (!selected || !trends) return null;
+
+  const maxWeek = Math.max(...trends.weeklyDistance.map(w => w.distance));
+
+  return (
+    <div className="space-y-4">
+      {types.length > 1 && (
+        <div className="flex gap-2 flex-wrap">
+          {types.map(type => (
+            <button
+              key={type}
+              onClick={() => setSelected(type)}
+              className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+                type === selected
+                  ? 'bg-cyan-100 dark:bg-cyan-900/40 text-cyan-700 dark:text-cyan-300'
+                  : 'bg-slate-100 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400'
+              }`}
+            >
+              {CARDIO_TYPE_ICONS[type]} {CARDIO_TYPE_LABELS[type]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Weekly distance */}
+      <div>
+        <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 mb-2">
+          <span>Weekly distance</span>
+          <span>{formatDistance(trends.totalDistance, unit)} all time</span>
+        </div>
+        <div className="flex items-end gap-1.5 h-16">
+          {trends.weeklyDistance.map(week => (
+            <div key={week.weekStart} className="flex-1 h-full flex flex-col justify-end" title={`Week of ${formatShortDate(week.weekStart)}`}>
+              <div
+                className={`rounded-t ${week.distance > 0 ? 'bg-cyan-500' : 'bg-slate-200 dark:bg-slate-700'}`}
+                style={{ height: maxWeek > 0 && week.distance > 0 ? `${Math.max(6, (week.distance / maxWeek) * 100)}%` : '3px' }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] text-slate-400 dark:text-slate-500 mt-1">
+          <span>{formatShortDate(trends.weeklyDistance[0].weekStart)}</span>
+          <span>This week: {toDisplayDistance(trends.weeklyDistance[trends.weeklyDistance.length - 1].distance, unit)} {unit}</span>
+        </div>
+      </div>
+
+      {/* Pace over time */}
+      <div>
+        <div className="text-xs text-slate-500 dark:text-slate-400 mb-1">Average pace</div>
+        <PaceChart data={trends.paceHistory} unit={unit} />
+      </div>
+
+      {trends.longest && (
+        <div className="flex justify-between items-center p-3 rounded-xl bg-slate-50 dark:bg-slate-700/50 text-sm">
+          <span className="text-slate-500 dark:text-slate-400">Longest {CARDIO_TYPE_LABELS[selected].toLowerCase()}</span>
+          <span className="font-semibold text-slate-900 dark:text-slate-100">
+            {formatDistance(trends.longest.distance!, unit)}
+            <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">
+              {new Date(trends.longest.startedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+            </span>
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
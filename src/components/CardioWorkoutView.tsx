@@ -1,20 +1,51 @@
 import { useState, useEffect } from 'react';
-import type { CardioType, EffortLevel } from '../types';
-import { CARDIO_TYPE_LABELS, CARDIO_TYPE_ICONS } from '../types';
+import type { CardioType, CardioMetric, CardioMetrics, EffortLevel, TrackPoint, HeartRateSample } from '../types';
+import { CARDIO_METRIC_LABELS } from '../types';
 import { EffortPicker } from './EffortPicker';
 import { Button } from './Button';
 import { CowCelebration } from './CowCelebration';
+import { HeartRateButton } from './HeartRateButton';
+import { HeartRateSummary } from './HeartRateSummary';
+import { loadUnitPreferences, describeCardio } from '../data/storage';
+import { useGpsTracking } from '../hooks/useGpsTracking';
+import type { HeartRateMonitor } from '../hooks/useHeartRateMonitor';
+import { fromDisplayDistance, toDisplayDistance, formatPace, formatElevation } from '../utils/units';
+import { getTrackStats, supportsGpsTracking, type LocationSource } from '../utils/gps';
 
 interface CardioWorkoutViewProps {
   cardioType: CardioType;
+  customActivityId?: string;
   startedAt: string;
-  onComplete: (effort?: EffortLevel, distance?: number) => void;
+  track?: TrackPoint[];
+  onTrackPoint?: (point: TrackPoint) => void;  // Leave unset to offer no GPS tracking
+  locationSource?: LocationSource;             // Defaults to the device's GPS
+  heartRate?: HeartRateSample[];
+  heartRateMonitor?: HeartRateMonitor;         // Leave unset to offer no heart-rate monitor
+  onComplete: (effort?: EffortLevel, distance?: number, metrics?: CardioMetrics) => void;
   onCancel: () => void;
 }
 
+const ignorePoint = () => {};
+
+type OtherMetric = Exclude<CardioMetric, 'distance'>;
+
+// Typed-in metric values, keeping only the numbers actually entered
+function toMetrics(values: Partial<Record<OtherMetric, string>>): CardioMetrics | undefined {
+  const entries = Object.entries(values)
+    .map(([metric, value]) => [metric, parseFloat(value ?? '')] as const)
+    .filter(([, value]) => Number.isFinite(value) && value > 0);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
 export function CardioWorkoutView({
   cardioType,
+  customActivityId,
   startedAt,
+  track = [],
+  onTrackPoint,
+  locationSource,
+  heartRate = [],
+  heartRateMonitor,
   onComplete,
   onCancel,
 }: CardioWorkoutViewProps) {
@@ -22,8 +53,18 @@ export function CardioWorkoutView({
   const [showComplete, setShowComplete] = useState(false);
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
   const [distance, setDistance] = useState('');
+  const [metricValues, setMetricValues] = useState<Partial<Record<OtherMetric, string>>>({});
   const [finalEffort, setFinalEffort] = useState<EffortLevel | undefined>();
   const [showCowCelebration, setShowCowCelebration] = useState(false);
+  const distanceUnit = loadUnitPreferences().distance;
+  const [activity] = useState(() => describeCardio(cardioType, customActivityId));
+  const otherMetrics = activity.metrics.filter((m): m is OtherMetric => m !== 'distance');
+
+  // A session that was tracking before a reload carries on tracking
+  const canTrack = !!onTrackPoint && supportsGpsTracking(cardioType);
+  const [gpsEnabled, setGpsEnabled] = useState(() => canTrack && track.length > 0);
+  const gps = useGpsTracking(gpsEnabled && !showComplete, onTrackPoint ?? ignorePoint, locationSource);
+  const stats = getTrackStats(track, new Date(startedAt).getTime() + elapsedTime * 1000);
 
   // Track elapsed time
   useEffect(() => {
@@ -53,12 +94,25 @@ export function CardioWorkoutView({
     return `${mins} min`;
   };
 
+  // The tracked distance goes in as the answer; it can still be corrected
+  const handleFinish = () => {
+    if (track.length > 1 && !distance) {
+      setDistance(String(toDisplayDistance(stats.distance, distanceUnit)));
+    }
+    setShowComplete(true);
+  };
+
+  const gpsStatus = gps.status === 'error' ? { text: gps.error, color: 'bg-red-500' }
+    : gps.status === 'waiting' ? { text: 'Waiting for GPS...', color: 'bg-amber-500' }
+    : gps.status === 'tracking' && stats.paused ? { text: 'Auto-paused', color: 'bg-amber-500' }
+    : null;
+
   // Show cancel confirmation
   if (showCancelConfirm) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center px-4 pb-24 bg-slate-100 dark:bg-slate-950">
         <div className="text-center max-w-sm p-6 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-sm dark:shadow-none">
-          <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-200 mb-2">End {CARDIO_TYPE_LABELS[cardioType]}?</h2>
+          <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-200 mb-2">End {activity.label}?</h2>
           <p className="text-slate-500 dark:text-slate-400 mb-6">
             Your {formatDuration(elapsedTime)} session will not be saved.
           </p>
@@ -85,29 +139,62 @@ export function CardioWorkoutView({
         )}
 
         <div className="flex-1 flex flex-col items-center justify-center text-center">
-          <div className="text-5xl mb-4">{CARDIO_TYPE_ICONS[cardioType]}</div>
+          <div className="text-5xl mb-4">{activity.icon}</div>
           <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100 mb-2">
-            {CARDIO_TYPE_LABELS[cardioType]} Complete!
+            {activity.label} Complete!
           </h2>
           <p className="text-slate-500 dark:text-slate-400 mb-8">
             {formatDuration(elapsedTime)}
+            {track.length > 1 && ` (${formatDuration(stats.movingTime)} moving)`}
           </p>
 
           {/* Distance Input */}
-          <div className="w-full max-w-sm mb-6">
-            <label className="block text-sm text-slate-600 dark:text-slate-400 mb-2 text-center">
-              Distance (miles) - optional
-            </label>
-            <input
-              type="number"
-              inputMode="decimal"
-              step="0.1"
-              value={distance}
-              onChange={(e) => setDistance(e.target.value)}
-              placeholder="0.0"
-              className="w-full px-4 py-3 text-center text-2xl font-semibold rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-900 dark:text-slate-100 placeholder-slate-300 dark:placeholder-slate-600 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
-            />
-          </div>
+          {(activity.metrics.includes('distance') || track.length > 1) && (
+            <div className="w-full max-w-sm mb-6">
+              <label className="block text-sm text-slate-600 dark:text-slate-400 mb-2 text-center">
+                Distance ({distanceUnit === 'km' ? 'km' : 'miles'}) - {track.length > 1 ? 'from GPS' : 'optional'}
+              </label>
+              <input
+                type="number"
+                inputMode="decimal"
+                step="0.1"
+                value={distance}
+                onChange={(e) => setDistance(e.target.value)}
+                placeholder="0.0"
+                className="w-full px-4 py-3 text-center text-2xl font-semibold rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-900 dark:text-slate-100 placeholder-slate-300 dark:placeholder-slate-600 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+              />
+            </div>
+          )}
+
+          {/* Other metrics (meters, calories...) */}
+          {otherMetrics.length > 0 && (
+            <div className="w-full max-w-sm mb-6 grid grid-cols-2 gap-3">
+              {otherMetrics.map(metric => {
+                const { label, unit } = CARDIO_METRIC_LABELS[metric];
+                return (
+                  <div key={metric}>
+                    <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1 text-center">
+                      {label}{unit && ` (${unit})`}
+                    </label>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      value={metricValues[metric] ?? ''}
+                      onChange={(e) => setMetricValues(prev => ({ ...prev, [metric]: e.target.value }))}
+                      placeholder="0"
+                      className="w-full px-3 py-2 text-center text-lg font-semibold rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-900 dark:text-slate-100 placeholder-slate-300 dark:placeholder-slate-600 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {heartRate.length > 0 && (
+            <div className="w-full max-w-sm mb-6">
+              <HeartRateSummary samples={heartRate} />
+            </div>
+          )}
 
           {/* Effort Picker */}
           <div className="w-full max-w-sm">
@@ -124,12 +211,12 @@ export function CardioWorkoutView({
             size="lg"
             onClick={() => {
               setShowCowCelebration(true);
-              const distanceNum = distance ? parseFloat(distance) : undefined;
-              setTimeout(() => onComplete(finalEffort, distanceNum), 3000);
+              const distanceNum = distance ? fromDisplayDistance(parseFloat(distance), distanceUnit) : undefined;
+              setTimeout(() => onComplete(finalEffort, distanceNum, toMetrics(metricValues)), 3000);
             }}
             className="w-full"
           >
-            Save {CARDIO_TYPE_LABELS[cardioType]}
+            Save {activity.label}
           </Button>
         </div>
       </div>
@@ -152,7 +239,7 @@ export function CardioWorkoutView({
           </button>
           <img src="/logo_icon.png" alt="Moove" className="h-8 dark:invert" />
           <button
-            onClick={() => setShowComplete(true)}
+            onClick={handleFinish}
             className="px-3 py-1.5 text-emerald-600 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 rounded-lg text-sm font-medium"
           >
             Finish
@@ -163,20 +250,58 @@ export function CardioWorkoutView({
       {/* Main Content */}
       <div className="flex-1 flex flex-col items-center justify-center px-4">
         {/* Cardio Type */}
-        <div className="text-6xl mb-4">{CARDIO_TYPE_ICONS[cardioType]}</div>
+        <div className="text-6xl mb-4">{activity.icon}</div>
         <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100 mb-8">
-          {CARDIO_TYPE_LABELS[cardioType]}
+          {activity.label}
         </h1>
 
         {/* Large Timer */}
-        <div className="text-7xl font-bold text-emerald-600 dark:text-emerald-400 tabular-nums mb-12">
+        <div className={`text-7xl font-bold text-emerald-600 dark:text-emerald-400 tabular-nums ${gpsEnabled ? 'mb-6' : 'mb-12'}`}>
           {formatElapsedTime(elapsedTime)}
         </div>
 
+        {/* GPS Stats */}
+        {gpsEnabled && (
+          <div className="grid grid-cols-3 gap-3 w-full max-w-sm mb-8">
+            {[
+              { label: 'Distance', value: `${toDisplayDistance(stats.distance, distanceUnit).toFixed(2)} ${distanceUnit}` },
+              { label: 'Pace', value: stats.pace ? formatPace(stats.pace, distanceUnit) : '--' },
+              { label: 'Moving', value: formatElapsedTime(stats.movingTime) },
+            ].map(stat => (
+              <div key={stat.label} className="p-3 rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 text-center">
+                <div className="text-lg font-semibold text-slate-900 dark:text-slate-100 tabular-nums">{stat.value}</div>
+                <div className="text-xs text-slate-500 dark:text-slate-400">{stat.label}</div>
+              </div>
+            ))}
+            {stats.elevationGain > 0 && (
+              <div className="col-span-3 text-center text-sm text-slate-500 dark:text-slate-400">
+                {formatElevation(stats.elevationGain, distanceUnit)} climbed
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Status */}
         <div className="flex items-center gap-2 text-slate-500 dark:text-slate-400">
-          <div className="w-3 h-3 rounded-full bg-emerald-500 animate-pulse" />
-          <span className="text-lg">In Progress</span>
+          <div className={`w-3 h-3 rounded-full ${gpsStatus?.color ?? 'bg-emerald-500'} animate-pulse`} />
+          <span className="text-lg">{gpsStatus?.text ?? 'In Progress'}</span>
+        </div>
+
+        <div className="mt-6 flex items-center gap-3">
+          {/* GPS Toggle */}
+          {canTrack && (
+            <button
+              onClick={() => setGpsEnabled(!gpsEnabled)}
+              className={`px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                gpsEnabled
+                  ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400'
+                  : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-400 hover:border-slate-300 dark:hover:border-slate-600'
+              }`}
+            >
+              {gpsEnabled ? 'GPS tracking on' : 'Track with GPS'}
+            </button>
+          )}
+          {heartRateMonitor && <HeartRateButton monitor={heartRateMonitor} />}
         </div>
       </div>
 
@@ -185,10 +310,10 @@ export function CardioWorkoutView({
         <Button
           variant="primary"
           size="lg"
-          onClick={() => setShowComplete(true)}
+          onClick={handleFinish}
           className="w-full"
         >
-          Finish {CARDIO_TYPE_LABELS[cardioType]}
+          Finish {activity.label}
         </Button>
       </div>
     </div>
@@ -4,8 +4,10 @@ import {
   getClaudeApiKey,
   loadChatHistory,
   saveChatHistory,
+  loadUnitPreferences,
   type ChatMessage,
 } from '../data/storage';
+import { fromDisplayWeight } from '../utils/units';
 import { useExercises } from '../contexts/ExerciseContext';
 import { Button } from './Button';
 
@@ -32,10 +34,12 @@ When the user wants to add an exercise, respond with a JSON block that I can par
 Rules for exercise JSON:
 - "area" must be one of: squat, hinge, press, push, pull, core, conditioning, warmup, cooldown, full-body
 - "equipment" must be one of: bodyweight, dumbbell, kettlebell, barbell, sandbag, machine, cable, band
-- Use defaultWeight (in lbs) and defaultReps for strength exercises
+- Use defaultWeight (in {{WEIGHT_UNIT}}) and defaultReps for strength exercises
 - Use defaultDuration (in seconds) for timed exercises like planks
 - Set unused fields to null
 
+The user measures weight in {{WEIGHT_UNIT}} and distance in {{DISTANCE_UNIT}}. Use these units in your answers.
+
 Current custom exercises in the user's library:
 {{CUSTOM_EXERCISES}}
 
@@ -64,7 +68,11 @@ export function ClaudeChat() {
     const exerciseList = customExercises.length > 0
       ? customExercises.map(e => `- ${e.name} (${e.area}, ${e.equipment})`).join('\n')
       : 'None yet';
-    return SYSTEM_PROMPT.replace('{{CUSTOM_EXERCISES}}', exerciseList);
+    const units = loadUnitPreferences();
+    return SYSTEM_PROMPT
+      .replace('{{CUSTOM_EXERCISES}}', exerciseList)
+      .replace(/\{\{WEIGHT_UNIT\}\}/g, units.weight)
+      .replace('{{DISTANCE_UNIT}}', units.distance === 'km' ? 'kilometers' : 'miles');
   };
 
   const parseExercisesFromResponse = (content: string): Exercise[] => {
@@ -97,7 +105,8 @@ export function ClaudeChat() {
           name: exerciseData.name,
           area: exerciseData.area,
           equipment: exerciseData.equipment,
-          defaultWeight: exerciseData.defaultWeight || undefined,
+          // The prompt asks for the user's unit; store pounds
+          defaultWeight: exerciseData.defaultWeight ? fromDisplayWeight(exerciseData.defaultWeight, loadUnitPreferences().weight) : undefined,
           defaultReps: exerciseData.defaultReps || undefined,
           defaultDuration: exerciseData.defaultDuration || undefined,
           description: exerciseData.description || undefined,
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import type { CardioMetric, CustomCardioActivity } from '../types';
+import { CARDIO_METRIC_LABELS } from '../types';
+import { generateUUID } from '../utils/uuid';
+import { Button } from './Button';
+
+const ICON_CHOICES = ['⭐', '🏸', '🎾', '⛹️', '🧗', '🛶', '🏄', '⛸️', '🛹', '🥊', '💃', '🧘', '🚵', '🏌️', '⚽', '🔥'];
+
+const METRICS = Object.keys(CARDIO_METRIC_LABELS) as CardioMetric[];
+
+interface CustomCardioEditorProps {
+  activity?: CustomCardioActivity;   // If provided, edit this activity
+  onSave: (activity: CustomCardioActivity) => void;
+  onDelete?: (id: string) => void;
+  onCancel: () => void;
+}
+
+/** Create or edit a custom cardio activity: its name, icon and what it records */
+export function CustomCardioEditor({ activity, onSave, onDelete, onCancel }: CustomCardioEditorProps) {
+  const [name, setName] = useState(activity?.name ?? '');
+  const [icon, setIcon] = useState(activity?.icon ?? ICON_CHOICES[0]);
+  const [metrics, setMetrics] = useState<CardioMetric[]>(activity?.metrics ?? []);
+
+  const toggleMetric = (metric: CardioMetric) => {
+    // Kept in the canonical order so the finish screen always lists them the same way
+    setMetrics(prev => METRICS.filter(m => (m === metric ? !prev.includes(m) : prev.includes(m))));
+  };
+
+  const handleSave = () => {
+    onSave({ id: activity?.id ?? generateUUID(), name: name.trim(), icon, metrics });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50" onClick={onCancel}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 max-w-sm w-full shadow-xl" onClick={e => e.stopPropagation()}>
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
+          {activity ? 'Edit Activity' : 'New Activity'}
+        </h3>
+
+        <label className="block text-sm font-medium text-slate-600 dark:text-slate-400 mb-2">Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="e.g. Stair Climber"
+          className="w-full px-3 py-2 mb-4 rounded-lg bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-slate-900 dark:text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+        />
+
+        <label className="block text-sm font-medium text-slate-600 dark:text-slate-400 mb-2">Icon</label>
+        <div className="grid grid-cols-8 gap-1 mb-4">
+          {ICON_CHOICES.map(choice => (
+            <button
+              key={choice}
+              onClick={() => setIcon(choice)}
+              className={`aspect-square rounded-lg text-xl flex items-center justify-center ${
+                icon === choice ? 'bg-emerald-100 dark:bg-emerald-900/40 ring-2 ring-emerald-500' : 'hover:bg-slate-100 dark:hover:bg-slate-700'
+              }`}
+            >
+              {choice}
+            </button>
+          ))}
+        </div>
+
+        <label className="block text-sm font-medium text-slate-600 dark:text-slate-400 mb-2">Record at the end</label>
+        <div className="flex flex-wrap gap-2 mb-6">
+          {METRICS.map(metric => (
+            <button
+              key={metric}
+              onClick={() => toggleMetric(metric)}
+              className={`px-3 py-1.5 rounded-lg border text-sm font-medium transition-colors ${
+                metrics.includes(metric)
+                  ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400'
+                  : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-400'
+              }`}
+            >
+              {CARDIO_METRIC_LABELS[metric].label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Button onClick={handleSave} disabled={!name.trim()} className="w-full">
+            Save
+          </Button>
+          {activity && onDelete && (
+            <Button
+              variant="ghost"
+              onClick={() => onDelete(activity.id)}
+              className="w-full text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+            >
+              Delete Activity
+            </Button>
+          )}
+          <Button variant="secondary" onClick={onCancel} className="w-full">
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import type { EquipmentInventory, WeightUnit } from '../types';
+import { toDisplayWeight, fromDisplayWeight } from '../utils/units';
+
+interface EquipmentInventoryEditorProps {
+  inventory: EquipmentInventory;
+  unit: WeightUnit;
+  onChange: (inventory: EquipmentInventory) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-sm text-slate-900 dark:text-slate-100 placeholder-slate-400 dark:placeholder-slate-500 focus:outline-none focus:border-emerald-500';
+const labelClass = 'text-xs font-medium text-slate-500 dark:text-slate-400 mb-1.5';
+const addButtonClass = 'px-3 py-2 rounded-lg text-sm font-medium bg-emerald-600 hover:bg-emerald-500 text-white disabled:opacity-40 disabled:cursor-not-allowed';
+
+/** A list of single weights (kettlebells, sandbags) edited as removable chips */
+function WeightList({ weights, unit, onChange }: {
+  weights: number[];
+  unit: WeightUnit;
+  onChange: (weights: number[]) => void;
+}) {
+  const [draft, setDraft] = useState('');
+  const value = Number(draft);
+
+  const add = () => {
+    if (!(value > 0)) return;
+    onChange([...weights, fromDisplayWeight(value, unit)].sort((a, b) => a - b));
+    setDraft('');
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-1.5 mb-2">
+        {weights.length === 0 && <span className="text-xs text-slate-400 dark:text-slate-500">None</span>}
+        {weights.map((weight, idx) => (
+          <span key={idx} className="inline-flex items-center gap-1 pl-2.5 pr-1 py-1 rounded-full bg-slate-100 dark:bg-slate-700 text-sm text-slate-700 dark:text-slate-200 tabular-nums">
+            {toDisplayWeight(weight, unit)} {unit}
+            <button
+              onClick={() => onChange(weights.filter((_, i) => i !== idx))}
+              className="text-slate-400 hover:text-red-500 dark:hover:text-red-400"
+              title="Remove"
+            >
+              <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>close</span>
+            </button>
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          inputMode="decimal"
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && add()}
+          placeholder={`Add size (${unit})`}
+          className={inputClass}
+        />
+        <button onClick={add} disabled={!(value > 0)} className={addButtonClass}>Add</button>
+      </div>
+    </div>
+  );
+}
+
+/** Edit owned kettlebells, dumbbell rack, barbell and plates, sandbags and bands */
+export function EquipmentInventoryEditor({ inventory, unit, onChange }: EquipmentInventoryEditorProps) {
+  const [plateDraft, setPlateDraft] = useState('');
+  const [bandLabel, setBandLabel] = useState('');
+  const [bandResistance, setBandResistance] = useState('');
+
+  const update = (changes: Partial<EquipmentInventory>) => onChange({ ...inventory, ...changes });
+  const display = (lb: number) => toDisplayWeight(lb, unit);
+  const parse = (value: string) => (value ? fromDisplayWeight(Number(value), unit) : 0);
+
+  const { dumbbells, barbell } = inventory;
+  const plateValue = Number(plateDraft);
+  const bandValue = Number(bandResistance);
+
+  const addPlate = () => {
+    if (!(plateValue > 0)) return;
+    const weight = fromDisplayWeight(plateValue, unit);
+    const existing = barbell.plates.find(p => Math.abs(p.weight - weight) < 0.05);
+    const plates = existing
+      ? barbell.plates.map(p => (p === existing ? { ...p, count: p.count + 2 } : p))
+      : [...barbell.plates, { weight, count: 2 }].sort((a, b) => b.weight - a.weight);
+    update({ barbell: { ...barbell, plates } });
+    setPlateDraft('');
+  };
+
+  const addBand = () => {
+    if (!bandLabel.trim() || !(bandValue > 0)) return;
+    const bands = [...inventory.bands, { label: bandLabel.trim(), resistance: fromDisplayWeight(bandValue, unit) }]
+      .sort((a, b) => a.resistance - b.resistance);
+    update({ bands });
+    setBandLabel('');
+    setBandResistance('');
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* Kettlebells */}
+      <div>
+        <div className={labelClass}>Kettlebells</div>
+        <WeightList weights={inventory.kettlebells} unit={unit} onChange={kettlebells => update({ kettlebells })} />
+      </div>
+
+      {/* Dumbbells */}
+      <div>
+        <div className={labelClass}>Dumbbells</div>
+        <div className="grid grid-cols-3 gap-2">
+          {(['min', 'max', 'step'] as const).map(key => (
+            <label key={key} className="block">
+              <span className="text-[11px] text-slate-400 dark:text-slate-500 capitalize">{key} ({unit})</span>
+              <input
+                type="number"
+                inputMode="decimal"
+                value={display(dumbbells[key]) || ''}
+                onChange={e => update({ dumbbells: { ...dumbbells, [key]: parse(e.target.value) } })}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Barbell + plates */}
+      <div>
+        <div className={labelClass}>Barbell</div>
+        <label className="block mb-2">
+          <span className="text-[11px] text-slate-400 dark:text-slate-500">Bar ({unit})</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            value={display(barbell.bar) || ''}
+            onChange={e => update({ barbell: { ...barbell, bar: parse(e.target.value) } })}
+            className={inputClass}
+          />
+        </label>
+        <div className="space-y-1.5 mb-2">
+          {barbell.plates.map((plate, idx) => (
+            <div key={idx} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 text-slate-700 dark:text-slate-200 tabular-nums">{display(plate.weight)} {unit} plates</span>
+              <button
+                onClick={() => update({ barbell: { ...barbell, plates: barbell.plates.map((p, i) => (i === idx ? { ...p, count: Math.max(0, p.count - 1) } : p)) } })}
+                className="w-7 h-7 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300"
+              >
+                −
+              </button>
+              <span className="w-6 text-center tabular-nums text-slate-700 dark:text-slate-200">{plate.count}</span>
+              <button
+                onClick={() => update({ barbell: { ...barbell, plates: barbell.plates.map((p, i) => (i === idx ? { ...p, count: p.count + 1 } : p)) } })}
+                className="w-7 h-7 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300"
+              >
+                +
+              </button>
+              <button
+                onClick={() => update({ barbell: { ...barbell, plates: barbell.plates.filter((_, i) => i !== idx) } })}
+                className="text-slate-300 dark:text-slate-600 hover:text-red-500 dark:hover:text-red-400"
+                title="Remove"
+              >
+                <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>close</span>
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            inputMode="decimal"
+            value={plateDraft}
+            onChange={e => setPlateDraft(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && addPlate()}
+            placeholder={`Add a pair of plates (${unit})`}
+            className={inputClass}
+          />
+          <button onClick={addPlate} disabled={!(plateValue > 0)} className={addButtonClass}>Add</button>
+        </div>
+      </div>
+
+      {/* Sandbags */}
+      <div>
+        <div className={labelClass}>Sandbags</div>
+        <WeightList weights={inventory.sandbags} unit={unit} onChange={sandbags => update({ sandbags })} />
+      </div>
+
+      {/* Bands */}
+      <div>
+        <div className={labelClass}>Resistance bands</div>
+        <div className="space-y-1.5 mb-2">
+          {inventory.bands.length === 0 && <span className="text-xs text-slate-400 dark:text-slate-500">None</span>}
+          {inventory.bands.map((band, idx) => (
+            <div key={idx} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 text-slate-700 dark:text-slate-200">{band.label}</span>
+              <span className="text-slate-500 dark:text-slate-400 tabular-nums">{display(band.resistance)} {unit}</span>
+              <button
+                onClick={() => update({ bands: inventory.bands.filter((_, i) => i !== idx) })}
+                className="text-slate-300 dark:text-slate-600 hover:text-red-500 dark:hover:text-red-400"
+                title="Remove"
+              >
+                <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>close</span>
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={bandLabel}
+            onChange={e => setBandLabel(e.target.value)}
+            placeholder="Band name"
+            className={inputClass}
+          />
+          <input
+            type="number"
+            inputMode="decimal"
+            value={bandResistance}
+            onChange={e => setBandResistance(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && addBand()}
+            placeholder={unit}
+            className={`${inputClass} max-w-[5rem]`}
+          />
+          <button onClick={addBand} disabled={!bandLabel.trim() || !(bandValue > 0)} className={addButtonClass}>Add</button>
+        </div>
+      </div>
+    </div>
+  );
+}
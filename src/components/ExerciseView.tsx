@@ -1,20 +1,41 @@
 import { useState, useEffect } from 'react';
-import type { WorkoutExercise } from '../types';
+import type { WorkoutExercise, SetLog, SetType, EffortLevel, TimerState } from '../types';
+import { SET_TYPE_LABELS } from '../types';
 import { getExerciseById, getAlternatives } from '../data/exercises';
-import { getLastWeekAverages, getDefaultWeightForEquipment } from '../data/storage';
+import { suggestNextSet, getOverloadStrategy, type OverloadSuggestion } from '../data/overload';
+import { loadUnitPreferences, loadEquipmentInventory } from '../data/storage';
+import { calculatePlates, getBandForResistance } from '../data/equipment';
+import { toDisplayWeight, fromDisplayWeight, formatWeight } from '../utils/units';
 import { fetchExerciseGif } from '../utils/exerciseGifs';
+import { createTimer, startTimer } from '../utils/timer';
 import { Timer } from './Timer';
 
+/** A set being edited, weight in the user's unit (reps can be 'AMRAP' until a number is entered) */
+interface SetDraft {
+  type: SetType;
+  weight?: number;
+  reps?: number | 'AMRAP';
+  rpe?: EffortLevel;
+}
+
+/** Tap the set badge to cycle through set types */
+const SET_TYPE_ORDER: SetType[] = ['working', 'warmup', 'drop', 'failure'];
+const SET_TYPE_BADGES: Record<Exclude<SetType, 'working'>, string> = {
+  warmup: 'W',
+  drop: 'D',
+  failure: 'F',
+};
+
 interface ExerciseViewProps {
   workoutExercise: WorkoutExercise;
   onComplete: (log: {
     exerciseId: string;
-    weight?: number;
-    reps?: number;
-    duration?: number;
+    sets: SetLog[];
   }) => void;
   onSkip: () => void;
   onSwapExercise: (newExerciseId: string) => void;
+  timer?: TimerState;            // Stopwatch, while it's open
+  onTimerChange: (timer: TimerState | undefined) => void;
   onBack?: () => void;
   canGoBack?: boolean;
   compact?: boolean;
@@ -25,39 +46,37 @@ export function ExerciseView({
   onComplete,
   onSkip,
   onSwapExercise,
+  timer,
+  onTimerChange,
   onBack,
   canGoBack = false,
   compact = false,
 }: ExerciseViewProps) {
   const exercise = getExerciseById(workoutExercise.exerciseId);
-  const lastWeekAvg = exercise ? getLastWeekAverages(exercise.id) : null;
-
-  // Weight priority: explicit workout value > last week avg > equipment default > exercise default
-  const getInitialWeight = (): number | undefined => {
-    if (workoutExercise.weight) return workoutExercise.weight;
-    if (lastWeekAvg?.avgWeight && lastWeekAvg.avgWeight > 0) return lastWeekAvg.avgWeight;
-    if (exercise) return getDefaultWeightForEquipment(exercise.equipment) ?? exercise.defaultWeight;
-    return undefined;
-  };
+  const weightUnit = loadUnitPreferences().weight;
 
-  // Reps priority: explicit workout value > last week avg > exercise default
-  const getInitialReps = (): number | string | undefined => {
-    if (workoutExercise.reps) return workoutExercise.reps;
-    if (lastWeekAvg?.avgReps && lastWeekAvg.avgReps > 0) return lastWeekAvg.avgReps;
-    return exercise?.defaultReps;
-  };
+  const getInitialSets = (next: OverloadSuggestion | null): SetDraft[] => [
+    { type: 'working', weight: next?.weight ? toDisplayWeight(next.weight, weightUnit) : undefined, reps: next?.reps },
+  ];
 
-  const [weight, setWeight] = useState<number | undefined>(getInitialWeight);
-  const [reps, setReps] = useState<number | string | undefined>(getInitialReps);
-  const [showTimer, setShowTimer] = useState(false);
+  const [suggestion, setSuggestion] = useState<OverloadSuggestion | null>(null);
+  const [sets, setSets] = useState<SetDraft[]>(() => getInitialSets(null));
   const [gifUrl, setGifUrl] = useState<string | null>(null);
   const [gifLoading, setGifLoading] = useState(true);
 
-  // Reset state when exercise changes - fixes the weight/reps auto-apply bug
+  // Reset state when exercise changes - fixes the weight/reps auto-apply bug.
+  // Suggested from history by the progression strategy (workout/equipment defaults on first use).
   useEffect(() => {
-    setWeight(getInitialWeight());
-    setReps(getInitialReps());
-    setShowTimer(false);
+    if (!exercise) return;
+    let stale = false;
+    suggestNextSet(exercise, workoutExercise).then(next => {
+      if (stale) return;
+      setSuggestion(next);
+      setSets(getInitialSets(next));
+    });
+    return () => {
+      stale = true;
+    };
   }, [workoutExercise.exerciseId]);
 
   // Fetch exercise GIF
@@ -78,15 +97,64 @@ export function ExerciseView({
   const alternatives = getAlternatives(exercise.id);
   const duration = workoutExercise.duration ?? exercise.defaultDuration;
 
+  const isBodyweight = exercise.equipment === 'bodyweight';
+
+  const updateSet = (index: number, changes: Partial<SetDraft>) => {
+    setSets(prev => prev.map((set, i) => (i === index ? { ...set, ...changes } : set)));
+  };
+
+  const cycleSetType = (index: number) => {
+    const current = SET_TYPE_ORDER.indexOf(sets[index].type);
+    updateSet(index, { type: SET_TYPE_ORDER[(current + 1) % SET_TYPE_ORDER.length] });
+  };
+
+  // New sets copy the previous one, so "3x8 at 50lb" is two taps
+  const addSet = () => {
+    setSets(prev => {
+      const last = prev[prev.length - 1];
+      return [...prev, { ...last, type: last.type === 'warmup' ? 'working' : last.type }];
+    });
+  };
+
+  const removeSet = (index: number) => {
+    setSets(prev => prev.filter((_, i) => i !== index));
+  };
+
   const handleComplete = () => {
     onComplete({
       exerciseId: exercise.id,
-      weight,
-      reps: typeof reps === 'number' ? reps : undefined,
-      duration,
+      sets: sets.map(set => ({
+        type: set.type,
+        weight: isBodyweight || !set.weight ? undefined : fromDisplayWeight(set.weight, weightUnit),
+        reps: duration || typeof set.reps !== 'number' ? undefined : set.reps,
+        duration,
+        rpe: set.rpe,
+      })),
     });
   };
 
+  // How to build the heaviest set: plates per side for a barbell, which band to grab
+  const heaviest = Math.max(0, ...sets.filter(set => set.type !== 'warmup').map(set => set.weight ?? 0));
+  const getLoadHint = (): string | null => {
+    if (!heaviest) return null;
+    const lb = fromDisplayWeight(heaviest, weightUnit);
+    if (exercise.equipment === 'barbell') {
+      const load = calculatePlates(lb);
+      if (!load) return `Lighter than the ${formatWeight(loadEquipmentInventory().barbell.bar, weightUnit)} bar`;
+      const plates = load.perSide.length > 0
+        ? load.perSide.map(w => toDisplayWeight(w, weightUnit)).join(' + ')
+        : 'no plates';
+      const short = Math.abs(load.total - lb) >= 0.05 ? ` (makes ${formatWeight(load.total, weightUnit)})` : '';
+      return `Per side: ${plates}${short}`;
+    }
+    if (exercise.equipment === 'resistance-band') {
+      const band = getBandForResistance(lb);
+      return band ? `${band.label} band` : null;
+    }
+    return null;
+  };
+  const loadHint = getLoadHint();
+
   const equipmentLabel = exercise.equipment.charAt(0).toUpperCase() + exercise.equipment.slice(1);
   const areaLabel = exercise.area.charAt(0).toUpperCase() + exercise.area.slice(1);
 
@@ -117,9 +185,9 @@ export function ExerciseView({
         {/* Middle section - inputs and info */}
         <div>
           {/* Timer - Collapsible */}
-          {showTimer && (
+          {timer && (
             <div className={compact ? 'mb-3' : 'mb-6'}>
-              <Timer autoStart={true} />
+              <Timer timer={timer} onChange={onTimerChange} />
             </div>
           )}
 
@@ -130,60 +198,121 @@ export function ExerciseView({
             </p>
           </div>
 
-          {/* Weight & Reps Input */}
-          <div className="grid grid-cols-2 gap-3">
-            {/* Weight Field */}
-            <div className={`flex items-center gap-2 px-3 ${compact ? 'py-2.5' : 'py-2.5'} rounded-lg border border-slate-200 dark:border-slate-700 ${
-              exercise.equipment === 'bodyweight'
-                ? 'bg-slate-50 dark:bg-slate-800/50'
-                : 'bg-white dark:bg-slate-800'
-            }`}>
-              <span className="material-symbols-outlined text-slate-400 flex-shrink-0" style={{ fontSize: '18px' }}>weight</span>
-              <span className="text-xs text-slate-400 dark:text-slate-500 uppercase tracking-wide flex-shrink-0">Weight</span>
-              {exercise.equipment === 'bodyweight' ? (
-                <span className="flex-1 text-right text-slate-500 dark:text-slate-400 font-medium">BW</span>
-              ) : (
-                <>
-                  <input
-                    type="number"
-                    value={weight || ''}
-                    onChange={e => setWeight(e.target.value ? Number(e.target.value) : undefined)}
-                    className="flex-1 min-w-0 bg-transparent text-slate-900 dark:text-slate-100 text-lg font-semibold text-right focus:outline-none"
-                    placeholder="—"
-                  />
-                  <span className="text-xs text-slate-400 flex-shrink-0">lb</span>
-                </>
-              )}
+          {/* Sets - one row per set */}
+          <div className={`space-y-2 ${compact ? 'max-h-40' : 'max-h-64'} overflow-y-auto`}>
+            <div className="grid grid-cols-[2.5rem_1fr_1fr_4rem_1.5rem] gap-2 px-1 text-[10px] text-slate-400 dark:text-slate-500 uppercase tracking-wide">
+              <span>Set</span>
+              <span className="text-right">Weight</span>
+              <span className="text-right">{duration ? 'Time' : 'Reps'}</span>
+              <span className="text-center">RPE</span>
+              <span />
             </div>
+            {sets.map((set, idx) => {
+              const workingNumber = sets.slice(0, idx + 1).filter(s => s.type !== 'warmup').length;
+              return (
+                <div key={idx} className="grid grid-cols-[2.5rem_1fr_1fr_4rem_1.5rem] gap-2 items-center">
+                  <button
+                    onClick={() => cycleSetType(idx)}
+                    title={SET_TYPE_LABELS[set.type]}
+                    className={`${compact ? 'py-2' : 'py-2.5'} rounded-lg text-sm font-semibold transition-colors ${
+                      set.type === 'working'
+                        ? 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200'
+                        : set.type === 'warmup'
+                          ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400'
+                          : 'bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400'
+                    }`}
+                  >
+                    {set.type === 'working' ? workingNumber : SET_TYPE_BADGES[set.type]}
+                  </button>
 
-            {/* Reps/Duration Field */}
-            <div className={`flex items-center gap-2 px-3 ${compact ? 'py-2.5' : 'py-2.5'} rounded-lg border border-slate-200 dark:border-slate-700 ${
-              duration
-                ? 'bg-slate-50 dark:bg-slate-800/50'
-                : 'bg-white dark:bg-slate-800'
-            }`}>
-              <span className="material-symbols-outlined text-slate-400 flex-shrink-0" style={{ fontSize: '18px' }}>{duration ? 'schedule' : 'tag'}</span>
-              <span className="text-xs text-slate-400 dark:text-slate-500 uppercase tracking-wide flex-shrink-0">{duration ? 'Time' : 'Reps'}</span>
-              {duration ? (
-                <span className="flex-1 text-right text-slate-500 dark:text-slate-400 font-medium">{duration}s</span>
-              ) : (
-                <input
-                  type={reps === 'AMRAP' ? 'text' : 'number'}
-                  value={reps === 'AMRAP' ? 'AMRAP' : reps || ''}
-                  onChange={e => {
-                    const val = e.target.value;
-                    if (val.toUpperCase() === 'AMRAP') {
-                      setReps('AMRAP');
-                    } else {
-                      setReps(val ? Number(val) : undefined);
-                    }
-                  }}
-                  className="flex-1 min-w-0 bg-transparent text-slate-900 dark:text-slate-100 text-lg font-semibold text-right focus:outline-none"
-                  placeholder="—"
-                />
-              )}
-            </div>
+                  {/* Weight */}
+                  <div className={`flex items-center gap-1 px-2 ${compact ? 'py-2' : 'py-2.5'} rounded-lg border border-slate-200 dark:border-slate-700 ${
+                    isBodyweight ? 'bg-slate-50 dark:bg-slate-800/50' : 'bg-white dark:bg-slate-800'
+                  }`}>
+                    {isBodyweight ? (
+                      <span className="flex-1 text-right text-slate-500 dark:text-slate-400 font-medium">BW</span>
+                    ) : (
+                      <>
+                        <input
+                          type="number"
+                          value={set.weight || ''}
+                          onChange={e => updateSet(idx, { weight: e.target.value ? Number(e.target.value) : undefined })}
+                          className="flex-1 min-w-0 bg-transparent text-slate-900 dark:text-slate-100 text-lg font-semibold text-right focus:outline-none"
+                          placeholder="—"
+                        />
+                        <span className="text-xs text-slate-400 flex-shrink-0">{weightUnit}</span>
+                      </>
+                    )}
+                  </div>
+
+                  {/* Reps/Duration */}
+                  <div className={`flex items-center px-2 ${compact ? 'py-2' : 'py-2.5'} rounded-lg border border-slate-200 dark:border-slate-700 ${
+                    duration ? 'bg-slate-50 dark:bg-slate-800/50' : 'bg-white dark:bg-slate-800'
+                  }`}>
+                    {duration ? (
+                      <span className="flex-1 text-right text-slate-500 dark:text-slate-400 font-medium">{duration}s</span>
+                    ) : (
+                      <input
+                        type={set.reps === 'AMRAP' ? 'text' : 'number'}
+                        value={set.reps === 'AMRAP' ? 'AMRAP' : set.reps || ''}
+                        onChange={e => {
+                          const val = e.target.value;
+                          if (val.toUpperCase() === 'AMRAP') {
+                            updateSet(idx, { reps: 'AMRAP' });
+                          } else {
+                            updateSet(idx, { reps: val ? Number(val) : undefined });
+                          }
+                        }}
+                        className="flex-1 min-w-0 bg-transparent text-slate-900 dark:text-slate-100 text-lg font-semibold text-right focus:outline-none"
+                        placeholder="—"
+                      />
+                    )}
+                  </div>
+
+                  {/* RPE */}
+                  <select
+                    value={set.rpe ?? ''}
+                    onChange={e => updateSet(idx, { rpe: e.target.value ? Number(e.target.value) as EffortLevel : undefined })}
+                    className={`${compact ? 'py-2' : 'py-2.5'} rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-center text-slate-700 dark:text-slate-200 focus:outline-none`}
+                  >
+                    <option value="">—</option>
+                    {[6, 7, 8, 9, 10].map(rpe => (
+                      <option key={rpe} value={rpe}>{rpe}</option>
+                    ))}
+                  </select>
+
+                  {sets.length > 1 ? (
+                    <button
+                      onClick={() => removeSet(idx)}
+                      className="text-slate-300 dark:text-slate-600 hover:text-red-500 dark:hover:text-red-400"
+                      title="Remove set"
+                    >
+                      <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>close</span>
+                    </button>
+                  ) : <span />}
+                </div>
+              );
+            })}
           </div>
+          <button
+            onClick={addSet}
+            className={`w-full ${compact ? 'mt-2 py-1.5' : 'mt-3 py-2'} rounded-lg border border-dashed border-slate-300 dark:border-slate-600 text-sm text-slate-500 dark:text-slate-400 hover:text-emerald-600 dark:hover:text-emerald-400 hover:border-emerald-400 transition-colors`}
+          >
+            + Add set
+          </button>
+          {loadHint && (
+            <p className={`${compact ? 'mt-1.5' : 'mt-2'} text-xs text-slate-500 dark:text-slate-400 text-center tabular-nums`}>
+              {loadHint}
+            </p>
+          )}
+          {suggestion && (
+            <p className={`${compact ? 'mt-1' : 'mt-1.5'} text-xs text-slate-400 dark:text-slate-500 text-center`}>
+              {suggestion.strategy && (
+                <span className="font-medium text-emerald-600 dark:text-emerald-400">{getOverloadStrategy(suggestion.strategy).label} · </span>
+              )}
+              {suggestion.reason}
+            </p>
+          )}
         </div>
 
         {/* Swap - Always visible, vertically centered */}
@@ -241,9 +370,9 @@ export function ExerciseView({
           </button>
           {/* Timer button - now on the right */}
           <button
-            onClick={() => setShowTimer(!showTimer)}
+            onClick={() => onTimerChange(timer ? undefined : startTimer(createTimer()))}
             className={`${compact ? 'py-2.5 px-3' : 'py-3.5 px-4'} rounded-xl transition-colors ${
-              showTimer
+              timer
                 ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400'
                 : 'bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-500 dark:text-slate-400'
             }`}
@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import type { HeartRateMonitor } from '../hooks/useHeartRateMonitor';
+import { loadHeartRateSettings } from '../data/storage';
+import { getZoneBounds, getZone } from '../utils/heartRate';
+
+// Text color for each zone, easiest to hardest
+const ZONE_TEXT_COLORS = ['text-slate-500', 'text-sky-500', 'text-emerald-500', 'text-amber-500', 'text-red-500'];
+
+interface HeartRateButtonProps {
+  monitor: HeartRateMonitor;
+  compact?: boolean;             // Smaller, for the landscape header
+}
+
+/** Live heart rate while a monitor is paired; tap to pair, or to disconnect */
+export function HeartRateButton({ monitor, compact = false }: HeartRateButtonProps) {
+  const [bounds] = useState(() => getZoneBounds(loadHeartRateSettings()));
+  const { status, bpm, error } = monitor;
+
+  const zone = bpm !== null && bounds ? getZone(bpm, bounds) : -1;
+  const color = status === 'error' ? 'text-red-500'
+    : status === 'connected' ? (zone >= 0 ? ZONE_TEXT_COLORS[zone] : 'text-red-500')
+    : 'text-slate-400 dark:text-slate-500';
+  const label = status === 'connected' ? (bpm !== null ? String(bpm) : '--')
+    : status === 'connecting' ? '...'
+    : 'HR';
+  const title = status === 'connected' ? `Heart rate${zone >= 0 ? ` - zone ${zone + 1}` : ''} (tap to disconnect)`
+    : status === 'error' ? `${error} (tap to try again)`
+    : 'Pair a heart-rate monitor';
+
+  return (
+    <button
+      onClick={status === 'connected' ? monitor.disconnect : monitor.connect}
+      disabled={status === 'connecting'}
+      title={title}
+      className={`flex items-center gap-1 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors ${compact ? 'px-1.5 py-0.5' : 'px-2 py-1'}`}
+    >
+      <span
+        className={`material-symbols-outlined ${color} ${status === 'connected' ? 'animate-pulse' : ''}`}
+        style={{ fontSize: compact ? '16px' : '20px', fontVariationSettings: status === 'connected' ? "'FILL' 1" : undefined }}
+      >
+        favorite
+      </span>
+      <span className={`${compact ? 'text-xs' : 'text-sm'} font-medium tabular-nums text-slate-600 dark:text-slate-400`}>{label}</span>
+    </button>
+  );
+}
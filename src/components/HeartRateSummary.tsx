@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import type { HeartRateSample } from '../types';
+import { HEART_RATE_ZONE_LABELS } from '../types';
+import { loadHeartRateSettings } from '../data/storage';
+import { getZoneBounds, getHeartRateStats } from '../utils/heartRate';
+
+// Bar color for each zone, easiest to hardest
+const ZONE_COLORS = ['bg-slate-400', 'bg-sky-500', 'bg-emerald-500', 'bg-amber-500', 'bg-red-500'];
+
+interface HeartRateSummaryProps {
+  samples: HeartRateSample[];
+}
+
+function formatMinutes(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${mins}:${String(secs).padStart(2, '0')}`;
+}
+
+/** Average and max heart rate of a session, and time in each zone when zones are set */
+export function HeartRateSummary({ samples }: HeartRateSummaryProps) {
+  const [bounds] = useState(() => getZoneBounds(loadHeartRateSettings()));
+  const stats = getHeartRateStats(samples, bounds);
+  if (!stats) return null;
+
+  const { timeInZones } = stats;
+  const longest = timeInZones ? Math.max(...timeInZones) : 0;
+
+  return (
+    <div className="p-4 rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 text-left">
+      <div className="flex items-center gap-6">
+        <span className="material-symbols-outlined text-red-500" style={{ fontSize: '24px', fontVariationSettings: "'FILL' 1" }}>
+          favorite
+        </span>
+        <div>
+          <div className="text-lg font-semibold text-slate-900 dark:text-slate-100 tabular-nums">{stats.average} bpm</div>
+          <div className="text-xs text-slate-500 dark:text-slate-400">Avg heart rate</div>
+        </div>
+        <div>
+          <div className="text-lg font-semibold text-slate-900 dark:text-slate-100 tabular-nums">{stats.max} bpm</div>
+          <div className="text-xs text-slate-500 dark:text-slate-400">Max heart rate</div>
+        </div>
+      </div>
+
+      {timeInZones && bounds ? (
+        <div className="mt-4 space-y-1.5">
+          {[...timeInZones.keys()].reverse().map(zone => (
+            <div key={zone} className="flex items-center gap-3 text-xs">
+              <span className="w-24 text-slate-500 dark:text-slate-400 truncate">
+                {zone + 1} · {HEART_RATE_ZONE_LABELS[zone]}
+              </span>
+              <div className="flex-1 h-2 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${ZONE_COLORS[zone]}`}
+                  style={{ width: longest > 0 ? `${(timeInZones[zone] / longest) * 100}%` : '0%' }}
+                />
+              </div>
+              <span className="w-12 text-right font-medium text-slate-700 dark:text-slate-300 tabular-nums">
+                {formatMinutes(timeInZones[zone])}
+              </span>
+            </div>
+          ))}
+          <p className="pt-1 text-[10px] text-slate-400 dark:text-slate-500">
+            Zone 1 starts at {bounds[0]} bpm, zone 5 at {bounds[4]} bpm
+          </p>
+        </div>
+      ) : (
+        <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">Set your age or zones in Settings to see time in each zone.</p>
+      )}
+    </div>
+  );
+}
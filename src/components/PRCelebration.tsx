@@ -0,0 +1,56 @@
+import type { PersonalRecord } from '../types';
+import { PERSONAL_RECORD_LABELS } from '../types';
+import { getExerciseById } from '../data/exercises';
+import { formatRecordValue } from '../data/progression';
+
+interface PRCelebrationProps {
+  records: PersonalRecord[];
+}
+
+/** New personal records, shown under the cow celebration when a workout is saved */
+export function PRCelebration({ records }: PRCelebrationProps) {
+  if (records.length === 0) return null;
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-[60] p-4 pb-8 safe-bottom animate-pr-slide-up">
+      <div className="max-w-sm mx-auto rounded-2xl bg-amber-50 dark:bg-amber-900/40 border border-amber-200 dark:border-amber-700/50 shadow-xl p-4">
+        <div className="flex items-center gap-2 mb-3">
+          <span className="text-2xl">{'🏆'}</span>
+          <h3 className="text-lg font-bold text-amber-800 dark:text-amber-300">
+            {records.length === 1 ? 'New Personal Record!' : `${records.length} New Personal Records!`}
+          </h3>
+        </div>
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {records.map(record => (
+            <div key={`${record.exerciseId}-${record.kind}`} className="flex items-center justify-between text-sm">
+              <div className="min-w-0">
+                <div className="font-medium text-slate-800 dark:text-slate-100 truncate">
+                  {getExerciseById(record.exerciseId)?.name || record.exerciseId}
+                </div>
+                <div className="text-xs text-slate-500 dark:text-slate-400">{PERSONAL_RECORD_LABELS[record.kind]}</div>
+              </div>
+              <div className="text-right shrink-0 ml-3">
+                <div className="font-semibold text-amber-700 dark:text-amber-300 tabular-nums">
+                  {formatRecordValue(record.kind, record.value)}
+                </div>
+                <div className="text-xs text-slate-400 dark:text-slate-500 tabular-nums">
+                  was {formatRecordValue(record.kind, record.previous)}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <style>{`
+        @keyframes prSlideUp {
+          from { opacity: 0; transform: translateY(40px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .animate-pr-slide-up {
+          animation: prSlideUp 0.4s ease-out 0.3s both;
+        }
+      `}</style>
+    </div>
+  );
+}
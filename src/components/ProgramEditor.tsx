@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import type { Program, ProgramDay, SavedWorkout } from '../types';
+import { loadUnitPreferences, loadWeekStart, formatLocalDate } from '../data/storage';
+import { DEFAULT_PROGRESSION, WEEKDAY_NAMES } from '../data/programs';
+import { toDisplayWeight, fromDisplayWeight } from '../utils/units';
+import { getWeekdayOrder } from '../utils/dates';
+import { Button } from './Button';
+
+interface ProgramEditorProps {
+  program?: Program;             // If provided, edit this program
+  workouts: SavedWorkout[];
+  onSave: (program: Omit<Program, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  onCancel: () => void;
+}
+
+const WEEK_OPTIONS = Array.from({ length: 16 }, (_, i) => i + 1);
+const DELOAD_PERCENT_OPTIONS = [50, 60, 70, 80, 90];
+
+const inputClass = 'w-full px-4 py-3 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-base text-slate-900 dark:text-slate-100 placeholder-slate-400 dark:placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-shadow';
+const labelClass = 'block text-sm font-medium text-slate-600 dark:text-slate-400 mb-2';
+
+/** Create or edit a program: weekly layout of saved workouts, length, progression and start date */
+export function ProgramEditor({ program, workouts, onSave, onCancel }: ProgramEditorProps) {
+  const [unit] = useState(() => loadUnitPreferences().weight);
+  const [weekdayOrder] = useState(() => getWeekdayOrder(loadWeekStart())); // Same order as the home calendar
+  const progression = program?.progression ?? DEFAULT_PROGRESSION;
+
+  const [name, setName] = useState(program?.name ?? '');
+  const [weeks, setWeeks] = useState(program?.weeks ?? 4);
+  const [days, setDays] = useState<ProgramDay[]>(program?.days ?? []);
+  const [weeklyIncrease, setWeeklyIncrease] = useState(
+    progression.weeklyIncrease > 0 ? String(toDisplayWeight(progression.weeklyIncrease, unit)) : ''
+  );
+  const [deloadWeeks, setDeloadWeeks] = useState<number[]>(progression.deloadWeeks);
+  const [deloadPercent, setDeloadPercent] = useState(progression.deloadPercent);
+  const [startDate, setStartDate] = useState(program?.startDate ?? formatLocalDate(new Date()));
+
+  const setDayWorkout = (weekday: number, workoutId: string) => {
+    const others = days.filter(day => day.weekday !== weekday);
+    setDays(workoutId ? [...others, { weekday, workoutId }].sort((a, b) => a.weekday - b.weekday) : others);
+  };
+
+  const toggleDeloadWeek = (week: number) => {
+    setDeloadWeeks(prev => prev.includes(week) ? prev.filter(w => w !== week) : [...prev, week].sort((a, b) => a - b));
+  };
+
+  const handleSave = () => {
+    const increase = Number(weeklyIncrease);
+    onSave({
+      name: name.trim(),
+      weeks,
+      days,
+      progression: {
+        weeklyIncrease: increase > 0 ? fromDisplayWeight(increase, unit) : 0,
+        deloadWeeks: deloadWeeks.filter(week => week <= weeks),
+        deloadPercent,
+      },
+      startDate: startDate || undefined,
+    });
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col px-4 pt-16 pb-24 safe-top bg-slate-100 dark:bg-slate-950">
+      <header className="mb-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <img src="/logo_icon.png" alt="Moove" className="h-9 dark:invert" />
+            <h1 className="text-lg font-bold text-slate-900 dark:text-slate-100">
+              {program ? 'Edit Program' : 'New Program'}
+            </h1>
+          </div>
+          <button
+            onClick={onCancel}
+            className="flex items-center text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </header>
+
+      <div className="space-y-6 flex-1">
+        {/* Name and length */}
+        <div className="flex gap-3">
+          <div className="flex-1">
+            <label className={labelClass}>Program Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="e.g., 8-Week Strength"
+              className={inputClass}
+            />
+          </div>
+          <div className="w-28">
+            <label className={labelClass}>Weeks</label>
+            <select value={weeks} onChange={e => setWeeks(Number(e.target.value))} className={inputClass}>
+              {WEEK_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {/* Weekly layout */}
+        <div>
+          <label className={labelClass}>Each Week</label>
+          <div className="rounded-2xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-700/50">
+            {weekdayOrder.map(weekday => {
+              const day = days.find(d => d.weekday === weekday);
+              return (
+                <div key={weekday} className="flex items-center gap-3 px-4 py-2.5">
+                  <span className="w-24 text-sm font-medium text-slate-700 dark:text-slate-300">{WEEKDAY_NAMES[weekday]}</span>
+                  <select
+                    value={day?.workoutId ?? ''}
+                    onChange={e => setDayWorkout(weekday, e.target.value)}
+                    className={`flex-1 min-w-0 px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-sm focus:outline-none focus:border-emerald-500 ${
+                      day ? 'text-slate-900 dark:text-slate-100' : 'text-slate-400 dark:text-slate-500'
+                    }`}
+                  >
+                    <option value="">Rest</option>
+                    {workouts.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+          {workouts.length === 0 && (
+            <p className="mt-2 text-sm text-slate-500 dark:text-slate-400">Save a workout to your library first, then schedule it here.</p>
+          )}
+        </div>
+
+        {/* Progression */}
+        <div>
+          <label className={labelClass}>Progression</label>
+          <div className="p-4 rounded-2xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 space-y-4">
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-sm text-slate-700 dark:text-slate-300">Add each week</span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step={unit === 'kg' ? 0.5 : 1}
+                  value={weeklyIncrease}
+                  onChange={e => setWeeklyIncrease(e.target.value)}
+                  placeholder="0"
+                  className="w-20 px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-sm text-center text-slate-900 dark:text-slate-100 focus:outline-none focus:border-emerald-500"
+                />
+                <span className="text-sm text-slate-500 dark:text-slate-400">{unit}</span>
+              </div>
+            </div>
+
+            <div>
+              <div className="text-sm text-slate-700 dark:text-slate-300 mb-2">Deload weeks</div>
+              <div className="flex flex-wrap gap-1.5">
+                {Array.from({ length: weeks }, (_, i) => i + 1).map(week => (
+                  <button
+                    key={week}
+                    onClick={() => toggleDeloadWeek(week)}
+                    className={`w-9 h-9 rounded-lg text-sm font-medium tabular-nums transition-colors ${
+                      deloadWeeks.includes(week)
+                        ? 'bg-violet-500 text-white'
+                        : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'
+                    }`}
+                  >
+                    {week}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {deloadWeeks.some(week => week <= weeks) && (
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-sm text-slate-700 dark:text-slate-300">Deload load</span>
+                <select
+                  value={deloadPercent}
+                  onChange={e => setDeloadPercent(Number(e.target.value))}
+                  className="px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-sm text-slate-900 dark:text-slate-100 focus:outline-none focus:border-emerald-500"
+                >
+                  {DELOAD_PERCENT_OPTIONS.map(pct => <option key={pct} value={pct}>{pct}%</option>)}
+                </select>
+              </div>
+            )}
+
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Weights start from each workout's own weights, or what you lift the first week.
+            </p>
+          </div>
+        </div>
+
+        {/* Start date */}
+        <div>
+          <label className={labelClass}>Starts</label>
+          <input
+            type="date"
+            value={startDate}
+            onChange={e => setStartDate(e.target.value)}
+            className={inputClass}
+          />
+          <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">Leave empty to save the program without scheduling it.</p>
+        </div>
+      </div>
+
+      <Button
+        variant="primary"
+        size="lg"
+        onClick={handleSave}
+        disabled={!name.trim() || days.length === 0}
+        className="w-full mt-6"
+      >
+        {program ? 'Save Changes' : 'Save Program'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import type { TimerState } from '../types';
+import { useNow } from '../hooks/useTimer';
+import { useCountdownCues } from '../hooks/useCountdownCues';
+import { formatRest } from '../utils/rest';
+import { getElapsed, getRemaining } from '../utils/timer';
+
+interface RestTimerProps {
+  timer: TimerState;
+  nextName?: string;
+  onExtend: () => void;
+  onEnd: () => void;
+}
+
+/** Countdown between exercises with +15s and skip; keeps counting past zero until dismissed */
+export function RestTimer({ timer, nextName, onExtend, onEnd }: RestTimerProps) {
+  const now = useNow(true);
+
+  const remaining = Math.ceil(getRemaining(timer, now));
+  const isOver = remaining <= 0;
+  const progress = timer.duration ? Math.min(1, getElapsed(timer, now) / timer.duration) : 1;
+
+  useCountdownCues(remaining);
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-40 p-4 pb-8 safe-bottom">
+      <div className={`max-w-sm mx-auto rounded-2xl shadow-xl border p-4 transition-colors ${
+        isOver
+          ? 'bg-emerald-50 dark:bg-emerald-900/40 border-emerald-200 dark:border-emerald-700/50'
+          : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'
+      }`}>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+            {isOver ? 'Rest over' : 'Rest'}
+          </span>
+          {nextName && (
+            <span className="text-xs text-slate-400 dark:text-slate-500 truncate ml-3">Next: {nextName}</span>
+          )}
+        </div>
+        <div className={`font-mono font-bold text-5xl text-center tabular-nums ${
+          isOver ? 'text-emerald-600 dark:text-emerald-400' : 'text-slate-800 dark:text-slate-100'
+        }`}>
+          {isOver ? `+${formatRest(-remaining)}` : formatRest(remaining)}
+        </div>
+        <div className="h-1 mt-3 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden">
+          <div className="h-full bg-emerald-500 transition-[width] duration-200" style={{ width: `${progress * 100}%` }} />
+        </div>
+        <div className="flex gap-3 mt-4">
+          <button
+            onClick={onExtend}
+            className="flex-1 py-2.5 rounded-xl font-semibold text-sm bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 transition-colors"
+          >
+            +15s
+          </button>
+          <button
+            onClick={onEnd}
+            className="flex-1 py-2.5 rounded-xl font-semibold text-sm bg-emerald-600 hover:bg-emerald-500 text-white transition-colors"
+          >
+            {isOver ? 'Go' : 'Skip'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,470 @@
+import { useState } from 'react';
+import type { WorkoutSession, WorkoutBlock, ExerciseLog, SetLog, SetType, CardioType, CardioMetric, CardioMetrics, EffortLevel } from '../types';
+import { CARDIO_TYPE_LABELS, CARDIO_TYPE_ICONS, CARDIO_METRIC_LABELS } from '../types';
+import { loadSavedWorkouts, loadUnitPreferences, formatLocalDate, loadCustomCardioActivities, describeCardio } from '../data/storage';
+import { detectPersonalRecords } from '../data/progression';
+import { getExerciseById } from '../data/exercises';
+import { expandWorkoutSets } from '../utils/blocks';
+import { toDisplayWeight, fromDisplayWeight, toDisplayDistance, fromDisplayDistance } from '../utils/units';
+import { generateUUID } from '../utils/uuid';
+import { getDeviceTimeZone, formatDateInTimeZone, formatTimeInTimeZone, fromDateTimeInTimeZone } from '../utils/dates';
+import { EffortPicker } from './EffortPicker';
+import { Button } from './Button';
+
+interface SessionEditorProps {
+  session?: WorkoutSession;      // If provided, correct this session
+  date?: string;                 // YYYY-MM-DD to log a new session on
+  onSave: (session: WorkoutSession) => void;
+  onCancel: () => void;
+}
+
+// Form values stay strings while typing; empty means not entered
+interface SetRow {
+  type: SetType;
+  weight: string;
+  reps: string;
+  duration: string;
+  rpe?: EffortLevel;
+}
+
+interface ExerciseEntry {
+  exerciseId: string;
+  timed: boolean;                // Logs seconds rather than reps
+  sets: SetRow[];
+  effort?: EffortLevel;
+  log?: ExerciseLog;             // The log being corrected, for the fields the form doesn't edit
+}
+
+type OtherMetric = Exclude<CardioMetric, 'distance'>;
+
+const CARDIO_TYPES = (Object.keys(CARDIO_TYPE_LABELS) as CardioType[]).filter(type => type !== 'custom');
+const EFFORT_LEVELS: EffortLevel[] = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+const inputClass = 'w-full px-4 py-3 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-base text-slate-900 dark:text-slate-100 placeholder-slate-400 dark:placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-shadow';
+const labelClass = 'block text-sm font-medium text-slate-600 dark:text-slate-400 mb-2';
+const cellClass = 'w-full min-w-0 px-2 py-2 rounded-lg bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-sm text-center text-slate-900 dark:text-slate-100 focus:outline-none focus:border-emerald-500';
+
+const toField = (value: number | undefined) => value !== undefined ? String(value) : '';
+const toNumber = (value: string) => value.trim() && Number(value) > 0 ? Number(value) : undefined;
+
+// One entry per exercise in the workout, with a set prefilled from its target
+function entriesFromBlocks(blocks: WorkoutBlock[], unit: 'lb' | 'kg'): ExerciseEntry[] {
+  const seen = new Set<string>();
+  return blocks.map(expandWorkoutSets).flatMap(block => block.exercises).flatMap(exercise => {
+    if (seen.has(exercise.exerciseId)) return [];
+    seen.add(exercise.exerciseId);
+    const timed = exercise.duration !== undefined;
+    return [{
+      exerciseId: exercise.exerciseId,
+      timed,
+      sets: [{
+        type: 'working' as SetType,
+        weight: exercise.weight ? String(toDisplayWeight(exercise.weight, unit)) : '',
+        reps: !timed && typeof exercise.reps === 'number' ? String(exercise.reps) : '',
+        duration: toField(exercise.duration),
+      }],
+    }];
+  });
+}
+
+// The session's logs, then any of its workout's exercises it didn't log
+function entriesFromSession(session: WorkoutSession, unit: 'lb' | 'kg'): ExerciseEntry[] {
+  const logged: ExerciseEntry[] = session.exercises.map(log => ({
+    exerciseId: log.exerciseId,
+    timed: log.sets.some(set => set.duration !== undefined),
+    effort: log.effort,
+    log,
+    sets: log.sets.map(set => ({
+      type: set.type,
+      weight: set.weight ? String(toDisplayWeight(set.weight, unit)) : '',
+      reps: toField(set.reps),
+      duration: toField(set.duration),
+      rpe: set.rpe,
+    })),
+  }));
+  const loggedIds = new Set(logged.map(entry => entry.exerciseId));
+  const unlogged = entriesFromBlocks(session.blocks ?? [], unit)
+    .filter(entry => !loggedIds.has(entry.exerciseId))
+    .map(entry => ({ ...entry, sets: [] }));
+  return [...logged, ...unlogged];
+}
+
+function toSetLog(row: SetRow, timed: boolean, unit: 'lb' | 'kg'): SetLog | null {
+  const weight = toNumber(row.weight);
+  const reps = timed ? undefined : toNumber(row.reps);
+  const duration = timed ? toNumber(row.duration) : undefined;
+  if (weight === undefined && reps === undefined && duration === undefined) return null;
+  return {
+    type: row.type,
+    ...(weight !== undefined && { weight: fromDisplayWeight(weight, unit) }),
+    ...(reps !== undefined && { reps }),
+    ...(duration !== undefined && { duration }),
+    ...(row.rpe && { rpe: row.rpe }),
+  };
+}
+
+// Moves a timestamp by the same amount the session's start moved
+function shiftTime(iso: string, offsetMs: number): string {
+  return new Date(new Date(iso).getTime() + offsetMs).toISOString();
+}
+
+/** Log a past session by hand, or correct one already in history */
+export function SessionEditor({ session, date, onSave, onCancel }: SessionEditorProps) {
+  const [units] = useState(() => loadUnitPreferences());
+  const [savedWorkouts] = useState(() => loadSavedWorkouts());
+  const [customActivities] = useState(() => loadCustomCardioActivities());
+  const started = session ? new Date(session.startedAt) : null;
+  // Date and time are entered where the session happened; new sessions happen here
+  const [timeZone] = useState(() => session ? session.timeZone : getDeviceTimeZone());
+
+  // What's being logged: a saved workout ("workout:<id>"), a cardio type ("cardio:<type>")
+  // or a custom activity ("custom:<id>"); fixed when editing
+  const [source, setSource] = useState('');
+  const [name, setName] = useState(session?.name ?? '');
+  const [cardioType, setCardioType] = useState<CardioType | undefined>(session?.cardioType);
+  const [customActivityId, setCustomActivityId] = useState(session?.customActivityId);
+  const [blocks, setBlocks] = useState<WorkoutBlock[]>(session?.blocks ?? []);
+  const [templateId, setTemplateId] = useState(session?.templateId);
+  const [entries, setEntries] = useState<ExerciseEntry[]>(() => session ? entriesFromSession(session, units.weight) : []);
+  const [day, setDay] = useState(started ? formatDateInTimeZone(started, timeZone) : date ?? formatLocalDate(new Date()));
+  const [time, setTime] = useState(started ? formatTimeInTimeZone(started, timeZone) : '09:00');
+  const initialMinutes = session?.totalDuration ? String(Math.round(session.totalDuration / 60)) : '';
+  const [minutes, setMinutes] = useState(initialMinutes);
+  const [distance, setDistance] = useState(session?.distance ? String(toDisplayDistance(session.distance, units.distance)) : '');
+  const [metricValues, setMetricValues] = useState<Partial<Record<OtherMetric, string>>>(() =>
+    Object.fromEntries(Object.entries(session?.metrics ?? {}).map(([metric, value]) => [metric, String(value)]))
+  );
+  const [effort, setEffort] = useState<EffortLevel | undefined>(session?.overallEffort);
+  const [today] = useState(() => formatLocalDate(new Date()));
+
+  const handleSourceChange = (value: string) => {
+    setSource(value);
+    const [kind, id] = value.split(':');
+    setMetricValues({});
+    if (kind === 'cardio' || kind === 'custom') {
+      const type: CardioType = kind === 'custom' ? 'custom' : id as CardioType;
+      const activityId = kind === 'custom' ? id : undefined;
+      setCardioType(type);
+      setCustomActivityId(activityId);
+      setBlocks([]);
+      setTemplateId(undefined);
+      setEntries([]);
+      setName(describeCardio(type, activityId).label);
+    } else {
+      const workout = savedWorkouts.find(w => w.id === id);
+      setCardioType(workout?.cardioType);
+      setCustomActivityId(undefined);
+      setBlocks(workout?.blocks ?? []);
+      setTemplateId(workout?.id);
+      setEntries(workout && !workout.cardioType ? entriesFromBlocks(workout.blocks, units.weight) : []);
+      setName(workout?.name ?? '');
+    }
+  };
+
+  const updateEntry = (index: number, update: Partial<ExerciseEntry>) => {
+    setEntries(prev => prev.map((entry, i) => i === index ? { ...entry, ...update } : entry));
+  };
+
+  const updateSet = (index: number, setIndex: number, update: Partial<SetRow>) => {
+    const entry = entries[index];
+    updateEntry(index, { sets: entry.sets.map((row, i) => i === setIndex ? { ...row, ...update } : row) });
+  };
+
+  // A new set starts as a copy of the last one
+  const addSet = (index: number) => {
+    const entry = entries[index];
+    const last = entry.sets[entry.sets.length - 1];
+    updateEntry(index, { sets: [...entry.sets, last ? { ...last } : { type: 'working', weight: '', reps: '', duration: '' }] });
+  };
+
+  const removeSet = (index: number, setIndex: number) => {
+    updateEntry(index, { sets: entries[index].sets.filter((_, i) => i !== setIndex) });
+  };
+
+  // The activity's metrics, plus any already on the session being corrected
+  const activityMetrics = cardioType ? describeCardio(cardioType, customActivityId).metrics : [];
+  const showDistance = activityMetrics.includes('distance') || !!session?.distance;
+  const otherMetrics = (Object.keys(CARDIO_METRIC_LABELS) as CardioMetric[]).filter((metric): metric is OtherMetric =>
+    metric !== 'distance' && (activityMetrics.includes(metric) || session?.metrics?.[metric as OtherMetric] !== undefined)
+  );
+  const metricEntries = otherMetrics
+    .map(metric => [metric, toNumber(metricValues[metric] ?? '')] as const)
+    .filter((entry): entry is readonly [OtherMetric, number] => entry[1] !== undefined);
+  const metrics: CardioMetrics | undefined = metricEntries.length > 0 ? Object.fromEntries(metricEntries) : undefined;
+
+  const startedAt = fromDateTimeInTimeZone(day, time || '00:00', timeZone);
+  // Minutes are rounded for editing, so an untouched field keeps the exact recorded duration
+  const durationSeconds = session?.totalDuration && minutes === initialMinutes
+    ? session.totalDuration
+    : (toNumber(minutes) ?? 0) * 60;
+  const logs = entries.flatMap(entry => {
+    const sets = entry.sets.map(row => toSetLog(row, entry.timed, units.weight)).filter((set): set is SetLog => set !== null);
+    return sets.length > 0 ? [{ entry, sets }] : [];
+  });
+  // A workout with no exercises to log (e.g. one that only recorded its time) saves on its duration
+  const hasSomething = cardioType ? durationSeconds > 0 || !!toNumber(distance) : logs.length > 0 || entries.length === 0;
+  const canSave = !!name.trim() && !!day && !Number.isNaN(startedAt.getTime()) && durationSeconds > 0 && hasSomething;
+
+  const handleSave = async () => {
+    const completedAt = new Date(startedAt.getTime() + durationSeconds * 1000).toISOString();
+    const offset = session ? startedAt.getTime() - new Date(session.startedAt).getTime() : 0;
+    const miles = toNumber(distance);
+
+    const result: WorkoutSession = {
+      ...session,
+      id: session?.id ?? generateUUID(),
+      name: name.trim(),
+      templateId,
+      blocks,
+      startedAt: startedAt.toISOString(),
+      timeZone,
+      completedAt,
+      totalDuration: durationSeconds,
+      overallEffort: effort,
+      cardioType,
+      customActivityId: cardioType === 'custom' ? customActivityId : undefined,
+      metrics: cardioType ? metrics : undefined,
+      distance: cardioType && miles ? fromDisplayDistance(miles, units.distance) : undefined,
+      exercises: cardioType ? [] : logs.map(({ entry, sets }) => ({
+        ...entry.log,
+        exerciseId: entry.exerciseId,
+        sets,
+        effort: entry.effort,
+        completedAt: entry.log ? shiftTime(entry.log.completedAt, offset) : completedAt,
+      })),
+      rests: session?.rests?.map(rest => ({ ...rest, startedAt: shiftTime(rest.startedAt, offset) })),
+      track: session?.track?.map(point => ({ ...point, time: shiftTime(point.time, offset) })),
+      heartRate: session?.heartRate?.map(sample => ({ ...sample, time: shiftTime(sample.time, offset) })),
+      personalRecords: undefined,
+    };
+
+    // Records are judged against the rest of history, with the corrected numbers
+    const personalRecords = await detectPersonalRecords(result);
+    if (personalRecords.length > 0) result.personalRecords = personalRecords;
+    onSave(result);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col px-4 pt-16 pb-24 safe-top bg-slate-100 dark:bg-slate-950">
+      <header className="mb-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <img src="/logo_icon.png" alt="Moove" className="h-9 dark:invert" />
+            <h1 className="text-lg font-bold text-slate-900 dark:text-slate-100">
+              {session ? 'Edit Workout' : 'Log Past Workout'}
+            </h1>
+          </div>
+          <button
+            onClick={onCancel}
+            className="flex items-center text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </header>
+
+      <div className="space-y-6 flex-1">
+        {/* What was done - only when logging a new session */}
+        {!session && (
+          <div>
+            <label className={labelClass}>Workout</label>
+            <select value={source} onChange={e => handleSourceChange(e.target.value)} className={inputClass}>
+              <option value="" disabled>Choose a workout or activity</option>
+              {savedWorkouts.length > 0 && (
+                <optgroup label="Saved workouts">
+                  {savedWorkouts.map(w => <option key={w.id} value={`workout:${w.id}`}>{w.name}</option>)}
+                </optgroup>
+              )}
+              <optgroup label="Timed activities">
+                {CARDIO_TYPES.map(type => (
+                  <option key={type} value={`cardio:${type}`}>{CARDIO_TYPE_ICONS[type]} {CARDIO_TYPE_LABELS[type]}</option>
+                ))}
+              </optgroup>
+              {customActivities.length > 0 && (
+                <optgroup label="Your activities">
+                  {customActivities.map(activity => (
+                    <option key={activity.id} value={`custom:${activity.id}`}>{activity.icon} {activity.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </div>
+        )}
+
+        {(session || source) && (
+          <>
+            <div>
+              <label className={labelClass}>Name</label>
+              <input type="text" value={name} onChange={e => setName(e.target.value)} className={inputClass} />
+            </div>
+
+            {/* When and how long */}
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-3">
+                <label className={labelClass}>Date</label>
+                <input type="date" value={day} max={today} onChange={e => setDay(e.target.value)} className={inputClass} />
+              </div>
+              <div className="col-span-2">
+                <label className={labelClass}>Start time</label>
+                <input type="time" value={time} onChange={e => setTime(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Minutes</label>
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  value={minutes}
+                  onChange={e => setMinutes(e.target.value)}
+                  placeholder="45"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {timeZone && timeZone !== getDeviceTimeZone() && (
+              <p className="-mt-3 text-xs text-slate-500 dark:text-slate-400">Times are in {timeZone}, where this workout happened.</p>
+            )}
+
+            {cardioType ? (
+              <div className="grid grid-cols-2 gap-3">
+                {showDistance && (
+                  <div className="col-span-2">
+                    <label className={labelClass}>Distance ({units.distance})</label>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      step={0.01}
+                      value={distance}
+                      onChange={e => setDistance(e.target.value)}
+                      placeholder="0"
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                {otherMetrics.map(metric => {
+                  const { label, unit } = CARDIO_METRIC_LABELS[metric];
+                  return (
+                    <div key={metric}>
+                      <label className={labelClass}>{label}{unit && ` (${unit})`}</label>
+                      <input
+                        type="number"
+                        inputMode="decimal"
+                        min={0}
+                        value={metricValues[metric] ?? ''}
+                        onChange={e => setMetricValues(prev => ({ ...prev, [metric]: e.target.value }))}
+                        placeholder="0"
+                        className={inputClass}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <div>
+                <label className={labelClass}>Exercises</label>
+                {entries.length === 0 && (
+                  <p className="text-sm text-slate-500 dark:text-slate-400">This workout has no exercises to log.</p>
+                )}
+                <div className="space-y-3">
+                  {entries.map((entry, index) => {
+                    const exercise = getExerciseById(entry.exerciseId);
+                    return (
+                      <div key={index} className="p-4 rounded-2xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700">
+                        <div className="flex items-center justify-between gap-3 mb-3">
+                          <span className="font-medium text-slate-800 dark:text-slate-200 truncate">
+                            {exercise?.name ?? entry.exerciseId}
+                            {entry.log?.round && (
+                              <span className="ml-2 text-xs font-medium text-slate-400 dark:text-slate-500">Round {entry.log.round}</span>
+                            )}
+                          </span>
+                          <select
+                            value={entry.effort ?? ''}
+                            onChange={e => updateEntry(index, { effort: e.target.value ? Number(e.target.value) as EffortLevel : undefined })}
+                            className="px-2 py-1.5 rounded-lg bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-xs text-slate-700 dark:text-slate-300 focus:outline-none focus:border-emerald-500"
+                            title="Effort"
+                          >
+                            <option value="">Effort</option>
+                            {EFFORT_LEVELS.map(level => <option key={level} value={level}>{level}/10</option>)}
+                          </select>
+                        </div>
+
+                        {entry.sets.length > 0 && (
+                          <div className="grid grid-cols-[2rem_1fr_1fr_2rem] gap-2 items-center text-xs text-slate-500 dark:text-slate-400 mb-1">
+                            <span>Set</span>
+                            <span className="text-center">{units.weight}</span>
+                            <span className="text-center">{entry.timed ? 'sec' : 'reps'}</span>
+                            <span />
+                          </div>
+                        )}
+                        <div className="space-y-2">
+                          {entry.sets.map((row, setIndex) => (
+                            <div key={setIndex} className="grid grid-cols-[2rem_1fr_1fr_2rem] gap-2 items-center">
+                              <span className="text-sm font-medium text-slate-500 dark:text-slate-400 tabular-nums">
+                                {row.type === 'warmup' ? 'W' : setIndex + 1}
+                              </span>
+                              <input
+                                type="number"
+                                inputMode="decimal"
+                                min={0}
+                                value={row.weight}
+                                onChange={e => updateSet(index, setIndex, { weight: e.target.value })}
+                                placeholder="—"
+                                className={cellClass}
+                              />
+                              <input
+                                type="number"
+                                inputMode="numeric"
+                                min={0}
+                                value={entry.timed ? row.duration : row.reps}
+                                onChange={e => updateSet(index, setIndex, entry.timed ? { duration: e.target.value } : { reps: e.target.value })}
+                                placeholder="—"
+                                className={cellClass}
+                              />
+                              <button
+                                onClick={() => removeSet(index, setIndex)}
+                                className="flex items-center justify-center text-slate-400 hover:text-red-500"
+                                title="Remove set"
+                              >
+                                <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>close</span>
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                        <button
+                          onClick={() => addSet(index)}
+                          className="mt-3 text-sm font-medium text-emerald-600 dark:text-emerald-400 hover:text-emerald-500"
+                        >
+                          + Add set
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">Exercises with no sets aren't saved.</p>
+              </div>
+            )}
+
+            <div>
+              <label className={labelClass}>Overall effort</label>
+              <EffortPicker value={effort} onChange={setEffort} />
+            </div>
+          </>
+        )}
+      </div>
+
+      <Button
+        variant="primary"
+        size="lg"
+        onClick={handleSave}
+        disabled={!canSave}
+        className="w-full mt-10"
+      >
+        {session ? 'Save Changes' : 'Save Workout'}
+      </Button>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import type { ExerciseLog } from '../types';
+import { getTopSet, getWorkingSets } from '../utils/sets';
 
 interface SparklineProps {
   history: ExerciseLog[];
@@ -14,7 +15,11 @@ export function Sparkline({ history, metric, className = '' }: SparklineProps) {
   const values = history
     .slice()
     .reverse()
-    .map(log => (metric === 'weight' ? log.weight : log.reps))
+    .map(log => {
+      // Plot the top set of each session
+      const top = getTopSet(log.sets) ?? getWorkingSets(log.sets)[0];
+      return metric === 'weight' ? top?.weight : top?.reps;
+    })
     .filter((v): v is number => v !== undefined && v > 0);
 
   if (values.length < 2) return null;
@@ -0,0 +1,26 @@
+import { Button } from './Button';
+
+/**
+ * Shown instead of the app when saved workouts couldn't be loaded. Nothing
+ * can be saved from here, so partly loaded data never overwrites what's stored.
+ */
+export function StorageError() {
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center px-4 bg-slate-100 dark:bg-slate-950">
+      <div className="text-center max-w-sm">
+        <div className="w-20 h-20 mx-auto mb-4 rounded-full bg-slate-200 dark:bg-slate-800 flex items-center justify-center">
+          <span className="material-symbols-outlined text-slate-400 dark:text-slate-500" style={{ fontSize: '40px' }}>
+            database
+          </span>
+        </div>
+        <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-200 mb-2">Couldn't load your workouts</h2>
+        <p className="text-slate-500 dark:text-slate-400 mb-6">
+          Your data is still saved on this device, but the browser wouldn't open it. Close other Moove tabs and try again.
+        </p>
+        <Button variant="primary" size="lg" onClick={() => window.location.reload()}>
+          Try Again
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import type { WorkoutBlock, BlockResult, ActiveTimedBlock } from '../types';
+import { getExerciseById } from '../data/exercises';
+import { useNow } from '../hooks/useTimer';
+import { useCountdownCues } from '../hooks/useCountdownCues';
+import { createTimer, startTimer, pauseTimer, getElapsed } from '../utils/timer';
+import { Button } from './Button';
+import {
+  resolveTiming, getTimedBlockSeconds, getTimedBlockPhase, getIntervalExercise,
+  countCompletedIntervals, describeTiming, formatClock, formatBlockResult,
+} from '../utils/timedBlocks';
+
+interface TimedBlockRunnerProps {
+  block: WorkoutBlock & { timing: NonNullable<WorkoutBlock['timing']> };
+  progress?: ActiveTimedBlock;   // Saved with the session, so a reload picks up mid-block
+  onProgress: (progress: ActiveTimedBlock) => void;
+  onFinish: (result: BlockResult) => void;
+  onSkip: () => void;
+}
+
+/** Runs an EMOM, AMRAP, Tabata or for-time block against the clock, then records the result */
+export function TimedBlockRunner({ block, progress, onProgress, onFinish, onSkip }: TimedBlockRunnerProps) {
+  const timing = resolveTiming(block.timing);
+  const total = getTimedBlockSeconds(timing);
+  const [extraReps, setExtraReps] = useState('');
+
+  const isStarted = progress !== undefined;
+  const now = useNow(isStarted && !progress.ended);
+  const rounds = progress?.rounds ?? 0;
+  const elapsed = progress ? Math.min(total, getElapsed(progress.timer, now)) : 0;
+  const phase = getTimedBlockPhase(timing, elapsed);
+  const isFinished = isStarted && (progress.ended || phase.phase === 'done');
+  const isRunning = isStarted && !isFinished;
+
+  // 3-2-1 into each EMOM minute and Tabata work/rest change, the switch tone on it, the end tone when time's up
+  useCountdownCues(isStarted && !progress.ended ? Math.ceil(phase.remaining) : null, `${phase.phase}-${phase.interval}`);
+
+  const start = () => onProgress({ blockId: block.id, timer: startTimer(createTimer(total)), rounds: 0, ended: false });
+  const end = () => progress && onProgress({ ...progress, timer: pauseTimer(progress.timer), ended: true });
+  const setRounds = (count: number) => progress && onProgress({ ...progress, rounds: Math.max(0, count) });
+
+  const buildResult = (): BlockResult => {
+    const result: BlockResult = { blockId: block.id, mode: timing.mode, rounds: 0, completedAt: new Date().toISOString() };
+    switch (timing.mode) {
+      case 'emom':
+      case 'tabata':
+        result.rounds = countCompletedIntervals(timing, elapsed);
+        break;
+      case 'amrap':
+        result.rounds = rounds;
+        if (Number(extraReps) > 0) result.extraReps = Number(extraReps);
+        break;
+      case 'for-time':
+        result.rounds = elapsed < total ? 1 : 0;
+        result.finishTime = Math.round(elapsed);
+        result.capped = elapsed >= total;
+        break;
+    }
+    return result;
+  };
+
+  const currentExercise = timing.mode === 'emom' || timing.mode === 'tabata'
+    ? getIntervalExercise(block, phase.interval)
+    : undefined;
+
+  // Big clock: count down the minute/interval (EMOM, Tabata) or the block (AMRAP), count up for time
+  const idleSeconds = timing.mode === 'amrap' ? total : timing.mode === 'emom' ? 60 : timing.work;
+  const clock = timing.mode === 'for-time'
+    ? formatClock(elapsed)
+    : formatClock(isStarted ? phase.remaining : idleSeconds);
+  const isRest = isRunning && phase.phase === 'rest';
+
+  const phaseLabels = {
+    'emom': `Minute ${phase.interval + 1} of ${timing.minutes}`,
+    'amrap': 'Time left',
+    'tabata': isRest ? 'Rest' : 'Work',
+    'for-time': 'Elapsed',
+  };
+  const detailLabels = {
+    'emom': `${formatClock(total - elapsed)} left`,
+    'amrap': null,
+    'tabata': `Round ${phase.interval + 1} of ${timing.rounds}`,
+    'for-time': `Cap ${formatClock(total)}`,
+  };
+
+  return (
+    <div className="flex flex-col">
+      <div className="px-5 py-6">
+        <div className="text-center mb-6">
+          <div className="text-xs font-semibold uppercase tracking-wide text-emerald-600 dark:text-emerald-400">{describeTiming(timing)}</div>
+          <h1 className="text-3xl font-bold text-slate-900 dark:text-slate-100 mt-1">{block.name}</h1>
+        </div>
+
+        {isFinished ? (
+          <div className="text-center">
+            <div className="text-sm text-slate-500 dark:text-slate-400 mb-1">Result</div>
+            <div className="text-4xl font-bold text-slate-900 dark:text-slate-100 tabular-nums mb-6">
+              {formatBlockResult(buildResult())}
+            </div>
+            {timing.mode === 'amrap' && (
+              <label className="block max-w-[12rem] mx-auto mb-2">
+                <span className="text-xs text-slate-500 dark:text-slate-400">Reps into the next round</span>
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  value={extraReps}
+                  onChange={e => setExtraReps(e.target.value)}
+                  placeholder="0"
+                  className="mt-1 w-full px-3 py-2 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-lg text-center font-semibold text-slate-900 dark:text-slate-100 focus:outline-none focus:border-emerald-500"
+                />
+              </label>
+            )}
+          </div>
+        ) : (
+          <div className="text-center">
+            <div className={`text-xs font-semibold uppercase tracking-wide mb-1 ${isRest ? 'text-amber-500' : 'text-slate-500 dark:text-slate-400'}`}>
+              {isStarted ? phaseLabels[timing.mode] : 'Ready'}
+            </div>
+            <div className={`font-mono font-bold text-[80px] leading-none tabular-nums ${
+              isRest ? 'text-amber-500' : isRunning ? 'text-emerald-500 dark:text-emerald-400' : 'text-slate-800 dark:text-slate-100'
+            }`}>
+              {clock}
+            </div>
+            {isRunning && detailLabels[timing.mode] && (
+              <div className="text-sm text-slate-500 dark:text-slate-400 mt-2">{detailLabels[timing.mode]}</div>
+            )}
+          </div>
+        )}
+
+        {/* AMRAP round counter - stays adjustable after time runs out */}
+        {timing.mode === 'amrap' && isStarted && (
+          <div className="flex items-center justify-center gap-4 mt-5">
+            <button
+              onClick={() => setRounds(rounds - 1)}
+              className="w-10 h-10 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 text-xl"
+            >
+              −
+            </button>
+            <div className="text-center min-w-[5rem]">
+              <div className="text-3xl font-bold text-slate-900 dark:text-slate-100 tabular-nums">{rounds}</div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">rounds</div>
+            </div>
+            <button
+              onClick={() => setRounds(rounds + 1)}
+              className="px-5 h-10 rounded-full bg-emerald-600 hover:bg-emerald-500 text-white font-semibold"
+            >
+              +1 Round
+            </button>
+          </div>
+        )}
+
+        {/* Exercises - the current one highlighted for EMOM and Tabata */}
+        <div className="mt-6 space-y-1.5">
+          {block.exercises.map((workoutExercise, idx) => {
+            const exercise = getExerciseById(workoutExercise.exerciseId);
+            const isCurrent = isRunning && workoutExercise === currentExercise;
+            const reps = workoutExercise.reps ?? exercise?.defaultReps;
+            const duration = timing.mode === 'tabata' ? undefined : workoutExercise.duration ?? exercise?.defaultDuration;
+            return (
+              <div
+                key={`${workoutExercise.exerciseId}-${idx}`}
+                className={`flex items-center justify-between px-3 py-2 rounded-lg text-sm ${
+                  isCurrent
+                    ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 font-semibold'
+                    : 'bg-slate-50 dark:bg-slate-800/50 text-slate-700 dark:text-slate-300'
+                }`}
+              >
+                <span className="truncate">{exercise?.name || workoutExercise.exerciseId}</span>
+                <span className="shrink-0 ml-3 tabular-nums text-slate-400 dark:text-slate-500">
+                  {duration ? `${duration}s` : reps ? `${reps}${reps === 'AMRAP' ? '' : ' reps'}` : ''}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="px-5 py-4 border-t border-slate-200 dark:border-slate-800 flex gap-3">
+        {!isStarted ? (
+          <>
+            <Button variant="secondary" onClick={onSkip} className="flex-1">Skip</Button>
+            <Button variant="primary" onClick={start} className="flex-1">Start</Button>
+          </>
+        ) : isFinished ? (
+          <Button variant="primary" onClick={() => onFinish(buildResult())} className="flex-1">Save & Continue</Button>
+        ) : (
+          <>
+            <Button variant="secondary" onClick={end} className="flex-1">End Early</Button>
+            {timing.mode === 'for-time' && (
+              <Button variant="primary" onClick={end} className="flex-1">Finish</Button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,24 @@
 import { useEffect, useState } from 'react';
+import type { TimerState } from '../types';
 import { useTimer } from '../hooks/useTimer';
+import { useCountdownCues } from '../hooks/useCountdownCues';
 
 interface TimerProps {
+  timer: TimerState;             // Kept by the caller
+  onChange: (timer: TimerState) => void;
   duration?: number;
   onComplete?: () => void;
   enlarged?: boolean;
-  autoStart?: boolean;
 }
 
-export function Timer({ duration, onComplete, enlarged: propEnlarged = false, autoStart = false }: TimerProps) {
-  const timer = useTimer();
+export function Timer({ timer: state, onChange, duration, onComplete, enlarged: propEnlarged = false }: TimerProps) {
+  const timer = useTimer(state, onChange);
   const [manualEnlarge, setManualEnlarge] = useState(false);
 
   // Auto-enlarge when timer is running
   const enlarged = propEnlarged || manualEnlarge || timer.isRunning;
 
-  useEffect(() => {
-    if (autoStart) {
-      if (duration) {
-        timer.startCountdown(duration);
-      } else {
-        timer.startStopwatch();
-      }
-    }
-  }, [duration, autoStart]);
+  useCountdownCues(timer.isCountdown ? timer.seconds : null);
 
   useEffect(() => {
     if (timer.isCountdown && timer.seconds === 0 && !timer.isRunning) {
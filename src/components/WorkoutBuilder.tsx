@@ -1,5 +1,8 @@
-import { useState, useRef, useMemo } from 'react';
-import type { BlockType, WorkoutExercise, WorkoutBlock, MuscleArea, EquipmentType, SavedWorkout } from '../types';
+import { Fragment, useState, useRef, useMemo } from 'react';
+import type { BlockType, BlockMode, BlockTiming, WorkoutExercise, WorkoutBlock, WorkoutSet, ExerciseGroup, MuscleArea, EquipmentType, SavedWorkout } from '../types';
+import { DEFAULT_REST_SECONDS, BLOCK_MODE_LABELS } from '../types';
+import { DEFAULT_BLOCK_TIMING, resolveTiming } from '../utils/timedBlocks';
+import { expandWorkoutSets } from '../utils/blocks';
 import { useExercises } from '../contexts/ExerciseContext';
 import { useSignUpPrompt } from '../contexts/SignUpPromptContext';
 import { Button } from './Button';
@@ -55,29 +58,102 @@ const getAreaColor = (area: string) => {
   }
 };
 
+// Rest choices in seconds, for blocks and per-exercise overrides
+const REST_OPTIONS = [0, 15, 30, 45, 60, 90, 120, 180];
+
+// Times a block can be run through
+const REPEAT_OPTIONS = [1, 2, 3, 4, 5, 6];
+
+// Timing settings a block mode can edit
+function getTimingFields(mode: BlockMode): { key: 'minutes' | 'work' | 'rest' | 'rounds'; label: string }[] {
+  if (mode === 'tabata') {
+    return [{ key: 'rounds', label: 'rounds' }, { key: 'work', label: 's work' }, { key: 'rest', label: 's rest' }];
+  }
+  return [{ key: 'minutes', label: mode === 'for-time' ? 'min cap' : 'min' }];
+}
+
+// Rounds a new superset/circuit starts with
+const DEFAULT_GROUP_ROUNDS = 3;
+
+type GroupSettings = Omit<ExerciseGroup, 'id'>;
+
+// A superset/circuit is keyed by its set and first exercise, which also makes its id
+const getGroupKey = (setNum: number, firstExerciseId: string) => `${setNum}:${firstExerciseId}`;
+
+// Runs of linked exercises in a set as [first, last] indices; each run is a superset/circuit
+function getLinkedRuns(exerciseIds: string[], linked: string[] = []): [number, number][] {
+  const runs: [number, number][] = [];
+  let start: number | null = null;
+  exerciseIds.forEach((id, idx) => {
+    const linksNext = idx < exerciseIds.length - 1 && linked.includes(id);
+    if (linksNext && start === null) start = idx;
+    if (!linksNext && start !== null) {
+      runs.push([start, idx]);
+      start = null;
+    }
+  });
+  return runs;
+}
+
 interface BuilderBlock {
   id: string;
   type: BlockType;
   exercises: Record<number, string[]>; // setNum -> exerciseIds
+  rest?: number;                       // Seconds after each exercise (type default if unset)
+  exerciseRest: Record<string, number>; // exerciseId -> rest override
+  timing?: BlockTiming;                 // Conditioning blocks can run against the clock
+  repeat?: number;                      // Times to run through the block (once if unset)
+  links: Record<number, string[]>;      // setNum -> exerciseIds done back to back with the next one
+  groupSettings: Record<string, GroupSettings>; // Group key -> rounds and rest
+  setIds?: Record<number, string>;      // setNum -> WorkoutSet id, for blocks authored as sets
 }
 
 // Convert WorkoutBlocks to BuilderBlocks for editing
 function workoutBlocksToBuilderBlocks(workoutBlocks: WorkoutBlock[]): BuilderBlock[] {
   return workoutBlocks.map(block => {
     const exercisesBySet: Record<number, string[]> = {};
+    const exerciseRest: Record<string, number> = {};
+    const links: Record<number, string[]> = {};
+    const groupSettings: Record<string, GroupSettings> = {};
+    // Blocks authored as WorkoutSets edit the same way as flat ones
+    const flatExercises = expandWorkoutSets(block).exercises;
 
-    block.exercises.forEach(exercise => {
+    flatExercises.forEach((exercise, idx) => {
       const setNum = exercise.sets || 1;
       if (!exercisesBySet[setNum]) {
         exercisesBySet[setNum] = [];
       }
       exercisesBySet[setNum].push(exercise.exerciseId);
+      if (exercise.rest !== undefined) {
+        exerciseRest[exercise.exerciseId] = exercise.rest;
+      }
+
+      // Consecutive exercises sharing a group become a linked run
+      const group = exercise.group ? block.groups?.find(g => g.id === exercise.group) : undefined;
+      if (!group) return;
+      const prev = flatExercises[idx - 1];
+      const next = flatExercises[idx + 1];
+      if (prev?.group !== group.id || (prev.sets || 1) !== setNum) {
+        groupSettings[getGroupKey(setNum, exercise.exerciseId)] = { rounds: group.rounds, rest: group.rest };
+      }
+      if (next?.group === group.id && (next.sets || 1) === setNum) {
+        links[setNum] = [...(links[setNum] || []), exercise.exerciseId];
+      }
     });
 
     return {
       id: block.id,
       type: block.type,
       exercises: exercisesBySet,
+      rest: block.rest,
+      exerciseRest,
+      timing: block.timing,
+      repeat: block.repeat,
+      links,
+      groupSettings,
+      setIds: block.sets && block.sets.length > 0
+        ? Object.fromEntries(block.sets.map(set => [set.setNumber, set.id]))
+        : undefined,
     };
   });
 }
@@ -147,6 +223,9 @@ export function WorkoutBuilder({ onStart, onCancel, editWorkout, onSave }: Worko
       id: `${type}-${Date.now()}-${idx}`,
       type,
       exercises: { 1: [] },
+      exerciseRest: {},
+      links: {},
+      groupSettings: {},
     }));
 
     setBlocks(prev => [...prev, ...newBlocks]);
@@ -329,6 +408,60 @@ export function WorkoutBuilder({ onStart, onCancel, editWorkout, onSave }: Worko
     }).slice(0, 10);
   };
 
+  // Set the rest after each exercise in a block (undefined = block type default)
+  const setBlockRest = (blockId: string, rest: number | undefined) => {
+    setBlocks(prev => prev.map(block => (block.id === blockId ? { ...block, rest } : block)));
+  };
+
+  // Switch a block between worked-through (undefined) and a timed mode, starting from the mode's defaults
+  const setBlockMode = (blockId: string, mode: BlockMode | undefined) => {
+    setBlocks(prev => prev.map(block => {
+      if (block.id !== blockId) return block;
+      if (!mode) return { ...block, timing: undefined };
+      const { minutes, work, rest, rounds } = DEFAULT_BLOCK_TIMING[mode];
+      const timing: BlockTiming = mode === 'tabata' ? { mode, work, rest, rounds } : { mode, minutes };
+      return { ...block, timing };
+    }));
+  };
+
+  const setBlockRepeat = (blockId: string, repeat: number) => {
+    setBlocks(prev => prev.map(block => (block.id === blockId ? { ...block, repeat: repeat > 1 ? repeat : undefined } : block)));
+  };
+
+  const updateBlockTiming = (blockId: string, changes: Partial<BlockTiming>) => {
+    setBlocks(prev => prev.map(block =>
+      block.id === blockId && block.timing ? { ...block, timing: { ...block.timing, ...changes } } : block
+    ));
+  };
+
+  // Tap an exercise's rest badge to cycle its override: block rest -> 0s -> 15s ... -> 180s -> block rest
+  const cycleExerciseRest = (blockId: string, exerciseId: string) => {
+    setBlocks(prev => prev.map(block => {
+      if (block.id !== blockId) return block;
+      const { [exerciseId]: current, ...others } = block.exerciseRest;
+      const next = current === undefined ? REST_OPTIONS[0] : REST_OPTIONS[REST_OPTIONS.indexOf(current) + 1];
+      return { ...block, exerciseRest: next === undefined ? others : { ...others, [exerciseId]: next } };
+    }));
+  };
+
+  // Link an exercise to the one after it (or unlink) to make a superset/circuit
+  const toggleLink = (blockId: string, setNum: number, exerciseId: string) => {
+    setBlocks(prev => prev.map(block => {
+      if (block.id !== blockId) return block;
+      const linked = block.links[setNum] || [];
+      const next = linked.includes(exerciseId) ? linked.filter(id => id !== exerciseId) : [...linked, exerciseId];
+      return { ...block, links: { ...block.links, [setNum]: next } };
+    }));
+  };
+
+  const updateGroupSettings = (blockId: string, key: string, changes: Partial<GroupSettings>) => {
+    setBlocks(prev => prev.map(block => {
+      if (block.id !== blockId) return block;
+      const current = block.groupSettings[key] ?? { rounds: DEFAULT_GROUP_ROUNDS };
+      return { ...block, groupSettings: { ...block.groupSettings, [key]: { ...current, ...changes } } };
+    }));
+  };
+
   // Get exercise count for a block
   const getBlockExerciseCount = (block: BuilderBlock) => {
     const unique = new Set<string>();
@@ -355,27 +488,53 @@ export function WorkoutBuilder({ onStart, onCancel, editWorkout, onSave }: Worko
       const config = BLOCK_TYPE_CONFIG[block.type];
       const setCount = Object.keys(block.exercises).length;
       const flatExercises: WorkoutExercise[] = [];
+      const groups: ExerciseGroup[] = [];
 
       for (let setNum = 1; setNum <= setCount; setNum++) {
         const setExerciseIds = block.exercises[setNum] || [];
-        setExerciseIds.forEach(id => {
+        // Timed blocks run on the clock, so supersets/circuits don't apply
+        const runs = block.timing ? [] : getLinkedRuns(setExerciseIds, block.links[setNum]);
+        runs.forEach(([start]) => {
+          const id = getGroupKey(setNum, setExerciseIds[start]);
+          groups.push({ id, ...(block.groupSettings[id] ?? { rounds: DEFAULT_GROUP_ROUNDS }) });
+        });
+
+        setExerciseIds.forEach((id, idx) => {
           const exercise = getExerciseById(id);
+          const run = runs.find(([start, end]) => idx >= start && idx <= end);
           flatExercises.push({
             exerciseId: id,
             weight: exercise?.defaultWeight,
             reps: exercise?.defaultReps,
             duration: exercise?.defaultDuration,
             sets: setCount > 1 ? setNum : undefined,
+            group: run ? getGroupKey(setNum, setExerciseIds[run[0]]) : undefined,
+            rest: block.exerciseRest[id],
           });
         });
       }
 
+      // Blocks authored as WorkoutSets are saved back as sets
+      const setIds = block.setIds;
+      const sets: WorkoutSet[] | undefined = setIds && Array.from({ length: setCount }, (_, i) => i + 1).map(setNum => ({
+        id: setIds[setNum] ?? `${block.id}-set-${setNum}`,
+        setNumber: setNum,
+        exercises: flatExercises
+          .filter(exercise => (exercise.sets ?? 1) === setNum)
+          .map(exercise => ({ ...exercise, sets: undefined })),
+      }));
+
       if (flatExercises.length > 0) {
         workoutBlocks.push({
           id: block.id,
           type: block.type,
           name: config.label,
           exercises: flatExercises,
+          sets,
+          groups: groups.length > 0 ? groups : undefined,
+          repeat: block.repeat,
+          rest: block.rest,
+          timing: block.timing,
         });
       }
     });
@@ -505,6 +664,29 @@ export function WorkoutBuilder({ onStart, onCancel, editWorkout, onSave }: Worko
                     <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-slate-200/80 dark:bg-slate-700 text-slate-600 dark:text-slate-400">
                       {exerciseCount} exercise{exerciseCount !== 1 ? 's' : ''}{setCount > 1 ? ` · ${setCount} sets` : ''}
                     </span>
+                    {!block.timing && (
+                      <select
+                        value={block.rest ?? ''}
+                        onChange={e => setBlockRest(block.id, e.target.value === '' ? undefined : Number(e.target.value))}
+                        className="px-1.5 py-0.5 text-xs rounded-full bg-transparent border border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 focus:outline-none"
+                        title="Rest after each exercise"
+                      >
+                        <option value="">Rest {DEFAULT_REST_SECONDS[block.type]}s</option>
+                        {REST_OPTIONS.map(seconds => (
+                          <option key={seconds} value={seconds}>Rest {seconds}s</option>
+                        ))}
+                      </select>
+                    )}
+                    <select
+                      value={block.repeat ?? 1}
+                      onChange={e => setBlockRepeat(block.id, Number(e.target.value))}
+                      className="px-1.5 py-0.5 text-xs rounded-full bg-transparent border border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 focus:outline-none"
+                      title="Times to run through the block"
+                    >
+                      {REPEAT_OPTIONS.map(count => (
+                        <option key={count} value={count}>{count === 1 ? 'Once' : `×${count}`}</option>
+                      ))}
+                    </select>
                   </div>
                   <div className="flex items-center gap-1">
                     <button
@@ -535,6 +717,36 @@ export function WorkoutBuilder({ onStart, onCancel, editWorkout, onSave }: Worko
                     </button>
                   </div>
                 </div>
+                {block.type === 'conditioning' && (
+                  <div className="mt-2 flex flex-wrap items-center gap-1.5">
+                    {([undefined, ...Object.keys(BLOCK_MODE_LABELS)] as (BlockMode | undefined)[]).map(mode => (
+                      <button
+                        key={mode ?? 'standard'}
+                        onClick={() => setBlockMode(block.id, mode)}
+                        className={`px-2 py-0.5 text-xs font-medium rounded-full transition-colors ${
+                          block.timing?.mode === mode
+                            ? 'bg-emerald-600 text-white'
+                            : 'bg-slate-200/80 dark:bg-slate-700 text-slate-600 dark:text-slate-400 hover:bg-slate-300 dark:hover:bg-slate-600'
+                        }`}
+                      >
+                        {mode ? BLOCK_MODE_LABELS[mode] : 'Standard'}
+                      </button>
+                    ))}
+                    {block.timing && getTimingFields(block.timing.mode).map(({ key, label }) => (
+                      <label key={key} className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+                        <input
+                          type="number"
+                          inputMode="numeric"
+                          min={1}
+                          value={resolveTiming(block.timing!)[key] || ''}
+                          onChange={e => updateBlockTiming(block.id, { [key]: e.target.value ? Math.max(1, Number(e.target.value)) : undefined })}
+                          className="w-12 px-1.5 py-0.5 rounded bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-right text-slate-900 dark:text-slate-100 focus:outline-none focus:border-emerald-500"
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                )}
               </div>
 
               {/* Sets */}
@@ -543,6 +755,7 @@ export function WorkoutBuilder({ onStart, onCancel, editWorkout, onSave }: Worko
                   const setExercises = block.exercises[setNum] || [];
                   const isAddingHere = addingToBlockId === block.id && addingToSet === setNum;
                   const filteredExercises = isAddingHere ? getFilteredExercises(block.id, setNum) : [];
+                  const linkedRuns = block.timing ? [] : getLinkedRuns(setExercises, block.links[setNum]);
 
                   return (
                     <div key={setNum} className={`rounded-xl ${setCount > 1 ? 'bg-slate-50/50 dark:bg-slate-900/30 p-3' : ''}`}>
@@ -589,72 +802,140 @@ export function WorkoutBuilder({ onStart, onCancel, editWorkout, onSave }: Worko
                               const isSwiping = swipingExercise?.blockId === block.id &&
                                 swipingExercise?.setNum === setNum &&
                                 swipingExercise?.exerciseIdx === exerciseIdx;
+                              const run = linkedRuns.find(([start, end]) => exerciseIdx >= start && exerciseIdx <= end);
+                              const groupKey = run && exerciseIdx === run[0] ? getGroupKey(setNum, exerciseId) : null;
+                              const groupSettings = groupKey ? block.groupSettings[groupKey] ?? { rounds: DEFAULT_GROUP_ROUNDS } : null;
+                              const isLinked = !isLast && (block.links[setNum] || []).includes(exerciseId);
 
                               return (
-                                <div key={`${exerciseId}-${exerciseIdx}`} className="relative overflow-hidden rounded-lg">
-                                  {isSwiping && (
-                                    <div className="absolute inset-y-0 right-0 w-24 bg-red-500 flex items-center justify-end pr-4">
-                                      <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                                      </svg>
+                                <Fragment key={`${exerciseId}-${exerciseIdx}`}>
+                                  {run && groupKey && groupSettings && (
+                                    <div className="flex flex-wrap items-center gap-2 pt-2 pb-1 text-xs text-slate-500 dark:text-slate-400">
+                                      <span className="font-semibold uppercase tracking-wide text-emerald-600 dark:text-emerald-400">
+                                        {run[1] - run[0] === 1 ? 'Superset' : 'Circuit'}
+                                      </span>
+                                      <label className="flex items-center gap-1">
+                                        <input
+                                          type="number"
+                                          inputMode="numeric"
+                                          min={1}
+                                          value={groupSettings.rounds || ''}
+                                          onChange={e => updateGroupSettings(block.id, groupKey, { rounds: Math.max(1, Number(e.target.value) || 1) })}
+                                          className="w-12 px-1.5 py-0.5 rounded bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-right text-slate-900 dark:text-slate-100 focus:outline-none focus:border-emerald-500"
+                                        />
+                                        rounds
+                                      </label>
+                                      <select
+                                        value={groupSettings.rest ?? ''}
+                                        onChange={e => updateGroupSettings(block.id, groupKey, { rest: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                        className="px-1.5 py-0.5 rounded-full bg-transparent border border-slate-200 dark:border-slate-700 focus:outline-none"
+                                        title="Rest after each round"
+                                      >
+                                        <option value="">Rest {block.rest ?? DEFAULT_REST_SECONDS[block.type]}s / round</option>
+                                        {REST_OPTIONS.map(seconds => (
+                                          <option key={seconds} value={seconds}>Rest {seconds}s / round</option>
+                                        ))}
+                                      </select>
                                     </div>
                                   )}
-
-                                  <div
-                                    onTouchStart={(e) => handleTouchStart(e, block.id, setNum, exerciseIdx, e.currentTarget)}
-                                    onTouchMove={handleTouchMove}
-                                    onTouchEnd={handleTouchEnd}
-                                    className="relative flex items-center gap-2 p-3 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-sm"
-                                    style={{ willChange: 'transform' }}
-                                  >
-                                    <div className="shrink-0 flex flex-col -my-1">
-                                      <button
-                                        onClick={() => moveExercise(block.id, setNum, exerciseIdx, 'up')}
-                                        disabled={isFirst}
-                                        className={`p-0.5 rounded transition-colors ${isFirst ? 'text-slate-200 dark:text-slate-700' : 'text-slate-400 hover:text-emerald-500 dark:text-slate-500 dark:hover:text-emerald-400 active:scale-90'}`}
-                                      >
-                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
-                                        </svg>
-                                      </button>
-                                      <button
-                                        onClick={() => moveExercise(block.id, setNum, exerciseIdx, 'down')}
-                                        disabled={isLast}
-                                        className={`p-0.5 rounded transition-colors ${isLast ? 'text-slate-200 dark:text-slate-700' : 'text-slate-400 hover:text-emerald-500 dark:text-slate-500 dark:hover:text-emerald-400 active:scale-90'}`}
-                                      >
-                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                                  <div className="relative overflow-hidden rounded-lg">
+                                    {isSwiping && (
+                                      <div className="absolute inset-y-0 right-0 w-24 bg-red-500 flex items-center justify-end pr-4">
+                                        <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                                         </svg>
-                                      </button>
-                                    </div>
-                                    {areaLabel && (
-                                      <span className={`shrink-0 px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide rounded ${areaColorClass}`}>
-                                        {areaLabel}
-                                      </span>
+                                      </div>
                                     )}
-                                    <span className="flex-1 min-w-0 text-base font-medium text-slate-700 dark:text-slate-200 truncate">
-                                      {exercise?.name || exerciseId}
-                                    </span>
-                                    <span className="shrink-0 text-sm text-slate-400 dark:text-slate-500 tabular-nums">
-                                      {exercise?.defaultReps && `${exercise.defaultReps} reps`}
-                                      {exercise?.defaultDuration && `${exercise.defaultDuration}s`}
-                                    </span>
-                                    {setCount > 1 && setNum < setCount && (
+
+                                    <div
+                                      onTouchStart={(e) => handleTouchStart(e, block.id, setNum, exerciseIdx, e.currentTarget)}
+                                      onTouchMove={handleTouchMove}
+                                      onTouchEnd={handleTouchEnd}
+                                      className={`relative flex items-center gap-2 p-3 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-sm ${
+                                        run ? 'border-l-4 border-l-emerald-500 dark:border-l-emerald-500' : ''
+                                      }`}
+                                      style={{ willChange: 'transform' }}
+                                    >
+                                      <div className="shrink-0 flex flex-col -my-1">
+                                        <button
+                                          onClick={() => moveExercise(block.id, setNum, exerciseIdx, 'up')}
+                                          disabled={isFirst}
+                                          className={`p-0.5 rounded transition-colors ${isFirst ? 'text-slate-200 dark:text-slate-700' : 'text-slate-400 hover:text-emerald-500 dark:text-slate-500 dark:hover:text-emerald-400 active:scale-90'}`}
+                                        >
+                                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                                          </svg>
+                                        </button>
+                                        <button
+                                          onClick={() => moveExercise(block.id, setNum, exerciseIdx, 'down')}
+                                          disabled={isLast}
+                                          className={`p-0.5 rounded transition-colors ${isLast ? 'text-slate-200 dark:text-slate-700' : 'text-slate-400 hover:text-emerald-500 dark:text-slate-500 dark:hover:text-emerald-400 active:scale-90'}`}
+                                        >
+                                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                                          </svg>
+                                        </button>
+                                      </div>
+                                      {areaLabel && (
+                                        <span className={`shrink-0 px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide rounded ${areaColorClass}`}>
+                                          {areaLabel}
+                                        </span>
+                                      )}
+                                      <span className="flex-1 min-w-0 text-base font-medium text-slate-700 dark:text-slate-200 truncate">
+                                        {exercise?.name || exerciseId}
+                                      </span>
+                                      <span className="shrink-0 text-sm text-slate-400 dark:text-slate-500 tabular-nums">
+                                        {exercise?.defaultReps && `${exercise.defaultReps} reps`}
+                                        {exercise?.defaultDuration && `${exercise.defaultDuration}s`}
+                                      </span>
                                       <button
                                         onClick={(e) => {
                                           e.stopPropagation();
-                                          copyToNextSet(block.id, setNum, exerciseId);
+                                          cycleExerciseRest(block.id, exerciseId);
                                         }}
-                                        className="shrink-0 p-1.5 text-slate-400 hover:text-emerald-500 dark:text-slate-500 dark:hover:text-emerald-400 transition-colors"
-                                        title="Copy to next set"
+                                        className={`shrink-0 flex items-center gap-0.5 px-1.5 py-0.5 rounded text-xs tabular-nums transition-colors ${
+                                          block.exerciseRest[exerciseId] !== undefined
+                                            ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400'
+                                            : 'text-slate-300 dark:text-slate-600 hover:text-slate-500 dark:hover:text-slate-400'
+                                        }`}
+                                        title="Rest after this exercise (tap to change)"
                                       >
-                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                                        </svg>
+                                        <span className="material-symbols-outlined" style={{ fontSize: '14px' }}>timer</span>
+                                        {block.exerciseRest[exerciseId] !== undefined && `${block.exerciseRest[exerciseId]}s`}
                                       </button>
-                                    )}
+                                      {!block.timing && !isLast && (
+                                        <button
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            toggleLink(block.id, setNum, exerciseId);
+                                          }}
+                                          className={`shrink-0 p-1 rounded transition-colors ${
+                                            isLinked
+                                              ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400'
+                                              : 'text-slate-300 dark:text-slate-600 hover:text-slate-500 dark:hover:text-slate-400'
+                                          }`}
+                                          title={isLinked ? 'Unlink from the next exercise' : 'Superset with the next exercise'}
+                                        >
+                                          <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>link</span>
+                                        </button>
+                                      )}
+                                      {setCount > 1 && setNum < setCount && (
+                                        <button
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            copyToNextSet(block.id, setNum, exerciseId);
+                                          }}
+                                          className="shrink-0 p-1.5 text-slate-400 hover:text-emerald-500 dark:text-slate-500 dark:hover:text-emerald-400 transition-colors"
+                                          title="Copy to next set"
+                                        >
+                                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                                          </svg>
+                                        </button>
+                                      )}
+                                    </div>
                                   </div>
-                                </div>
+                                </Fragment>
                               );
                             })}
 
@@ -1,17 +1,27 @@
 import { useMemo, useState } from 'react';
-import type { WorkoutBlock, SavedWorkout, CardioType, BlockType } from '../types';
+import type { WorkoutBlock, SavedWorkout, CardioType, BlockType, CustomCardioActivity } from '../types';
 import { CARDIO_TYPE_LABELS } from '../types';
-import { getLastWorkout, loadSavedWorkouts } from '../data/storage';
+import { getLastWorkout, loadSavedWorkouts, loadCustomCardioActivities, saveCustomCardioActivity, deleteCustomCardioActivity } from '../data/storage';
+import { CustomCardioEditor } from './CustomCardioEditor';
 import { getExerciseById } from '../data/exercises';
+import { getTodaysOpenPlans, type CalendarPlan } from '../data/calendar';
 
 // Material icons for cardio types with colors
-const CARDIO_CONFIG: Record<CardioType, { icon: string; color: string }> = {
+const CARDIO_CONFIG: Record<Exclude<CardioType, 'custom'>, { icon: string; color: string }> = {
   'walk': { icon: 'directions_walk', color: 'text-emerald-500' },
   'run': { icon: 'sprint', color: 'text-orange-500' },
   'trail-run': { icon: 'directions_run', color: 'text-amber-600' },
   'hike': { icon: 'hiking', color: 'text-green-600' },
+  'cycle': { icon: 'directions_bike', color: 'text-sky-500' },
+  'row': { icon: 'rowing', color: 'text-blue-600' },
+  'swim': { icon: 'pool', color: 'text-cyan-500' },
+  'elliptical': { icon: 'steps', color: 'text-violet-500' },
+  'ski-erg': { icon: 'downhill_skiing', color: 'text-indigo-500' },
+  'jump-rope': { icon: 'sports_gymnastics', color: 'text-pink-500' },
 };
 
+const BUILT_IN_CARDIO = Object.keys(CARDIO_CONFIG) as Exclude<CardioType, 'custom'>[];
+
 // Block type icons for workout preview
 const BLOCK_TYPE_ICONS: Record<BlockType, string> = {
   warmup: 'physical_therapy',
@@ -29,14 +39,16 @@ const getBlockTypes = (blocks: WorkoutBlock[]): BlockType[] => {
 };
 
 interface WorkoutStartFlowProps {
+  onStartPlannedWorkout: (plan: CalendarPlan) => void;
   onStartLastWorkout: (blocks: WorkoutBlock[]) => void;
   onCreateNew: () => void;
   onStartSavedWorkout: (workout: SavedWorkout) => void;
-  onStartCardio: (type: CardioType) => void;
+  onStartCardio: (type: CardioType, customActivity?: CustomCardioActivity) => void;
   onManageLibrary: () => void;
 }
 
 export function WorkoutStartFlow({
+  onStartPlannedWorkout,
   onStartLastWorkout,
   onCreateNew,
   onStartSavedWorkout,
@@ -45,7 +57,22 @@ export function WorkoutStartFlow({
 }: WorkoutStartFlowProps) {
   const lastWorkout = useMemo(() => getLastWorkout(), []);
   const savedWorkouts = useMemo(() => loadSavedWorkouts(), []);
+  const todaysPlans = useMemo(() => getTodaysOpenPlans(), []);
   const [previewWorkout, setPreviewWorkout] = useState<SavedWorkout | null>(null);
+  const [customActivities, setCustomActivities] = useState(() => loadCustomCardioActivities());
+  const [editingActivity, setEditingActivity] = useState<CustomCardioActivity | 'new' | null>(null);
+
+  const handleSaveActivity = (activity: CustomCardioActivity) => {
+    saveCustomCardioActivity(activity);
+    setCustomActivities(loadCustomCardioActivities());
+    setEditingActivity(null);
+  };
+
+  const handleDeleteActivity = (id: string) => {
+    deleteCustomCardioActivity(id);
+    setCustomActivities(loadCustomCardioActivities());
+    setEditingActivity(null);
+  };
 
   const formatTimeAgo = (dateStr: string) => {
     const date = new Date(dateStr);
@@ -75,6 +102,35 @@ export function WorkoutStartFlow({
       </header>
 
       <div className="px-4 space-y-8">
+        {/* Today's plan: calendar and program workouts not done yet */}
+        {todaysPlans.length > 0 && (
+          <div>
+            <h2 className="text-sm font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-3">Today's Plan</h2>
+            <div className="space-y-2">
+              {todaysPlans.map((plan, idx) => (
+                <button
+                  key={idx}
+                  onClick={() => onStartPlannedWorkout(plan)}
+                  className="w-full p-4 rounded-xl bg-white dark:bg-slate-800 border border-blue-200 dark:border-blue-800 text-left hover:border-blue-300 dark:hover:border-blue-700 transition-all active:scale-[0.99]"
+                >
+                  <div className="flex items-center gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-semibold text-slate-900 dark:text-slate-100 text-lg">Start today's plan</div>
+                      <div className="text-slate-500 dark:text-slate-400 text-sm truncate">
+                        {plan.workout?.name}
+                        {plan.scheduled && ` • ${plan.scheduled.program.name}, week ${plan.scheduled.slot.week}`}
+                      </div>
+                    </div>
+                    <div className="w-12 h-12 rounded-xl bg-blue-500 flex items-center justify-center flex-shrink-0">
+                      <span className="material-symbols-outlined text-white" style={{ fontSize: '26px' }}>event_available</span>
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Create New Workout */}
         <div>
           <h2 className="text-sm font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-3">Create a New Workout</h2>
@@ -193,7 +249,7 @@ export function WorkoutStartFlow({
         <div>
           <h2 className="text-sm font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-3">Start a Timed Activity</h2>
           <div className="grid grid-cols-2 gap-3">
-            {(['walk', 'run', 'trail-run', 'hike'] as CardioType[]).map((type) => {
+            {BUILT_IN_CARDIO.map((type) => {
               const config = CARDIO_CONFIG[type];
               return (
                 <button
@@ -206,10 +262,44 @@ export function WorkoutStartFlow({
                 </button>
               );
             })}
+            {customActivities.map(activity => (
+              <div key={activity.id} className="relative">
+                <button
+                  onClick={() => onStartCardio('custom', activity)}
+                  className="w-full flex items-center gap-3 pl-4 pr-10 py-3 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 hover:border-emerald-300 dark:hover:border-emerald-700 transition-all active:scale-[0.98]"
+                >
+                  <span className="text-2xl leading-6">{activity.icon}</span>
+                  <span className="text-sm font-medium text-slate-700 dark:text-slate-300 truncate">{activity.name}</span>
+                </button>
+                <button
+                  onClick={() => setEditingActivity(activity)}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+                  title="Edit activity"
+                >
+                  <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>edit</span>
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setEditingActivity('new')}
+              className="flex items-center gap-3 px-4 py-3 rounded-xl border-2 border-dashed border-slate-300 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:border-emerald-400 hover:text-emerald-600 dark:hover:text-emerald-400 transition-colors"
+            >
+              <span className="material-symbols-outlined" style={{ fontSize: '24px' }}>add</span>
+              <span className="text-sm font-medium">Add Activity</span>
+            </button>
           </div>
         </div>
       </div>
 
+      {editingActivity && (
+        <CustomCardioEditor
+          activity={editingActivity === 'new' ? undefined : editingActivity}
+          onSave={handleSaveActivity}
+          onDelete={handleDeleteActivity}
+          onCancel={() => setEditingActivity(null)}
+        />
+      )}
+
       {/* Preview Modal */}
       {previewWorkout && (
         <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50" onClick={() => setPreviewWorkout(null)}>
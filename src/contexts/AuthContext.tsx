@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState, useCallback, type ReactNode } from 'react';
 import type { User, Session, AuthError } from '@supabase/supabase-js';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { getPendingCount, subscribeToOutbox } from '../data/syncOutbox';
 
 export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'error' | 'offline';
 
@@ -10,6 +11,8 @@ interface AuthContextType {
   loading: boolean;
   error: AuthError | null;
   syncStatus: SyncStatus;
+  /** Local changes queued in the sync outbox that haven't reached the cloud yet */
+  pendingChanges: number;
   isConfigured: boolean;
   signInWithEmail: (email: string) => Promise<{ error: AuthError | null }>;
   verifyOtp: (email: string, token: string) => Promise<{ error: AuthError | null }>;
@@ -25,8 +28,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<AuthError | null>(null);
   const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle');
+  const [pendingChanges, setPendingChanges] = useState(() => getPendingCount());
   const isConfigured = isSupabaseConfigured();
 
+  // Track queued changes and connectivity
+  useEffect(() => {
+    const unsubscribe = subscribeToOutbox(setPendingChanges);
+    const handleOffline = () => setSyncStatus('offline');
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
   useEffect(() => {
     if (!supabase) {
       setLoading(false);
@@ -144,6 +159,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     loading,
     error,
     syncStatus,
+    pendingChanges,
     isConfigured,
     signInWithEmail,
     verifyOtp,
@@ -0,0 +1,363 @@
+/**
+ * Activity Files - GPX and TCX for cardio sessions
+ *
+ * Cardio sessions go out as GPX or TCX so other apps can read them: with the
+ * GPS track when one was recorded, and as a summary (time, duration,
+ * distance) otherwise. Files from a watch come back in as cardio sessions
+ * with their track, which carries the elevation. FIT files are binary and
+ * need converting to GPX or TCX first (watch apps and Garmin Connect export
+ * both). An activity that starts within a minute of a session already in
+ * history is treated as a copy of it and left out.
+ */
+
+import type { WorkoutSession, CardioType, TrackPoint } from '../types';
+import { CARDIO_TYPE_LABELS } from '../types';
+import { generateUUID } from '../utils/uuid';
+import { getDeviceTimeZone } from '../utils/dates';
+import { getTrackDistance } from '../utils/gps';
+import { KM_PER_MILE } from '../utils/units';
+import { loadSessions, saveSessions } from './storage';
+
+const METERS_PER_MILE = KM_PER_MILE * 1000;
+const DUPLICATE_WINDOW_MS = 60_000;     // Starts this close together are the same activity
+const MIN_POINT_GAP_MS = 5_000;         // Watch tracks are thinned to a fix every few seconds
+const TRACK_STATS_NS = 'http://www.garmin.com/xmlschemas/TrackStatsExtension/v1';
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+const GPX_TYPES: Record<CardioType, string> = {
+  'walk': 'walking',
+  'run': 'running',
+  'trail-run': 'trail_running',
+  'hike': 'hiking',
+  'cycle': 'cycling',
+  'row': 'rowing',
+  'swim': 'swimming',
+  'elliptical': 'elliptical',
+  'ski-erg': 'ski_erg',
+  'jump-rope': 'jump_rope',
+  'custom': 'other',
+};
+
+// TCX only knows Running, Biking and Other
+const TCX_SPORTS: Record<CardioType, string> = {
+  'walk': 'Other',
+  'run': 'Running',
+  'trail-run': 'Running',
+  'hike': 'Other',
+  'cycle': 'Biking',
+  'row': 'Other',
+  'swim': 'Other',
+  'elliptical': 'Other',
+  'ski-erg': 'Other',
+  'jump-rope': 'Other',
+  'custom': 'Other',
+};
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function getEndTime(session: WorkoutSession): string {
+  return session.completedAt
+    ?? new Date(new Date(session.startedAt).getTime() + (session.totalDuration ?? 0) * 1000).toISOString();
+}
+
+/**
+ * A cardio session as GPX 1.1: its track, or just its name, time and summary
+ * if it wasn't tracked. Duration and distance also go in Garmin's track stats
+ * extension, so a summary-only file can be read back.
+ */
+export function exportSessionAsGPX(session: WorkoutSession): string {
+  const cardioType = session.cardioType ?? 'run';
+  const elapsedSeconds = Math.round((new Date(getEndTime(session)).getTime() - new Date(session.startedAt).getTime()) / 1000);
+  const stats = [
+    session.distance && `        <gpxtrkx:Distance>${(session.distance * METERS_PER_MILE).toFixed(1)}</gpxtrkx:Distance>`,
+    session.totalDuration && `        <gpxtrkx:TimerTime>${session.totalDuration}</gpxtrkx:TimerTime>`,
+    elapsedSeconds > 0 && `        <gpxtrkx:TotalElapsedTime>${elapsedSeconds}</gpxtrkx:TotalElapsedTime>`,
+  ].filter(Boolean);
+  const summary = [
+    session.distance && `${(session.distance * KM_PER_MILE).toFixed(2)} km`,
+    session.totalDuration && `${Math.round(session.totalDuration / 60)} min`,
+  ].filter(Boolean).join(', ');
+  const points = (session.track ?? []).map(point => [
+    `      <trkpt lat="${point.lat}" lon="${point.lon}">`,
+    point.elevation !== undefined ? `        <ele>${point.elevation}</ele>` : null,
+    `        <time>${point.time}</time>`,
+    '      </trkpt>',
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="Moove" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtrkx="${TRACK_STATS_NS}">`,
+    '  <metadata>',
+    `    <name>${escapeXml(session.name)}</name>`,
+    `    <time>${session.startedAt}</time>`,
+    '  </metadata>',
+    '  <trk>',
+    `    <name>${escapeXml(session.name)}</name>`,
+    summary ? `    <desc>${summary}</desc>` : null,
+    `    <type>${GPX_TYPES[cardioType]}</type>`,
+    stats.length > 0 ? `    <extensions>\n      <gpxtrkx:TrackStatsExtension>\n${stats.join('\n')}\n      </gpxtrkx:TrackStatsExtension>\n    </extensions>` : null,
+    points.length > 0 ? `    <trkseg>\n${points.join('\n')}\n    </trkseg>` : null,
+    '  </trk>',
+    '</gpx>',
+  ].filter(Boolean).join('\n');
+}
+
+/** A cardio session as TCX: one lap with its time and distance, plus the track if it has one */
+export function exportSessionAsTCX(session: WorkoutSession): string {
+  const cardioType = session.cardioType ?? 'run';
+  const track = session.track ?? [];
+  const totalSeconds = session.totalDuration
+    ?? Math.round((new Date(getEndTime(session)).getTime() - new Date(session.startedAt).getTime()) / 1000);
+  const meters = (session.distance ?? getTrackDistance(track)) * METERS_PER_MILE;
+
+  let covered = 0;
+  const points = track.map((point, i) => {
+    if (i > 0) covered += getTrackDistance([track[i - 1], point]) * METERS_PER_MILE;
+    return [
+      '            <Trackpoint>',
+      `              <Time>${point.time}</Time>`,
+      '              <Position>',
+      `                <LatitudeDegrees>${point.lat}</LatitudeDegrees>`,
+      `                <LongitudeDegrees>${point.lon}</LongitudeDegrees>`,
+      '              </Position>',
+      point.elevation !== undefined ? `              <AltitudeMeters>${point.elevation}</AltitudeMeters>` : null,
+      `              <DistanceMeters>${covered.toFixed(1)}</DistanceMeters>`,
+      '            </Trackpoint>',
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">',
+    '  <Activities>',
+    `    <Activity Sport="${TCX_SPORTS[cardioType]}">`,
+    `      <Id>${session.startedAt}</Id>`,
+    `      <Lap StartTime="${session.startedAt}">`,
+    `        <TotalTimeSeconds>${totalSeconds}</TotalTimeSeconds>`,
+    `        <DistanceMeters>${meters.toFixed(1)}</DistanceMeters>`,
+    '        <Calories>0</Calories>',
+    '        <Intensity>Active</Intensity>',
+    '        <TriggerMethod>Manual</TriggerMethod>',
+    points.length > 0 ? `        <Track>\n${points.join('\n')}\n        </Track>` : null,
+    '      </Lap>',
+    `      <Notes>${escapeXml(session.name)}</Notes>`,
+    '    </Activity>',
+    '  </Activities>',
+    '</TrainingCenterDatabase>',
+  ].filter(Boolean).join('\n');
+}
+
+/** File name for an exported session: "moove-run-2026-10-18.gpx" */
+export function getActivityFileName(session: WorkoutSession, format: 'gpx' | 'tcx'): string {
+  return `moove-${session.cardioType ?? 'cardio'}-${session.startedAt.split('T')[0]}.${format}`;
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+// Direct children and descendants by local name, whatever namespace prefix the file uses
+function children(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === name);
+}
+
+function descendants(parent: Element | Document, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', name));
+}
+
+function childText(parent: Element, name: string): string | undefined {
+  return children(parent, name)[0]?.textContent?.trim() || undefined;
+}
+
+function toNumber(text: string | null | undefined): number | undefined {
+  if (text === null || text === undefined || text.trim() === '') return undefined;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function toIsoTime(text: string | undefined): string | undefined {
+  const time = text ? new Date(text).getTime() : NaN;
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+// Best match for whatever a watch calls the sport; running if nothing fits
+function toCardioType(...labels: (string | undefined)[]): CardioType {
+  const text = labels.filter(Boolean).join(' ').toLowerCase();
+  if (/bik|cycl|ride/.test(text)) return 'cycle';
+  if (text.includes('swim')) return 'swim';
+  if (text.includes('row')) return 'row';
+  if (text.includes('elliptical')) return 'elliptical';
+  if (text.includes('trail')) return 'trail-run';
+  if (text.includes('hik')) return 'hike';
+  if (text.includes('walk')) return 'walk';
+  return 'run';
+}
+
+// Keep a fix every MIN_POINT_GAP_MS (and the last one) so a long watch track fits in storage
+function thinTrack(track: TrackPoint[]): TrackPoint[] {
+  const thinned: TrackPoint[] = [];
+  let lastTime = -Infinity;
+  track.forEach((point, i) => {
+    const time = new Date(point.time).getTime();
+    if (time - lastTime >= MIN_POINT_GAP_MS || i === track.length - 1) {
+      thinned.push(point);
+      lastTime = time;
+    }
+  });
+  return thinned;
+}
+
+interface ParsedActivity {
+  name?: string;
+  cardioType: CardioType;
+  startedAt?: string;
+  totalDuration?: number;        // Seconds
+  meters?: number;
+  track: TrackPoint[];
+}
+
+function toSession(activity: ParsedActivity): WorkoutSession | null {
+  const track = [...activity.track].sort((a, b) => a.time.localeCompare(b.time));
+  const startedAt = activity.startedAt ?? track[0]?.time;
+  if (!startedAt) return null;
+
+  const start = new Date(startedAt).getTime();
+  const trackSeconds = track.length > 1
+    ? (new Date(track[track.length - 1].time).getTime() - start) / 1000
+    : 0;
+  const totalDuration = Math.round(activity.totalDuration ?? trackSeconds);
+  const miles = activity.meters !== undefined ? activity.meters / METERS_PER_MILE : getTrackDistance(track);
+
+  return {
+    id: generateUUID(),
+    name: activity.name ?? CARDIO_TYPE_LABELS[activity.cardioType],
+    blocks: [],
+    exercises: [],
+    startedAt: new Date(start).toISOString(),
+    timeZone: getDeviceTimeZone(),
+    completedAt: new Date(start + totalDuration * 1000).toISOString(),
+    totalDuration: totalDuration || undefined,
+    cardioType: activity.cardioType,
+    distance: miles > 0 ? Math.round(miles * 10000) / 10000 : undefined,
+    track: track.length > 0 ? thinTrack(track) : undefined,
+  };
+}
+
+function parseGPX(doc: Document): ParsedActivity[] {
+  const activities: ParsedActivity[] = [];
+  // A track without timed points (a summary export) starts at the file's time
+  const metadata = descendants(doc, 'metadata')[0];
+  const fileTime = metadata && toIsoTime(childText(metadata, 'time'));
+  for (const trk of descendants(doc, 'trk')) {
+    const name = childText(trk, 'name');
+    const cardioType = toCardioType(childText(trk, 'type'), name);
+    const track: TrackPoint[] = [];
+    for (const point of descendants(trk, 'trkpt')) {
+      const lat = toNumber(point.getAttribute('lat'));
+      const lon = toNumber(point.getAttribute('lon'));
+      const time = toIsoTime(childText(point, 'time'));
+      if (lat === undefined || lon === undefined || !time) continue;
+      track.push({ time, lat, lon, elevation: toNumber(childText(point, 'ele')) });
+    }
+    // Duration and distance from Garmin's track stats, when the file has them
+    const stats = descendants(trk, 'TrackStatsExtension')[0];
+    activities.push({
+      name,
+      cardioType,
+      startedAt: track.length === 0 ? fileTime : undefined,
+      totalDuration: stats && (toNumber(childText(stats, 'TimerTime')) ?? toNumber(childText(stats, 'TotalElapsedTime'))),
+      meters: stats && toNumber(childText(stats, 'Distance')),
+      track,
+    });
+  }
+  return activities;
+}
+
+function parseTCX(doc: Document): ParsedActivity[] {
+  const activities: ParsedActivity[] = [];
+  for (const activity of descendants(doc, 'Activity')) {
+    const notes = childText(activity, 'Notes');
+    const cardioType = toCardioType(activity.getAttribute('Sport') ?? undefined, notes);
+    const laps = children(activity, 'Lap');
+    const track: TrackPoint[] = [];
+    for (const point of descendants(activity, 'Trackpoint')) {
+      const position = children(point, 'Position')[0];
+      const time = toIsoTime(childText(point, 'Time'));
+      const lat = position && toNumber(childText(position, 'LatitudeDegrees'));
+      const lon = position && toNumber(childText(position, 'LongitudeDegrees'));
+      if (lat === undefined || lon === undefined || !time) continue;
+      track.push({ time, lat, lon, elevation: toNumber(childText(point, 'AltitudeMeters')) });
+    }
+    const sum = (name: string) => laps.some(lap => toNumber(childText(lap, name)) !== undefined)
+      ? laps.reduce((total, lap) => total + (toNumber(childText(lap, name)) ?? 0), 0)
+      : undefined;
+    activities.push({
+      name: notes,
+      cardioType,
+      startedAt: toIsoTime(childText(activity, 'Id')) ?? toIsoTime(laps[0]?.getAttribute('StartTime') ?? undefined),
+      totalDuration: sum('TotalTimeSeconds'),
+      meters: sum('DistanceMeters'),
+      track,
+    });
+  }
+  return activities;
+}
+
+/**
+ * Read a GPX or TCX file into cardio sessions, one per track or activity.
+ * Throws with a message to show when the file can't be used.
+ */
+export function parseActivityFile(text: string, fileName: string): WorkoutSession[] {
+  if (/\.fit$/i.test(fileName)) {
+    throw new Error(`${fileName}: FIT files need converting to GPX or TCX first.`);
+  }
+
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`${fileName} is not a GPX or TCX file.`);
+  }
+
+  const root = doc.documentElement.localName;
+  const activities = root === 'gpx' ? parseGPX(doc)
+    : root === 'TrainingCenterDatabase' ? parseTCX(doc)
+    : null;
+  if (!activities) throw new Error(`${fileName} is not a GPX or TCX file.`);
+
+  const sessions = activities.map(toSession).filter((s): s is WorkoutSession => s !== null);
+  if (sessions.length === 0) {
+    throw new Error(`${fileName} has no timed activities to import.`);
+  }
+  return sessions;
+}
+
+/** The session in history that started within a minute of `session`, if any */
+export function findDuplicateSession(session: WorkoutSession, sessions: WorkoutSession[]): WorkoutSession | undefined {
+  const start = new Date(session.startedAt).getTime();
+  return sessions.find(s => Math.abs(new Date(s.startedAt).getTime() - start) < DUPLICATE_WINDOW_MS);
+}
+
+/** Split parsed activities into new ones and copies of history (or of each other) */
+export function previewActivityImport(parsed: WorkoutSession[]): { added: WorkoutSession[]; duplicates: number } {
+  const known = loadSessions();
+  const added: WorkoutSession[] = [];
+  for (const session of parsed) {
+    if (!findDuplicateSession(session, [...known, ...added])) added.push(session);
+  }
+  return { added, duplicates: parsed.length - added.length };
+}
+
+/** Add imported sessions to history */
+export function importActivities(sessions: WorkoutSession[]): void {
+  const all = [...loadSessions(), ...sessions];
+  all.sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+  saveSessions(all);
+}
@@ -0,0 +1,500 @@
+/**
+ * Backup Import - Read back files written by exportAllDataAsJSON
+ *
+ * A backup is parsed, upgraded through the schema migrations and checked
+ * record by record against the app's types. Invalid records are skipped and
+ * repeated ids inside the file are collapsed to one. The result can be
+ * previewed against local data before it is merged in or replaces it.
+ */
+
+import type {
+  WorkoutSession, SavedWorkout, Exercise, Program, PlannedWorkout, CustomCardioActivity, ExerciseLog, SetLog, RestLog, BlockResult, TrackPoint, HeartRateSample, BlockMode, SetType, WorkoutBlock, WorkoutExercise,
+  MuscleArea, EquipmentType, BlockType, PersonalityType, SyncRecord, UnitPreferences, EquipmentInventory,
+} from '../types';
+import { CARDIO_TYPE_LABELS, CARDIO_METRIC_LABELS, SET_TYPE_LABELS, BLOCK_MODE_LABELS, PERSONALITY_OPTIONS } from '../types';
+import { migrateBackup } from './migrations';
+import { sameContent } from './changeTracking';
+import { flushRepositoryWrites } from './repository';
+import {
+  loadSessions, saveSessions,
+  loadSavedWorkouts, saveSavedWorkouts,
+  loadCustomExercises, saveCustomExercises,
+  loadPrograms, savePrograms,
+  loadFavorites, saveFavorites,
+  loadSkipCounts, saveSkipCounts,
+  loadCustomDescriptions, saveCustomDescriptions,
+  loadRestDays, saveRestDays,
+  loadPlannedWorkouts, savePlannedWorkouts,
+  loadCustomCardioActivities, saveCustomCardioActivities,
+  loadStoredEquipmentConfig, saveEquipmentConfig,
+  savePersonality, loadUserName, saveUserName,
+  saveUnitPreferences,
+} from './storage';
+import type { FavoritesData, SkipCounts, CustomDescriptions, EquipmentConfig } from './storage';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BackupCollection = 'sessions' | 'savedWorkouts' | 'customExercises' | 'programs';
+
+/** A validated backup, ready to preview or apply */
+export interface ParsedBackup {
+  exportDate?: string;
+  sessions: WorkoutSession[];
+  savedWorkouts: SavedWorkout[];
+  customExercises: Exercise[];
+  programs: Program[];
+  favorites?: FavoritesData;
+  skipCounts?: SkipCounts;
+  customDescriptions?: CustomDescriptions;
+  restDays?: string[];
+  plannedWorkouts?: PlannedWorkout[];
+  customCardioActivities?: CustomCardioActivity[];
+  equipmentConfig?: EquipmentConfig;
+  personality?: PersonalityType;
+  userName?: string;
+  units?: UnitPreferences;
+  skipped: number;               // Records that failed validation
+  duplicates: number;            // Repeated ids inside the file
+}
+
+/** How a backup's records compare with what's on this device */
+export interface CollectionPreview {
+  total: number;                 // Valid records in the backup
+  added: number;                 // Ids not on this device
+  unchanged: number;             // Same id, same content
+  collisions: number;            // Same id, different content
+}
+
+export type BackupPreview = Record<BackupCollection, CollectionPreview>;
+
+/** merge: keep local records and add the backup's; replace: the backup becomes the data */
+export type ImportMode = 'merge' | 'replace';
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const VALID_AREAS: MuscleArea[] = ['squat', 'hinge', 'press', 'push', 'pull', 'core', 'conditioning', 'warmup', 'cooldown', 'full-body'];
+const VALID_EQUIPMENT: EquipmentType[] = ['bodyweight', 'dumbbell', 'kettlebell', 'barbell', 'sandbag', 'machine', 'cable', 'resistance-band'];
+const VALID_BLOCK_TYPES: BlockType[] = ['warmup', 'strength', 'conditioning', 'cardio', 'cooldown'];
+const VALID_SET_TYPES = Object.keys(SET_TYPE_LABELS) as SetType[];
+const VALID_BLOCK_MODES = Object.keys(BLOCK_MODE_LABELS) as BlockMode[];
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+}
+
+function isOptional(value: unknown, check: (v: unknown) => boolean): boolean {
+  return value === undefined || check(value);
+}
+
+const isNumber = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+const isString = (v: unknown) => typeof v === 'string';
+const isEffort = (v: unknown) => isNumber(v) && Number.isInteger(v) && (v as number) >= 1 && (v as number) <= 10;
+const isReps = (v: unknown) => isNumber(v) || v === 'AMRAP';
+const isCardioType = (v: unknown) => typeof v === 'string' && v in CARDIO_TYPE_LABELS;
+const isCardioMetric = (v: unknown) => typeof v === 'string' && v in CARDIO_METRIC_LABELS;
+const isCardioMetrics = (v: unknown) => isObject(v)
+  && Object.entries(v).every(([metric, value]) => metric !== 'distance' && isCardioMetric(metric) && isNumber(value));
+
+function isWorkoutExercise(value: unknown): value is WorkoutExercise {
+  return isObject(value)
+    && typeof value.exerciseId === 'string'
+    && isOptional(value.weight, isNumber)
+    && isOptional(value.reps, isReps)
+    && isOptional(value.duration, isNumber)
+    && isOptional(value.sets, isNumber)
+    && isOptional(value.group, isString)
+    && isOptional(value.rest, isNumber)
+    && isOptional(value.prescribed, isString)
+    && isOptional(value.notes, isString);
+}
+
+function isWorkoutBlock(value: unknown): value is WorkoutBlock {
+  return isObject(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && VALID_BLOCK_TYPES.includes(value.type as BlockType)
+    && Array.isArray(value.exercises) && value.exercises.every(isWorkoutExercise)
+    && isOptional(value.repeat, isNumber)
+    && isOptional(value.rest, isNumber)
+    && isOptional(value.timing, v => isObject(v)
+      && VALID_BLOCK_MODES.includes(v.mode as BlockMode)
+      && isOptional(v.minutes, isNumber) && isOptional(v.work, isNumber)
+      && isOptional(v.rest, isNumber) && isOptional(v.rounds, isNumber))
+    && isOptional(value.groups, v => Array.isArray(v) && v.every(group =>
+      isObject(group) && typeof group.id === 'string' && isNumber(group.rounds) && isOptional(group.rest, isNumber)
+    ))
+    && isOptional(value.sets, v => Array.isArray(v) && v.every(set =>
+      isObject(set) && typeof set.id === 'string' && isNumber(set.setNumber)
+      && Array.isArray(set.exercises) && set.exercises.every(isWorkoutExercise)
+    ));
+}
+
+function isSetLog(value: unknown): value is SetLog {
+  return isObject(value)
+    && VALID_SET_TYPES.includes(value.type as SetType)
+    && isOptional(value.weight, isNumber)
+    && isOptional(value.reps, isNumber)
+    && isOptional(value.duration, isNumber)
+    && isOptional(value.rpe, isEffort);
+}
+
+function isExerciseLog(value: unknown): value is ExerciseLog {
+  return isObject(value)
+    && typeof value.exerciseId === 'string'
+    && isDateString(value.completedAt)
+    && Array.isArray(value.sets) && value.sets.every(isSetLog)
+    && isOptional(value.round, isNumber)
+    && isOptional(value.effort, isEffort)
+    && isOptional(value.notes, isString);
+}
+
+function isRestLog(value: unknown): value is RestLog {
+  return isObject(value)
+    && typeof value.afterExerciseId === 'string'
+    && isNumber(value.planned)
+    && isNumber(value.taken)
+    && isDateString(value.startedAt);
+}
+
+function isBlockResult(value: unknown): value is BlockResult {
+  return isObject(value)
+    && typeof value.blockId === 'string'
+    && VALID_BLOCK_MODES.includes(value.mode as BlockMode)
+    && isNumber(value.rounds)
+    && isOptional(value.extraReps, isNumber)
+    && isOptional(value.finishTime, isNumber)
+    && isOptional(value.capped, v => typeof v === 'boolean')
+    && isOptional(value.round, isNumber)
+    && isDateString(value.completedAt);
+}
+
+function isTrackPoint(value: unknown): value is TrackPoint {
+  return isObject(value)
+    && isDateString(value.time)
+    && isNumber(value.lat)
+    && isNumber(value.lon)
+    && isOptional(value.elevation, isNumber)
+    && isOptional(value.accuracy, isNumber);
+}
+
+function isHeartRateSample(value: unknown): value is HeartRateSample {
+  return isObject(value)
+    && isDateString(value.time)
+    && isNumber(value.bpm);
+}
+
+const isWeekday = (v: unknown) => isNumber(v) && Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 6;
+
+function isProgramSlot(value: unknown): boolean {
+  return isObject(value)
+    && typeof value.programId === 'string'
+    && isNumber(value.week)
+    && isWeekday(value.weekday);
+}
+
+function isWorkoutSession(value: unknown): value is WorkoutSession {
+  return isObject(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && isDateString(value.startedAt)
+    && isOptional(value.timeZone, isString)
+    && isOptional(value.completedAt, isDateString)
+    && Array.isArray(value.blocks) && value.blocks.every(isWorkoutBlock)
+    && Array.isArray(value.exercises) && value.exercises.every(isExerciseLog)
+    && isOptional(value.totalDuration, isNumber)
+    && isOptional(value.overallEffort, isEffort)
+    && isOptional(value.cardioType, isCardioType)
+    && isOptional(value.customActivityId, isString)
+    && isOptional(value.distance, isNumber)
+    && isOptional(value.metrics, isCardioMetrics)
+    && isOptional(value.track, v => Array.isArray(v) && v.every(isTrackPoint))
+    && isOptional(value.heartRate, v => Array.isArray(v) && v.every(isHeartRateSample))
+    && isOptional(value.rests, v => Array.isArray(v) && v.every(isRestLog))
+    && isOptional(value.blockResults, v => Array.isArray(v) && v.every(isBlockResult))
+    && isOptional(value.program, isProgramSlot);
+}
+
+function isSavedWorkout(value: unknown): value is SavedWorkout {
+  return isObject(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && isDateString(value.createdAt)
+    && isDateString(value.updatedAt)
+    && Array.isArray(value.blocks) && value.blocks.every(isWorkoutBlock)
+    && isOptional(value.estimatedMinutes, isNumber)
+    && isOptional(value.cardioType, isCardioType);
+}
+
+function isProgram(value: unknown): value is Program {
+  return isObject(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && isNumber(value.weeks)
+    && isDateString(value.createdAt)
+    && isDateString(value.updatedAt)
+    && Array.isArray(value.days) && value.days.every(day =>
+      isObject(day) && isWeekday(day.weekday) && typeof day.workoutId === 'string'
+    )
+    && isObject(value.progression)
+    && isNumber(value.progression.weeklyIncrease)
+    && Array.isArray(value.progression.deloadWeeks) && value.progression.deloadWeeks.every(isNumber)
+    && isNumber(value.progression.deloadPercent)
+    && isOptional(value.startDate, isDateString);
+}
+
+function isPlannedWorkout(value: unknown): value is PlannedWorkout {
+  return isObject(value)
+    && isDateString(value.date)
+    && typeof value.workoutId === 'string';
+}
+
+function isCustomCardioActivity(value: unknown): value is CustomCardioActivity {
+  return isObject(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && typeof value.icon === 'string'
+    && Array.isArray(value.metrics) && value.metrics.every(isCardioMetric);
+}
+
+function isExercise(value: unknown): value is Exercise {
+  return isObject(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && VALID_AREAS.includes(value.area as MuscleArea)
+    && VALID_EQUIPMENT.includes(value.equipment as EquipmentType)
+    && isOptional(value.defaultWeight, isNumber)
+    && isOptional(value.defaultReps, isReps)
+    && isOptional(value.defaultDuration, isNumber)
+    && isOptional(value.description, isString)
+    && isOptional(value.alternatives, v => Array.isArray(v) && v.every(isString));
+}
+
+function isEquipmentInventory(value: unknown): value is EquipmentInventory {
+  const isNumberList = (v: unknown) => Array.isArray(v) && v.every(isNumber);
+  return isObject(value)
+    && isNumberList(value.kettlebells)
+    && isNumberList(value.sandbags)
+    && isObject(value.dumbbells) && isNumber(value.dumbbells.min) && isNumber(value.dumbbells.max) && isNumber(value.dumbbells.step)
+    && isObject(value.barbell) && isNumber(value.barbell.bar)
+    && Array.isArray(value.barbell.plates) && value.barbell.plates.every(p => isObject(p) && isNumber(p.weight) && isNumber(p.count))
+    && Array.isArray(value.bands) && value.bands.every(b => isObject(b) && isString(b.label) && isNumber(b.resistance));
+}
+
+/** Keep the valid records, collapsing repeated ids to the most recently updated copy */
+function cleanRecords<T extends SyncRecord>(
+  records: unknown[],
+  isValid: (value: unknown) => value is T
+): { records: T[]; skipped: number; duplicates: number } {
+  const byId = new Map<string, T>();
+  let skipped = 0;
+  let duplicates = 0;
+
+  for (const record of records) {
+    if (!isValid(record)) {
+      skipped++;
+      continue;
+    }
+    const existing = byId.get(record.id);
+    if (existing) {
+      duplicates++;
+      if ((record.updatedAt ?? '') <= (existing.updatedAt ?? '')) continue;
+    }
+    byId.set(record.id, record);
+  }
+  return { records: [...byId.values()], skipped, duplicates };
+}
+
+// ============================================================================
+// PARSE + PREVIEW
+// ============================================================================
+
+/**
+ * Parse and validate a backup file's contents.
+ * Throws with a user-facing message if the file isn't a Moove backup.
+ */
+export function parseBackup(json: string): ParsedBackup {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if (!isObject(raw) || !['sessions', 'savedWorkouts', 'customExercises', 'programs'].some(key => Array.isArray(raw[key]))) {
+    throw new Error('This file is not a Moove backup.');
+  }
+
+  const migrated = migrateBackup(raw);
+  const sessions = cleanRecords(migrated.sessions, isWorkoutSession);
+  const savedWorkouts = cleanRecords(migrated.savedWorkouts, isSavedWorkout);
+  const customExercises = cleanRecords(migrated.customExercises, isExercise);
+  // Programs are newer than every schema migration, so they are read as-is
+  const programs = cleanRecords(Array.isArray(raw.programs) ? raw.programs : [], isProgram);
+
+  const favorites = isObject(raw.favorites)
+    && Array.isArray(raw.favorites.workouts) && raw.favorites.workouts.every(isString)
+    && Array.isArray(raw.favorites.exercises) && raw.favorites.exercises.every(isString)
+    ? raw.favorites as unknown as FavoritesData
+    : undefined;
+  const skipCounts = isObject(raw.skipCounts)
+    && Object.values(raw.skipCounts).every(c => isObject(c) && isNumber(c.skips) && isNumber(c.swaps))
+    ? raw.skipCounts as SkipCounts
+    : undefined;
+  const customDescriptions = isObject(raw.customDescriptions)
+    && isObject(raw.customDescriptions.exercises) && isObject(raw.customDescriptions.workouts)
+    ? raw.customDescriptions as unknown as CustomDescriptions
+    : undefined;
+  const restDays = Array.isArray(raw.restDays) && raw.restDays.every(isString)
+    ? raw.restDays as string[]
+    : undefined;
+  const plannedWorkouts = Array.isArray(raw.plannedWorkouts) && raw.plannedWorkouts.every(isPlannedWorkout)
+    ? raw.plannedWorkouts as PlannedWorkout[]
+    : undefined;
+  const customCardioActivities = Array.isArray(raw.customCardioActivities) && raw.customCardioActivities.every(isCustomCardioActivity)
+    ? raw.customCardioActivities as CustomCardioActivity[]
+    : undefined;
+  const equipmentConfig = isObject(raw.equipmentConfig)
+    && Object.entries(raw.equipmentConfig).every(([key, v]) => {
+      if (key === 'increments') return isObject(v) && Object.values(v).every(isNumber);
+      if (key === 'inventory') return isEquipmentInventory(v);
+      return isOptional(v, isNumber);
+    })
+    ? raw.equipmentConfig as EquipmentConfig
+    : undefined;
+  const personality = PERSONALITY_OPTIONS.some(p => p.value === raw.personality)
+    ? raw.personality as PersonalityType
+    : undefined;
+  const units = isObject(raw.units)
+    && ['lb', 'kg'].includes(raw.units.weight as string) && ['mi', 'km'].includes(raw.units.distance as string)
+    ? raw.units as unknown as UnitPreferences
+    : undefined;
+
+  return {
+    exportDate: isDateString(raw.exportDate) ? raw.exportDate : undefined,
+    sessions: sessions.records,
+    savedWorkouts: savedWorkouts.records,
+    customExercises: customExercises.records,
+    programs: programs.records,
+    favorites,
+    skipCounts,
+    customDescriptions,
+    restDays,
+    plannedWorkouts,
+    customCardioActivities,
+    equipmentConfig,
+    personality,
+    userName: typeof raw.userName === 'string' && raw.userName ? raw.userName : undefined,
+    units,
+    skipped: sessions.skipped + savedWorkouts.skipped + customExercises.skipped + programs.skipped,
+    duplicates: sessions.duplicates + savedWorkouts.duplicates + customExercises.duplicates + programs.duplicates,
+  };
+}
+
+function previewCollection(incoming: SyncRecord[], local: SyncRecord[]): CollectionPreview {
+  const localById = new Map(local.map(r => [r.id, r]));
+  const preview: CollectionPreview = { total: incoming.length, added: 0, unchanged: 0, collisions: 0 };
+  for (const record of incoming) {
+    const existing = localById.get(record.id);
+    if (!existing) preview.added++;
+    else if (sameContent(existing, record)) preview.unchanged++;
+    else preview.collisions++;
+  }
+  return preview;
+}
+
+/** Compare a backup with the data on this device */
+export function previewBackup(backup: ParsedBackup): BackupPreview {
+  return {
+    sessions: previewCollection(backup.sessions, loadSessions()),
+    savedWorkouts: previewCollection(backup.savedWorkouts, loadSavedWorkouts()),
+    customExercises: previewCollection(backup.customExercises, loadCustomExercises()),
+    programs: previewCollection(backup.programs, loadPrograms()),
+  };
+}
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+/** Local records plus the backup's new ones; on a collision the more recently updated copy wins */
+function mergeById<T extends SyncRecord>(local: T[], incoming: T[]): T[] {
+  const byId = new Map(local.map(r => [r.id, r]));
+  for (const record of incoming) {
+    const existing = byId.get(record.id);
+    if (!existing || (record.updatedAt ?? '') > (existing.updatedAt ?? '')) {
+      byId.set(record.id, record);
+    }
+  }
+  return [...byId.values()];
+}
+
+/**
+ * Write a backup to this device. Goes through the normal save functions so
+ * the changes are tracked and synced like any other edit.
+ */
+export async function applyBackup(backup: ParsedBackup, mode: ImportMode): Promise<void> {
+  if (mode === 'replace') {
+    saveSessions(backup.sessions);
+    saveSavedWorkouts(backup.savedWorkouts);
+    saveCustomExercises(backup.customExercises);
+    savePrograms(backup.programs);
+    if (backup.favorites) saveFavorites(backup.favorites);
+    if (backup.skipCounts) saveSkipCounts(backup.skipCounts);
+    if (backup.customDescriptions) saveCustomDescriptions(backup.customDescriptions);
+    if (backup.restDays) saveRestDays(new Set(backup.restDays));
+    if (backup.plannedWorkouts) savePlannedWorkouts(backup.plannedWorkouts);
+    if (backup.customCardioActivities) saveCustomCardioActivities(backup.customCardioActivities);
+    if (backup.equipmentConfig) saveEquipmentConfig(backup.equipmentConfig);
+    if (backup.personality) savePersonality(backup.personality);
+    if (backup.userName) saveUserName(backup.userName);
+    if (backup.units) saveUnitPreferences(backup.units);
+  } else {
+    saveSessions(mergeById(loadSessions(), backup.sessions));
+    saveSavedWorkouts(mergeById(loadSavedWorkouts(), backup.savedWorkouts));
+    saveCustomExercises(mergeById(loadCustomExercises(), backup.customExercises));
+    savePrograms(mergeById(loadPrograms(), backup.programs));
+
+    // Settings: combine lists, and keep this device's values where both have one
+    if (backup.favorites) {
+      const favorites = loadFavorites();
+      saveFavorites({
+        workouts: [...new Set([...favorites.workouts, ...backup.favorites.workouts])],
+        exercises: [...new Set([...favorites.exercises, ...backup.favorites.exercises])],
+      });
+    }
+    if (backup.skipCounts) saveSkipCounts({ ...backup.skipCounts, ...loadSkipCounts() });
+    if (backup.customDescriptions) {
+      const descriptions = loadCustomDescriptions();
+      saveCustomDescriptions({
+        exercises: { ...backup.customDescriptions.exercises, ...descriptions.exercises },
+        workouts: { ...backup.customDescriptions.workouts, ...descriptions.workouts },
+      });
+    }
+    if (backup.restDays) saveRestDays(new Set([...loadRestDays(), ...backup.restDays]));
+    if (backup.plannedWorkouts) {
+      const planned = loadPlannedWorkouts();
+      const dates = new Set(planned.map(plan => plan.date));
+      savePlannedWorkouts([...planned, ...backup.plannedWorkouts.filter(plan => !dates.has(plan.date))]);
+    }
+    if (backup.customCardioActivities) {
+      const activities = loadCustomCardioActivities();
+      const ids = new Set(activities.map(activity => activity.id));
+      saveCustomCardioActivities([...activities, ...backup.customCardioActivities.filter(activity => !ids.has(activity.id))]);
+    }
+    if (backup.equipmentConfig) saveEquipmentConfig({ ...backup.equipmentConfig, ...loadStoredEquipmentConfig() });
+    if (backup.userName && !loadUserName()) saveUserName(backup.userName);
+  }
+
+  if (!(await flushRepositoryWrites())) {
+    throw new Error('Some of the imported data could not be saved.');
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Calendar - Workouts planned on dates, and whether they were done
+ *
+ * A date's plans are the saved workout planned on it from the calendar plus
+ * any slots running programs schedule that day. A plan is done once a
+ * completed session fills it, missed once its date has passed without one,
+ * and planned until then.
+ */
+
+import type { PlannedWorkout, SavedWorkout, WorkoutSession } from '../types';
+import { formatLocalDate, getSessionDate } from '../utils/dates';
+import { loadPlannedWorkouts, loadPrograms, loadSessions, getSavedWorkoutById } from './storage';
+import { getProgramSchedule, type ScheduledWorkout } from './programs';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PlanStatus = 'planned' | 'done' | 'missed';
+
+/** A workout planned on a date, from the calendar or a program */
+export interface CalendarPlan {
+  date: string;                  // YYYY-MM-DD
+  workout?: SavedWorkout;        // Undefined if the saved workout has been deleted
+  status: PlanStatus;
+  session?: WorkoutSession;      // The session that did it
+  scheduled?: ScheduledWorkout;  // Set for a program's slot
+}
+
+// ============================================================================
+// PLANS
+// ============================================================================
+
+function getStatus(date: string, session: WorkoutSession | undefined, today: string): PlanStatus {
+  if (session) return 'done';
+  return date < today ? 'missed' : 'planned';
+}
+
+// A completed session of the planned workout started that day
+function findPlanSession(plan: PlannedWorkout, sessions: WorkoutSession[]): WorkoutSession | undefined {
+  return sessions.find(s =>
+    s.completedAt
+    && s.templateId === plan.workoutId
+    && getSessionDate(s) === plan.date
+  );
+}
+
+/** Every plan, calendar and program, by date; a date's program slots come after its own plan */
+export function getCalendarPlans(date: Date = new Date()): Map<string, CalendarPlan[]> {
+  const today = formatLocalDate(date);
+  const sessions = loadSessions();
+  const plans = new Map<string, CalendarPlan[]>();
+  const add = (plan: CalendarPlan) => {
+    plans.set(plan.date, [...(plans.get(plan.date) ?? []), plan]);
+  };
+
+  for (const planned of loadPlannedWorkouts()) {
+    const session = findPlanSession(planned, sessions);
+    add({
+      date: planned.date,
+      workout: getSavedWorkoutById(planned.workoutId),
+      status: getStatus(planned.date, session, today),
+      session,
+    });
+  }
+
+  for (const program of loadPrograms()) {
+    for (const scheduled of getProgramSchedule(program, sessions)) {
+      add({
+        date: scheduled.date,
+        workout: scheduled.workout,
+        status: getStatus(scheduled.date, scheduled.session, today),
+        session: scheduled.session,
+        scheduled,
+      });
+    }
+  }
+
+  return plans;
+}
+
+/** Everything planned on `date` */
+export function getPlansOnDate(date: Date = new Date()): CalendarPlan[] {
+  const dateStr = formatLocalDate(date);
+  return getCalendarPlans(date).get(dateStr) ?? [];
+}
+
+/** Today's plans still to do, with a workout to start */
+export function getTodaysOpenPlans(date: Date = new Date()): CalendarPlan[] {
+  return getPlansOnDate(date).filter(plan => plan.status === 'planned' && plan.workout);
+}
+
+/** One status for a day's plans: any missed, else any still planned, else done */
+export function getDayPlanStatus(plans: CalendarPlan[]): PlanStatus | null {
+  if (plans.length === 0) return null;
+  if (plans.some(plan => plan.status === 'missed')) return 'missed';
+  if (plans.some(plan => plan.status === 'planned')) return 'planned';
+  return 'done';
+}
@@ -0,0 +1,111 @@
+/**
+ * Cardio Stats - Pace, splits and trends for walks, runs and hikes
+ *
+ * Pace is time per mile (converted for display like every distance). A
+ * tracked session is timed by its moving time, so stops at lights don't
+ * slow it down; an untracked one only has its total time to go on. Splits
+ * and elevation need a GPS track.
+ */
+
+import type { WorkoutSession, CardioType, DistanceUnit } from '../types';
+import { getSessionDate, getWeekStartDate, addDays, formatLocalDate } from '../utils/dates';
+import { getTrackStats, getSplits, type Split } from '../utils/gps';
+import { loadSessions, loadWeekStart } from './storage';
+
+// ============================================================================
+// ONE SESSION
+// ============================================================================
+
+export interface CardioSummary {
+  distance?: number;             // Miles
+  duration?: number;             // Seconds, start to finish
+  movingTime?: number;           // Seconds moving (tracked sessions)
+  pace: number | null;           // Seconds per mile
+  elevationGain?: number;        // Meters (tracked sessions)
+  splits: Split[];               // Per mile or km (tracked sessions)
+}
+
+/** Seconds per mile for a session, or null without a distance and time */
+export function getSessionPace(session: WorkoutSession): number | null {
+  const movingTime = session.track && session.track.length > 1 ? getTrackStats(session.track).movingTime : 0;
+  const seconds = movingTime || session.totalDuration;
+  return session.distance && seconds ? seconds / session.distance : null;
+}
+
+/** Everything worth showing about one cardio session, splits in `unit` */
+export function getCardioSummary(session: WorkoutSession, unit: DistanceUnit): CardioSummary {
+  const track = session.track ?? [];
+  const trackStats = track.length > 1 ? getTrackStats(track) : null;
+  return {
+    distance: session.distance,
+    duration: session.totalDuration,
+    movingTime: trackStats?.movingTime || undefined,
+    pace: getSessionPace(session),
+    elevationGain: track.some(point => point.elevation !== undefined) ? trackStats?.elevationGain : undefined,
+    splits: getSplits(track, unit),
+  };
+}
+
+// ============================================================================
+// TRENDS
+// ============================================================================
+
+export interface CardioTrends {
+  weeklyDistance: { weekStart: string; distance: number }[];   // Oldest week first, miles
+  paceHistory: { date: string; pace: number }[];               // Oldest first, seconds per mile
+  longest?: WorkoutSession;                                    // Farthest session ever
+  totalDistance: number;                                       // Miles, all time
+  count: number;
+}
+
+function getCardioSessions(cardioType?: CardioType): WorkoutSession[] {
+  return loadSessions().filter(s =>
+    s.completedAt && s.cardioType && (!cardioType || s.cardioType === cardioType)
+  );
+}
+
+/** Cardio types in history, most sessions first */
+export function getCardioTypesDone(): CardioType[] {
+  const counts = new Map<CardioType, number>();
+  for (const session of getCardioSessions()) {
+    counts.set(session.cardioType!, (counts.get(session.cardioType!) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([type]) => type);
+}
+
+/**
+ * Distance per week for the last `weeks` weeks (empty weeks included), pace
+ * for the latest `paceSessions` sessions with one, and the longest session
+ */
+export function getCardioTrends(cardioType: CardioType, weeks = 8, paceSessions = 12, date: Date = new Date()): CardioTrends {
+  const sessions = getCardioSessions(cardioType);
+  const weekStart = loadWeekStart();
+
+  const thisWeek = getWeekStartDate(formatLocalDate(date), weekStart);
+  const weeklyDistance = Array.from({ length: weeks }, (_, i) => ({
+    weekStart: addDays(thisWeek, (i - weeks + 1) * 7),
+    distance: 0,
+  }));
+  for (const session of sessions) {
+    const week = weeklyDistance.find(w => w.weekStart === getWeekStartDate(getSessionDate(session), weekStart));
+    if (week) week.distance += session.distance ?? 0;
+  }
+
+  const paceHistory = sessions
+    .map(session => ({ date: getSessionDate(session), pace: getSessionPace(session) }))
+    .filter((p): p is { date: string; pace: number } => p.pace !== null)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-paceSessions);
+
+  const longest = sessions
+    .filter(s => s.distance)
+    .reduce<WorkoutSession | undefined>((best, s) => (!best || s.distance! > best.distance! ? s : best), undefined);
+
+  return {
+    weeklyDistance,
+    paceHistory,
+    longest,
+    totalDistance: sessions.reduce((sum, s) => sum + (s.distance ?? 0), 0),
+    count: sessions.length,
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * Change Tracking - Per-record sync bookkeeping
+ *
+ * Every synced record carries `updatedAt` and `version`. Deleting a record
+ * leaves a tombstone so the deletion reaches other devices, and after each
+ * sync we remember a fingerprint of every field ("base") so the next merge
+ * can tell which side changed what.
+ */
+
+import type { SyncRecord, SyncRecordKind, Tombstone, SyncConflict } from '../types';
+
+// ============================================================================
+// STORAGE KEYS
+// ============================================================================
+
+const TOMBSTONES_KEY = 'sync_tombstones';          // Deleted records not yet forgotten
+const SYNC_BASE_KEY = 'sync_base';                 // Field fingerprints from the last sync
+const SYNC_CONFLICTS_KEY = 'sync_conflicts';       // Unresolved merge conflicts
+
+/** Fields that describe a change rather than being part of the record */
+const META_FIELDS = new Set(['updatedAt', 'version']);
+
+// ============================================================================
+// FINGERPRINTS
+// ============================================================================
+
+/** Small stable string hash (djb2) - only used to detect changes, not for security */
+export function hashValue(value: unknown): string {
+  const json = value === undefined ? 'undefined' : JSON.stringify(value);
+  let hash = 5381;
+  for (let i = 0; i < json.length; i++) {
+    hash = ((hash << 5) + hash + json.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/** Field names of a record, excluding change-tracking metadata */
+export function contentFields(record: object): string[] {
+  return Object.keys(record).filter(key => !META_FIELDS.has(key));
+}
+
+/** Fingerprint of every content field of a record */
+export function fingerprintRecord(record: object): Record<string, string> {
+  const fingerprint: Record<string, string> = {};
+  for (const field of contentFields(record)) {
+    fingerprint[field] = hashValue((record as Record<string, unknown>)[field]);
+  }
+  return fingerprint;
+}
+
+/** True if two records hold the same content (metadata ignored) */
+export function sameContent(a: object, b: object): boolean {
+  const fa = fingerprintRecord(a);
+  const fb = fingerprintRecord(b);
+  const fields = new Set([...Object.keys(fa), ...Object.keys(fb)]);
+  for (const field of fields) {
+    if ((fa[field] ?? hashValue(undefined)) !== (fb[field] ?? hashValue(undefined))) return false;
+  }
+  return true;
+}
+
+// ============================================================================
+// LOCAL CHANGE STAMPING
+// ============================================================================
+
+/**
+ * Compare the previously stored records with the ones about to be saved.
+ * New and changed records get a fresh `updatedAt` and a bumped `version`;
+ * unchanged ones keep their metadata; removed ones get a tombstone.
+ * Also reports the ids that were added, changed or removed.
+ */
+export function stampChanges<T extends SyncRecord>(
+  kind: SyncRecordKind,
+  prev: T[],
+  next: T[]
+): { records: T[]; changedIds: string[] } {
+  const now = new Date().toISOString();
+  const prevById = new Map(prev.map(r => [r.id, r]));
+  const nextIds = new Set(next.map(r => r.id));
+  const changedIds: string[] = [];
+
+  const records = next.map(record => {
+    const before = prevById.get(record.id);
+    if (!before) {
+      changedIds.push(record.id);
+      return { ...record, updatedAt: record.updatedAt ?? now, version: record.version ?? 1 };
+    }
+    // Unchanged: keep the stored object so the repository skips rewriting it
+    if (before === record || sameContent(before, record)) {
+      return before;
+    }
+    changedIds.push(record.id);
+    return { ...record, updatedAt: now, version: (before.version ?? 0) + 1 };
+  });
+
+  const removedIds = prev.filter(r => !nextIds.has(r.id)).map(r => r.id);
+  if (removedIds.length > 0) {
+    addTombstones(kind, removedIds, now);
+    changedIds.push(...removedIds);
+  }
+  // A saved record is alive again (e.g. restored from a backup)
+  clearTombstones(kind, next.map(r => r.id));
+
+  return { records, changedIds };
+}
+
+// ============================================================================
+// TOMBSTONES
+// ============================================================================
+
+export function loadTombstones(): Tombstone[] {
+  const data = localStorage.getItem(TOMBSTONES_KEY);
+  return data ? JSON.parse(data) : [];
+}
+
+export function saveTombstones(tombstones: Tombstone[]): void {
+  localStorage.setItem(TOMBSTONES_KEY, JSON.stringify(tombstones));
+}
+
+function addTombstones(kind: SyncRecordKind, ids: string[], deletedAt: string): void {
+  const idSet = new Set(ids);
+  const tombstones = loadTombstones().filter(t => !(t.kind === kind && idSet.has(t.id)));
+  ids.forEach(id => tombstones.push({ kind, id, deletedAt }));
+  saveTombstones(tombstones);
+}
+
+export function clearTombstones(kind: SyncRecordKind, ids: string[]): void {
+  const idSet = new Set(ids);
+  const tombstones = loadTombstones();
+  const remaining = tombstones.filter(t => !(t.kind === kind && idSet.has(t.id)));
+  if (remaining.length !== tombstones.length) {
+    saveTombstones(remaining);
+  }
+}
+
+// ============================================================================
+// SYNC BASE (field fingerprints as of the last successful sync)
+// ============================================================================
+
+export type SyncBase = Record<SyncRecordKind, Record<string, Record<string, string>>>;
+
+export function loadSyncBase(): SyncBase {
+  const data = localStorage.getItem(SYNC_BASE_KEY);
+  const base = data ? JSON.parse(data) : {};
+  return {
+    sessions: base.sessions ?? {},
+    savedWorkouts: base.savedWorkouts ?? {},
+    customExercises: base.customExercises ?? {},
+    programs: base.programs ?? {},
+  };
+}
+
+export function saveSyncBase(base: SyncBase): void {
+  localStorage.setItem(SYNC_BASE_KEY, JSON.stringify(base));
+}
+
+// ============================================================================
+// CONFLICTS
+// ============================================================================
+
+export function loadSyncConflicts(): SyncConflict[] {
+  const data = localStorage.getItem(SYNC_CONFLICTS_KEY);
+  return data ? JSON.parse(data) : [];
+}
+
+export function saveSyncConflicts(conflicts: SyncConflict[]): void {
+  localStorage.setItem(SYNC_CONFLICTS_KEY, JSON.stringify(conflicts));
+}
+
+/** Replace any earlier conflict for the same record with the latest one */
+export function addSyncConflicts(conflicts: SyncConflict[]): void {
+  if (conflicts.length === 0) return;
+  const keys = new Set(conflicts.map(c => `${c.kind}:${c.recordId}`));
+  const existing = loadSyncConflicts().filter(c => !keys.has(`${c.kind}:${c.recordId}`));
+  saveSyncConflicts([...existing, ...conflicts]);
+}
+
+export function removeSyncConflict(conflictId: string): void {
+  saveSyncConflicts(loadSyncConflicts().filter(c => c.id !== conflictId));
+}
+
+/** Clear all sync bookkeeping (used when wiping local data) */
+export function clearChangeTracking(): void {
+  localStorage.removeItem(TOMBSTONES_KEY);
+  localStorage.removeItem(SYNC_BASE_KEY);
+  localStorage.removeItem(SYNC_CONFLICTS_KEY);
+}
@@ -0,0 +1,130 @@
+/**
+ * Equipment - Loads that can actually be built from the user's inventory
+ *
+ * Snaps a target weight to an owned kettlebell, a dumbbell in the rack, a
+ * sandbag, a band, or a barbell loaded with the plates on hand, and works out
+ * which plates go on each side of the bar. Cables and machines have no
+ * inventory, so their weights pass through unchanged.
+ */
+
+import type { EquipmentType, EquipmentInventory, ResistanceBand } from '../types';
+import { loadEquipmentInventory } from './storage';
+
+/** Weights within this much (lb) are treated as equal, absorbing kg conversion rounding */
+const TOLERANCE = 0.05;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// AVAILABLE LOADS
+// ============================================================================
+
+/** Every per-side load that can be made from plate pairs */
+function getPlateSideLoads(plates: EquipmentInventory['barbell']['plates']): number[] {
+  let sums = new Set<number>([0]);
+  for (const plate of plates) {
+    const pairs = Math.floor(plate.count / 2);
+    if (plate.weight <= 0 || pairs === 0) continue;
+    const next = new Set<number>();
+    for (const sum of sums) {
+      for (let n = 0; n <= pairs; n++) next.add(round(sum + n * plate.weight));
+    }
+    sums = next;
+  }
+  return [...sums];
+}
+
+/**
+ * Sorted list of loads (lb) the inventory can make for this equipment,
+ * or null when any weight is possible (cables, machines) or none is (bodyweight).
+ */
+export function getAvailableLoads(equipment: EquipmentType, inventory = loadEquipmentInventory()): number[] | null {
+  let loads: number[];
+  switch (equipment) {
+    case 'kettlebell':
+      loads = inventory.kettlebells;
+      break;
+    case 'dumbbell': {
+      const { min, max, step } = inventory.dumbbells;
+      loads = [];
+      if (step > 0) {
+        for (let weight = min; weight <= max + TOLERANCE; weight += step) loads.push(round(weight));
+      }
+      break;
+    }
+    case 'barbell':
+      loads = getPlateSideLoads(inventory.barbell.plates).map(side => round(inventory.barbell.bar + side * 2));
+      break;
+    case 'sandbag':
+      loads = inventory.sandbags;
+      break;
+    case 'resistance-band':
+      loads = inventory.bands.map(band => band.resistance);
+      break;
+    default:
+      return null;
+  }
+  const sorted = [...new Set(loads)].filter(w => w > 0).sort((a, b) => a - b);
+  return sorted.length > 0 ? sorted : null;
+}
+
+export type SnapDirection = 'nearest' | 'up' | 'down';
+
+/**
+ * The closest load the user can build. 'up' picks the lightest load at or
+ * above the target (for increases), 'down' the heaviest at or below it.
+ * Falls back to the nearest end of the range when nothing qualifies.
+ */
+export function snapToAvailable(
+  equipment: EquipmentType,
+  weight: number,
+  direction: SnapDirection = 'nearest',
+  inventory = loadEquipmentInventory(),
+): number {
+  const loads = getAvailableLoads(equipment, inventory);
+  if (!loads) return weight;
+
+  if (direction === 'up') return loads.find(w => w >= weight - TOLERANCE) ?? loads[loads.length - 1];
+  if (direction === 'down') return [...loads].reverse().find(w => w <= weight + TOLERANCE) ?? loads[0];
+  return loads.reduce((best, w) => (Math.abs(w - weight) < Math.abs(best - weight) ? w : best));
+}
+
+// ============================================================================
+// PLATES & BANDS
+// ============================================================================
+
+export interface PlateLoad {
+  bar: number;
+  perSide: number[];             // Plates for one side, heaviest first
+  total: number;                 // What the bar actually weighs loaded
+}
+
+/**
+ * Plates to put on each side of the bar for `target` lb, heaviest first,
+ * never going over the target. Returns null if the target is below the bar.
+ */
+export function calculatePlates(target: number, inventory = loadEquipmentInventory()): PlateLoad | null {
+  const { bar, plates } = inventory.barbell;
+  if (target < bar - TOLERANCE) return null;
+
+  let remaining = (target - bar) / 2;
+  const perSide: number[] = [];
+  const sorted = [...plates].filter(p => p.weight > 0).sort((a, b) => b.weight - a.weight);
+  for (const plate of sorted) {
+    let pairs = Math.floor(plate.count / 2);
+    while (pairs > 0 && plate.weight <= remaining + TOLERANCE) {
+      perSide.push(plate.weight);
+      remaining -= plate.weight;
+      pairs--;
+    }
+  }
+
+  return { bar, perSide, total: round(bar + perSide.reduce((sum, w) => sum + w, 0) * 2) };
+}
+
+/** The owned band closest to a resistance */
+export function getBandForResistance(resistance: number, inventory = loadEquipmentInventory()): ResistanceBand | undefined {
+  return inventory.bands.reduce<ResistanceBand | undefined>((best, band) =>
+    !best || Math.abs(band.resistance - resistance) < Math.abs(best.resistance - resistance) ? band : best,
+  undefined);
+}
@@ -0,0 +1,165 @@
+/**
+ * IndexedDB Backend - Primary storage for sessions, saved workouts, custom exercises and programs
+ *
+ * One object store per collection, keyed by record id. Sessions are indexed
+ * by start time and by the ids of the exercises they contain, so history
+ * lookups read only the sessions they need.
+ */
+
+import type { WorkoutSession } from '../types';
+import type { CollectionName, RecordCollections, StorageBackend } from './repository';
+
+const DB_NAME = 'moove';
+const DB_VERSION = 4;             // 2: programs store, 4: start time index on a number (3 had no session indexes)
+
+const STORES: Record<CollectionName, string> = {
+  sessions: 'sessions',
+  savedWorkouts: 'saved_workouts',
+  customExercises: 'custom_exercises',
+  programs: 'programs',
+};
+
+/** Stored session shape: the session plus denormalized fields for the indexes */
+interface StoredSession extends WorkoutSession {
+  startTime: number;             // startedAt in ms; synced sessions use other ISO offsets, so the string doesn't sort
+  exerciseIds: string[];
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      const sessions = db.objectStoreNames.contains(STORES.sessions)
+        ? request.transaction!.objectStore(STORES.sessions)
+        : db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+      if (event.oldVersion < 4) upgradeSessionIndexes(sessions);
+      if (!db.objectStoreNames.contains(STORES.savedWorkouts)) {
+        db.createObjectStore(STORES.savedWorkouts, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.customExercises)) {
+        db.createObjectStore(STORES.customExercises, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.programs)) {
+        db.createObjectStore(STORES.programs, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+  });
+}
+
+function toStoredSession(session: WorkoutSession): StoredSession {
+  return {
+    ...session,
+    startTime: new Date(session.startedAt).getTime(),
+    exerciseIds: [...new Set(session.exercises.map(e => e.exerciseId))],
+  };
+}
+
+function fromStoredSession(record: Partial<StoredSession>): WorkoutSession {
+  const session = { ...record };
+  delete session.startTime;              // Index-only fields
+  delete session.exerciseIds;
+  return session as WorkoutSession;
+}
+
+function toStored(collection: CollectionName, record: object): object {
+  return collection === 'sessions' ? toStoredSession(record as WorkoutSession) : record;
+}
+
+function fromStored(collection: CollectionName, record: object): object {
+  return collection === 'sessions' ? fromStoredSession(record) : record;
+}
+
+/**
+ * (Re)build the session indexes: start time now indexes a number rather than
+ * the startedAt string, and sessions stored without the index fields get them.
+ */
+function upgradeSessionIndexes(sessions: IDBObjectStore): void {
+  if (sessions.indexNames.contains('startedAt')) sessions.deleteIndex('startedAt');
+  sessions.createIndex('startedAt', 'startTime');
+  if (!sessions.indexNames.contains('exerciseId')) {
+    sessions.createIndex('exerciseId', 'exerciseIds', { multiEntry: true });
+  }
+
+  const cursorRequest = sessions.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    cursor.update(toStoredSession(fromStoredSession(cursor.value)));
+    cursor.continue();
+  };
+}
+
+// Newest first, like the repository's own session order
+function newestFirst(records: StoredSession[]): WorkoutSession[] {
+  return records.sort((a, b) => b.startTime - a.startTime).map(fromStoredSession);
+}
+
+/** Open the database. Rejects if IndexedDB is missing or unusable. */
+export async function createIndexedDbBackend(): Promise<StorageBackend> {
+  if (typeof indexedDB === 'undefined') {
+    throw new Error('IndexedDB not available');
+  }
+  const db = await openDatabase();
+
+  return {
+    name: 'IndexedDB',
+
+    async load<K extends CollectionName>(collection: K) {
+      const tx = db.transaction(STORES[collection], 'readonly');
+      const records = await requestToPromise(tx.objectStore(STORES[collection]).getAll());
+      return records.map(r => fromStored(collection, r)) as RecordCollections[K][];
+    },
+
+    async write(collection, { put, remove }) {
+      if (put.length === 0 && remove.length === 0) return;
+      const tx = db.transaction(STORES[collection], 'readwrite');
+      const store = tx.objectStore(STORES[collection]);
+      put.forEach(record => store.put(toStored(collection, record)));
+      remove.forEach(id => store.delete(id));
+      await transactionDone(tx);
+    },
+
+    async getSessionsWithExercise(exerciseId) {
+      const tx = db.transaction(STORES.sessions, 'readonly');
+      const index = tx.objectStore(STORES.sessions).index('exerciseId');
+      return newestFirst(await requestToPromise(index.getAll(exerciseId)));
+    },
+
+    async getSessionsBetween(from, to) {
+      const tx = db.transaction(STORES.sessions, 'readonly');
+      const index = tx.objectStore(STORES.sessions).index('startedAt');
+      const range = to
+        ? IDBKeyRange.bound(from.getTime(), to.getTime(), false, true)
+        : IDBKeyRange.lowerBound(from.getTime());
+      return newestFirst(await requestToPromise(index.getAll(range)));
+    },
+
+    async clear() {
+      const names = Object.values(STORES);
+      const tx = db.transaction(names, 'readwrite');
+      names.forEach(name => tx.objectStore(name).clear());
+      await transactionDone(tx);
+    },
+  };
+}
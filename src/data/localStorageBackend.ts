@@ -0,0 +1,55 @@
+/**
+ * localStorage Backend - The original storage format, kept as a fallback
+ *
+ * Each collection is one JSON array under its legacy key. Used when
+ * IndexedDB is unavailable (e.g. some private browsing modes) and as the
+ * source for the one-time migration to IndexedDB.
+ */
+
+import type { WorkoutSession } from '../types';
+import type { CollectionName, RecordCollections, StorageBackend } from './repository';
+
+/** Legacy localStorage key for each collection */
+export const LEGACY_KEYS: Record<CollectionName, string> = {
+  sessions: 'workout_sessions',
+  savedWorkouts: 'saved_workouts',
+  customExercises: 'custom_exercises',
+  programs: 'workout_programs',
+};
+
+export function readLegacyCollection<K extends CollectionName>(collection: K): RecordCollections[K][] {
+  const data = localStorage.getItem(LEGACY_KEYS[collection]);
+  return data ? JSON.parse(data) : [];
+}
+
+function newestFirst(sessions: WorkoutSession[]): WorkoutSession[] {
+  return sessions.sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+}
+
+export const localStorageBackend: StorageBackend = {
+  name: 'localStorage',
+
+  async load(collection) {
+    return readLegacyCollection(collection);
+  },
+
+  async write(collection, { all }) {
+    localStorage.setItem(LEGACY_KEYS[collection], JSON.stringify(all));
+  },
+
+  // No indexes here: scan every session
+  async getSessionsWithExercise(exerciseId) {
+    return newestFirst(readLegacyCollection('sessions').filter(s => s.exercises.some(e => e.exerciseId === exerciseId)));
+  },
+
+  async getSessionsBetween(from, to) {
+    return newestFirst(readLegacyCollection('sessions').filter(s => {
+      const time = new Date(s.startedAt).getTime();
+      return time >= from.getTime() && (!to || time < to.getTime());
+    }));
+  },
+
+  async clear() {
+    Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+  },
+};
@@ -0,0 +1,268 @@
+/**
+ * Schema Migrations - Upgrade persisted data written by older versions of the app
+ *
+ * The stored data carries a schema version. At startup every migration newer
+ * than that version runs, in order, in memory; only if all of them succeed is
+ * the result written back and the version bumped. A failure leaves the stored
+ * data exactly as it was. Imported backups and cloud downloads go through the
+ * same migrations.
+ */
+
+import type { WorkoutSession, SavedWorkout, Exercise, ExerciseLog, ActiveSession } from '../types';
+import { getRecords, setRecords, countRecords, flushRepositoryWrites } from './repository';
+import { loadCurrentSession, saveCurrentSession } from './storage';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Everything a migration can touch. Records may be in any older shape when a
+ * migration receives them, so migrations must not trust optional fields.
+ */
+export interface PersistedData {
+  sessions: WorkoutSession[];
+  savedWorkouts: SavedWorkout[];
+  customExercises: Exercise[];
+  currentSession: ActiveSession | null;
+}
+
+interface Migration {
+  version: number;               // Schema version after this migration
+  description: string;
+  migrate: (data: PersistedData) => PersistedData;
+}
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+/**
+ * Ordered list of migrations. Append new ones with the next version number;
+ * never edit one that has shipped. Migrations must not mutate their input.
+ * Cloud payloads don't record a version, so every migration must also leave
+ * already-current data unchanged. Return the same record object when nothing
+ * changes so it isn't rewritten.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Fill in required lists and timestamps',
+    migrate: data => ({
+      ...data,
+      sessions: data.sessions.map(s =>
+        Array.isArray(s.exercises) && Array.isArray(s.blocks)
+          ? s
+          : { ...s, exercises: s.exercises ?? [], blocks: s.blocks ?? [] }
+      ),
+      savedWorkouts: data.savedWorkouts.map(w =>
+        Array.isArray(w.blocks) && w.createdAt && w.updatedAt
+          ? w
+          : {
+              ...w,
+              blocks: w.blocks ?? [],
+              createdAt: w.createdAt ?? w.updatedAt ?? new Date().toISOString(),
+              updatedAt: w.updatedAt ?? w.createdAt ?? new Date().toISOString(),
+            }
+      ),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Add change-tracking metadata for sync',
+    migrate: data => {
+      const now = new Date().toISOString();
+      return {
+        ...data,
+        sessions: data.sessions.map(s =>
+          s.updatedAt && s.version
+            ? s
+            : { ...s, updatedAt: s.updatedAt ?? s.completedAt ?? s.startedAt, version: s.version ?? 1 }
+        ),
+        savedWorkouts: data.savedWorkouts.map(w => (w.version ? w : { ...w, version: 1 })),
+        customExercises: data.customExercises.map(e =>
+          e.updatedAt && e.version ? e : { ...e, updatedAt: e.updatedAt ?? now, version: e.version ?? 1 }
+        ),
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Store navigation state on the active session',
+    migrate: data => {
+      const current = data.currentSession;
+      if (!current || (typeof current.currentBlockIndex === 'number' && typeof current.currentExerciseIndex === 'number')) {
+        return data;
+      }
+      return {
+        ...data,
+        currentSession: {
+          ...current,
+          currentBlockIndex: current.currentBlockIndex ?? 0,
+          currentExerciseIndex: current.currentExerciseIndex ?? 0,
+          swappedExercises: current.swappedExercises ?? {},
+        },
+      };
+    },
+  },
+  {
+    version: 4,
+    description: 'Log exercises as a list of sets',
+    migrate: data => {
+      // Before v4 a log held a single weight/reps/duration
+      type LegacyLog = ExerciseLog & { weight?: number; reps?: number; duration?: number };
+      const toSets = (logs: ExerciseLog[]): ExerciseLog[] => {
+        if (logs.every(log => Array.isArray(log.sets))) return logs;
+        return logs.map(log => {
+          if (Array.isArray(log.sets)) return log;
+          const { weight, reps, duration, ...rest } = log as LegacyLog;
+          return { ...rest, sets: [{ type: 'working', weight, reps, duration }] };
+        });
+      };
+      const migrateSession = <T extends WorkoutSession>(session: T): T => {
+        const exercises = toSets(session.exercises);
+        return exercises === session.exercises ? session : { ...session, exercises };
+      };
+      return {
+        ...data,
+        sessions: data.sessions.map(migrateSession),
+        currentSession: data.currentSession && migrateSession(data.currentSession),
+      };
+    },
+  },
+  {
+    version: 5,
+    description: 'Turn backlog placeholders into logged sessions',
+    migrate: data => {
+      // The calendar used to mark days as worked out with an empty 30-minute "Backlog Workout";
+      // as a time-only session it can now be opened and corrected in the session editor
+      const isPlaceholder = (s: WorkoutSession) => s.name === 'Backlog Workout'
+        && !s.cardioType && (s.exercises ?? []).length === 0 && (s.blocks ?? []).length === 0;
+      return {
+        ...data,
+        sessions: data.sessions.map(s => (isPlaceholder(s) ? { ...s, name: 'Logged Workout' } : s)),
+      };
+    },
+  },
+  {
+    version: 6,
+    description: 'Drop in-progress state from completed sessions',
+    migrate: data => {
+      // Finishing a workout after a reload used to save its navigation and clocks along with it
+      const activeKeys = ['currentBlockIndex', 'currentExerciseIndex', 'currentRound', 'currentBlockRound',
+        'swappedExercises', 'clock', 'rest', 'timedBlock'];
+      const strip = (s: WorkoutSession): WorkoutSession => {
+        if (!activeKeys.some(key => key in s)) return s;
+        const session: Record<string, unknown> = { ...s };
+        activeKeys.forEach(key => delete session[key]);
+        return session as unknown as WorkoutSession;
+      };
+      return { ...data, sessions: data.sessions.map(strip) };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Apply every migration after `fromVersion` to `data`.
+ * Throws (without touching the input) if any migration fails.
+ */
+export function migrateData(data: PersistedData, fromVersion: number): PersistedData {
+  let result = data;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    try {
+      result = migration.migrate(result);
+    } catch (err) {
+      throw new Error(`Migration to v${migration.version} (${migration.description}) failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return result;
+}
+
+/** Migrate records downloaded from the cloud (which carry no version) */
+export function migrateRecords(records: Pick<PersistedData, 'sessions' | 'savedWorkouts' | 'customExercises'>): PersistedData {
+  return migrateData({ ...records, currentSession: null }, 0);
+}
+
+/**
+ * Migrate a parsed JSON backup. Backups written before versioning existed
+ * have no `schemaVersion` and are treated as version 0.
+ * Throws if the backup comes from a newer version of the app or can't be migrated.
+ */
+export function migrateBackup(backup: Record<string, unknown>): PersistedData {
+  const version = typeof backup.schemaVersion === 'number' ? backup.schemaVersion : 0;
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of Moove. Update the app and try again.');
+  }
+  const list = <T>(value: unknown): T[] => (Array.isArray(value) ? value : []);
+  return migrateData({
+    sessions: list<WorkoutSession>(backup.sessions),
+    savedWorkouts: list<SavedWorkout>(backup.savedWorkouts),
+    customExercises: list<Exercise>(backup.customExercises),
+    currentSession: null,
+  }, version);
+}
+
+// ============================================================================
+// STARTUP
+// ============================================================================
+
+const SCHEMA_VERSION_KEY = 'data_schema_version';
+
+export function getStoredSchemaVersion(): number {
+  const data = localStorage.getItem(SCHEMA_VERSION_KEY);
+  return data ? Number(data) : 0;
+}
+
+/**
+ * Bring stored data up to the current schema. Runs after the repository is
+ * loaded and before the app renders. If a migration throws the data is left
+ * untouched; the schema version is only bumped once the migrated data is
+ * saved, so either failure retries the migration on the next start.
+ */
+export async function runStartupMigrations(): Promise<void> {
+  const hasData = countRecords('sessions') > 0 || countRecords('savedWorkouts') > 0
+    || countRecords('customExercises') > 0 || loadCurrentSession() !== null;
+
+  // Fresh install: nothing to migrate
+  if (!localStorage.getItem(SCHEMA_VERSION_KEY) && !hasData) {
+    localStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+    return;
+  }
+
+  const fromVersion = getStoredSchemaVersion();
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    console.warn(`[Moove] Stored data uses schema v${fromVersion}, newer than this app (v${CURRENT_SCHEMA_VERSION})`);
+    return;
+  }
+  if (fromVersion === CURRENT_SCHEMA_VERSION) return;
+
+  let migrated: PersistedData;
+  try {
+    migrated = migrateData({
+      sessions: getRecords('sessions'),
+      savedWorkouts: getRecords('savedWorkouts'),
+      customExercises: getRecords('customExercises'),
+      currentSession: loadCurrentSession(),
+    }, fromVersion);
+  } catch (err) {
+    console.error('[Moove] Data migration failed, keeping existing data:', err);
+    return;
+  }
+
+  // Migrations are not user edits, so bypass change stamping and the sync outbox
+  setRecords('sessions', migrated.sessions);
+  setRecords('savedWorkouts', migrated.savedWorkouts);
+  setRecords('customExercises', migrated.customExercises);
+  saveCurrentSession(migrated.currentSession);
+  if (!(await flushRepositoryWrites())) {
+    // Stored records may be part migrated; migrations are idempotent, so they're retried on the next start
+    console.error(`[Moove] Could not save migrated data, keeping schema v${fromVersion}`);
+    return;
+  }
+
+  localStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+  console.log(`[Moove] Migrated data from schema v${fromVersion} to v${CURRENT_SCHEMA_VERSION}`);
+}
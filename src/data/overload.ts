@@ -0,0 +1,282 @@
+/**
+ * Progressive Overload - Suggested weight and reps for the next session
+ *
+ * A strategy looks at an exercise's recent logs and the smallest weight jump
+ * its equipment allows, and proposes what to lift next along with the reason.
+ * Strategies live in a registry so new ones can be added without touching
+ * the workout screen. With no usable history the suggestion falls back to the
+ * workout's own values and the equipment defaults. A weight prescribed by a
+ * program is used as given. Either way the weight is snapped to a load the
+ * user's equipment can make.
+ */
+
+import type { Exercise, WorkoutExercise, ExerciseLog, SetLog, OverloadStrategyId, WeightUnit } from '../types';
+import { getWorkingSets, getTopSet, formatSets } from '../utils/sets';
+import { formatWeight } from '../utils/units';
+import { getExerciseHistory, getDefaultWeightForEquipment, getWeightIncrement, loadProgressionStrategy, loadUnitPreferences } from './storage';
+import { snapToAvailable, type SnapDirection } from './equipment';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OverloadContext {
+  exercise: Exercise;
+  target: WorkoutExercise;
+  targetReps?: number;           // Undefined for AMRAP and timed exercises
+  history: ExerciseLog[];        // Newest first, only logs with working sets
+  increment: number;             // Smallest weight jump in lb (0 = unloaded)
+  unit: WeightUnit;              // For the reason text; weights stay in lb
+}
+
+export interface OverloadSuggestion {
+  weight?: number;
+  reps?: number | 'AMRAP';
+  reason: string;                // Shown under the sets, e.g. "+5 lb: hit 3 × 8 @ 50lb last time"
+  strategy?: OverloadStrategyId; // Undefined when there was no history to work from
+}
+
+export interface OverloadStrategy {
+  id: OverloadStrategyId;
+  label: string;
+  description: string;
+  /** Return null to fall back to the defaults */
+  suggest: (ctx: OverloadContext) => OverloadSuggestion | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Round to the nearest weight the equipment can actually make */
+function roundToIncrement(weight: number, increment: number): number {
+  return increment > 0 ? Math.round(weight / increment) * increment : Math.round(weight);
+}
+
+/** Working sets at the heaviest weight used in a log (all working sets if unweighted) */
+function getTopWeightSets(log: ExerciseLog): SetLog[] {
+  const working = getWorkingSets(log.sets);
+  const top = getTopSet(log.sets);
+  return top ? working.filter(set => set.weight === top.weight) : working;
+}
+
+function hitTarget(sets: SetLog[], targetReps?: number): boolean {
+  return targetReps === undefined || sets.every(set => (set.reps ?? 0) >= targetReps);
+}
+
+/** "+5 lb", "−2.5 kg" */
+function formatChange(change: number, unit: WeightUnit): string {
+  return `${change > 0 ? '+' : '−'}${formatWeight(Math.abs(change), unit)}`;
+}
+
+/** Unweighted exercises progress by adding a rep once every set hits the target */
+function suggestReps(ctx: OverloadContext, sets: SetLog[], strategy: OverloadStrategyId): OverloadSuggestion {
+  const lowest = Math.min(...sets.map(set => set.reps ?? 0));
+  if (ctx.targetReps === undefined || lowest <= 0) {
+    return { reps: ctx.target.reps ?? ctx.exercise.defaultReps, reason: `Last time: ${formatSets(sets, ctx.unit)}`, strategy };
+  }
+  if (lowest >= ctx.targetReps) {
+    return { reps: lowest + 1, reason: `Hit ${formatSets(sets, ctx.unit)} last time, so add a rep`, strategy };
+  }
+  return { reps: ctx.targetReps, reason: `Missed ${ctx.targetReps} reps last time, so try again`, strategy };
+}
+
+// ============================================================================
+// STRATEGIES
+// ============================================================================
+
+/** Add the increment whenever every working set hits the target; deload after three misses */
+const linear: OverloadStrategy = {
+  id: 'linear',
+  label: 'Linear',
+  description: 'Add weight every time you hit all your reps.',
+  suggest: ctx => {
+    const sets = getTopWeightSets(ctx.history[0]);
+    const weight = sets[0]?.weight;
+    if (!weight || ctx.increment === 0) return suggestReps(ctx, sets, 'linear');
+
+    if (hitTarget(sets, ctx.targetReps)) {
+      return {
+        weight: weight + ctx.increment,
+        reps: ctx.targetReps,
+        reason: `${formatChange(ctx.increment, ctx.unit)}: hit ${formatSets(sets, ctx.unit)} last time`,
+        strategy: 'linear',
+      };
+    }
+
+    // Count consecutive misses at this weight
+    let misses = 0;
+    for (const log of ctx.history) {
+      const logSets = getTopWeightSets(log);
+      if (logSets[0]?.weight !== weight || hitTarget(logSets, ctx.targetReps)) break;
+      misses++;
+    }
+    if (misses >= 3) {
+      const deload = Math.min(weight - ctx.increment, roundToIncrement(weight * 0.9, ctx.increment));
+      return {
+        weight: Math.max(deload, ctx.increment),
+        reps: ctx.targetReps,
+        reason: `Deload 10%: missed ${ctx.targetReps} reps at ${formatWeight(weight, ctx.unit)} ${misses} times in a row`,
+        strategy: 'linear',
+      };
+    }
+    return {
+      weight,
+      reps: ctx.targetReps,
+      reason: `Repeat ${formatWeight(weight, ctx.unit)}: missed ${ctx.targetReps} reps last time (${formatSets(sets, ctx.unit)})`,
+      strategy: 'linear',
+    };
+  },
+};
+
+/** Rep range above the target; add weight once every set reaches the top of it */
+const DOUBLE_PROGRESSION_RANGE = 4;
+
+const double: OverloadStrategy = {
+  id: 'double',
+  label: 'Double progression',
+  description: 'Build reps up through a range, then add weight and start again.',
+  suggest: ctx => {
+    const sets = getTopWeightSets(ctx.history[0]);
+    const weight = sets[0]?.weight;
+    if (!weight || ctx.increment === 0 || ctx.targetReps === undefined) return suggestReps(ctx, sets, 'double');
+
+    const min = ctx.targetReps;
+    const max = min + DOUBLE_PROGRESSION_RANGE;
+    const lowest = Math.min(...sets.map(set => set.reps ?? 0));
+    if (lowest >= max) {
+      return {
+        weight: weight + ctx.increment,
+        reps: min,
+        reason: `${formatChange(ctx.increment, ctx.unit)}: reached ${max} reps on every set at ${formatWeight(weight, ctx.unit)}`,
+        strategy: 'double',
+      };
+    }
+    const reps = Math.max(min, Math.min(max, lowest + 1));
+    return {
+      weight,
+      reps,
+      reason: `Stay at ${formatWeight(weight, ctx.unit)} and aim for ${reps} reps (range ${min}–${max})`,
+      strategy: 'double',
+    };
+  },
+};
+
+/** Effort the RPE strategy aims for */
+const TARGET_RPE = 8;
+
+/** Adjust the weight by how hard the top set felt, aiming for RPE 8 */
+const rpe: OverloadStrategy = {
+  id: 'rpe',
+  label: 'RPE',
+  description: 'Adjust weight by how hard your sets felt, aiming for RPE 8.',
+  suggest: ctx => {
+    const sets = getTopWeightSets(ctx.history[0]);
+    const weight = sets[0]?.weight;
+    const rated = sets.filter(set => set.rpe !== undefined);
+    if (!weight || ctx.increment === 0 || rated.length === 0) {
+      const fallback = linear.suggest(ctx);
+      if (!fallback || rated.length > 0) return fallback;
+      return { ...fallback, reason: `${fallback.reason} (no RPE logged)` };
+    }
+
+    const lastRpe = Math.max(...rated.map(set => set.rpe!));
+    const steps = lastRpe <= TARGET_RPE - 2 ? 2 : lastRpe < TARGET_RPE ? 1 : lastRpe > TARGET_RPE ? -1 : 0;
+    const reps = ctx.targetReps ?? sets[0].reps;
+    if (steps === 0) {
+      return { weight, reps, reason: `Hold ${formatWeight(weight, ctx.unit)}: last time was RPE ${lastRpe}`, strategy: 'rpe' };
+    }
+    const change = steps * ctx.increment;
+    return {
+      weight: Math.max(weight + change, ctx.increment),
+      reps,
+      reason: `${formatChange(change, ctx.unit)}: last time was RPE ${lastRpe}, aiming for ${TARGET_RPE}`,
+      strategy: 'rpe',
+    };
+  },
+};
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const strategies = new Map<OverloadStrategyId, OverloadStrategy>();
+
+export function registerOverloadStrategy(strategy: OverloadStrategy): void {
+  strategies.set(strategy.id, strategy);
+}
+
+export function getOverloadStrategies(): OverloadStrategy[] {
+  return [...strategies.values()];
+}
+
+export function getOverloadStrategy(id: OverloadStrategyId): OverloadStrategy {
+  return strategies.get(id) ?? linear;
+}
+
+registerOverloadStrategy(linear);
+registerOverloadStrategy(double);
+registerOverloadStrategy(rpe);
+
+// ============================================================================
+// SUGGESTIONS
+// ============================================================================
+
+/** Move a suggested weight onto owned equipment, noting it in the reason when it changes */
+function snapSuggestion(exercise: Exercise, suggestion: OverloadSuggestion, lastWeight?: number): OverloadSuggestion {
+  if (!suggestion.weight) return suggestion;
+  const direction: SnapDirection = !lastWeight || suggestion.weight === lastWeight
+    ? 'nearest'
+    : suggestion.weight > lastWeight ? 'up' : 'down';
+  const weight = snapToAvailable(exercise.equipment, suggestion.weight, direction);
+  if (Math.abs(weight - suggestion.weight) < 0.05) return suggestion;
+  return {
+    ...suggestion,
+    weight,
+    reason: `${suggestion.reason} (${formatWeight(weight, loadUnitPreferences().weight)} is the closest you have)`,
+  };
+}
+
+/** Starting point when there's no history: workout value > equipment default > exercise default */
+function suggestDefaults(exercise: Exercise, target: WorkoutExercise): OverloadSuggestion {
+  const reps = target.reps ?? exercise.defaultReps;
+  if (target.weight) return { weight: target.weight, reps, reason: 'First time: weight from the workout' };
+
+  const equipmentWeight = getDefaultWeightForEquipment(exercise.equipment);
+  if (equipmentWeight) return { weight: equipmentWeight, reps, reason: `First time: your default ${exercise.equipment} weight` };
+
+  return { weight: exercise.defaultWeight, reps, reason: 'First time: starting from the exercise default' };
+}
+
+/**
+ * Suggest the next weight and reps for an exercise using the chosen
+ * strategy (the saved preference by default).
+ */
+export async function suggestNextSet(
+  exercise: Exercise,
+  target: WorkoutExercise,
+  strategyId: OverloadStrategyId = loadProgressionStrategy(),
+): Promise<OverloadSuggestion> {
+  if (target.prescribed && target.weight) {
+    return snapSuggestion(exercise, { weight: target.weight, reps: target.reps ?? exercise.defaultReps, reason: target.prescribed });
+  }
+
+  const history = (await getExerciseHistory(exercise.id, 10))
+    .filter(log => getWorkingSets(log.sets).length > 0);
+  if (history.length === 0) return snapSuggestion(exercise, suggestDefaults(exercise, target));
+
+  const duration = target.duration ?? exercise.defaultDuration;
+  const reps = target.reps ?? exercise.defaultReps;
+  const context: OverloadContext = {
+    exercise,
+    target,
+    targetReps: !duration && typeof reps === 'number' ? reps : undefined,
+    history,
+    increment: getWeightIncrement(exercise.equipment),
+    unit: loadUnitPreferences().weight,
+  };
+
+  const suggestion = getOverloadStrategy(strategyId).suggest(context);
+  if (!suggestion) return snapSuggestion(exercise, suggestDefaults(exercise, target));
+  return snapSuggestion(exercise, { ...suggestion, reps: suggestion.reps ?? reps }, getTopSet(history[0].sets)?.weight);
+}
@@ -0,0 +1,217 @@
+/**
+ * Programs - Multi-week plans built from saved workouts
+ *
+ * A program repeats one weekly layout (saved workouts on weekdays) for a
+ * number of weeks from its start date. Each scheduled workout is a slot, and
+ * a completed session tagged with that slot marks it done. Working weights
+ * follow the program's progression: a fixed increase every week, with
+ * lighter deload weeks.
+ */
+
+import type { Program, ProgramSlot, ProgramProgression, SavedWorkout, WorkoutBlock, WorkoutSession } from '../types';
+import { formatLocalDate, getSessionDate, addDays, daysBetween, getWeekday } from '../utils/dates';
+import { formatWeight } from '../utils/units';
+import { getTopSet } from '../utils/sets';
+import { loadPrograms, loadSessions, getSavedWorkoutById, loadUnitPreferences } from './storage';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A slot of a program with its date, workout and (once done) the session that did it */
+export interface ScheduledWorkout {
+  program: Program;
+  slot: ProgramSlot;
+  date: string;                  // YYYY-MM-DD
+  workout?: SavedWorkout;        // Undefined if the saved workout has been deleted
+  session?: WorkoutSession;
+}
+
+export type ProgramStatus = 'not-started' | 'upcoming' | 'running' | 'finished';
+
+export interface ProgramProgress {
+  status: ProgramStatus;
+  week: number | null;           // Current week, while running
+  completed: number;
+  missed: number;                // Past slots with no session
+  total: number;
+}
+
+/** What a running program has on today, for the home screen */
+export interface ProgramToday {
+  program: Program;
+  progress: ProgramProgress;
+  today: ScheduledWorkout[];
+  next?: ScheduledWorkout;       // Following slot still to do
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const DEFAULT_PROGRESSION: ProgramProgression = { weeklyIncrease: 0, deloadWeeks: [], deloadPercent: 60 };
+
+// ============================================================================
+// SCHEDULE
+// ============================================================================
+
+/** Week of the program `date` falls in (from 1), or null outside its run */
+export function getProgramWeek(program: Program, date: Date = new Date()): number | null {
+  if (!program.startDate) return null;
+  const days = daysBetween(program.startDate, formatLocalDate(date));
+  if (days < 0) return null;
+  const week = Math.floor(days / 7) + 1;
+  return week <= program.weeks ? week : null;
+}
+
+/** Calendar date of a slot; weeks run from the start date's weekday */
+export function getSlotDate(program: Program, week: number, weekday: number): string {
+  const start = program.startDate ?? formatLocalDate(new Date());
+  const offset = (weekday - getWeekday(start) + 7) % 7;
+  return addDays(start, (week - 1) * 7 + offset);
+}
+
+// Sessions from before the current start date belong to an earlier run
+function findSlotSession(program: Program, slot: ProgramSlot, sessions: WorkoutSession[]): WorkoutSession | undefined {
+  return sessions.find(s =>
+    s.completedAt
+    && s.program?.programId === slot.programId
+    && s.program.week === slot.week
+    && s.program.weekday === slot.weekday
+    && (!program.startDate || getSessionDate(s) >= program.startDate)
+  );
+}
+
+function toScheduled(program: Program, week: number, weekday: number, workoutId: string, sessions: WorkoutSession[]): ScheduledWorkout {
+  const slot: ProgramSlot = { programId: program.id, week, weekday };
+  return {
+    program,
+    slot,
+    date: getSlotDate(program, week, weekday),
+    workout: getSavedWorkoutById(workoutId),
+    session: findSlotSession(program, slot, sessions),
+  };
+}
+
+/** Every slot of a started program, in date order */
+export function getProgramSchedule(program: Program, sessions: WorkoutSession[] = loadSessions()): ScheduledWorkout[] {
+  if (!program.startDate) return [];
+  const schedule: ScheduledWorkout[] = [];
+  for (let week = 1; week <= program.weeks; week++) {
+    for (const day of program.days) {
+      schedule.push(toScheduled(program, week, day.weekday, day.workoutId, sessions));
+    }
+  }
+  return schedule.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** Workouts that running programs schedule on `date` */
+export function getScheduledWorkouts(date: Date = new Date()): ScheduledWorkout[] {
+  const sessions = loadSessions();
+  return loadPrograms().flatMap(program => {
+    const week = getProgramWeek(program, date);
+    if (week === null) return [];
+    return program.days
+      .filter(day => day.weekday === date.getDay())
+      .map(day => toScheduled(program, week, day.weekday, day.workoutId, sessions));
+  });
+}
+
+/** The first slot after `date` that hasn't been done */
+export function getNextScheduledWorkout(program: Program, date: Date = new Date()): ScheduledWorkout | undefined {
+  const dateStr = formatLocalDate(date);
+  return getProgramSchedule(program).find(s => s.date > dateStr && !s.session);
+}
+
+export function getProgramProgress(program: Program, date: Date = new Date()): ProgramProgress {
+  const schedule = getProgramSchedule(program);
+  const dateStr = formatLocalDate(date);
+  const week = getProgramWeek(program, date);
+  const status: ProgramStatus = !program.startDate ? 'not-started'
+    : week !== null ? 'running'
+    : dateStr < program.startDate ? 'upcoming'
+    : 'finished';
+
+  return {
+    status,
+    week,
+    completed: schedule.filter(s => s.session).length,
+    missed: schedule.filter(s => !s.session && s.date < dateStr).length,
+    total: schedule.length,
+  };
+}
+
+/** Each running program with its progress, today's workouts and the next one after */
+export function getProgramsToday(date: Date = new Date()): ProgramToday[] {
+  const today = getScheduledWorkouts(date);
+  return loadPrograms()
+    .filter(program => getProgramWeek(program, date) !== null)
+    .map(program => ({
+      program,
+      progress: getProgramProgress(program, date),
+      today: today.filter(s => s.program.id === program.id),
+      next: getNextScheduledWorkout(program, date),
+    }));
+}
+
+// ============================================================================
+// PROGRESSION
+// ============================================================================
+
+/**
+ * Week-1 weight for an exercise, worked back from the heaviest working set in
+ * the program's first (non-deload) session that logged it
+ */
+function getStartingWeight(program: Program, exerciseId: string, sessions: WorkoutSession[]): number | undefined {
+  const { weeklyIncrease, deloadWeeks } = program.progression;
+  // Sessions are newest first
+  for (let i = sessions.length - 1; i >= 0; i--) {
+    const session = sessions[i];
+    const slot = session.program;
+    if (!session.completedAt || slot?.programId !== program.id || deloadWeeks.includes(slot.week)) continue;
+    const weights = session.exercises
+      .filter(log => log.exerciseId === exerciseId)
+      .map(log => getTopSet(log.sets)?.weight ?? 0);
+    const top = Math.max(0, ...weights) - weeklyIncrease * (slot.week - 1);
+    if (top > 0) return top;
+  }
+  return undefined;
+}
+
+/** "Week 3: +10 lb", "Week 4: +15 lb, deload to 60%" */
+export function describeProgramWeek(program: Program, week: number): string {
+  const { weeklyIncrease, deloadWeeks, deloadPercent } = program.progression;
+  const changes: string[] = [];
+  if (weeklyIncrease > 0 && week > 1) changes.push(`+${formatWeight(weeklyIncrease * (week - 1), loadUnitPreferences().weight)}`);
+  if (deloadWeeks.includes(week)) changes.push(`deload to ${deloadPercent}%`);
+  return changes.length > 0 ? `Week ${week}: ${changes.join(', ')}` : `Week ${week}`;
+}
+
+/**
+ * A program workout's blocks with this week's working weights. Each weighted
+ * exercise starts from the workout's own weight, or what was lifted in the
+ * program's first session, adds the weekly increase and scales down in a
+ * deload week. Exercises with no weight to start from are left to the usual
+ * suggestions, as are all exercises when the program has no progression.
+ */
+export function applyProgression(
+  program: Program,
+  week: number,
+  blocks: WorkoutBlock[],
+  sessions: WorkoutSession[] = loadSessions(),
+): WorkoutBlock[] {
+  const { weeklyIncrease, deloadWeeks, deloadPercent } = program.progression;
+  const deload = deloadWeeks.includes(week);
+  if (weeklyIncrease <= 0 && !deload) return blocks;
+
+  const increase = weeklyIncrease * (week - 1);
+  const scale = deload ? deloadPercent / 100 : 1;
+  const prescribed = `${program.name} · ${describeProgramWeek(program, week)}`;
+
+  return blocks.map(block => ({
+    ...block,
+    exercises: block.exercises.map(exercise => {
+      const base = exercise.weight ?? getStartingWeight(program, exercise.exerciseId, sessions);
+      if (!base) return exercise;
+      return { ...exercise, weight: (base + increase) * scale, prescribed };
+    }),
+  }));
+}
@@ -0,0 +1,134 @@
+/**
+ * Progression - Strength analytics built from logged sets
+ *
+ * Estimated one-rep max, training volume (tonnage) and best-ever values per
+ * exercise, plus detection of personal records set in a session. Warmup
+ * sets never count toward any of them.
+ */
+
+import type { WorkoutSession, ExerciseLog, SetLog, PersonalRecord, PersonalRecordKind, WeightUnit } from '../types';
+import { getWorkingSets } from '../utils/sets';
+import { formatWeight } from '../utils/units';
+import { getSessionsWithExercise } from './repository';
+import { loadUnitPreferences } from './storage';
+
+// ============================================================================
+// ESTIMATES
+// ============================================================================
+
+export type OneRepMaxFormula = 'epley' | 'brzycki';
+
+/**
+ * Estimated one-rep max from a set of `reps` at `weight`.
+ * Epley: w × (1 + r/30). Brzycki: w × 36 / (37 − r).
+ * Estimates get unreliable past ~12 reps, so those sets return 0.
+ */
+export function estimateOneRepMax(weight: number, reps: number, formula: OneRepMaxFormula = 'epley'): number {
+  if (weight <= 0 || reps <= 0 || reps > 12) return 0;
+  if (reps === 1) return weight;
+  const estimate = formula === 'epley'
+    ? weight * (1 + reps / 30)
+    : weight * 36 / (37 - reps);
+  return Math.round(estimate * 10) / 10;
+}
+
+/** Weight × reps for a set (0 for unweighted or timed sets) */
+export function getSetVolume(set: SetLog): number {
+  return set.weight && set.reps ? set.weight * set.reps : 0;
+}
+
+/** Volume of the working sets in one exercise log */
+export function getLogVolume(log: ExerciseLog): number {
+  return getWorkingSets(log.sets).reduce((sum, set) => sum + getSetVolume(set), 0);
+}
+
+/** Total volume lifted in a session (tonnage, in lb) */
+export function getSessionTonnage(session: WorkoutSession): number {
+  return session.exercises.reduce((sum, log) => sum + getLogVolume(log), 0);
+}
+
+// ============================================================================
+// RECORDS
+// ============================================================================
+
+/** A best-ever value and when it was set */
+export interface RecordEntry {
+  value: number;
+  sessionId: string;
+  achievedAt: string;
+  set?: SetLog;                  // The set behind weight/reps/e1RM records
+}
+
+export type ExerciseRecords = Partial<Record<PersonalRecordKind, RecordEntry>>;
+
+/** Best values within one session's logs of an exercise */
+function bestInSession(session: WorkoutSession, exerciseId: string): Partial<Record<PersonalRecordKind, { value: number; set?: SetLog }>> {
+  const best: Partial<Record<PersonalRecordKind, { value: number; set?: SetLog }>> = {};
+  const consider = (kind: PersonalRecordKind, value: number, set?: SetLog) => {
+    if (value > 0 && value > (best[kind]?.value ?? 0)) best[kind] = { value, set };
+  };
+
+  let volume = 0;
+  for (const log of session.exercises) {
+    if (log.exerciseId !== exerciseId) continue;
+    volume += getLogVolume(log);
+    for (const set of getWorkingSets(log.sets)) {
+      consider('weight', set.weight ?? 0, set);
+      consider('reps', set.reps ?? 0, set);
+      consider('e1rm', set.weight && set.reps ? estimateOneRepMax(set.weight, set.reps) : 0, set);
+    }
+  }
+  consider('volume', volume);
+  return best;
+}
+
+/**
+ * Best-ever weight, reps, single-session volume and estimated 1RM for an
+ * exercise across completed sessions (optionally leaving one session out).
+ */
+export async function getExerciseRecords(exerciseId: string, excludeSessionId?: string): Promise<ExerciseRecords> {
+  const records: ExerciseRecords = {};
+
+  for (const session of await getSessionsWithExercise(exerciseId)) {
+    if (!session.completedAt || session.id === excludeSessionId) continue;
+    const best = bestInSession(session, exerciseId);
+    for (const kind of Object.keys(best) as PersonalRecordKind[]) {
+      const entry = best[kind]!;
+      const current = records[kind];
+      // Sessions come newest first, so >= keeps the earliest session that set the value
+      if (!current || entry.value >= current.value) {
+        records[kind] = { value: entry.value, sessionId: session.id, achievedAt: session.completedAt, set: entry.set };
+      }
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Records beaten in `session`, compared with every other completed session.
+ * An exercise's first ever log sets a baseline rather than a PR.
+ */
+export async function detectPersonalRecords(session: WorkoutSession): Promise<PersonalRecord[]> {
+  const found: PersonalRecord[] = [];
+  const exerciseIds = [...new Set(session.exercises.map(log => log.exerciseId))];
+
+  for (const exerciseId of exerciseIds) {
+    const previous = await getExerciseRecords(exerciseId, session.id);
+    const best = bestInSession(session, exerciseId);
+    for (const kind of Object.keys(best) as PersonalRecordKind[]) {
+      const before = previous[kind]?.value;
+      const value = best[kind]!.value;
+      if (before !== undefined && value > before) {
+        found.push({ exerciseId, kind, value, previous: before });
+      }
+    }
+  }
+
+  return found;
+}
+
+/** "60 lb", "12 reps", "1,440 lb" (weights in the user's unit) */
+export function formatRecordValue(kind: PersonalRecordKind, value: number, unit: WeightUnit = loadUnitPreferences().weight): string {
+  return kind === 'reps' ? `${value} reps` : formatWeight(value, unit);
+}
@@ -0,0 +1,234 @@
+/**
+ * Record Repository - Typed access to sessions, saved workouts, custom exercises and programs
+ *
+ * Records live in a StorageBackend (IndexedDB, or localStorage as a fallback)
+ * and are loaded once at startup into memory, so reads stay synchronous and
+ * never re-parse JSON. Writes update memory immediately and are persisted in
+ * the background, touching only the records that changed. Session lookups by
+ * date range, day and exercise are asynchronous and go to the backend, which
+ * answers them from its indexes.
+ */
+
+import type { WorkoutSession, SavedWorkout, Exercise, Program } from '../types';
+import { getSessionDate, parseLocalDate, addDays } from '../utils/dates';
+import { localStorageBackend, readLegacyCollection, LEGACY_KEYS } from './localStorageBackend';
+import { createIndexedDbBackend } from './indexedDbBackend';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Record type stored in each collection */
+export interface RecordCollections {
+  sessions: WorkoutSession;
+  savedWorkouts: SavedWorkout;
+  customExercises: Exercise;
+  programs: Program;
+}
+
+export type CollectionName = keyof RecordCollections;
+
+/** A set of changes to persist for one collection */
+export interface CollectionWrite<T> {
+  put: T[];                      // New or changed records
+  remove: string[];              // Ids of removed records
+  all: T[];                      // Full collection after the change
+}
+
+/** Where records are persisted */
+export interface StorageBackend {
+  readonly name: 'IndexedDB' | 'localStorage';
+  load<K extends CollectionName>(collection: K): Promise<RecordCollections[K][]>;
+  write<K extends CollectionName>(collection: K, changes: CollectionWrite<RecordCollections[K]>): Promise<void>;
+  getSessionsWithExercise(exerciseId: string): Promise<WorkoutSession[]>;   // Newest first
+  getSessionsBetween(from: Date, to?: Date): Promise<WorkoutSession[]>;     // Started in [from, to), newest first
+  clear(): Promise<void>;
+}
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+const COLLECTIONS: CollectionName[] = ['sessions', 'savedWorkouts', 'customExercises', 'programs'];
+const MIGRATED_KEY = 'storage_migrated_to_indexeddb';
+
+let backend: StorageBackend = localStorageBackend;
+let initialized = false;
+let writeQueue: Promise<void> = Promise.resolve();
+let writeFailed = false;        // A background write failed since the last flush
+
+const cache: { [K in CollectionName]: RecordCollections[K][] } = {
+  sessions: [],
+  savedWorkouts: [],
+  customExercises: [],
+  programs: [],
+};
+
+function readCache<K extends CollectionName>(collection: K): RecordCollections[K][] {
+  return cache[collection] as RecordCollections[K][];
+}
+
+function writeCache<K extends CollectionName>(collection: K, records: RecordCollections[K][]): void {
+  (cache as Record<CollectionName, unknown[]>)[collection] = records;
+}
+
+/** Keep each collection in the order the app expects */
+function sortCollection<K extends CollectionName>(collection: K, records: RecordCollections[K][]): RecordCollections[K][] {
+  switch (collection) {
+    case 'sessions':
+      // Newest first
+      return (records as WorkoutSession[]).sort(
+        (a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()
+      ) as RecordCollections[K][];
+    case 'savedWorkouts':
+    case 'programs':
+      return (records as (SavedWorkout | Program)[]).sort(
+        (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      ) as RecordCollections[K][];
+    default:
+      // Custom exercise ids embed their creation time
+      return records.sort((a, b) => a.id.localeCompare(b.id));
+  }
+}
+
+// ============================================================================
+// INITIALIZATION
+// ============================================================================
+
+/**
+ * Copy the legacy localStorage arrays into IndexedDB. Replaces whatever an
+ * earlier, unfinished attempt left there, so it can simply run again.
+ */
+async function copyFromLocalStorage(target: StorageBackend): Promise<void> {
+  await target.clear();
+  for (const collection of COLLECTIONS) {
+    const records = readLegacyCollection(collection);
+    if (records.length > 0) {
+      await target.write(collection, { put: records, remove: [], all: records });
+    }
+  }
+}
+
+async function loadCollections(source: StorageBackend): Promise<void> {
+  for (const collection of COLLECTIONS) {
+    const records = await source.load(collection);
+    writeCache(collection, sortCollection(collection, records));
+  }
+}
+
+/**
+ * Pick a backend and load every collection into memory.
+ * Must finish before the app renders. Until the records have been copied to
+ * IndexedDB and read back once, localStorage keeps them and is the fallback
+ * if IndexedDB can't be used. After that the data lives only in IndexedDB,
+ * so failing to open or read it rejects rather than showing empty history.
+ */
+export async function initRepository(): Promise<void> {
+  if (initialized) return;
+
+  const migrated = localStorage.getItem(MIGRATED_KEY) !== null;
+  try {
+    const idb = await createIndexedDbBackend();
+    if (!migrated) await copyFromLocalStorage(idb);
+    await loadCollections(idb);
+    backend = idb;
+  } catch (err) {
+    if (migrated) throw err;
+    console.warn('[Moove] IndexedDB unavailable, using localStorage:', err);
+    await loadCollections(localStorageBackend);
+    backend = localStorageBackend;
+  }
+
+  // The copy has been read back, so the legacy arrays can go
+  if (!migrated && backend.name === 'IndexedDB') {
+    localStorage.setItem(MIGRATED_KEY, new Date().toISOString());
+    Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+    console.log('[Moove] Migrated workout data from localStorage to IndexedDB');
+  }
+
+  initialized = true;
+}
+
+export function getStorageBackendName(): StorageBackend['name'] {
+  return backend.name;
+}
+
+// ============================================================================
+// READ / WRITE
+// ============================================================================
+
+/** All records in a collection (a copy - records themselves must not be mutated) */
+export function getRecords<K extends CollectionName>(collection: K): RecordCollections[K][] {
+  return [...readCache(collection)];
+}
+
+export function countRecords(collection: CollectionName): number {
+  return cache[collection].length;
+}
+
+/**
+ * Replace a collection. Only records that are new or changed (by identity)
+ * and ids that disappeared are written to the backend.
+ */
+export function setRecords<K extends CollectionName>(collection: K, records: RecordCollections[K][]): void {
+  const previous = new Map(readCache(collection).map(r => [r.id, r]));
+  const nextIds = new Set(records.map(r => r.id));
+
+  const put = records.filter(r => previous.get(r.id) !== r);
+  const remove = [...previous.keys()].filter(id => !nextIds.has(id));
+
+  const all = sortCollection(collection, [...records]);
+  writeCache(collection, all);
+
+  if (put.length === 0 && remove.length === 0) return;
+  const target = backend;
+  writeQueue = writeQueue
+    .then(() => target.write(collection, { put, remove, all }))
+    .catch(err => {
+      writeFailed = true;
+      console.error(`Failed to persist ${collection}:`, err);
+    });
+}
+
+/**
+ * Wait for pending background writes (e.g. before reloading the page).
+ * Resolves to false if any write since the last flush failed.
+ */
+export async function flushRepositoryWrites(): Promise<boolean> {
+  await writeQueue;
+  const saved = !writeFailed;
+  writeFailed = false;
+  return saved;
+}
+
+/** Remove every record from memory and the backend */
+export async function clearRepository(): Promise<void> {
+  COLLECTIONS.forEach(collection => writeCache(collection, []));
+  await writeQueue;
+  await backend.clear();
+}
+
+// ============================================================================
+// SESSION QUERIES
+// ============================================================================
+
+// Queries read the backend (through its indexes), so wait for writes still on their way to it
+
+/** Sessions started in [from, to), newest first */
+export async function getSessionsBetween(from: Date, to?: Date): Promise<WorkoutSession[]> {
+  await writeQueue;
+  return backend.getSessionsBetween(from, to);
+}
+
+/** Sessions on a calendar day (YYYY-MM-DD, in each session's own time zone), newest first */
+export async function getSessionsOnDate(dateStr: string): Promise<WorkoutSession[]> {
+  // A day's margin either side catches sessions started in other time zones
+  const sessions = await getSessionsBetween(parseLocalDate(addDays(dateStr, -1)), parseLocalDate(addDays(dateStr, 2)));
+  return sessions.filter(session => getSessionDate(session) === dateStr);
+}
+
+/** Sessions that logged a given exercise, newest first */
+export async function getSessionsWithExercise(exerciseId: string): Promise<WorkoutSession[]> {
+  await writeQueue;
+  return backend.getSessionsWithExercise(exerciseId);
+}
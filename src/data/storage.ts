@@ -1,22 +1,42 @@
 /**
- * Storage Layer - Local storage persistence for all app data
+ * Storage Layer - Local persistence for all app data
  *
- * All data is stored in localStorage with JSON serialization.
+ * Sessions, saved workouts, custom exercises and programs go through the record
+ * repository (IndexedDB, with localStorage as a fallback). Small settings
+ * are stored in localStorage with JSON serialization.
  * Cloud sync is available but disabled by default to prevent data sharing.
  */
 
-import type { WorkoutSession, ExerciseLog, SavedWorkout, WorkoutBlock } from '../types';
+import type { WorkoutSession, ActiveSession, ExerciseLog, SavedWorkout, Program, PlannedWorkout, WorkoutBlock, SyncConflict, UnitPreferences, WeightUnit, CardioType, CardioMetric, CustomCardioActivity } from '../types';
+import { CARDIO_TYPE_LABELS, CARDIO_TYPE_ICONS, CARDIO_TYPE_METRICS, CARDIO_METRIC_LABELS } from '../types';
 import { generateUUID } from '../utils/uuid';
+import { formatLocalDate, parseLocalDate, getSessionDate, getWeekStartDate, getWeekday, addDays, DEFAULT_WEEK_START, type WeekStart } from '../utils/dates';
+import { computeStreaks } from '../utils/streaks';
+import { getHeartRateStats } from '../utils/heartRate';
+import { getLocaleUnitPreferences, fromDisplayWeight, toDisplayWeight, toDisplayDistance } from '../utils/units';
+import { getWorkingSets } from '../utils/sets';
 import { getDeviceId } from './sync';
 import { supabase } from '../lib/supabase';
-import { scheduleSyncToCloud } from './supabaseSync';
-
-// Helper to trigger sync if user is logged in
-async function triggerSyncIfLoggedIn() {
-  if (!supabase) return;
-  const { data: { user } } = await supabase.auth.getUser();
-  if (user) {
-    scheduleSyncToCloud(user.id);
+import { scheduleSyncToCloud, deleteRemoteTombstone } from './supabaseSync';
+import { stampChanges, removeSyncConflict, clearChangeTracking } from './changeTracking';
+import { clearOutbox } from './syncOutbox';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import {
+  getRecords,
+  setRecords,
+  clearRepository,
+  getSessionsBetween,
+  getSessionsOnDate,
+  getSessionsWithExercise,
+} from './repository';
+
+// Helper to queue changes for sync if user is logged in.
+// Uses the stored session (not getUser) so it works offline.
+async function triggerSyncIfLoggedIn(changes: string[]) {
+  if (!supabase || changes.length === 0) return;
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session?.user) {
+    scheduleSyncToCloud(changes);
   }
 }
 
@@ -24,11 +44,10 @@ async function triggerSyncIfLoggedIn() {
 // STORAGE KEYS
 // ============================================================================
 
-const SESSIONS_KEY = 'workout_sessions';           // Completed workout sessions
 const CURRENT_SESSION_KEY = 'current_workout_session'; // Active workout in progress
-const SAVED_WORKOUTS_KEY = 'saved_workouts';       // User's workout library
 const REST_DAYS_KEY = 'rest_days';                 // Scheduled rest days
-const CUSTOM_EXERCISES_KEY = 'custom_exercises';   // User-created exercises
+const PLANNED_WORKOUTS_KEY = 'planned_workouts';   // Saved workouts planned on calendar dates
+const CUSTOM_CARDIO_KEY = 'custom_cardio_activities'; // User-defined cardio activities
 const CLAUDE_API_KEY = 'claude_api_key';           // AI chat API key
 const CHAT_HISTORY_KEY = 'claude_chat_history';    // AI chat message history
 const EQUIPMENT_CONFIG_KEY = 'equipment_config';   // Default weights per equipment
@@ -37,18 +56,17 @@ const PERSONALITY_KEY = 'workout_personality';     // AI personality preference
 const FAVORITES_KEY = 'workout_favorites';         // Favorited workouts/exercises
 const SKIP_COUNTS_KEY = 'workout_skip_counts';     // Skip/swap tracking
 const CUSTOM_DESCRIPTIONS_KEY = 'workout_custom_descriptions'; // User exercise notes
+const PROGRESSION_STRATEGY_KEY = 'progression_strategy';  // Suggested weight/reps strategy
+const UNITS_KEY = 'workout_units';                 // kg/lb and km/mi display preference
+const CUE_SETTINGS_KEY = 'workout_cue_settings';   // Timer sound volume/mute and vibration
+const HEART_RATE_SETTINGS_KEY = 'workout_heart_rate_settings'; // Heart-rate zones and simulated monitor
+const WEEK_START_KEY = 'workout_week_start';       // First day of the week on calendars and weekly stats
 
 // ============================================================================
 // DATE UTILITIES
 // ============================================================================
 
-/** Format a date as YYYY-MM-DD in local timezone (not UTC) */
-export function formatLocalDate(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-}
+export { formatLocalDate };
 
 // ============================================================================
 // USER PROFILE
@@ -59,28 +77,39 @@ export function saveUserName(name: string): void {
   // Log user identity for analytics
   const deviceId = getDeviceId();
   console.log('[Moove] User identity:', { deviceId, userName: name, timestamp: new Date().toISOString() });
-  triggerSyncIfLoggedIn();
+  triggerSyncIfLoggedIn(['profile']);
 }
 
 export function loadUserName(): string | null {
   return localStorage.getItem(USER_NAME_KEY);
 }
 
+/** Units for display and input; defaults from the device locale until chosen */
+export function loadUnitPreferences(): UnitPreferences {
+  const data = localStorage.getItem(UNITS_KEY);
+  return data ? { ...getLocaleUnitPreferences(), ...JSON.parse(data) } : getLocaleUnitPreferences();
+}
+
+export function saveUnitPreferences(units: UnitPreferences): void {
+  localStorage.setItem(UNITS_KEY, JSON.stringify(units));
+  triggerSyncIfLoggedIn(['profile']);
+}
+
 // ============================================================================
 // WORKOUT SESSIONS
 // ============================================================================
 
 export function saveSessions(sessions: WorkoutSession[]): void {
-  localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
-  triggerSyncIfLoggedIn();
+  const { records, changedIds } = stampChanges('sessions', loadSessions(), sessions);
+  setRecords('sessions', records);
+  triggerSyncIfLoggedIn(changedIds.map(id => `sessions:${id}`));
 }
 
 export function loadSessions(): WorkoutSession[] {
-  const data = localStorage.getItem(SESSIONS_KEY);
-  return data ? JSON.parse(data) : [];
+  return getRecords('sessions');
 }
 
-export function saveCurrentSession(session: WorkoutSession | null): void {
+export function saveCurrentSession(session: ActiveSession | null): void {
   if (session) {
     localStorage.setItem(CURRENT_SESSION_KEY, JSON.stringify(session));
   } else {
@@ -88,7 +117,7 @@ export function saveCurrentSession(session: WorkoutSession | null): void {
   }
 }
 
-export function loadCurrentSession(): WorkoutSession | null {
+export function loadCurrentSession(): ActiveSession | null {
   const data = localStorage.getItem(CURRENT_SESSION_KEY);
   return data ? JSON.parse(data) : null;
 }
@@ -105,15 +134,23 @@ export function deleteSession(sessionId: string): void {
   saveSessions(sessions.filter(s => s.id !== sessionId));
 }
 
+/** Add a session or replace the one with its id (logged or corrected by hand), keeping newest first */
+export function saveSession(session: WorkoutSession): void {
+  const sessions = loadSessions().filter(s => s.id !== session.id);
+  sessions.push(session);
+  sessions.sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+  saveSessions(sessions);
+}
+
 // Saved Workouts (Library)
 export function loadSavedWorkouts(): SavedWorkout[] {
-  const data = localStorage.getItem(SAVED_WORKOUTS_KEY);
-  return data ? JSON.parse(data) : [];
+  return getRecords('savedWorkouts');
 }
 
 export function saveSavedWorkouts(workouts: SavedWorkout[]): void {
-  localStorage.setItem(SAVED_WORKOUTS_KEY, JSON.stringify(workouts));
-  triggerSyncIfLoggedIn();
+  const { records, changedIds } = stampChanges('savedWorkouts', loadSavedWorkouts(), workouts);
+  setRecords('savedWorkouts', records);
+  triggerSyncIfLoggedIn(changedIds.map(id => `savedWorkouts:${id}`));
 }
 
 export function addSavedWorkout(workout: Omit<SavedWorkout, 'id' | 'createdAt' | 'updatedAt'>): SavedWorkout {
@@ -152,66 +189,72 @@ export function getSavedWorkoutById(id: string): SavedWorkout | undefined {
   return loadSavedWorkouts().find(w => w.id === id);
 }
 
-// Seed default workouts if library is empty
-const DEFAULT_FULL_BODY_WORKOUT: Omit<SavedWorkout, 'id' | 'createdAt' | 'updatedAt'> = {
-  name: 'Full Body Strength',
-  estimatedMinutes: 45,
-  blocks: [
-    {
-      id: 'warmup-block',
-      type: 'warmup',
-      name: 'Warmup',
-      exercises: [
-        { exerciseId: 'worlds-greatest-stretch', reps: 5 },
-        { exerciseId: 'hollow-body-hold', duration: 30 },
-      ],
-    },
-    {
-      id: 'strength-block',
-      type: 'strength',
-      name: 'Strength',
-      exercises: [
-        // Set 1: Squat, Hinge, Press, Pull
-        { exerciseId: 'goblet-squat', sets: 1, reps: 10 },
-        { exerciseId: 'deadlift', sets: 1, reps: 10 },
-        { exerciseId: 'overhead-press', sets: 1, reps: 8 },
-        { exerciseId: 'rows', sets: 1, reps: 10 },
-        // Set 2: Squat, Hinge, Press, Pull
-        { exerciseId: 'goblet-squat', sets: 2, reps: 10 },
-        { exerciseId: 'deadlift', sets: 2, reps: 10 },
-        { exerciseId: 'overhead-press', sets: 2, reps: 8 },
-        { exerciseId: 'rows', sets: 2, reps: 10 },
-        // Set 3: Squat, Hinge, Press, Pull
-        { exerciseId: 'goblet-squat', sets: 3, reps: 10 },
-        { exerciseId: 'deadlift', sets: 3, reps: 10 },
-        { exerciseId: 'overhead-press', sets: 3, reps: 8 },
-        { exerciseId: 'rows', sets: 3, reps: 10 },
-      ],
-    },
-    {
-      id: 'conditioning-block',
-      type: 'conditioning',
-      name: 'Conditioning',
-      exercises: [
-        { exerciseId: 'kb-swing', reps: 20 },
-        { exerciseId: 'planks', duration: 45 },
-      ],
-    },
-    {
-      id: 'cooldown-block',
-      type: 'cooldown',
-      name: 'Cooldown',
-      exercises: [
-        { exerciseId: 'childs-pose', duration: 60 },
-      ],
-    },
-  ],
-};
+// Seed default workouts if library is empty.
+// Starting weights are round numbers in the user's unit (dumbbell, kettlebell).
+function buildDefaultFullBodyWorkout(unit: WeightUnit): Omit<SavedWorkout, 'id' | 'createdAt' | 'updatedAt'> {
+  const dumbbell = fromDisplayWeight(unit === 'kg' ? 12 : 25, unit);
+  const kettlebell = fromDisplayWeight(unit === 'kg' ? 24 : 50, unit);
+
+  return {
+    name: 'Full Body Strength',
+    estimatedMinutes: 45,
+    blocks: [
+      {
+        id: 'warmup-block',
+        type: 'warmup',
+        name: 'Warmup',
+        exercises: [
+          { exerciseId: 'worlds-greatest-stretch', reps: 5 },
+          { exerciseId: 'hollow-body-hold', duration: 30 },
+        ],
+      },
+      {
+        id: 'strength-block',
+        type: 'strength',
+        name: 'Strength',
+        exercises: [
+          // Set 1: Squat, Hinge, Press, Pull
+          { exerciseId: 'goblet-squat', sets: 1, reps: 10, weight: dumbbell },
+          { exerciseId: 'deadlift', sets: 1, reps: 10, weight: dumbbell },
+          { exerciseId: 'overhead-press', sets: 1, reps: 8, weight: kettlebell },
+          { exerciseId: 'rows', sets: 1, reps: 10, weight: kettlebell },
+          // Set 2: Squat, Hinge, Press, Pull
+          { exerciseId: 'goblet-squat', sets: 2, reps: 10, weight: dumbbell },
+          { exerciseId: 'deadlift', sets: 2, reps: 10, weight: dumbbell },
+          { exerciseId: 'overhead-press', sets: 2, reps: 8, weight: kettlebell },
+          { exerciseId: 'rows', sets: 2, reps: 10, weight: kettlebell },
+          // Set 3: Squat, Hinge, Press, Pull
+          { exerciseId: 'goblet-squat', sets: 3, reps: 10, weight: dumbbell },
+          { exerciseId: 'deadlift', sets: 3, reps: 10, weight: dumbbell },
+          { exerciseId: 'overhead-press', sets: 3, reps: 8, weight: kettlebell },
+          { exerciseId: 'rows', sets: 3, reps: 10, weight: kettlebell },
+        ],
+      },
+      {
+        id: 'conditioning-block',
+        type: 'conditioning',
+        name: 'Conditioning',
+        exercises: [
+          { exerciseId: 'kb-swing', reps: 20, weight: kettlebell },
+          { exerciseId: 'planks', duration: 45 },
+        ],
+      },
+      {
+        id: 'cooldown-block',
+        type: 'cooldown',
+        name: 'Cooldown',
+        exercises: [
+          { exerciseId: 'childs-pose', duration: 60 },
+        ],
+      },
+    ],
+  };
+}
 
 export function seedDefaultWorkouts(): void {
   const workouts = loadSavedWorkouts();
   if (workouts.length === 0) {
-    addSavedWorkout(DEFAULT_FULL_BODY_WORKOUT);
+    addSavedWorkout(buildDefaultFullBodyWorkout(loadUnitPreferences().weight));
   }
 }
 
@@ -225,8 +268,8 @@ export function getLastWorkout(): { blocks: WorkoutBlock[]; completedAt: string
   };
 }
 
-export function getExerciseHistory(exerciseId: string, limit = 10): ExerciseLog[] {
-  const sessions = loadSessions();
+export async function getExerciseHistory(exerciseId: string, limit = 10): Promise<ExerciseLog[]> {
+  const sessions = await getSessionsWithExercise(exerciseId);
   const history: ExerciseLog[] = [];
 
   for (const session of sessions) {
@@ -241,20 +284,19 @@ export function getExerciseHistory(exerciseId: string, limit = 10): ExerciseLog[
   return history;
 }
 
-export function getLastWeekAverages(exerciseId: string): { avgWeight: number; avgReps: number } | null {
-  const sessions = loadSessions();
+export async function getLastWeekAverages(exerciseId: string): Promise<{ avgWeight: number; avgReps: number } | null> {
   const oneWeekAgo = new Date();
   oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
 
-  const recentLogs = sessions
-    .filter(s => new Date(s.startedAt) >= oneWeekAgo)
+  const recentSets = (await getSessionsBetween(oneWeekAgo))
     .flatMap(s => s.exercises)
-    .filter(e => e.exerciseId === exerciseId);
+    .filter(e => e.exerciseId === exerciseId)
+    .flatMap(e => getWorkingSets(e.sets));
 
-  if (recentLogs.length === 0) return null;
+  if (recentSets.length === 0) return null;
 
-  const weights = recentLogs.filter(l => l.weight).map(l => l.weight!);
-  const reps = recentLogs.filter(l => typeof l.reps === 'number').map(l => l.reps as number);
+  const weights = recentSets.filter(set => set.weight).map(set => set.weight!);
+  const reps = recentSets.filter(set => typeof set.reps === 'number').map(set => set.reps!);
 
   return {
     avgWeight: weights.length > 0 ? Math.round(weights.reduce((a, b) => a + b, 0) / weights.length) : 0,
@@ -262,21 +304,16 @@ export function getLastWeekAverages(exerciseId: string): { avgWeight: number; av
   };
 }
 
-// Get workout dates for the current week (for checkmark display)
-export function getThisWeekWorkoutDates(): Set<string> {
-  const sessions = loadSessions().filter(s => s.completedAt);
-  const now = new Date();
-  const startOfWeek = new Date(now);
-  startOfWeek.setDate(now.getDate() - now.getDay()); // Start from Sunday
-  startOfWeek.setHours(0, 0, 0, 0);
-
+// Get workout dates (YYYY-MM-DD) for the current week (for checkmark display)
+export async function getThisWeekWorkoutDates(): Promise<Set<string>> {
+  const weekStart = getWeekStartDate(formatLocalDate(new Date()), loadWeekStart());
   const dates = new Set<string>();
-  sessions.forEach(s => {
-    const sessionDate = new Date(s.startedAt);
-    if (sessionDate >= startOfWeek) {
-      dates.add(sessionDate.toDateString());
-    }
-  });
+  // A day's margin either side catches sessions started in other time zones
+  (await getSessionsBetween(parseLocalDate(addDays(weekStart, -1))))
+    .filter(s => s.completedAt)
+    .map(getSessionDate)
+    .filter(date => date >= weekStart)
+    .forEach(date => dates.add(date));
   return dates;
 }
 
@@ -288,12 +325,16 @@ export interface DayWorkoutInfo {
 }
 
 // Get yearly contribution data (GitHub-style grid)
-export function getYearlyContributions(): Map<string, DayWorkoutInfo> {
-  const sessions = loadSessions().filter(s => s.completedAt);
+export async function getYearlyContributions(): Promise<Map<string, DayWorkoutInfo>> {
   const contributions = new Map<string, DayWorkoutInfo>();
 
-  // Get dates for the last 365 days
+  // Get dates for the last 365 days (plus a day's margin for sessions started in other time zones)
   const now = new Date();
+  const firstDay = new Date(now);
+  firstDay.setDate(firstDay.getDate() - 365);
+  firstDay.setHours(0, 0, 0, 0);
+  const sessions = (await getSessionsBetween(firstDay)).filter(s => s.completedAt);
+
   for (let i = 364; i >= 0; i--) {
     const date = new Date(now);
     date.setDate(date.getDate() - i);
@@ -303,7 +344,7 @@ export function getYearlyContributions(): Map<string, DayWorkoutInfo> {
 
   // Count workouts per day and track type
   sessions.forEach(s => {
-    const dateStr = formatLocalDate(new Date(s.startedAt));
+    const dateStr = getSessionDate(s);
     if (contributions.has(dateStr)) {
       const current = contributions.get(dateStr)!;
       current.count++;
@@ -328,15 +369,14 @@ export function getWorkoutStats(): {
   workoutsByDay: Record<number, number>;
 } {
   const sessions = loadSessions().filter(s => s.completedAt);
+  const today = formatLocalDate(new Date());
+  const sessionDates = sessions.map(getSessionDate);
 
-  const now = new Date();
-  const oneWeekAgo = new Date(now);
-  oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-  const oneMonthAgo = new Date(now);
-  oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
-
-  const thisWeek = sessions.filter(s => new Date(s.startedAt) >= oneWeekAgo).length;
-  const thisMonth = sessions.filter(s => new Date(s.startedAt) >= oneMonthAgo).length;
+  // This calendar week (from the chosen week start), and the last month
+  const weekStart = getWeekStartDate(today, loadWeekStart());
+  const monthAgo = addDays(today, -30);
+  const thisWeek = sessionDates.filter(date => date >= weekStart && date <= today).length;
+  const thisMonth = sessionDates.filter(date => date > monthAgo && date <= today).length;
 
   const durations = sessions
     .filter(s => s.totalDuration)
@@ -345,46 +385,13 @@ export function getWorkoutStats(): {
     ? Math.round(durations.reduce((a, b) => a + b, 0) / durations.length)
     : 0;
 
-  // Calculate streaks
-  const sortedDates = [...new Set(
-    sessions.map(s => new Date(s.startedAt).toDateString())
-  )].sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
-
-  let currentStreak = 0;
-  let longestStreak = 0;
-  let tempStreak = 0;
-
-  const today = new Date().toDateString();
-  const yesterday = new Date(Date.now() - 86400000).toDateString();
-
-  for (let i = 0; i < sortedDates.length; i++) {
-    const date = sortedDates[i];
-    const prevDate = i > 0 ? sortedDates[i - 1] : null;
+  // Rest days keep a streak going without adding to it
+  const { current: currentStreak, longest: longestStreak } = computeStreaks(new Set(sessionDates), loadRestDays(), today);
 
-    if (i === 0) {
-      if (date === today || date === yesterday) {
-        currentStreak = 1;
-        tempStreak = 1;
-      }
-    } else if (prevDate) {
-      const diff = new Date(prevDate).getTime() - new Date(date).getTime();
-      if (diff <= 86400000 * 1.5) {
-        tempStreak++;
-        if (i < sortedDates.length && (sortedDates[0] === today || sortedDates[0] === yesterday)) {
-          currentStreak = tempStreak;
-        }
-      } else {
-        tempStreak = 1;
-      }
-    }
-    longestStreak = Math.max(longestStreak, tempStreak);
-  }
-
-  // Workouts by day of week (0 = Sunday)
+  // Workouts by day of week (0 = Sunday), on the day each session happened where it happened
   const workoutsByDay: Record<number, number> = { 0: 0, 1: 0, 2: 0, 3: 0, 4: 0, 5: 0, 6: 0 };
-  sessions.forEach(s => {
-    const day = new Date(s.startedAt).getDay();
-    workoutsByDay[day]++;
+  sessionDates.forEach(date => {
+    workoutsByDay[getWeekday(date)]++;
   });
 
   return {
@@ -409,7 +416,7 @@ export function loadRestDays(): Set<string> {
 
 export function saveRestDays(dates: Set<string>): void {
   localStorage.setItem(REST_DAYS_KEY, JSON.stringify([...dates]));
-  triggerSyncIfLoggedIn();
+  triggerSyncIfLoggedIn(['preferences']);
 }
 
 export function toggleRestDay(dateStr: string): boolean {
@@ -429,6 +436,123 @@ export function isRestDay(dateStr: string): boolean {
   return loadRestDays().has(dateStr);
 }
 
+// ============================================================================
+// PLANNED WORKOUTS
+// ============================================================================
+
+export function loadPlannedWorkouts(): PlannedWorkout[] {
+  const data = localStorage.getItem(PLANNED_WORKOUTS_KEY);
+  return data ? JSON.parse(data) : [];
+}
+
+export function savePlannedWorkouts(plans: PlannedWorkout[]): void {
+  const sorted = [...plans].sort((a, b) => a.date.localeCompare(b.date));
+  localStorage.setItem(PLANNED_WORKOUTS_KEY, JSON.stringify(sorted));
+  triggerSyncIfLoggedIn(['preferences']);
+}
+
+export function getPlannedWorkout(dateStr: string): PlannedWorkout | undefined {
+  return loadPlannedWorkouts().find(plan => plan.date === dateStr);
+}
+
+// One plan per date; planning a workout replaces what was there and the rest day
+export function planWorkout(dateStr: string, workoutId: string): void {
+  const plans = loadPlannedWorkouts().filter(plan => plan.date !== dateStr);
+  savePlannedWorkouts([...plans, { date: dateStr, workoutId }]);
+  const restDays = loadRestDays();
+  if (restDays.delete(dateStr)) saveRestDays(restDays);
+}
+
+export function unplanWorkout(dateStr: string): void {
+  const plans = loadPlannedWorkouts();
+  const remaining = plans.filter(plan => plan.date !== dateStr);
+  if (remaining.length !== plans.length) savePlannedWorkouts(remaining);
+}
+
+// ============================================================================
+// CUSTOM CARDIO ACTIVITIES
+// ============================================================================
+
+export function loadCustomCardioActivities(): CustomCardioActivity[] {
+  const data = localStorage.getItem(CUSTOM_CARDIO_KEY);
+  return data ? JSON.parse(data) : [];
+}
+
+export function saveCustomCardioActivities(activities: CustomCardioActivity[]): void {
+  localStorage.setItem(CUSTOM_CARDIO_KEY, JSON.stringify(activities));
+  triggerSyncIfLoggedIn(['preferences']);
+}
+
+export function getCustomCardioActivity(id: string): CustomCardioActivity | undefined {
+  return loadCustomCardioActivities().find(activity => activity.id === id);
+}
+
+// Adds a new activity or replaces the one with the same id
+export function saveCustomCardioActivity(activity: CustomCardioActivity): void {
+  const activities = loadCustomCardioActivities();
+  const index = activities.findIndex(a => a.id === activity.id);
+  if (index === -1) {
+    activities.push(activity);
+  } else {
+    activities[index] = activity;
+  }
+  saveCustomCardioActivities(activities);
+}
+
+// Past sessions keep their name and numbers; they just lose the custom icon
+export function deleteCustomCardioActivity(id: string): void {
+  saveCustomCardioActivities(loadCustomCardioActivities().filter(activity => activity.id !== id));
+}
+
+/** Name, icon and metrics of a cardio type, or of the custom activity a session did */
+export function describeCardio(cardioType: CardioType, customActivityId?: string): { label: string; icon: string; metrics: CardioMetric[] } {
+  const custom = cardioType === 'custom' && customActivityId ? getCustomCardioActivity(customActivityId) : undefined;
+  return custom
+    ? { label: custom.name, icon: custom.icon, metrics: custom.metrics }
+    : { label: CARDIO_TYPE_LABELS[cardioType], icon: CARDIO_TYPE_ICONS[cardioType], metrics: CARDIO_TYPE_METRICS[cardioType] };
+}
+
+/** Icon and name for history lists, e.g. "🚴 Cycle" */
+export function formatCardioActivity(cardioType: CardioType, customActivityId?: string): string {
+  const { icon, label } = describeCardio(cardioType, customActivityId);
+  return `${icon} ${label}`;
+}
+
+// ============================================================================
+// PROGRAMS
+// ============================================================================
+
+export function loadPrograms(): Program[] {
+  return getRecords('programs');
+}
+
+export function savePrograms(programs: Program[]): void {
+  const { records, changedIds } = stampChanges('programs', loadPrograms(), programs);
+  setRecords('programs', records);
+  triggerSyncIfLoggedIn(changedIds.map(id => `programs:${id}`));
+}
+
+export function addProgram(program: Omit<Program, 'id' | 'createdAt' | 'updatedAt'>): Program {
+  const now = new Date().toISOString();
+  const newProgram: Program = { ...program, id: generateUUID(), createdAt: now, updatedAt: now };
+  savePrograms([newProgram, ...loadPrograms()]);
+  return newProgram;
+}
+
+export function updateProgram(id: string, updates: Partial<Omit<Program, 'id' | 'createdAt'>>): Program | null {
+  const programs = loadPrograms();
+  const index = programs.findIndex(p => p.id === id);
+  if (index === -1) return null;
+
+  programs[index] = { ...programs[index], ...updates, updatedAt: new Date().toISOString() };
+  savePrograms(programs);
+  return programs[index];
+}
+
+export function deleteProgram(id: string): void {
+  savePrograms(loadPrograms().filter(p => p.id !== id));
+}
+
 // ============================================================================
 // CUSTOM EXERCISES
 // ============================================================================
@@ -436,13 +560,13 @@ export function isRestDay(dateStr: string): boolean {
 import type { Exercise } from '../types';
 
 export function loadCustomExercises(): Exercise[] {
-  const data = localStorage.getItem(CUSTOM_EXERCISES_KEY);
-  return data ? JSON.parse(data) : [];
+  return getRecords('customExercises');
 }
 
 export function saveCustomExercises(exercises: Exercise[]): void {
-  localStorage.setItem(CUSTOM_EXERCISES_KEY, JSON.stringify(exercises));
-  triggerSyncIfLoggedIn();
+  const { records, changedIds } = stampChanges('customExercises', loadCustomExercises(), exercises);
+  setRecords('customExercises', records);
+  triggerSyncIfLoggedIn(changedIds.map(id => `customExercises:${id}`));
 }
 
 export function addCustomExercise(exercise: Omit<Exercise, 'id'>): Exercise {
@@ -500,7 +624,7 @@ export function saveChatHistory(messages: ChatMessage[]): void {
   // Keep only last 50 messages to save space
   const trimmed = messages.slice(-50);
   localStorage.setItem(CHAT_HISTORY_KEY, JSON.stringify(trimmed));
-  triggerSyncIfLoggedIn();
+  triggerSyncIfLoggedIn(['preferences']);
 }
 
 export function clearChatHistory(): void {
@@ -508,56 +632,9 @@ export function clearChatHistory(): void {
 }
 
 // ============================================================================
-// BACKLOG WORKOUTS (Manual date entries)
+// EFFORT HISTORY
 // ============================================================================
 
-export function addBacklogWorkout(dateStr: string): WorkoutSession {
-  const sessions = loadSessions();
-  const date = new Date(dateStr + 'T12:00:00');
-
-  const session: WorkoutSession = {
-    id: generateUUID(),
-    name: 'Backlog Workout',
-    blocks: [],
-    startedAt: date.toISOString(),
-    completedAt: date.toISOString(),
-    exercises: [],
-    totalDuration: 30 * 60, // Default 30 min
-  };
-
-  sessions.push(session);
-  sessions.sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
-  saveSessions(sessions);
-  return session;
-}
-
-export function removeWorkoutOnDate(dateStr: string): void {
-  const sessions = loadSessions();
-  const filtered = sessions.filter(s => {
-    const sessionDate = formatLocalDate(new Date(s.startedAt));
-    return sessionDate !== dateStr;
-  });
-  saveSessions(filtered);
-}
-
-export function hasWorkoutOnDate(dateStr: string): boolean {
-  const sessions = loadSessions().filter(s => s.completedAt);
-  return sessions.some(s => {
-    const sessionDate = formatLocalDate(new Date(s.startedAt));
-    return sessionDate === dateStr;
-  });
-}
-
-// Check if date has a real workout (not a backlog placeholder)
-export function hasRealWorkoutOnDate(dateStr: string): boolean {
-  const sessions = loadSessions().filter(s => s.completedAt);
-  return sessions.some(s => {
-    const sessionDate = formatLocalDate(new Date(s.startedAt));
-    // Real workouts have exercises logged OR are cardio workouts; backlog workouts are empty
-    return sessionDate === dateStr && (s.exercises.length > 0 || s.cardioType);
-  });
-}
-
 // Get effort data over time for chart
 export function getEffortHistory(limit = 20): { date: string; effort: number }[] {
   const sessions = loadSessions()
@@ -571,69 +648,20 @@ export function getEffortHistory(limit = 20): { date: string; effort: number }[]
   }));
 }
 
-// Backfill effort scores for workouts that don't have them
-export function backfillEffortScores(): void {
-  const sessions = loadSessions();
-  let updated = false;
-
-  const updatedSessions = sessions.map(session => {
-    if (session.completedAt && !session.overallEffort) {
-      updated = true;
-      // Random effort in 4-6 range
-      const randomEffort = Math.floor(Math.random() * 3) + 4;
-      return { ...session, overallEffort: randomEffort as 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 };
-    }
-    return session;
-  });
-
-  if (updated) {
-    saveSessions(updatedSessions);
-  }
-}
-
-// Toggle year overview status: none -> workout -> rest -> none
-// Protects real workouts from being removed
-export function toggleYearDayStatus(dateStr: string): 'none' | 'workout' | 'rest' | 'protected' {
-  const hasWorkout = hasWorkoutOnDate(dateStr);
-  const isRealWorkout = hasRealWorkoutOnDate(dateStr);
-  const restDays = loadRestDays();
-  const isRest = restDays.has(dateStr);
-
-  // If it's a real workout, don't allow toggling it off
-  if (isRealWorkout) {
-    return 'protected';
-  }
-
-  if (!hasWorkout && !isRest) {
-    // none -> workout
-    addBacklogWorkout(dateStr);
-    return 'workout';
-  } else if (hasWorkout && !isRest) {
-    // workout -> rest
-    removeWorkoutOnDate(dateStr);
-    restDays.add(dateStr);
-    saveRestDays(restDays);
-    return 'rest';
-  } else {
-    // rest -> none
-    restDays.delete(dateStr);
-    saveRestDays(restDays);
-    return 'none';
-  }
-}
-
 // ============================================================================
 // EQUIPMENT CONFIGURATION
 // ============================================================================
 
-import type { EquipmentType } from '../types';
+import type { EquipmentType, EquipmentInventory } from '../types';
 
 export interface EquipmentConfig {
-  dumbbell?: number;
+  dumbbell?: number;             // Starting weight per type (lb)
   kettlebell?: number;
   barbell?: number;
   sandbag?: number;
   // Can add more as needed
+  increments?: Partial<Record<EquipmentType, number>>;  // Smallest weight jump (lb), overrides defaults
+  inventory?: EquipmentInventory;                        // What's owned; defaults to a typical home gym
 }
 
 // Default equipment based on user's setup
@@ -644,17 +672,101 @@ const DEFAULT_EQUIPMENT: EquipmentConfig = {
   barbell: 45,     // Empty barbell
 };
 
+// The same setup in common metric sizes (kg, converted to lb when loaded)
+const DEFAULT_EQUIPMENT_KG: EquipmentConfig = {
+  dumbbell: 12,
+  kettlebell: 24,
+  sandbag: 45,
+  barbell: 20,     // Olympic bar
+};
+
+function getDefaultEquipment(): EquipmentConfig {
+  if (loadUnitPreferences().weight === 'lb') return DEFAULT_EQUIPMENT;
+  const defaults: EquipmentConfig = {};
+  for (const [key, kg] of Object.entries(DEFAULT_EQUIPMENT_KG) as [keyof EquipmentConfig, number][]) {
+    (defaults as Record<string, number>)[key] = fromDisplayWeight(kg, 'kg');
+  }
+  return defaults;
+}
+
 export function loadEquipmentConfig(): EquipmentConfig {
+  return { ...getDefaultEquipment(), ...loadStoredEquipmentConfig() };
+}
+
+/** Only the weights the user has set, without the defaults */
+export function loadStoredEquipmentConfig(): EquipmentConfig {
   const data = localStorage.getItem(EQUIPMENT_CONFIG_KEY);
-  if (data) {
-    return { ...DEFAULT_EQUIPMENT, ...JSON.parse(data) };
-  }
-  return DEFAULT_EQUIPMENT;
+  return data ? JSON.parse(data) : {};
 }
 
 export function saveEquipmentConfig(config: EquipmentConfig): void {
   localStorage.setItem(EQUIPMENT_CONFIG_KEY, JSON.stringify(config));
-  triggerSyncIfLoggedIn();
+  triggerSyncIfLoggedIn(['preferences']);
+}
+
+// A typical home gym, in lb
+const DEFAULT_INVENTORY: EquipmentInventory = {
+  kettlebells: [18, 26, 35, 44, 53, 62, 70],
+  dumbbells: { min: 5, max: 50, step: 5 },
+  barbell: {
+    bar: 45,
+    plates: [
+      { weight: 45, count: 2 },
+      { weight: 25, count: 2 },
+      { weight: 10, count: 2 },
+      { weight: 5, count: 2 },
+      { weight: 2.5, count: 2 },
+    ],
+  },
+  sandbags: [50, 100],
+  bands: [
+    { label: 'Light', resistance: 15 },
+    { label: 'Medium', resistance: 30 },
+    { label: 'Heavy', resistance: 50 },
+  ],
+};
+
+// The same gym in metric sizes (kg, converted to lb when loaded)
+const DEFAULT_INVENTORY_KG: EquipmentInventory = {
+  kettlebells: [8, 12, 16, 20, 24, 28, 32],
+  dumbbells: { min: 2, max: 24, step: 2 },
+  barbell: {
+    bar: 20,
+    plates: [
+      { weight: 20, count: 2 },
+      { weight: 10, count: 2 },
+      { weight: 5, count: 2 },
+      { weight: 2.5, count: 2 },
+      { weight: 1.25, count: 2 },
+    ],
+  },
+  sandbags: [20, 45],
+  bands: [
+    { label: 'Light', resistance: 7 },
+    { label: 'Medium', resistance: 14 },
+    { label: 'Heavy', resistance: 23 },
+  ],
+};
+
+function getDefaultInventory(): EquipmentInventory {
+  if (loadUnitPreferences().weight === 'lb') return DEFAULT_INVENTORY;
+  const lb = (kg: number) => fromDisplayWeight(kg, 'kg');
+  const { kettlebells, dumbbells, barbell, sandbags, bands } = DEFAULT_INVENTORY_KG;
+  return {
+    kettlebells: kettlebells.map(lb),
+    dumbbells: { min: lb(dumbbells.min), max: lb(dumbbells.max), step: lb(dumbbells.step) },
+    barbell: { bar: lb(barbell.bar), plates: barbell.plates.map(p => ({ ...p, weight: lb(p.weight) })) },
+    sandbags: sandbags.map(lb),
+    bands: bands.map(b => ({ ...b, resistance: lb(b.resistance) })),
+  };
+}
+
+export function loadEquipmentInventory(): EquipmentInventory {
+  return loadEquipmentConfig().inventory ?? getDefaultInventory();
+}
+
+export function saveEquipmentInventory(inventory: EquipmentInventory): void {
+  saveEquipmentConfig({ ...loadEquipmentConfig(), inventory });
 }
 
 export function getDefaultWeightForEquipment(equipmentType: EquipmentType): number | undefined {
@@ -665,7 +777,7 @@ export function getDefaultWeightForEquipment(equipmentType: EquipmentType): numb
     case 'kettlebell':
       return config.kettlebell;
     case 'barbell':
-      return config.barbell;
+      return config.inventory?.barbell.bar ?? config.barbell;
     case 'sandbag':
       return config.sandbag;
     case 'bodyweight':
@@ -675,6 +787,113 @@ export function getDefaultWeightForEquipment(equipmentType: EquipmentType): numb
   }
 }
 
+// Typical jumps: 5lb dumbbell pairs and barbell plates, 4kg kettlebells, etc.
+const DEFAULT_INCREMENTS: Record<EquipmentType, number> = {
+  bodyweight: 0,
+  dumbbell: 5,
+  kettlebell: 9,
+  barbell: 5,
+  sandbag: 10,
+  'resistance-band': 0,
+  cable: 5,
+  machine: 10,
+};
+
+// Metric gyms step in kg (2 kg dumbbells, 2.5 kg on a bar)
+const DEFAULT_INCREMENTS_KG: Record<EquipmentType, number> = {
+  bodyweight: 0,
+  dumbbell: 2,
+  kettlebell: 4,
+  barbell: 2.5,
+  sandbag: 5,
+  'resistance-band': 0,
+  cable: 2.5,
+  machine: 5,
+};
+
+/** Smallest weight increase (lb) available for this equipment (0 when it can't be loaded) */
+export function getWeightIncrement(equipmentType: EquipmentType): number {
+  const config = loadEquipmentConfig();
+  const override = config.increments?.[equipmentType];
+  if (override !== undefined) return override;
+
+  // Owned equipment sets the jump for dumbbells (rack step) and barbells (a pair of the smallest plates)
+  const inventory = config.inventory ?? getDefaultInventory();
+  if (equipmentType === 'dumbbell' && inventory.dumbbells.step > 0) return inventory.dumbbells.step;
+  if (equipmentType === 'barbell') {
+    const pairs = inventory.barbell.plates.filter(p => p.count >= 2).map(p => p.weight);
+    if (pairs.length > 0) return Math.min(...pairs) * 2;
+  }
+
+  return loadUnitPreferences().weight === 'kg'
+    ? fromDisplayWeight(DEFAULT_INCREMENTS_KG[equipmentType] ?? 0, 'kg')
+    : DEFAULT_INCREMENTS[equipmentType] ?? 0;
+}
+
+// ============================================================================
+// TIMER CUES
+// ============================================================================
+
+import type { CueSettings } from '../types';
+
+const DEFAULT_CUE_SETTINGS: CueSettings = { volume: 0.8, muted: false, vibrate: true };
+
+/** Kept on the device only - a phone and a laptop rarely want the same volume */
+export function loadCueSettings(): CueSettings {
+  const data = localStorage.getItem(CUE_SETTINGS_KEY);
+  return data ? { ...DEFAULT_CUE_SETTINGS, ...JSON.parse(data) } : DEFAULT_CUE_SETTINGS;
+}
+
+export function saveCueSettings(settings: CueSettings): void {
+  localStorage.setItem(CUE_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// ============================================================================
+// HEART RATE
+// ============================================================================
+
+import type { HeartRateSettings } from '../types';
+
+const DEFAULT_HEART_RATE_SETTINGS: HeartRateSettings = { zones: 'age', simulated: false };
+
+/** Kept on the device only, like the monitor it's paired with */
+export function loadHeartRateSettings(): HeartRateSettings {
+  const data = localStorage.getItem(HEART_RATE_SETTINGS_KEY);
+  return data ? { ...DEFAULT_HEART_RATE_SETTINGS, ...JSON.parse(data) } : DEFAULT_HEART_RATE_SETTINGS;
+}
+
+export function saveHeartRateSettings(settings: HeartRateSettings): void {
+  localStorage.setItem(HEART_RATE_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// ============================================================================
+// WEEK START
+// ============================================================================
+
+export function loadWeekStart(): WeekStart {
+  const stored = localStorage.getItem(WEEK_START_KEY);
+  return stored === '0' || stored === '6' ? (Number(stored) as WeekStart) : DEFAULT_WEEK_START;
+}
+
+export function saveWeekStart(weekStart: WeekStart): void {
+  localStorage.setItem(WEEK_START_KEY, String(weekStart));
+}
+
+// ============================================================================
+// PROGRESSION STRATEGY
+// ============================================================================
+
+import type { OverloadStrategyId } from '../types';
+
+export function loadProgressionStrategy(): OverloadStrategyId {
+  const data = localStorage.getItem(PROGRESSION_STRATEGY_KEY);
+  return (data as OverloadStrategyId) || 'linear';
+}
+
+export function saveProgressionStrategy(strategy: OverloadStrategyId): void {
+  localStorage.setItem(PROGRESSION_STRATEGY_KEY, strategy);
+}
+
 // ============================================================================
 // PERSONALITY SETTINGS
 // ============================================================================
@@ -688,7 +907,7 @@ export function loadPersonality(): PersonalityType {
 
 export function savePersonality(personality: PersonalityType): void {
   localStorage.setItem(PERSONALITY_KEY, personality);
-  triggerSyncIfLoggedIn();
+  triggerSyncIfLoggedIn(['profile']);
 }
 
 // ============================================================================
@@ -707,7 +926,7 @@ export function loadFavorites(): FavoritesData {
 
 export function saveFavorites(favorites: FavoritesData): void {
   localStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites));
-  triggerSyncIfLoggedIn();
+  triggerSyncIfLoggedIn(['preferences']);
 }
 
 export function toggleFavoriteWorkout(workoutId: string): boolean {
@@ -761,7 +980,7 @@ export function loadSkipCounts(): SkipCounts {
 
 export function saveSkipCounts(counts: SkipCounts): void {
   localStorage.setItem(SKIP_COUNTS_KEY, JSON.stringify(counts));
-  triggerSyncIfLoggedIn();
+  triggerSyncIfLoggedIn(['preferences']);
 }
 
 export function incrementSkipCount(exerciseId: string): void {
@@ -791,12 +1010,8 @@ export function getMostSkippedExercises(limit = 5): { exerciseId: string; skips:
 }
 
 // Get workout sessions for a specific date
-export function getSessionsByDate(dateStr: string): WorkoutSession[] {
-  const sessions = loadSessions().filter(s => s.completedAt);
-  return sessions.filter(s => {
-    const sessionDate = formatLocalDate(new Date(s.startedAt));
-    return sessionDate === dateStr;
-  });
+export async function getSessionsByDate(dateStr: string): Promise<WorkoutSession[]> {
+  return (await getSessionsOnDate(dateStr)).filter(s => s.completedAt);
 }
 
 // Get most used workouts based on frequency
@@ -857,7 +1072,7 @@ export function loadCustomDescriptions(): CustomDescriptions {
 
 export function saveCustomDescriptions(descriptions: CustomDescriptions): void {
   localStorage.setItem(CUSTOM_DESCRIPTIONS_KEY, JSON.stringify(descriptions));
-  triggerSyncIfLoggedIn();
+  triggerSyncIfLoggedIn(['preferences']);
 }
 
 export function setExerciseDescription(exerciseId: string, description: string): void {
@@ -899,30 +1114,46 @@ export function getWorkoutDescription(workoutId: string): string | undefined {
 export function exportAllDataAsJSON(): string {
   const data = {
     exportDate: new Date().toISOString(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     sessions: loadSessions(),
     savedWorkouts: loadSavedWorkouts(),
     customExercises: loadCustomExercises(),
+    programs: loadPrograms(),
     favorites: loadFavorites(),
     skipCounts: loadSkipCounts(),
     customDescriptions: loadCustomDescriptions(),
     restDays: [...loadRestDays()],
+    plannedWorkouts: loadPlannedWorkouts(),
+    customCardioActivities: loadCustomCardioActivities(),
     equipmentConfig: loadEquipmentConfig(),
     personality: loadPersonality(),
     userName: loadUserName(),
+    units: loadUnitPreferences(),
   };
   return JSON.stringify(data, null, 2);
 }
 
 export function exportWorkoutsAsCSV(): string {
   const sessions = loadSessions().filter(s => s.completedAt);
-  const lines: string[] = ['Date,Workout Name,Duration (min),Effort,Exercises Completed'];
+  const unit = loadUnitPreferences().distance;
+  const metrics = (Object.keys(CARDIO_METRIC_LABELS) as CardioMetric[]).filter(m => m !== 'distance') as Exclude<CardioMetric, 'distance'>[];
+  const metricHeaders = metrics.map(m => {
+    const { label, unit: metricUnit } = CARDIO_METRIC_LABELS[m];
+    return metricUnit ? `${label} (${metricUnit})` : label;
+  });
+  const lines: string[] = [`Date,Workout Name,Duration (min),Effort,Exercises Completed,Sets Completed,Distance (${unit}),Activity,${metricHeaders.join(',')},Avg HR (bpm),Max HR (bpm)`];
 
   sessions.forEach(s => {
     const date = new Date(s.completedAt!).toLocaleDateString();
     const duration = s.totalDuration ? Math.round(s.totalDuration / 60) : '';
     const effort = s.overallEffort || '';
     const exerciseCount = s.exercises.length;
-    lines.push(`"${date}","${s.name}",${duration},${effort},${exerciseCount}`);
+    const setCount = s.exercises.reduce((sum, ex) => sum + ex.sets.length, 0);
+    const distance = s.distance ? toDisplayDistance(s.distance, unit) : '';
+    const activity = s.cardioType ? describeCardio(s.cardioType, s.customActivityId).label : '';
+    const metricValues = metrics.map(m => s.metrics?.[m] ?? '');
+    const heartRate = getHeartRateStats(s.heartRate ?? [], null);
+    lines.push(`"${date}","${s.name}",${duration},${effort},${exerciseCount},${setCount},${distance},"${activity}",${metricValues.join(',')},${heartRate?.average ?? ''},${heartRate?.max ?? ''}`);
   });
 
   return lines.join('\n');
@@ -930,33 +1161,95 @@ export function exportWorkoutsAsCSV(): string {
 
 export function exportExerciseLogsAsCSV(): string {
   const sessions = loadSessions().filter(s => s.completedAt);
-  const lines: string[] = ['Date,Workout,Exercise,Weight (lb),Reps,Duration (s)'];
+  const unit = loadUnitPreferences().weight;
+  const lines: string[] = [`Date,Workout,Exercise,Set,Set Type,Weight (${unit}),Reps,Duration (s),RPE`];
 
+  // One row per set
   sessions.forEach(s => {
     const date = new Date(s.completedAt!).toLocaleDateString();
     s.exercises.forEach(ex => {
-      const weight = ex.weight || '';
-      const reps = ex.reps || '';
-      const duration = ex.duration || '';
-      lines.push(`"${date}","${s.name}","${ex.exerciseId}",${weight},${reps},${duration}`);
+      ex.sets.forEach((set, idx) => {
+        const weight = set.weight ? toDisplayWeight(set.weight, unit) : '';
+        const reps = set.reps || '';
+        const duration = set.duration || '';
+        const rpe = set.rpe || '';
+        lines.push(`"${date}","${s.name}","${ex.exerciseId}",${idx + 1},${set.type},${weight},${reps},${duration},${rpe}`);
+      });
     });
   });
 
   return lines.join('\n');
 }
 
+// ============================================================================
+// SYNC CONFLICTS
+// ============================================================================
+
+/**
+ * Resolve a sync conflict by keeping this device's or the cloud's version.
+ * A `null` version means "deleted", so choosing it deletes the record.
+ * The choice is saved as a fresh local change so it wins the next sync.
+ */
+export async function resolveSyncConflict(conflict: SyncConflict, keep: 'local' | 'remote'): Promise<void> {
+  const chosen = keep === 'local' ? conflict.local : conflict.remote;
+
+  const upsertOrRemove = <T extends { id: string }>(records: T[]): T[] => {
+    const current = records.find(r => r.id === conflict.recordId);
+    if (!chosen) return records.filter(r => r.id !== conflict.recordId);
+    if (!current) return [chosen as unknown as T, ...records];
+
+    let resolved = chosen as unknown as T;
+    if (conflict.reason === 'edit-edit') {
+      // Only the contested fields - the rest of the record was merged cleanly
+      const merged: Record<string, unknown> = { ...current };
+      for (const field of conflict.fields) {
+        merged[field] = (chosen as unknown as Record<string, unknown>)[field];
+      }
+      resolved = merged as T;
+    }
+    return records.map(r => r.id === conflict.recordId ? resolved : r);
+  };
+
+  switch (conflict.kind) {
+    case 'sessions': {
+      const sessions = upsertOrRemove(loadSessions());
+      sessions.sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+      saveSessions(sessions);
+      break;
+    }
+    case 'savedWorkouts':
+      saveSavedWorkouts(upsertOrRemove(loadSavedWorkouts()));
+      break;
+    case 'customExercises':
+      saveCustomExercises(upsertOrRemove(loadCustomExercises()));
+      break;
+    case 'programs':
+      savePrograms(upsertOrRemove(loadPrograms()));
+      break;
+  }
+
+  // Keeping a record the cloud has deleted means forgetting that deletion
+  if (chosen && conflict.reason === 'delete-edit' && supabase) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user) {
+      await deleteRemoteTombstone(user.id, conflict.kind, conflict.recordId);
+    }
+  }
+
+  removeSyncConflict(conflict.id);
+}
+
 // ============================================================================
 // DATA MANAGEMENT
 // ============================================================================
 
-/** Clear all app data from localStorage */
-export function clearAllData(): void {
+/** Clear all app data (records and settings) */
+export function clearAllData(): Promise<void> {
   const keysToRemove = [
-    SESSIONS_KEY,
     CURRENT_SESSION_KEY,
-    SAVED_WORKOUTS_KEY,
     REST_DAYS_KEY,
-    CUSTOM_EXERCISES_KEY,
+    PLANNED_WORKOUTS_KEY,
+    CUSTOM_CARDIO_KEY,
     CLAUDE_API_KEY,
     CHAT_HISTORY_KEY,
     EQUIPMENT_CONFIG_KEY,
@@ -965,9 +1258,17 @@ export function clearAllData(): void {
     FAVORITES_KEY,
     SKIP_COUNTS_KEY,
     CUSTOM_DESCRIPTIONS_KEY,
+    PROGRESSION_STRATEGY_KEY,
+    UNITS_KEY,
+    CUE_SETTINGS_KEY,
+    HEART_RATE_SETTINGS_KEY,
+    WEEK_START_KEY,
     'workout_onboarding_complete',
     'workout_theme',
   ];
 
   keysToRemove.forEach(key => localStorage.removeItem(key));
+  clearChangeTracking();
+  clearOutbox();
+  return clearRepository();
 }
@@ -1,56 +1,202 @@
 /**
  * Supabase Sync Service
- * Handles uploading and downloading data between localStorage and Supabase
+ * Handles uploading and downloading data between local storage and Supabase
  */
 
 import { supabase } from '../lib/supabase';
-import type { WorkoutSession, SavedWorkout, Exercise } from '../types';
-
-// Debounce timer for sync
-let syncTimeout: ReturnType<typeof setTimeout> | null = null;
-const SYNC_DEBOUNCE_MS = 2000;
+import type { WorkoutSession, SavedWorkout, Exercise, Program, PlannedWorkout, CustomCardioActivity, SyncRecord, SyncRecordKind, Tombstone, SyncConflict, UnitPreferences } from '../types';
+import {
+  loadTombstones,
+  saveTombstones,
+  loadSyncBase,
+  saveSyncBase,
+  addSyncConflicts,
+  type SyncBase,
+} from './changeTracking';
+import { mergeRecords, type MergeResult } from './syncMerge';
+import { enqueueChanges, registerOutboxHandler } from './syncOutbox';
+import { getRecords, setRecords, countRecords, flushRepositoryWrites } from './repository';
+import { migrateRecords } from './migrations';
+import { loadUnitPreferences, type EquipmentConfig } from './storage';
 
 // Sync status callback
-let onSyncStatusChange: ((status: 'idle' | 'syncing' | 'synced' | 'error') => void) | null = null;
+let onSyncStatusChange: ((status: 'idle' | 'syncing' | 'synced' | 'error' | 'offline') => void) | null = null;
 
 export function setSyncStatusCallback(callback: typeof onSyncStatusChange) {
   onSyncStatusChange = callback;
 }
 
 // ============================================================================
-// UPLOAD FUNCTIONS (localStorage -> Supabase)
+// ROW MAPPING (app records <-> Supabase rows)
+// ============================================================================
+
+function sessionToRow(s: WorkoutSession, userId: string) {
+  return {
+    id: s.id,
+    user_id: userId,
+    template_id: s.templateId || null,
+    name: s.name,
+    blocks: s.blocks,
+    exercises: s.exercises,
+    started_at: s.startedAt,
+    time_zone: s.timeZone || null,
+    completed_at: s.completedAt || null,
+    total_duration: s.totalDuration || null,
+    overall_effort: s.overallEffort || null,
+    cardio_type: s.cardioType || null,
+    custom_activity_id: s.customActivityId || null,
+    distance: s.distance || null,
+    metrics: s.metrics || null,
+    track: s.track || null,
+    heart_rate: s.heartRate || null,
+    personal_records: s.personalRecords || null,
+    rests: s.rests || null,
+    block_results: s.blockResults || null,
+    program: s.program || null,
+    updated_at: s.updatedAt || s.completedAt || s.startedAt,
+    version: s.version ?? 1,
+  };
+}
+
+type WorkoutSessionRow = ReturnType<typeof sessionToRow>;
+
+function rowToSession(s: WorkoutSessionRow): WorkoutSession {
+  return {
+    id: s.id,
+    templateId: s.template_id || undefined,
+    name: s.name,
+    blocks: s.blocks || [],
+    exercises: s.exercises || [],
+    startedAt: s.started_at,
+    timeZone: s.time_zone || undefined,
+    completedAt: s.completed_at || undefined,
+    totalDuration: s.total_duration || undefined,
+    overallEffort: s.overall_effort || undefined,
+    cardioType: s.cardio_type || undefined,
+    customActivityId: s.custom_activity_id || undefined,
+    distance: s.distance || undefined,
+    metrics: s.metrics || undefined,
+    track: s.track || undefined,
+    heartRate: s.heart_rate || undefined,
+    personalRecords: s.personal_records || undefined,
+    rests: s.rests || undefined,
+    blockResults: s.block_results || undefined,
+    program: s.program || undefined,
+    updatedAt: s.updated_at || undefined,
+    version: s.version || undefined,
+  };
+}
+
+function savedWorkoutToRow(w: SavedWorkout, userId: string) {
+  return {
+    id: w.id,
+    user_id: userId,
+    name: w.name,
+    estimated_minutes: w.estimatedMinutes || null,
+    blocks: w.blocks,
+    cardio_type: w.cardioType || null,
+    created_at: w.createdAt,
+    updated_at: w.updatedAt,
+    version: w.version ?? 1,
+  };
+}
+
+type SavedWorkoutRow = ReturnType<typeof savedWorkoutToRow>;
+
+function rowToSavedWorkout(w: SavedWorkoutRow): SavedWorkout {
+  return {
+    id: w.id,
+    name: w.name,
+    estimatedMinutes: w.estimated_minutes || undefined,
+    blocks: w.blocks || [],
+    cardioType: w.cardio_type || undefined,
+    createdAt: w.created_at,
+    updatedAt: w.updated_at,
+    version: w.version || undefined,
+  };
+}
+
+function programToRow(p: Program, userId: string) {
+  return {
+    id: p.id,
+    user_id: userId,
+    name: p.name,
+    weeks: p.weeks,
+    days: p.days,
+    progression: p.progression,
+    start_date: p.startDate || null,
+    created_at: p.createdAt,
+    updated_at: p.updatedAt,
+    version: p.version ?? 1,
+  };
+}
+
+type ProgramRow = ReturnType<typeof programToRow>;
+
+function rowToProgram(p: ProgramRow): Program {
+  return {
+    id: p.id,
+    name: p.name,
+    weeks: p.weeks,
+    days: p.days || [],
+    progression: p.progression,
+    startDate: p.start_date || undefined,
+    createdAt: p.created_at,
+    updatedAt: p.updated_at,
+    version: p.version || undefined,
+  };
+}
+
+function exerciseToRow(e: Exercise, userId: string) {
+  return {
+    id: e.id,
+    user_id: userId,
+    name: e.name,
+    area: e.area,
+    equipment: e.equipment,
+    default_weight: e.defaultWeight || null,
+    default_reps: typeof e.defaultReps === 'number' ? e.defaultReps : null,
+    default_duration: e.defaultDuration || null,
+    description: e.description || null,
+    alternatives: e.alternatives || [],
+    updated_at: e.updatedAt || new Date().toISOString(),
+    version: e.version ?? 1,
+  };
+}
+
+type CustomExerciseRow = ReturnType<typeof exerciseToRow>;
+
+function rowToExercise(e: CustomExerciseRow): Exercise {
+  return {
+    id: e.id,
+    name: e.name,
+    area: e.area,
+    equipment: e.equipment,
+    defaultWeight: e.default_weight || undefined,
+    defaultReps: e.default_reps || undefined,
+    defaultDuration: e.default_duration || undefined,
+    description: e.description || undefined,
+    alternatives: e.alternatives || undefined,
+    updatedAt: e.updated_at || undefined,
+    version: e.version || undefined,
+  };
+}
+
+// ============================================================================
+// UPLOAD FUNCTIONS (local -> Supabase)
 // ============================================================================
 
 export async function uploadWorkoutSessions(userId: string): Promise<boolean> {
   if (!supabase) return false;
 
   try {
-    const sessionsJson = localStorage.getItem('workout_sessions');
-    if (!sessionsJson) return true;
-
-    const sessions: WorkoutSession[] = JSON.parse(sessionsJson);
+    const sessions = getRecords('sessions');
     if (sessions.length === 0) return true;
 
     // Upsert sessions (insert or update on conflict)
     const { error } = await supabase
       .from('workout_sessions')
-      .upsert(
-        sessions.map(s => ({
-          id: s.id,
-          user_id: userId,
-          template_id: s.templateId || null,
-          name: s.name,
-          blocks: s.blocks,
-          exercises: s.exercises,
-          started_at: s.startedAt,
-          completed_at: s.completedAt || null,
-          total_duration: s.totalDuration || null,
-          overall_effort: s.overallEffort || null,
-          cardio_type: s.cardioType || null,
-          distance: s.distance || null,
-        })),
-        { onConflict: 'id' }
-      );
+      .upsert(sessions.map(s => sessionToRow(s, userId)), { onConflict: 'id' });
 
     if (error) throw error;
     return true;
@@ -64,27 +210,12 @@ export async function uploadSavedWorkouts(userId: string): Promise<boolean> {
   if (!supabase) return false;
 
   try {
-    const workoutsJson = localStorage.getItem('saved_workouts');
-    if (!workoutsJson) return true;
-
-    const workouts: SavedWorkout[] = JSON.parse(workoutsJson);
+    const workouts = getRecords('savedWorkouts');
     if (workouts.length === 0) return true;
 
     const { error } = await supabase
       .from('saved_workouts')
-      .upsert(
-        workouts.map(w => ({
-          id: w.id,
-          user_id: userId,
-          name: w.name,
-          estimated_minutes: w.estimatedMinutes || null,
-          blocks: w.blocks,
-          cardio_type: w.cardioType || null,
-          created_at: w.createdAt,
-          updated_at: w.updatedAt,
-        })),
-        { onConflict: 'id' }
-      );
+      .upsert(workouts.map(w => savedWorkoutToRow(w, userId)), { onConflict: 'id' });
 
     if (error) throw error;
     return true;
@@ -94,33 +225,35 @@ export async function uploadSavedWorkouts(userId: string): Promise<boolean> {
   }
 }
 
-export async function uploadCustomExercises(userId: string): Promise<boolean> {
+export async function uploadPrograms(userId: string): Promise<boolean> {
   if (!supabase) return false;
 
   try {
-    const exercisesJson = localStorage.getItem('custom_exercises');
-    if (!exercisesJson) return true;
+    const programs = getRecords('programs');
+    if (programs.length === 0) return true;
+
+    const { error } = await supabase
+      .from('programs')
+      .upsert(programs.map(p => programToRow(p, userId)), { onConflict: 'id' });
 
-    const exercises: Exercise[] = JSON.parse(exercisesJson);
+    if (error) throw error;
+    return true;
+  } catch (err) {
+    console.error('Failed to upload programs:', err);
+    return false;
+  }
+}
+
+export async function uploadCustomExercises(userId: string): Promise<boolean> {
+  if (!supabase) return false;
+
+  try {
+    const exercises = getRecords('customExercises');
     if (exercises.length === 0) return true;
 
     const { error } = await supabase
       .from('custom_exercises')
-      .upsert(
-        exercises.map(e => ({
-          id: e.id,
-          user_id: userId,
-          name: e.name,
-          area: e.area,
-          equipment: e.equipment,
-          default_weight: e.defaultWeight || null,
-          default_reps: typeof e.defaultReps === 'number' ? e.defaultReps : null,
-          default_duration: e.defaultDuration || null,
-          description: e.description || null,
-          alternatives: e.alternatives || [],
-        })),
-        { onConflict: 'id' }
-      );
+      .upsert(exercises.map(e => exerciseToRow(e, userId)), { onConflict: 'id' });
 
     if (error) throw error;
     return true;
@@ -135,6 +268,8 @@ export async function uploadUserPreferences(userId: string): Promise<boolean> {
 
   try {
     const restDaysJson = localStorage.getItem('rest_days');
+    const plannedJson = localStorage.getItem('planned_workouts');
+    const customCardioJson = localStorage.getItem('custom_cardio_activities');
     const equipmentJson = localStorage.getItem('equipment_config');
     const favoritesJson = localStorage.getItem('workout_favorites');
     const skipCountsJson = localStorage.getItem('workout_skip_counts');
@@ -146,6 +281,8 @@ export async function uploadUserPreferences(userId: string): Promise<boolean> {
       .upsert({
         user_id: userId,
         rest_days: restDaysJson ? JSON.parse(restDaysJson) : [],
+        planned_workouts: plannedJson ? JSON.parse(plannedJson) : [],
+        custom_cardio_activities: customCardioJson ? JSON.parse(customCardioJson) : [],
         equipment_config: equipmentJson ? JSON.parse(equipmentJson) : {},
         favorites: favoritesJson ? JSON.parse(favoritesJson) : { workouts: [], exercises: [] },
         skip_counts: skipCountsJson ? JSON.parse(skipCountsJson) : {},
@@ -169,6 +306,7 @@ export async function uploadProfile(userId: string): Promise<boolean> {
     const name = localStorage.getItem('workout_user_name');
     const personality = localStorage.getItem('workout_personality');
     const theme = localStorage.getItem('workout_theme');
+    const units = loadUnitPreferences();
 
     const { error } = await supabase
       .from('profiles')
@@ -176,6 +314,8 @@ export async function uploadProfile(userId: string): Promise<boolean> {
         name: name || null,
         personality: personality || 'encouraging',
         theme: theme || 'dark',
+        weight_unit: units.weight,
+        distance_unit: units.distance,
         updated_at: new Date().toISOString(),
       })
       .eq('id', userId);
@@ -189,7 +329,7 @@ export async function uploadProfile(userId: string): Promise<boolean> {
 }
 
 // ============================================================================
-// DOWNLOAD FUNCTIONS (Supabase -> localStorage)
+// DOWNLOAD FUNCTIONS (Supabase -> local)
 // ============================================================================
 
 export async function downloadWorkoutSessions(userId: string): Promise<WorkoutSession[]> {
@@ -204,19 +344,7 @@ export async function downloadWorkoutSessions(userId: string): Promise<WorkoutSe
 
     if (error) throw error;
 
-    return (data || []).map(s => ({
-      id: s.id,
-      templateId: s.template_id || undefined,
-      name: s.name,
-      blocks: s.blocks || [],
-      exercises: s.exercises || [],
-      startedAt: s.started_at,
-      completedAt: s.completed_at || undefined,
-      totalDuration: s.total_duration || undefined,
-      overallEffort: s.overall_effort || undefined,
-      cardioType: s.cardio_type || undefined,
-      distance: s.distance || undefined,
-    }));
+    return (data || []).map(rowToSession);
   } catch (err) {
     console.error('Failed to download workout sessions:', err);
     return [];
@@ -235,21 +363,31 @@ export async function downloadSavedWorkouts(userId: string): Promise<SavedWorkou
 
     if (error) throw error;
 
-    return (data || []).map(w => ({
-      id: w.id,
-      name: w.name,
-      estimatedMinutes: w.estimated_minutes || undefined,
-      blocks: w.blocks || [],
-      cardioType: w.cardio_type || undefined,
-      createdAt: w.created_at,
-      updatedAt: w.updated_at,
-    }));
+    return (data || []).map(rowToSavedWorkout);
   } catch (err) {
     console.error('Failed to download saved workouts:', err);
     return [];
   }
 }
 
+export async function downloadPrograms(userId: string): Promise<Program[]> {
+  if (!supabase) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('programs')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    return (data || []).map(rowToProgram);
+  } catch (err) {
+    console.error('Failed to download programs:', err);
+    return [];
+  }
+}
+
 export async function downloadCustomExercises(userId: string): Promise<Exercise[]> {
   if (!supabase) return [];
 
@@ -261,17 +399,7 @@ export async function downloadCustomExercises(userId: string): Promise<Exercise[
 
     if (error) throw error;
 
-    return (data || []).map(e => ({
-      id: e.id,
-      name: e.name,
-      area: e.area,
-      equipment: e.equipment,
-      defaultWeight: e.default_weight || undefined,
-      defaultReps: e.default_reps || undefined,
-      defaultDuration: e.default_duration || undefined,
-      description: e.description || undefined,
-      alternatives: e.alternatives || undefined,
-    }));
+    return (data || []).map(rowToExercise);
   } catch (err) {
     console.error('Failed to download custom exercises:', err);
     return [];
@@ -280,7 +408,9 @@ export async function downloadCustomExercises(userId: string): Promise<Exercise[
 
 interface UserPreferences {
   rest_days: string[];
-  equipment_config: Record<string, number>;
+  planned_workouts: PlannedWorkout[];
+  custom_cardio_activities: CustomCardioActivity[];
+  equipment_config: EquipmentConfig;
   favorites: { workouts: string[]; exercises: string[] };
   skip_counts: Record<string, { skips: number; swaps: number }>;
   custom_descriptions: { exercises: Record<string, string>; workouts: Record<string, string> };
@@ -301,6 +431,8 @@ export async function downloadUserPreferences(userId: string): Promise<UserPrefe
 
     return {
       rest_days: data.rest_days || [],
+      planned_workouts: data.planned_workouts || [],
+      custom_cardio_activities: data.custom_cardio_activities || [],
       equipment_config: data.equipment_config || {},
       favorites: data.favorites || { workouts: [], exercises: [] },
       skip_counts: data.skip_counts || {},
@@ -317,6 +449,7 @@ interface Profile {
   name: string | null;
   personality: string;
   theme: string;
+  units: UnitPreferences | null;   // null until chosen on some device
 }
 
 export async function downloadProfile(userId: string): Promise<Profile | null> {
@@ -325,7 +458,7 @@ export async function downloadProfile(userId: string): Promise<Profile | null> {
   try {
     const { data, error } = await supabase
       .from('profiles')
-      .select('name, personality, theme')
+      .select('name, personality, theme, weight_unit, distance_unit')
       .eq('id', userId)
       .single();
 
@@ -335,6 +468,9 @@ export async function downloadProfile(userId: string): Promise<Profile | null> {
       name: data.name,
       personality: data.personality || 'encouraging',
       theme: data.theme || 'dark',
+      units: data.weight_unit && data.distance_unit
+        ? { weight: data.weight_unit, distance: data.distance_unit }
+        : null,
     };
   } catch (err) {
     console.error('Failed to download profile:', err);
@@ -342,6 +478,226 @@ export async function downloadProfile(userId: string): Promise<Profile | null> {
   }
 }
 
+// ============================================================================
+// RECORD SYNC (two-way merge with tombstones)
+// ============================================================================
+
+/** Supabase table for each record collection */
+const RECORD_TABLES: Record<SyncRecordKind, string> = {
+  sessions: 'workout_sessions',
+  savedWorkouts: 'saved_workouts',
+  customExercises: 'custom_exercises',
+  programs: 'programs',
+};
+
+export async function downloadTombstones(userId: string): Promise<Tombstone[]> {
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('sync_tombstones')
+    .select('kind, record_id, deleted_at')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  return (data || []).map(t => ({
+    kind: t.kind as SyncRecordKind,
+    id: t.record_id,
+    deletedAt: t.deleted_at,
+  }));
+}
+
+/** Forget a cloud deletion so a record the user chose to keep isn't deleted again */
+export async function deleteRemoteTombstone(userId: string, kind: SyncRecordKind, recordId: string): Promise<boolean> {
+  if (!supabase) return false;
+
+  try {
+    const { error } = await supabase
+      .from('sync_tombstones')
+      .delete()
+      .eq('user_id', userId)
+      .eq('kind', kind)
+      .eq('record_id', recordId);
+
+    if (error) throw error;
+    return true;
+  } catch (err) {
+    console.error('Failed to delete tombstone:', err);
+    return false;
+  }
+}
+
+async function fetchRows(table: string, userId: string) {
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/** Write the result of a merge to the cloud */
+async function applyMergeToCloud<T extends SyncRecord>(
+  userId: string,
+  kind: SyncRecordKind,
+  result: MergeResult<T>,
+  toRow: (record: T, userId: string) => object
+): Promise<void> {
+  if (!supabase) return;
+  const table = RECORD_TABLES[kind];
+
+  if (result.toUpload.length > 0) {
+    const { error } = await supabase
+      .from(table)
+      .upsert(result.toUpload.map(r => toRow(r, userId)), { onConflict: 'id' });
+    if (error) throw error;
+  }
+
+  if (result.tombstonesToUpload.length > 0) {
+    const { error } = await supabase
+      .from('sync_tombstones')
+      .upsert(
+        result.tombstonesToUpload.map(t => ({
+          user_id: userId,
+          kind: t.kind,
+          record_id: t.id,
+          deleted_at: t.deletedAt,
+        })),
+        { onConflict: 'user_id,kind,record_id' }
+      );
+    if (error) throw error;
+  }
+
+  if (result.toDeleteRemote.length > 0) {
+    const { error } = await supabase
+      .from(table)
+      .delete()
+      .eq('user_id', userId)
+      .in('id', result.toDeleteRemote);
+    if (error) throw error;
+  }
+}
+
+/**
+ * Two-way sync of sessions, saved workouts, custom exercises and programs.
+ * Fetches the cloud copy, merges it with local data record by record,
+ * writes the merged result locally and pushes local changes and deletions.
+ * Returns false if anything failed (local data is left as merged so far).
+ */
+export async function syncRecords(userId: string): Promise<boolean> {
+  if (!supabase) return false;
+
+  try {
+    const [sessionRows, workoutRows, exerciseRows, programRows, remoteTombstones] = await Promise.all([
+      fetchRows('workout_sessions', userId),
+      fetchRows('saved_workouts', userId),
+      fetchRows('custom_exercises', userId),
+      fetchRows('programs', userId),
+      downloadTombstones(userId),
+    ]);
+    // Rows may have been written by an older version of the app
+    const remote = migrateRecords({
+      sessions: sessionRows.map(rowToSession),
+      savedWorkouts: workoutRows.map(rowToSavedWorkout),
+      customExercises: exerciseRows.map(rowToExercise),
+    });
+
+    // Read local state only now, after the network round-trip, so edits made
+    // while downloading are included. Everything up to the local writes below
+    // is synchronous.
+    const localTombstones = loadTombstones();
+    const base = loadSyncBase();
+
+    const sessions = mergeRecords<WorkoutSession>({
+      kind: 'sessions',
+      local: getRecords('sessions'),
+      remote: remote.sessions,
+      localTombstones,
+      remoteTombstones,
+      base: base.sessions,
+    });
+    const workouts = mergeRecords<SavedWorkout>({
+      kind: 'savedWorkouts',
+      local: getRecords('savedWorkouts'),
+      remote: remote.savedWorkouts,
+      localTombstones,
+      remoteTombstones,
+      base: base.savedWorkouts,
+    });
+    const exercises = mergeRecords<Exercise>({
+      kind: 'customExercises',
+      local: getRecords('customExercises'),
+      remote: remote.customExercises,
+      localTombstones,
+      remoteTombstones,
+      base: base.customExercises,
+    });
+    const programs = mergeRecords<Program>({
+      kind: 'programs',
+      local: getRecords('programs'),
+      remote: programRows.map(rowToProgram),
+      localTombstones,
+      remoteTombstones,
+      base: base.programs,
+    });
+
+    setRecords('sessions', sessions.local);
+    setRecords('savedWorkouts', workouts.local);
+    setRecords('customExercises', exercises.local);
+    setRecords('programs', programs.local);
+
+    const conflicts: SyncConflict[] = [
+      ...sessions.conflicts, ...workouts.conflicts, ...exercises.conflicts, ...programs.conflicts,
+    ];
+    addSyncConflicts(conflicts);
+
+    await Promise.all([
+      applyMergeToCloud(userId, 'sessions', sessions, sessionToRow),
+      applyMergeToCloud(userId, 'savedWorkouts', workouts, savedWorkoutToRow),
+      applyMergeToCloud(userId, 'customExercises', exercises, exerciseToRow),
+      applyMergeToCloud(userId, 'programs', programs, programToRow),
+    ]);
+
+    // The cloud now knows about these deletions; keep only the ones still in conflict
+    const conflicted = new Set(conflicts.map(c => `${c.kind}:${c.recordId}`));
+    const processed = new Set(localTombstones.map(t => `${t.kind}:${t.id}`));
+    saveTombstones(loadTombstones().filter(t => {
+      const key = `${t.kind}:${t.id}`;
+      return !processed.has(key) || conflicted.has(key);
+    }));
+
+    const nextBase: SyncBase = {
+      sessions: sessions.base,
+      savedWorkouts: workouts.base,
+      customExercises: exercises.base,
+      programs: programs.base,
+    };
+    saveSyncBase(nextBase);
+    return true;
+  } catch (err) {
+    console.error('Failed to sync records:', err);
+    return false;
+  }
+}
+
+/** Record sync plus preferences and profile (which are still last-write-wins) */
+export async function syncAllData(userId: string): Promise<boolean> {
+  onSyncStatusChange?.('syncing');
+
+  const results = await Promise.all([
+    syncRecords(userId),
+    uploadUserPreferences(userId),
+    uploadProfile(userId),
+  ]);
+
+  const success = results.every(r => r);
+  onSyncStatusChange?.(success ? 'synced' : 'error');
+  return success;
+}
+
 // ============================================================================
 // FULL SYNC FUNCTIONS
 // ============================================================================
@@ -353,6 +709,7 @@ export async function uploadAllData(userId: string): Promise<boolean> {
     uploadWorkoutSessions(userId),
     uploadSavedWorkouts(userId),
     uploadCustomExercises(userId),
+    uploadPrograms(userId),
     uploadUserPreferences(userId),
     uploadProfile(userId),
   ]);
@@ -366,26 +723,38 @@ export async function downloadAllData(userId: string): Promise<boolean> {
   onSyncStatusChange?.('syncing');
 
   try {
-    const [sessions, workouts, exercises, preferences, profile] = await Promise.all([
+    const [sessionRows, workoutRows, exerciseRows, programs, preferences, profile] = await Promise.all([
       downloadWorkoutSessions(userId),
       downloadSavedWorkouts(userId),
       downloadCustomExercises(userId),
+      downloadPrograms(userId),
       downloadUserPreferences(userId),
       downloadProfile(userId),
     ]);
-
-    // Store in localStorage
+    // Records may have been written by an older version of the app
+    const { sessions, savedWorkouts: workouts, customExercises: exercises } = migrateRecords({
+      sessions: sessionRows,
+      savedWorkouts: workoutRows,
+      customExercises: exerciseRows,
+    });
+
+    // Store locally
     if (sessions.length > 0) {
-      localStorage.setItem('workout_sessions', JSON.stringify(sessions));
+      setRecords('sessions', sessions);
     }
     if (workouts.length > 0) {
-      localStorage.setItem('saved_workouts', JSON.stringify(workouts));
+      setRecords('savedWorkouts', workouts);
     }
     if (exercises.length > 0) {
-      localStorage.setItem('custom_exercises', JSON.stringify(exercises));
+      setRecords('customExercises', exercises);
+    }
+    if (programs.length > 0) {
+      setRecords('programs', programs);
     }
     if (preferences) {
       localStorage.setItem('rest_days', JSON.stringify(preferences.rest_days));
+      localStorage.setItem('planned_workouts', JSON.stringify(preferences.planned_workouts));
+      localStorage.setItem('custom_cardio_activities', JSON.stringify(preferences.custom_cardio_activities));
       localStorage.setItem('equipment_config', JSON.stringify(preferences.equipment_config));
       localStorage.setItem('workout_favorites', JSON.stringify(preferences.favorites));
       localStorage.setItem('workout_skip_counts', JSON.stringify(preferences.skip_counts));
@@ -396,6 +765,7 @@ export async function downloadAllData(userId: string): Promise<boolean> {
       if (profile.name) localStorage.setItem('workout_user_name', profile.name);
       localStorage.setItem('workout_personality', profile.personality);
       localStorage.setItem('workout_theme', profile.theme);
+      if (profile.units) localStorage.setItem('workout_units', JSON.stringify(profile.units));
     }
 
     onSyncStatusChange?.('synced');
@@ -426,9 +796,7 @@ export async function hasCloudData(userId: string): Promise<boolean> {
 
 // Check if local has data
 export function hasLocalData(): boolean {
-  const sessions = localStorage.getItem('workout_sessions');
-  const workouts = localStorage.getItem('saved_workouts');
-  return !!(sessions && sessions !== '[]') || !!(workouts && workouts !== '[]');
+  return countRecords('sessions') > 0 || countRecords('savedWorkouts') > 0;
 }
 
 // Initial sync on login
@@ -442,48 +810,49 @@ export async function performInitialSync(userId: string): Promise<void> {
     return;
   }
 
+  // Offline: queue a full sync for when the connection comes back
+  if (!navigator.onLine) {
+    onSyncStatusChange?.('offline');
+    enqueueChanges('supabase', ['initial-sync']);
+    return;
+  }
+
   onSyncStatusChange?.('syncing');
 
   const cloudHasData = await hasCloudData(userId);
   const localHasData = hasLocalData();
 
-  if (!cloudHasData && localHasData) {
-    // New account with existing local data - upload
-    console.log('Uploading local data to cloud...');
-    await uploadAllData(userId);
-    sessionStorage.setItem(SYNC_DONE_KEY, userId);
-  } else if (cloudHasData && !localHasData) {
-    // Existing account on new device - download
+  if (cloudHasData && !localHasData) {
+    // Existing account on new device - take preferences and profile from the cloud
     console.log('Downloading cloud data to local...');
     await downloadAllData(userId);
+    await syncRecords(userId);
     sessionStorage.setItem(SYNC_DONE_KEY, userId);
-    // Reload to pick up new data
+    // Reload to pick up new data (once it has been written)
+    await flushRepositoryWrites();
     window.location.reload();
-  } else if (cloudHasData && localHasData) {
-    // Both have data - upload local to merge (cloud keeps both)
-    console.log('Merging local and cloud data...');
-    await uploadAllData(userId);
-    await downloadAllData(userId);
-    sessionStorage.setItem(SYNC_DONE_KEY, userId);
-    // Don't reload - data is already in localStorage
-    onSyncStatusChange?.('synced');
   } else {
-    // Neither has data - nothing to sync
+    // Merge record by record; deletions and edits flow both ways
+    console.log('Syncing local and cloud data...');
+    await syncAllData(userId);
     sessionStorage.setItem(SYNC_DONE_KEY, userId);
-    onSyncStatusChange?.('synced');
   }
 }
 
-// Debounced sync trigger (call after any data change)
-export function scheduleSyncToCloud(userId: string): void {
-  if (syncTimeout) {
-    clearTimeout(syncTimeout);
-  }
-  syncTimeout = setTimeout(() => {
-    uploadAllData(userId);
-  }, SYNC_DEBOUNCE_MS);
+// Queue changes for sync (call after any data change). The outbox debounces,
+// retries with backoff while offline or failing, and flushes on reconnect.
+export function scheduleSyncToCloud(changes: string[]): void {
+  enqueueChanges('supabase', changes);
 }
 
+registerOutboxHandler('supabase', async () => {
+  if (!supabase) return false;
+  const { data: { session } } = await supabase.auth.getSession();
+  // Signed out: nothing to send to. The full merge on next sign-in picks these changes up.
+  if (!session?.user) return true;
+  return syncAllData(session.user.id);
+});
+
 // ============================================================================
 // DELETE FUNCTIONS
 // ============================================================================
@@ -500,7 +869,9 @@ export async function deleteAllCloudData(userId: string): Promise<boolean> {
       supabase.from('workout_sessions').delete().eq('user_id', userId),
       supabase.from('saved_workouts').delete().eq('user_id', userId),
       supabase.from('custom_exercises').delete().eq('user_id', userId),
+      supabase.from('programs').delete().eq('user_id', userId),
       supabase.from('user_preferences').delete().eq('user_id', userId),
+      supabase.from('sync_tombstones').delete().eq('user_id', userId),
     ]);
 
     // Check for errors
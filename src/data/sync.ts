@@ -1,7 +1,11 @@
 // Cloud sync via Netlify Blobs
 
+import { enqueueChanges, registerOutboxHandler, getPendingCount } from './syncOutbox';
+import { getRecords, setRecords, countRecords, flushRepositoryWrites, type CollectionName } from './repository';
+import { migrateData, getStoredSchemaVersion, CURRENT_SCHEMA_VERSION } from './migrations';
+import { LEGACY_KEYS } from './localStorageBackend';
+
 const DEVICE_ID_KEY = 'workout_device_id';
-const SYNC_DEBOUNCE_MS = 2000;
 
 // Generate or retrieve persistent device ID
 export function getDeviceId(): string {
@@ -13,19 +17,27 @@ export function getDeviceId(): string {
   return deviceId;
 }
 
+// Record collections we sync, stored in the blob under their original localStorage keys
+const SYNC_COLLECTIONS: CollectionName[] = ['sessions', 'savedWorkouts', 'customExercises', 'programs'];
+
 // All the localStorage keys we want to sync
 const SYNC_KEYS = [
-  'workout_sessions',
-  'saved_workouts',
   'rest_days',
-  'custom_exercises',
+  'planned_workouts',
+  'custom_cardio_activities',
   'workout_theme',
   'equipment_config',
 ];
 
+// Schema of the records in the blob, so a restore can migrate them
+const SCHEMA_VERSION_FIELD = 'data_schema_version';
+
 // Get all syncable data
 function getSyncData(): Record<string, unknown> {
   const data: Record<string, unknown> = {};
+  for (const collection of SYNC_COLLECTIONS) {
+    data[LEGACY_KEYS[collection]] = getRecords(collection);
+  }
   for (const key of SYNC_KEYS) {
     const value = localStorage.getItem(key);
     if (value) {
@@ -36,12 +48,30 @@ function getSyncData(): Record<string, unknown> {
       }
     }
   }
+  data[SCHEMA_VERSION_FIELD] = getStoredSchemaVersion();
   data._syncedAt = new Date().toISOString();
   return data;
 }
 
-// Restore data from cloud
+// Restore data from cloud, brought up to this app's schema first (throws if that fails)
 function restoreFromCloud(data: Record<string, unknown>): void {
+  const list = <T>(collection: CollectionName): T[] => {
+    const records = data[LEGACY_KEYS[collection]];
+    return Array.isArray(records) ? records : [];
+  };
+  // Blobs uploaded before versioning carry no version and are treated as version 0
+  const version = typeof data[SCHEMA_VERSION_FIELD] === 'number' ? data[SCHEMA_VERSION_FIELD] : 0;
+  const migrated = migrateData({
+    sessions: list('sessions'),
+    savedWorkouts: list('savedWorkouts'),
+    customExercises: list('customExercises'),
+    currentSession: null,
+  }, version);
+
+  setRecords('sessions', migrated.sessions);
+  setRecords('savedWorkouts', migrated.savedWorkouts);
+  setRecords('customExercises', migrated.customExercises);
+  setRecords('programs', list('programs'));
   for (const key of SYNC_KEYS) {
     if (data[key] !== undefined) {
       const value = typeof data[key] === 'string'
@@ -52,16 +82,12 @@ function restoreFromCloud(data: Record<string, unknown>): void {
   }
 }
 
-// Check if local data is empty (new device/cleared cache)
+// Check if local data is empty (new device/cleared cache) with no edits waiting to upload
 function isLocalDataEmpty(): boolean {
-  const sessions = localStorage.getItem('workout_sessions');
-  const workouts = localStorage.getItem('saved_workouts');
-  return (!sessions || sessions === '[]') && (!workouts || workouts === '[]');
+  return countRecords('sessions') === 0 && countRecords('savedWorkouts') === 0 && getPendingCount() === 0;
 }
 
 // Sync to cloud
-let syncTimeout: ReturnType<typeof setTimeout> | null = null;
-
 export async function syncToCloud(): Promise<boolean> {
   try {
     const response = await fetch('/.netlify/functions/sync', {
@@ -74,21 +100,19 @@ export async function syncToCloud(): Promise<boolean> {
     });
     return response.ok;
   } catch {
-    // Silently fail - sync is optional and shouldn't block the app
+    // Don't throw - the outbox retries failed uploads
     return false;
   }
 }
 
-// Debounced sync - call this after any data change
+// Queued sync - call this after any data change. The whole blob is uploaded,
+// so every change coalesces into one outbox entry that is retried until it lands.
 export function scheduleSyncToCloud(): void {
-  if (syncTimeout) {
-    clearTimeout(syncTimeout);
-  }
-  syncTimeout = setTimeout(() => {
-    syncToCloud();
-  }, SYNC_DEBOUNCE_MS);
+  enqueueChanges('netlify', ['all']);
 }
 
+registerOutboxHandler('netlify', syncToCloud);
+
 // Load from cloud (called on app init)
 export async function loadFromCloud(): Promise<boolean> {
   try {
@@ -110,8 +134,10 @@ export async function loadFromCloud(): Promise<boolean> {
 
     const result = await response.json();
     if (result.data) {
-      // Only restore if local is empty (don't overwrite existing data)
-      if (isLocalDataEmpty()) {
+      // Only restore if local is empty (don't overwrite existing data),
+      // and only records this version of the app can read
+      const version = result.data[SCHEMA_VERSION_FIELD];
+      if (isLocalDataEmpty() && !(typeof version === 'number' && version > CURRENT_SCHEMA_VERSION)) {
         restoreFromCloud(result.data);
         return true;
       }
@@ -129,6 +155,7 @@ export async function initSync(): Promise<void> {
   if (restored) {
     console.log('Data restored from cloud backup');
     // Reload the page to pick up restored data
+    await flushRepositoryWrites();
     window.location.reload();
   }
 }
@@ -0,0 +1,203 @@
+/**
+ * Sync Merge - Record-level two-way merge between this device and the cloud
+ *
+ * Pure functions: given local records, cloud records, tombstones from both
+ * sides and the field fingerprints from the last sync, decide what each side
+ * should end up with. Fields changed on only one side are taken from that
+ * side; fields changed on both sides go to whichever record was written last.
+ * Edit/edit ties and edits made after a deletion become conflicts.
+ */
+
+import type { SyncRecord, SyncRecordKind, Tombstone, SyncConflict } from '../types';
+import { generateUUID } from '../utils/uuid';
+import { contentFields, fingerprintRecord, hashValue, sameContent } from './changeTracking';
+
+export interface MergeInput<T extends SyncRecord> {
+  kind: SyncRecordKind;
+  local: T[];
+  remote: T[];
+  localTombstones: Tombstone[];
+  remoteTombstones: Tombstone[];
+  base: Record<string, Record<string, string>>;
+}
+
+export interface MergeResult<T extends SyncRecord> {
+  /** Records this device should keep */
+  local: T[];
+  /** Records to write to the cloud */
+  toUpload: T[];
+  /** Ids to delete from the cloud */
+  toDeleteRemote: string[];
+  /** Tombstones the cloud is missing */
+  tombstonesToUpload: Tombstone[];
+  /** Field fingerprints to remember for the next merge */
+  base: Record<string, Record<string, string>>;
+  conflicts: SyncConflict[];
+}
+
+function timeOf(iso?: string): number {
+  return iso ? new Date(iso).getTime() : 0;
+}
+
+function recordName(record: SyncRecord | null | undefined): string {
+  return record && 'name' in record && record.name ? record.name : 'Untitled';
+}
+
+/** Merge two live versions of the same record field by field */
+function mergeRecord<T extends SyncRecord>(
+  local: T,
+  remote: T,
+  base: Record<string, string> | undefined
+): { merged: T; conflictFields: string[] } {
+  const localTime = timeOf(local.updatedAt);
+  const remoteTime = timeOf(remote.updatedAt);
+  const fields = new Set([...contentFields(local), ...contentFields(remote)]);
+  const merged: Record<string, unknown> = {};
+  const conflictFields: string[] = [];
+  const l = local as unknown as Record<string, unknown>;
+  const r = remote as unknown as Record<string, unknown>;
+
+  for (const field of fields) {
+    const localHash = hashValue(l[field]);
+    const remoteHash = hashValue(r[field]);
+    if (localHash === remoteHash) {
+      merged[field] = l[field];
+      continue;
+    }
+
+    const baseHash = base ? (base[field] ?? hashValue(undefined)) : null;
+    if (baseHash === localHash) {
+      merged[field] = r[field];          // Only the cloud changed it
+    } else if (baseHash === remoteHash) {
+      merged[field] = l[field];          // Only this device changed it
+    } else if (localTime !== remoteTime) {
+      merged[field] = localTime > remoteTime ? l[field] : r[field];
+    } else {
+      merged[field] = l[field];          // Can't tell - keep ours and flag it
+      conflictFields.push(field);
+    }
+  }
+
+  for (const field of Object.keys(merged)) {
+    if (merged[field] === undefined) delete merged[field];
+  }
+
+  const matchesLocal = sameContent(merged, local);
+  const matchesRemote = sameContent(merged, remote);
+  const newest = localTime >= remoteTime ? local.updatedAt : remote.updatedAt;
+  const version = Math.max(local.version ?? 0, remote.version ?? 0);
+
+  return {
+    merged: {
+      ...merged,
+      updatedAt: matchesLocal || matchesRemote ? newest : new Date().toISOString(),
+      version: matchesLocal && matchesRemote ? version : version + 1,
+    } as T,
+    conflictFields,
+  };
+}
+
+export function mergeRecords<T extends SyncRecord>(input: MergeInput<T>): MergeResult<T> {
+  const { kind, base } = input;
+  const localById = new Map(input.local.map(r => [r.id, r]));
+  const remoteById = new Map(input.remote.map(r => [r.id, r]));
+  const localTombs = new Map(input.localTombstones.filter(t => t.kind === kind).map(t => [t.id, t]));
+  const remoteTombs = new Map(input.remoteTombstones.filter(t => t.kind === kind).map(t => [t.id, t]));
+
+  const ids = new Set([...localById.keys(), ...remoteById.keys(), ...localTombs.keys(), ...remoteTombs.keys()]);
+  const result: MergeResult<T> = {
+    local: [],
+    toUpload: [],
+    toDeleteRemote: [],
+    tombstonesToUpload: [],
+    base: {},
+    conflicts: [],
+  };
+  const now = new Date().toISOString();
+
+  for (const id of ids) {
+    const local = localById.get(id);
+    const remote = remoteById.get(id);
+    const localTomb = localTombs.get(id);
+    const remoteTomb = remoteTombs.get(id);
+    const tomb = [localTomb, remoteTomb]
+      .filter((t): t is Tombstone => !!t)
+      .sort((a, b) => timeOf(b.deletedAt) - timeOf(a.deletedAt))[0];
+
+    if (tomb) {
+      // A live copy edited after the deletion can't be silently dropped
+      const survivor = [local, remote]
+        .filter((r): r is T => !!r)
+        .filter(r => timeOf(r.updatedAt) > timeOf(tomb.deletedAt))
+        .sort((a, b) => timeOf(b.updatedAt) - timeOf(a.updatedAt))[0];
+
+      if (survivor) {
+        result.local.push(local ?? survivor);
+        result.conflicts.push({
+          id: generateUUID(),
+          kind,
+          recordId: id,
+          recordName: recordName(survivor),
+          reason: 'delete-edit',
+          fields: [],
+          local: localTomb ? null : (local ?? null),
+          remote: remoteTomb ? null : (remote ?? null),
+          detectedAt: now,
+        });
+        continue;
+      }
+
+      if (remote) result.toDeleteRemote.push(id);
+      if (!remoteTomb) result.tombstonesToUpload.push(tomb);
+      continue;
+    }
+
+    if (local && !remote) {
+      result.local.push(local);
+      result.toUpload.push(local);
+      result.base[id] = fingerprintRecord(local);
+      continue;
+    }
+
+    if (!local && remote) {
+      result.local.push(remote);
+      result.base[id] = fingerprintRecord(remote);
+      continue;
+    }
+
+    if (local && remote) {
+      if (sameContent(local, remote)) {
+        const newer = timeOf(local.updatedAt) >= timeOf(remote.updatedAt) ? local : remote;
+        result.local.push(newer);
+        if (newer !== remote && (local.version !== remote.version || local.updatedAt !== remote.updatedAt)) {
+          result.toUpload.push(newer);
+        }
+        result.base[id] = fingerprintRecord(newer);
+        continue;
+      }
+
+      const { merged, conflictFields } = mergeRecord(local, remote, base[id]);
+      result.local.push(merged);
+      if (!sameContent(merged, remote) || merged.version !== remote.version) {
+        result.toUpload.push(merged);
+      }
+      result.base[id] = fingerprintRecord(merged);
+
+      if (conflictFields.length > 0) {
+        result.conflicts.push({
+          id: generateUUID(),
+          kind,
+          recordId: id,
+          recordName: recordName(merged),
+          reason: 'edit-edit',
+          fields: conflictFields,
+          local,
+          remote,
+          detectedAt: now,
+        });
+      }
+    }
+  }
+
+  return result;
+}
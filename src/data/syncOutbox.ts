@@ -0,0 +1,210 @@
+/**
+ * Sync Outbox - Persistent queue of changes waiting to reach the cloud
+ *
+ * Every local change is recorded here (in localStorage, so it survives
+ * reloads) before anything is sent. A flush hands the queue to the sync
+ * target's handler; on failure it retries with exponential backoff, and it
+ * flushes again as soon as the browser reports it is back online. Entries
+ * are only removed once a flush that included them succeeds.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Where queued changes are sent */
+export type OutboxTarget = 'supabase' | 'netlify';
+
+/** A pending change. Repeat changes to the same key coalesce into one entry. */
+export interface OutboxEntry {
+  target: OutboxTarget;
+  key: string;                   // e.g. 'sessions:<id>' or 'preferences'
+  enqueuedAt: string;
+}
+
+interface RetryState {
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+}
+
+interface OutboxData {
+  entries: OutboxEntry[];
+  retry: Partial<Record<OutboxTarget, RetryState>>;
+}
+
+/** Sends everything pending for a target. Resolves true on success. */
+export type OutboxHandler = () => Promise<boolean>;
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const OUTBOX_KEY = 'sync_outbox';
+const FLUSH_DEBOUNCE_MS = 2000;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+function loadOutbox(): OutboxData {
+  const data = localStorage.getItem(OUTBOX_KEY);
+  const parsed = data ? JSON.parse(data) : {};
+  return { entries: parsed.entries ?? [], retry: parsed.retry ?? {} };
+}
+
+function saveOutbox(outbox: OutboxData): void {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+  notifyListeners();
+}
+
+export function getPendingCount(target?: OutboxTarget): number {
+  const { entries } = loadOutbox();
+  return target ? entries.filter(e => e.target === target).length : entries.length;
+}
+
+/** Drop everything queued (used when wiping local data) */
+export function clearOutbox(): void {
+  localStorage.removeItem(OUTBOX_KEY);
+  notifyListeners();
+}
+
+// ============================================================================
+// LISTENERS
+// ============================================================================
+
+const listeners = new Set<(pending: number) => void>();
+
+function notifyListeners(): void {
+  const pending = getPendingCount();
+  listeners.forEach(listener => listener(pending));
+}
+
+/** Subscribe to the pending change count. Returns an unsubscribe function. */
+export function subscribeToOutbox(listener: (pending: number) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ============================================================================
+// QUEUE + FLUSH
+// ============================================================================
+
+const handlers: Partial<Record<OutboxTarget, OutboxHandler>> = {};
+const timers: Partial<Record<OutboxTarget, ReturnType<typeof setTimeout>>> = {};
+const flushing = new Set<OutboxTarget>();
+const flushAgain = new Set<OutboxTarget>();
+
+export function registerOutboxHandler(target: OutboxTarget, handler: OutboxHandler): void {
+  handlers[target] = handler;
+}
+
+/** Queue changes and schedule a (debounced) flush */
+export function enqueueChanges(target: OutboxTarget, keys: string[]): void {
+  if (keys.length === 0) return;
+
+  const outbox = loadOutbox();
+  const now = new Date().toISOString();
+  const keySet = new Set(keys);
+  outbox.entries = outbox.entries.filter(e => !(e.target === target && keySet.has(e.key)));
+  keySet.forEach(key => outbox.entries.push({ target, key, enqueuedAt: now }));
+  saveOutbox(outbox);
+
+  // A fresh edit shouldn't wait out a long backoff from an earlier failure
+  scheduleFlush(target, FLUSH_DEBOUNCE_MS);
+}
+
+function scheduleFlush(target: OutboxTarget, delayMs: number): void {
+  const existing = timers[target];
+  if (existing) clearTimeout(existing);
+  timers[target] = setTimeout(() => {
+    delete timers[target];
+    flushOutbox(target);
+  }, delayMs);
+}
+
+/** Delay before retry number `attempts` (1-based), with jitter */
+export function getRetryDelay(attempts: number): number {
+  const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/** Send everything queued for a target now */
+export async function flushOutbox(target: OutboxTarget): Promise<boolean> {
+  const handler = handlers[target];
+  if (!handler) return false;
+
+  const snapshot = loadOutbox().entries.filter(e => e.target === target);
+  if (snapshot.length === 0) return true;
+
+  // Wait for the 'online' event rather than burning retries
+  if (!navigator.onLine) return false;
+
+  if (flushing.has(target)) {
+    flushAgain.add(target);
+    return false;
+  }
+  flushing.add(target);
+
+  let success = false;
+  let errorMessage: string | undefined;
+  try {
+    success = await handler();
+  } catch (err) {
+    errorMessage = err instanceof Error ? err.message : String(err);
+    console.error(`Outbox flush to ${target} failed:`, err);
+  }
+  flushing.delete(target);
+
+  const outbox = loadOutbox();
+  if (success) {
+    // Keep entries re-queued while the flush was running
+    const sent = new Map(snapshot.map(e => [e.key, e.enqueuedAt]));
+    outbox.entries = outbox.entries.filter(e => !(e.target === target && sent.get(e.key) === e.enqueuedAt));
+    delete outbox.retry[target];
+    saveOutbox(outbox);
+  } else {
+    const attempts = (outbox.retry[target]?.attempts ?? 0) + 1;
+    const delay = getRetryDelay(attempts);
+    outbox.retry[target] = {
+      attempts,
+      nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+      lastError: errorMessage,
+    };
+    saveOutbox(outbox);
+    scheduleFlush(target, delay);
+    return false;
+  }
+
+  if (flushAgain.delete(target) || outbox.entries.some(e => e.target === target)) {
+    scheduleFlush(target, FLUSH_DEBOUNCE_MS);
+  }
+  return true;
+}
+
+/**
+ * Resume any pending work (e.g. after a reload) and flush whenever the
+ * connection comes back. Returns a cleanup function.
+ */
+export function initSyncOutbox(): () => void {
+  const flushAll = () => {
+    (Object.keys(handlers) as OutboxTarget[]).forEach(target => flushOutbox(target));
+  };
+
+  const outbox = loadOutbox();
+  (Object.keys(handlers) as OutboxTarget[]).forEach(target => {
+    if (!outbox.entries.some(e => e.target === target)) return;
+    const nextAttemptAt = outbox.retry[target]?.nextAttemptAt;
+    const wait = nextAttemptAt ? new Date(nextAttemptAt).getTime() - Date.now() : 0;
+    scheduleFlush(target, Math.max(wait, FLUSH_DEBOUNCE_MS));
+  });
+
+  window.addEventListener('online', flushAll);
+  return () => {
+    window.removeEventListener('online', flushAll);
+  };
+}
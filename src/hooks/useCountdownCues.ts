@@ -0,0 +1,35 @@
+import { useEffect, useRef } from 'react';
+import { loadCueSettings } from '../data/storage';
+import { playCue, unlockAudio } from '../utils/cues';
+
+/**
+ * Beep 3-2-1 as a countdown runs out and sound the end tone when it reaches
+ * zero. `remaining` is whole seconds left, or null while nothing is counting.
+ * A change of `segment` (e.g. Tabata work to rest, the next EMOM minute)
+ * plays the interval-switch tone instead. Cues only fire as the value moves,
+ * so mounting mid-countdown or adding time stays quiet.
+ */
+export function useCountdownCues(remaining: number | null, segment: string | number = 0) {
+  const previous = useRef<{ remaining: number | null; segment: string | number } | null>(null);
+
+  useEffect(() => {
+    const last = previous.current;
+    previous.current = { remaining, segment };
+    if (remaining === null || !last || last.remaining === null) return;
+
+    // Read at cue time so a change on the settings page applies straight away
+    if (remaining <= 0 && last.remaining > 0) {
+      playCue('end', loadCueSettings());
+    } else if (segment !== last.segment) {
+      playCue('switch', loadCueSettings());
+    } else if (remaining < last.remaining && remaining > 0 && remaining <= 3) {
+      playCue('countdown', loadCueSettings());
+    }
+  }, [remaining, segment]);
+
+  // Browsers keep audio locked until a tap; any tap while a timer is on screen will do
+  useEffect(() => {
+    document.addEventListener('pointerdown', unlockAudio);
+    return () => document.removeEventListener('pointerdown', unlockAudio);
+  }, []);
+}
@@ -0,0 +1,44 @@
+import { useState, useEffect, useRef } from 'react';
+import type { TrackPoint } from '../types';
+import { browserLocationSource, type LocationSource } from '../utils/gps';
+
+export type GpsStatus = 'off' | 'waiting' | 'tracking' | 'error';
+
+/**
+ * Watch `source` while `enabled`, handing each fix to `onPoint`. Status is
+ * 'waiting' until the first fix arrives and 'error' with a message when the
+ * source gives up (no permission, no GPS); a later fix clears the error.
+ */
+export function useGpsTracking(
+  enabled: boolean,
+  onPoint: (point: TrackPoint) => void,
+  source: LocationSource = browserLocationSource,
+) {
+  // What the current watch last reported; nothing yet means still waiting
+  const [report, setReport] = useState<{ status: 'tracking' | 'error'; error: string | null } | null>(null);
+
+  // Latest callback, so a new one doesn't restart the watch
+  const onPointRef = useRef(onPoint);
+  useEffect(() => {
+    onPointRef.current = onPoint;
+  }, [onPoint]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const stop = source.watch(
+      point => {
+        setReport({ status: 'tracking', error: null });
+        onPointRef.current(point);
+      },
+      message => setReport({ status: 'error', error: message }),
+    );
+    return () => {
+      stop();
+      setReport(null);
+    };
+  }, [enabled, source]);
+
+  const status: GpsStatus = !enabled ? 'off' : report?.status ?? 'waiting';
+  return { status, error: enabled ? report?.error ?? null : null };
+}
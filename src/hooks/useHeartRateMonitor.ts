@@ -0,0 +1,99 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { HeartRateSample } from '../types';
+import { loadHeartRateSettings } from '../data/storage';
+import { bluetoothHeartRateSource, createSimulatedHeartRateSource, type HeartRateSource } from '../utils/heartRate';
+
+export type HeartRateStatus = 'off' | 'connecting' | 'connected' | 'error';
+
+export interface HeartRateMonitor {
+  status: HeartRateStatus;
+  bpm: number | null;            // Latest reading while connected
+  error: string | null;
+  connect: () => void;
+  disconnect: () => void;
+}
+
+const simulatedHeartRateSource = createSimulatedHeartRateSource();
+
+// Bluetooth, or the simulated monitor when it's switched on in Settings; checked on each pairing
+const settingsHeartRateSource: HeartRateSource = {
+  connect: (onSample, onDisconnect) =>
+    (loadHeartRateSettings().simulated ? simulatedHeartRateSource : bluetoothHeartRateSource).connect(onSample, onDisconnect),
+};
+
+/**
+ * Pair with `source` on request and hand each reading to `onSample`. The
+ * monitor stays connected across screens while `active` (a workout is
+ * running) and disconnects when it ends.
+ */
+export function useHeartRateMonitor(
+  active: boolean,
+  onSample: (sample: HeartRateSample) => void,
+  source: HeartRateSource = settingsHeartRateSource,
+): HeartRateMonitor {
+  const [status, setStatus] = useState<HeartRateStatus>('off');
+  const [bpm, setBpm] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const stopRef = useRef<(() => void) | null>(null);
+  // Bumped on every connect and disconnect, so a pairing that finishes late can tell it's stale
+  const attemptRef = useRef(0);
+
+  // Latest callback, so a new one doesn't need a new connection
+  const onSampleRef = useRef(onSample);
+  useEffect(() => {
+    onSampleRef.current = onSample;
+  }, [onSample]);
+
+  const disconnect = useCallback(() => {
+    attemptRef.current++;
+    stopRef.current?.();
+    stopRef.current = null;
+    setStatus('off');
+    setBpm(null);
+    setError(null);
+  }, []);
+
+  const connect = useCallback(() => {
+    if (stopRef.current) return;
+    const attempt = ++attemptRef.current;
+    setStatus('connecting');
+    setError(null);
+
+    source.connect(
+      sample => {
+        if (attempt !== attemptRef.current) return;
+        setBpm(sample.bpm);
+        onSampleRef.current(sample);
+      },
+      message => {
+        if (attempt !== attemptRef.current) return;
+        stopRef.current = null;
+        setStatus('error');
+        setBpm(null);
+        setError(message);
+      },
+    ).then(
+      stop => {
+        if (attempt !== attemptRef.current) {
+          stop();
+          return;
+        }
+        stopRef.current = stop;
+        setStatus('connected');
+      },
+      (err: unknown) => {
+        if (attempt !== attemptRef.current) return;
+        setStatus('error');
+        setError(err instanceof Error ? err.message : 'Could not connect to the heart-rate monitor');
+      },
+    );
+  }, [source]);
+
+  // Disconnect when the workout ends (or the app closes)
+  useEffect(() => {
+    if (!active) return;
+    return disconnect;
+  }, [active, disconnect]);
+
+  return { status, bpm, error, connect, disconnect };
+}
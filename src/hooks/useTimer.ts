@@ -1,71 +1,78 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import type { TimerState } from '../types';
+import { createTimer, startTimer, pauseTimer, getElapsed, getRemaining } from '../utils/timer';
 
-export function useTimer(initialSeconds = 0) {
-  const [seconds, setSeconds] = useState(initialSeconds);
-  const [isRunning, setIsRunning] = useState(false);
-  const [isCountdown, setIsCountdown] = useState(false);
-  const intervalRef = useRef<number | null>(null);
-
-  const clear = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
-  }, []);
+/**
+ * The current time, refreshed while `active` and whenever the page becomes
+ * visible again (throttled intervals catch up immediately on return).
+ */
+export function useNow(active: boolean, intervalMs = 250): number {
+  const [now, setNow] = useState(() => Date.now());
 
   useEffect(() => {
-    return clear;
-  }, [clear]);
+    if (!active) return;
+    const tick = () => setNow(Date.now());
+    const interval = window.setInterval(tick, intervalMs);
+    document.addEventListener('visibilitychange', tick);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', tick);
+    };
+  }, [active, intervalMs]);
+
+  return now;
+}
 
+/**
+ * Controls for a stopwatch or countdown whose state lives with the caller
+ * (in the session's timers, so it survives reloads). `onChange` gets each new state.
+ */
+export function useTimer(timer: TimerState, onChange: (timer: TimerState) => void) {
+  const now = useNow(timer.startedAt !== null);
+
+  const isCountdown = timer.duration !== undefined;
+  const remaining = getRemaining(timer, now);
+  const isRunning = timer.startedAt !== null && !(isCountdown && remaining <= 0);
+  const seconds = isCountdown ? Math.max(0, Math.ceil(remaining)) : Math.floor(getElapsed(timer, now));
+
+  // Latest callback, so a new one doesn't reschedule the countdown's stop
+  const onChangeRef = useRef(onChange);
   useEffect(() => {
-    if (isRunning) {
-      intervalRef.current = window.setInterval(() => {
-        setSeconds(prev => {
-          if (isCountdown) {
-            if (prev <= 1) {
-              setIsRunning(false);
-              return 0;
-            }
-            return prev - 1;
-          }
-          return prev + 1;
-        });
-      }, 1000);
-    } else {
-      clear();
-    }
+    onChangeRef.current = onChange;
+  }, [onChange]);
 
-    return clear;
-  }, [isRunning, isCountdown, clear]);
+  // A countdown that reached zero stops itself
+  useEffect(() => {
+    if (timer.startedAt === null || timer.duration === undefined) return;
+    const timeout = window.setTimeout(() => onChangeRef.current(pauseTimer(timer)), Math.max(0, getRemaining(timer) * 1000));
+    return () => clearTimeout(timeout);
+  }, [timer]);
 
   const start = useCallback(() => {
-    setIsRunning(true);
-  }, []);
+    onChange(startTimer(timer));
+  }, [timer, onChange]);
 
   const pause = useCallback(() => {
-    setIsRunning(false);
-  }, []);
+    onChange(pauseTimer(timer));
+  }, [timer, onChange]);
 
   const toggle = useCallback(() => {
-    setIsRunning(prev => !prev);
-  }, []);
+    onChange(timer.startedAt !== null ? pauseTimer(timer) : startTimer(timer));
+  }, [timer, onChange]);
 
   const reset = useCallback((newSeconds = 0) => {
-    setSeconds(newSeconds);
-    setIsRunning(false);
-  }, []);
+    onChange(timer.duration !== undefined
+      ? createTimer(newSeconds)
+      : { ...createTimer(), accumulated: newSeconds * 1000 });
+  }, [timer, onChange]);
 
   const startCountdown = useCallback((duration: number) => {
-    setSeconds(duration);
-    setIsCountdown(true);
-    setIsRunning(true);
-  }, []);
+    onChange(startTimer(createTimer(duration)));
+  }, [onChange]);
 
   const startStopwatch = useCallback(() => {
-    setSeconds(0);
-    setIsCountdown(false);
-    setIsRunning(true);
-  }, []);
+    onChange(startTimer(createTimer()));
+  }, [onChange]);
 
   const formatTime = useCallback((secs: number = seconds) => {
     const mins = Math.floor(secs / 60);
@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+
+/**
+ * Keep the screen on while `active`. The browser drops the lock whenever the
+ * page is hidden, so it's requested again each time the page comes back.
+ * Does nothing where the Wake Lock API isn't supported.
+ */
+export function useWakeLock(active: boolean) {
+  useEffect(() => {
+    if (!active || !('wakeLock' in navigator)) return;
+
+    let lock: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    const request = async () => {
+      if (document.visibilityState !== 'visible' || (lock && !lock.released)) return;
+      try {
+        const sentinel = await navigator.wakeLock.request('screen');
+        if (cancelled) {
+          sentinel.release();
+        } else {
+          lock = sentinel;
+        }
+      } catch {
+        // Denied (battery saver, no user gesture yet) - the screen just sleeps as usual
+      }
+    };
+
+    request();
+    document.addEventListener('visibilitychange', request);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', request);
+      lock?.release();
+    };
+  }, [active]);
+}
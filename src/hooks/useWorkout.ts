@@ -2,75 +2,119 @@
  * useWorkout Hook - Manages active workout session state
  *
  * Handles starting, navigating, and completing workouts.
- * Persists session state to localStorage for crash recovery.
+ * Persists session state to localStorage for crash recovery, including the
+ * workout clock, rest countdown and timed block so they pick up after a reload.
  */
 
 import { useState, useCallback, useEffect } from 'react';
-import type { WorkoutSession, WorkoutBlock, ExerciseLog, EffortLevel, CardioType } from '../types';
+import type { WorkoutSession, ActiveSession, SessionTimers, WorkoutBlock, ExerciseLog, RestLog, BlockResult, EffortLevel, CardioType, CardioMetrics, TrackPoint, HeartRateSample } from '../types';
 import { CARDIO_TYPE_LABELS } from '../types';
 import { saveCurrentSession, loadCurrentSession, addCompletedSession } from '../data/storage';
+import { detectPersonalRecords } from '../data/progression';
 import { generateUUID } from '../utils/uuid';
+import { createTimer, startTimer, getElapsed } from '../utils/timer';
+import { getNextPosition, getPreviousPosition, type WorkoutPosition } from '../utils/groups';
+import { expandWorkoutSets } from '../utils/blocks';
+import { getDeviceTimeZone } from '../utils/dates';
+import { shouldRecordPoint } from '../utils/gps';
+import { shouldRecordSample } from '../utils/heartRate';
 
-/** Extended session interface with navigation state for persistence */
-interface ExtendedSession extends WorkoutSession {
-  currentBlockIndex?: number;
-  currentExerciseIndex?: number;
-  swappedExercises?: Record<string, string>;
+/**
+ * Where a workout came from: the saved workout it was started from, the
+ * program slot it fills, or the custom cardio activity it is
+ */
+export type WorkoutOrigin = Partial<Pick<WorkoutSession, 'name' | 'templateId' | 'program' | 'customActivityId'>>;
+
+/** The session itself, without the navigation and clocks kept only while it's in progress */
+function toWorkoutSession(active: ActiveSession): WorkoutSession {
+  const session = { ...active };
+  delete session.currentBlockIndex;
+  delete session.currentExerciseIndex;
+  delete session.currentRound;
+  delete session.currentBlockRound;
+  delete session.swappedExercises;
+  delete session.clock;
+  delete session.rest;
+  delete session.timedBlock;
+  delete session.exercise;
+  return session;
 }
 
 export function useWorkout() {
-  const [session, setSession] = useState<ExtendedSession | null>(() => {
-    const loaded = loadCurrentSession() as ExtendedSession | null;
-    return loaded;
-  });
+  const [session, setSession] = useState<ActiveSession | null>(() => loadCurrentSession());
   const [currentBlockIndex, setCurrentBlockIndex] = useState(() => {
-    const loaded = loadCurrentSession() as ExtendedSession | null;
+    const loaded = loadCurrentSession();
     return loaded?.currentBlockIndex ?? 0;
   });
   const [currentExerciseIndex, setCurrentExerciseIndex] = useState(() => {
-    const loaded = loadCurrentSession() as ExtendedSession | null;
+    const loaded = loadCurrentSession();
     return loaded?.currentExerciseIndex ?? 0;
   });
+  const [currentRound, setCurrentRound] = useState(() => {
+    const loaded = loadCurrentSession();
+    return loaded?.currentRound ?? 1;
+  });
+  const [currentBlockRound, setCurrentBlockRound] = useState(() => {
+    const loaded = loadCurrentSession();
+    return loaded?.currentBlockRound ?? 1;
+  });
+  const [timers, setTimers] = useState<SessionTimers>(() => {
+    const loaded = loadCurrentSession();
+    return { clock: loaded?.clock, rest: loaded?.rest, timedBlock: loaded?.timedBlock, exercise: loaded?.exercise };
+  });
 
   // Save session with navigation state
   useEffect(() => {
     if (session) {
-      const extendedSession: ExtendedSession = {
+      const extendedSession: ActiveSession = {
         ...session,
         currentBlockIndex,
         currentExerciseIndex,
+        currentRound,
+        currentBlockRound,
+        ...timers,
       };
       saveCurrentSession(extendedSession);
     } else {
       saveCurrentSession(null);
     }
-  }, [session, currentBlockIndex, currentExerciseIndex]);
+  }, [session, currentBlockIndex, currentExerciseIndex, currentRound, currentBlockRound, timers]);
 
-  const startWorkoutWithBlocks = useCallback((blocks: WorkoutBlock[]) => {
+  const startWorkoutWithBlocks = useCallback((blocks: WorkoutBlock[], origin?: WorkoutOrigin) => {
     const newSession: WorkoutSession = {
       id: generateUUID(),
       name: 'Custom Workout',
-      blocks,
+      blocks: blocks.map(expandWorkoutSets),
       startedAt: new Date().toISOString(),
+      timeZone: getDeviceTimeZone(),
       exercises: [],
+      ...origin,
     };
     setSession(newSession);
     setCurrentBlockIndex(0);
     setCurrentExerciseIndex(0);
+    setCurrentRound(1);
+    setCurrentBlockRound(1);
+    setTimers({ clock: startTimer(createTimer()) });
   }, []);
 
-  const startCardioWorkout = useCallback((cardioType: CardioType) => {
+  const startCardioWorkout = useCallback((cardioType: CardioType, origin?: WorkoutOrigin) => {
     const newSession: WorkoutSession = {
       id: generateUUID(),
       name: CARDIO_TYPE_LABELS[cardioType],
       blocks: [],
       startedAt: new Date().toISOString(),
+      timeZone: getDeviceTimeZone(),
       exercises: [],
       cardioType,
+      ...origin,
     };
     setSession(newSession);
     setCurrentBlockIndex(0);
     setCurrentExerciseIndex(0);
+    setCurrentRound(1);
+    setCurrentBlockRound(1);
+    setTimers({ clock: startTimer(createTimer()) });
   }, []);
 
   const logExercise = useCallback((log: Omit<ExerciseLog, 'completedAt'>) => {
@@ -87,46 +131,93 @@ export function useWorkout() {
     } : null);
   }, [session]);
 
-  const nextExercise = useCallback((totalExercisesInBlock: number, totalBlocks: number) => {
-    if (currentExerciseIndex < totalExercisesInBlock - 1) {
-      setCurrentExerciseIndex(prev => prev + 1);
-    } else if (currentBlockIndex < totalBlocks - 1) {
-      setCurrentBlockIndex(prev => prev + 1);
-      setCurrentExerciseIndex(0);
-    }
-  }, [currentBlockIndex, currentExerciseIndex]);
-
-  const previousExercise = useCallback((getBlockExerciseCount: (index: number) => number) => {
-    if (currentExerciseIndex > 0) {
-      setCurrentExerciseIndex(prev => prev - 1);
-    } else if (currentBlockIndex > 0) {
-      const prevBlockIndex = currentBlockIndex - 1;
-      setCurrentBlockIndex(prevBlockIndex);
-      setCurrentExerciseIndex(getBlockExerciseCount(prevBlockIndex) - 1);
-    }
-  }, [currentBlockIndex, currentExerciseIndex]);
+  const logRest = useCallback((rest: RestLog) => {
+    setSession(prev => prev ? {
+      ...prev,
+      rests: [...(prev.rests ?? []), rest],
+    } : null);
+  }, []);
+
+  const logBlockResult = useCallback((result: BlockResult) => {
+    setSession(prev => prev ? {
+      ...prev,
+      blockResults: [...(prev.blockResults ?? []), result],
+    } : null);
+  }, []);
+
+  // Add a GPS fix to a tracked cardio session, skipping vague or out-of-order ones
+  const logTrackPoint = useCallback((point: TrackPoint) => {
+    setSession(prev => {
+      if (!prev || !shouldRecordPoint(point, prev.track?.[prev.track.length - 1])) return prev;
+      return { ...prev, track: [...(prev.track ?? []), point] };
+    });
+  }, []);
+
+  const logHeartRate = useCallback((sample: HeartRateSample) => {
+    setSession(prev => {
+      if (!prev || !shouldRecordSample(sample, prev.heartRate?.[prev.heartRate.length - 1])) return prev;
+      return { ...prev, heartRate: [...(prev.heartRate ?? []), sample] };
+    });
+  }, []);
+
+  const goTo = useCallback((position: WorkoutPosition | null) => {
+    if (!position) return;
+    setCurrentBlockIndex(position.blockIndex);
+    setCurrentBlockRound(position.blockRound);
+    setCurrentExerciseIndex(position.exerciseIndex);
+    setCurrentRound(position.round);
+  }, []);
+
+  // Steps through the blocks, cycling supersets/circuits for their rounds and repeated blocks for theirs
+  const nextExercise = useCallback(() => {
+    goTo(getNextPosition(session?.blocks ?? [], {
+      blockIndex: currentBlockIndex, blockRound: currentBlockRound, exerciseIndex: currentExerciseIndex, round: currentRound,
+    }));
+  }, [session, currentBlockIndex, currentBlockRound, currentExerciseIndex, currentRound, goTo]);
 
-  const completeWorkout = useCallback((overallEffort?: EffortLevel, distance?: number) => {
+  const previousExercise = useCallback(() => {
+    goTo(getPreviousPosition(session?.blocks ?? [], {
+      blockIndex: currentBlockIndex, blockRound: currentBlockRound, exerciseIndex: currentExerciseIndex, round: currentRound,
+    }));
+  }, [session, currentBlockIndex, currentBlockRound, currentExerciseIndex, currentRound, goTo]);
+
+  const completeWorkout = useCallback(async (overallEffort?: EffortLevel, distance?: number, metrics?: CardioMetrics) => {
     if (!session) return;
 
     const completedSession: WorkoutSession = {
-      ...session,
+      ...toWorkoutSession(session),
       completedAt: new Date().toISOString(),
-      totalDuration: Math.round((Date.now() - new Date(session.startedAt).getTime()) / 1000),
+      // The workout clock leaves out paused time; sessions started before it existed fall back to wall time
+      totalDuration: timers.clock
+        ? Math.round(getElapsed(timers.clock))
+        : Math.round((Date.now() - new Date(session.startedAt).getTime()) / 1000),
       overallEffort,
       distance,
+      metrics,
     };
 
+    // Compare against history before this session joins it
+    const personalRecords = await detectPersonalRecords(completedSession);
+    if (personalRecords.length > 0) {
+      completedSession.personalRecords = personalRecords;
+    }
+
     addCompletedSession(completedSession);
     setSession(null);
     setCurrentBlockIndex(0);
     setCurrentExerciseIndex(0);
-  }, [session]);
+    setCurrentRound(1);
+    setCurrentBlockRound(1);
+    setTimers({});
+  }, [session, timers.clock]);
 
   const cancelWorkout = useCallback(() => {
     setSession(null);
     setCurrentBlockIndex(0);
     setCurrentExerciseIndex(0);
+    setCurrentRound(1);
+    setCurrentBlockRound(1);
+    setTimers({});
     saveCurrentSession(null);
   }, []);
 
@@ -146,13 +237,25 @@ export function useWorkout() {
     } : null);
   }, []);
 
+  // Update the running clocks (workout clock, rest, timed block) for persistence
+  const updateTimers = useCallback((changes: Partial<SessionTimers>) => {
+    setTimers(prev => ({ ...prev, ...changes }));
+  }, []);
+
   return {
     session,
     currentBlockIndex,
     currentExerciseIndex,
+    currentRound,
+    currentBlockRound,
+    timers,
     startWorkoutWithBlocks,
     startCardioWorkout,
     logExercise,
+    logRest,
+    logBlockResult,
+    logTrackPoint,
+    logHeartRate,
     nextExercise,
     previousExercise,
     completeWorkout,
@@ -161,5 +264,6 @@ export function useWorkout() {
     setCurrentExerciseIndex,
     updateSwappedExercises,
     updateSessionBlocks,
+    updateTimers,
   };
 }
@@ -2,9 +2,25 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { StorageError } from './components/StorageError'
+import { initRepository } from './data/repository'
+import { runStartupMigrations } from './data/migrations'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// Workout records are loaded into memory (and upgraded if needed) before the first render.
+// If that fails the app isn't shown, so nothing half-loaded gets saved over the stored data.
+initRepository()
+  .then(runStartupMigrations)
+  .then(
+    () => <App />,
+    err => {
+      console.error('[Moove] Could not load stored data:', err)
+      return <StorageError />
+    },
+  )
+  .then(root => {
+    createRoot(document.getElementById('root')!).render(
+      <StrictMode>
+        {root}
+      </StrictMode>,
+    )
+  })
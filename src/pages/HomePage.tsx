@@ -1,9 +1,16 @@
 import { useEffect, useState, useMemo, useCallback } from 'react';
-import { getWorkoutStats, getThisWeekWorkoutDates, getYearlyContributions, loadRestDays, saveRestDays, toggleYearDayStatus, hasWorkoutOnDate, hasRealWorkoutOnDate, addBacklogWorkout, getEffortHistory, backfillEffortScores, loadUserName, loadPersonality, getMostSkippedExercises, getSessionsByDate, getMostUsedExercises, formatLocalDate } from '../data/storage';
+import { getWorkoutStats, getThisWeekWorkoutDates, getYearlyContributions, loadRestDays, saveRestDays, getEffortHistory, loadUserName, loadPersonality, loadUnitPreferences, getMostSkippedExercises, getSessionsByDate, getMostUsedExercises, formatLocalDate, loadSavedWorkouts, planWorkout, unplanWorkout, saveSession, loadWeekStart, formatCardioActivity, type DayWorkoutInfo } from '../data/storage';
 import { EffortChart } from '../components/EffortChart';
+import { CardioTrends } from '../components/CardioTrends';
+import { SessionEditor } from '../components/SessionEditor';
 import { getExerciseById } from '../data/exercises';
+import { formatSets } from '../utils/sets';
+import { formatDistance } from '../utils/units';
+import { getWeekdayOrder } from '../utils/dates';
+import { getProgramsToday, WEEKDAY_NAMES, type ScheduledWorkout } from '../data/programs';
+import { getCardioTypesDone } from '../data/cardioStats';
+import { getCalendarPlans, getDayPlanStatus, type CalendarPlan, type PlanStatus } from '../data/calendar';
 import type { PersonalityType, WorkoutSession } from '../types';
-import { CARDIO_TYPE_LABELS, CARDIO_TYPE_ICONS } from '../types';
 
 function getTimeBasedGreeting(name: string | null, personality: PersonalityType): string {
   const hour = new Date().getHours();
@@ -47,20 +54,33 @@ function getTimeBasedGreeting(name: string | null, personality: PersonalityType)
   return options[Math.floor(Math.random() * options.length)];
 }
 
-export function HomePage() {
+interface HomePageProps {
+  onStartProgramWorkout: (scheduled: ScheduledWorkout) => void;
+  onStartPlannedWorkout: (plan: CalendarPlan) => void;
+}
+
+export function HomePage({ onStartProgramWorkout, onStartPlannedWorkout }: HomePageProps) {
   const [stats, setStats] = useState(() => getWorkoutStats());
-  const [, setThisWeekDates] = useState(() => getThisWeekWorkoutDates());
-  const [yearlyData, setYearlyData] = useState(() => getYearlyContributions());
+  const [, setThisWeekDates] = useState(() => new Set<string>());
+  const [yearlyData, setYearlyData] = useState(() => new Map<string, DayWorkoutInfo>());
   const [restDays, setRestDays] = useState(() => loadRestDays());
   const [effortHistory, setEffortHistory] = useState(() => getEffortHistory());
   const [userName] = useState(() => loadUserName());
   const [personality] = useState(() => loadPersonality());
+  const [units] = useState(() => loadUnitPreferences());
+  const [hasCardio] = useState(() => getCardioTypesDone().length > 0);
+  const [weekStart] = useState(() => loadWeekStart());
   const [mostSkipped, setMostSkipped] = useState(() => getMostSkippedExercises(5));
   const [mostUsedExercises, setMostUsedExercises] = useState(() => getMostUsedExercises(5));
+  const [programsToday, setProgramsToday] = useState(() => getProgramsToday());
+  const [calendarPlans, setCalendarPlans] = useState(() => getCalendarPlans());
+  const [savedWorkouts, setSavedWorkouts] = useState(() => loadSavedWorkouts());
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
   const [selectedDateWorkouts, setSelectedDateWorkouts] = useState<WorkoutSession[]>([]);
   const [exerciseTab, setExerciseTab] = useState<'used' | 'skipped'>('used');
   const [dateMenuOpen, setDateMenuOpen] = useState<string | null>(null);
+  const [planPickerOpen, setPlanPickerOpen] = useState(false); // Date menu shows saved workouts to plan
+  const [loggingDate, setLoggingDate] = useState<string | null>(null); // Date a past workout is being logged for
   const [monthOffset, setMonthOffset] = useState(0); // 0 = current month, -1 = previous, +1 = next
   const greeting = getTimeBasedGreeting(userName, personality);
 
@@ -70,26 +90,18 @@ export function HomePage() {
   // Refresh data on mount and when returning to the page
   const refreshData = useCallback(() => {
     setStats(getWorkoutStats());
-    setThisWeekDates(getThisWeekWorkoutDates());
-    setYearlyData(getYearlyContributions());
+    getThisWeekWorkoutDates().then(setThisWeekDates);
+    getYearlyContributions().then(setYearlyData);
     setRestDays(loadRestDays());
     setEffortHistory(getEffortHistory());
     setMostSkipped(getMostSkippedExercises(5));
     setMostUsedExercises(getMostUsedExercises(5));
+    setProgramsToday(getProgramsToday());
+    setCalendarPlans(getCalendarPlans());
+    setSavedWorkouts(loadSavedWorkouts());
   }, []);
 
   useEffect(() => {
-    // Add backlog workouts for specified dates (only if not already present)
-    const backlogDates = ['2026-01-06', '2026-01-07', '2026-01-20', '2026-01-21', '2026-01-23', '2026-01-24'];
-    backlogDates.forEach(dateStr => {
-      if (!hasWorkoutOnDate(dateStr)) {
-        addBacklogWorkout(dateStr);
-      }
-    });
-
-    // Backfill effort scores for workouts that don't have them
-    backfillEffortScores();
-
     refreshData();
   }, [refreshData]);
 
@@ -105,52 +117,70 @@ export function HomePage() {
   }, [refreshData]);
 
   // Handle date menu actions
-  const handleDateMenuAction = useCallback((dateStr: string, action: 'workout' | 'rest' | 'clear' | 'view') => {
+  const handleDateMenuAction = useCallback((dateStr: string, action: 'log' | 'rest' | 'unplan' | 'clear' | 'view') => {
     setDateMenuOpen(null);
+    setPlanPickerOpen(false);
 
     if (action === 'view') {
-      const sessions = getSessionsByDate(dateStr);
-      if (sessions.length > 0) {
-        setSelectedDate(dateStr);
-        setSelectedDateWorkouts(sessions);
-      }
+      getSessionsByDate(dateStr).then(sessions => {
+        if (sessions.length > 0) {
+          setSelectedDate(dateStr);
+          setSelectedDateWorkouts(sessions);
+        }
+      });
       return;
     }
 
-    if (action === 'workout') {
-      if (!hasWorkoutOnDate(dateStr)) {
-        addBacklogWorkout(dateStr);
-      }
-    } else if (action === 'rest') {
+    if (action === 'log') {
+      setLoggingDate(dateStr);
+      return;
+    }
+
+    if (action === 'rest') {
       const currentRestDays = loadRestDays();
       if (!currentRestDays.has(dateStr)) {
-        if (hasWorkoutOnDate(dateStr) && !hasRealWorkoutOnDate(dateStr)) {
-          // Remove backlog workout first
-          toggleYearDayStatus(dateStr);
-        }
         currentRestDays.add(dateStr);
         saveRestDays(currentRestDays);
       }
+      unplanWorkout(dateStr);
+    } else if (action === 'unplan') {
+      unplanWorkout(dateStr);
     } else if (action === 'clear') {
-      // Clear both workout and rest status
-      if (hasWorkoutOnDate(dateStr) && !hasRealWorkoutOnDate(dateStr)) {
-        toggleYearDayStatus(dateStr); // Remove backlog workout
-      }
+      // Clear rest and plan
       const currentRestDays = loadRestDays();
       if (currentRestDays.has(dateStr)) {
         currentRestDays.delete(dateStr);
         saveRestDays(currentRestDays);
       }
+      unplanWorkout(dateStr);
     }
 
     // Refresh data
-    setYearlyData(getYearlyContributions());
+    getYearlyContributions().then(setYearlyData);
     setRestDays(loadRestDays());
+    setCalendarPlans(getCalendarPlans());
     setStats(getWorkoutStats());
-    setThisWeekDates(getThisWeekWorkoutDates());
+    getThisWeekWorkoutDates().then(setThisWeekDates);
+  }, []);
+
+  const handleLogSession = useCallback((session: WorkoutSession) => {
+    saveSession(session);
+    setLoggingDate(null);
+    refreshData();
+  }, [refreshData]);
+
+  const handlePlanWorkout = useCallback((dateStr: string, workoutId: string) => {
+    setDateMenuOpen(null);
+    setPlanPickerOpen(false);
+    planWorkout(dateStr, workoutId);
+    setRestDays(loadRestDays());
+    setCalendarPlans(getCalendarPlans());
   }, []);
 
 
+  // Calendar plans for today; program slots have their own cards
+  const todaysPlans = (calendarPlans.get(formatLocalDate(new Date())) ?? []).filter(plan => !plan.scheduled);
+
   // Day info type for calendar
   type DayInfo = {
     date: Date | null;
@@ -161,6 +191,8 @@ export function HomePage() {
     isRest: boolean;
     isToday: boolean;
     isPast: boolean;
+    plans: CalendarPlan[];
+    planStatus: PlanStatus | null;
   };
 
   // This Month calendar grid
@@ -173,10 +205,8 @@ export function HomePage() {
     const lastDay = new Date(year, month + 1, 0);
     const daysInMonth = lastDay.getDate();
 
-    // Get the day of week the month starts on (0 = Sunday)
-    const startDayOfWeek = firstDay.getDay();
-    // Adjust for Monday start
-    const mondayAdjustedStart = startDayOfWeek === 0 ? 6 : startDayOfWeek - 1;
+    // Empty cells before the 1st, counted from the chosen week start
+    const leadingDays = (firstDay.getDay() - weekStart + 7) % 7;
 
     const weeks: { days: DayInfo[]; isCurrentWeek: boolean }[] = [];
     let currentWeekDays: DayInfo[] = [];
@@ -184,8 +214,8 @@ export function HomePage() {
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
 
     // Add empty cells for days before the month starts
-    for (let i = 0; i < mondayAdjustedStart; i++) {
-      currentWeekDays.push({ date: null, dateStr: '', hasWorkout: false, hasCardio: false, hasStrength: false, isRest: false, isToday: false, isPast: false });
+    for (let i = 0; i < leadingDays; i++) {
+      currentWeekDays.push({ date: null, dateStr: '', hasWorkout: false, hasCardio: false, hasStrength: false, isRest: false, isToday: false, isPast: false, plans: [], planStatus: null });
     }
 
     // Add all days of the month
@@ -196,6 +226,7 @@ export function HomePage() {
       const isPast = date < today;
       const dayInfo = yearlyData.get(dateStr) || { count: 0, hasCardio: false, hasStrength: false };
       const hasWorkout = dayInfo.count > 0;
+      const plans = calendarPlans.get(dateStr) ?? [];
 
       if (isToday) {
         weekContainsToday = true;
@@ -210,6 +241,8 @@ export function HomePage() {
         isRest: restDays.has(dateStr),
         isToday,
         isPast,
+        plans,
+        planStatus: getDayPlanStatus(plans),
       });
 
       if (currentWeekDays.length === 7) {
@@ -222,7 +255,7 @@ export function HomePage() {
     // Fill remaining days in last week
     if (currentWeekDays.length > 0) {
       while (currentWeekDays.length < 7) {
-        currentWeekDays.push({ date: null, dateStr: '', hasWorkout: false, hasCardio: false, hasStrength: false, isRest: false, isToday: false, isPast: false });
+        currentWeekDays.push({ date: null, dateStr: '', hasWorkout: false, hasCardio: false, hasStrength: false, isRest: false, isToday: false, isPast: false, plans: [], planStatus: null });
       }
       weeks.push({ days: currentWeekDays, isCurrentWeek: weekContainsToday });
     }
@@ -239,7 +272,7 @@ export function HomePage() {
       todayFormatted,
       isCurrentMonth,
     };
-  }, [yearlyData, restDays, currentDateStr, monthOffset]);
+  }, [yearlyData, restDays, calendarPlans, currentDateStr, monthOffset, weekStart]);
 
   // Year day info type
   type YearDayInfo = {
@@ -264,11 +297,9 @@ export function HomePage() {
     const labels: { weekIndex: number; label: string }[] = [];
     let foundCurrentWeekIdx = -1;
 
-    // Start from the Monday of the week containing Jan 1
-    const firstDay = startDate.getDay();
-    const mondayOffset = firstDay === 0 ? -6 : 1 - firstDay;
+    // Start from the first day of the week containing Jan 1
     const gridStart = new Date(startDate);
-    gridStart.setDate(startDate.getDate() + mondayOffset);
+    gridStart.setDate(startDate.getDate() - (startDate.getDay() - weekStart + 7) % 7);
 
     let currentMonth = -1;
     let currentDate = new Date(gridStart);
@@ -333,7 +364,7 @@ export function HomePage() {
     }
 
     return { contributionGrid: weeks, monthLabels: labels, currentWeekIndex: foundCurrentWeekIdx };
-  }, [yearlyData, restDays, currentDateStr]);
+  }, [yearlyData, restDays, currentDateStr, weekStart]);
 
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -361,6 +392,17 @@ export function HomePage() {
     return count;
   }, [contributionGrid]);
 
+  // Log a past workout
+  if (loggingDate) {
+    return (
+      <SessionEditor
+        date={loggingDate}
+        onSave={handleLogSession}
+        onCancel={() => setLoggingDate(null)}
+      />
+    );
+  }
+
   // Workout details modal
   if (selectedDate && selectedDateWorkouts.length > 0) {
     const dateDisplay = new Date(selectedDate + 'T12:00:00').toLocaleDateString('en-US', {
@@ -405,9 +447,9 @@ export function HomePage() {
                 {session.cardioType ? (
                   <>
                     <span className="flex items-center gap-1">
-                      {CARDIO_TYPE_ICONS[session.cardioType]} {CARDIO_TYPE_LABELS[session.cardioType]}
+                      {formatCardioActivity(session.cardioType, session.customActivityId)}
                     </span>
-                    {session.distance && <span>{session.distance} miles</span>}
+                    {session.distance && <span>{formatDistance(session.distance, units.distance)}</span>}
                   </>
                 ) : (
                   <span>{session.exercises.length} exercises</span>
@@ -433,10 +475,7 @@ export function HomePage() {
                             {exercise?.name || log.exerciseId}
                           </span>
                           <span className="text-sm text-slate-500 dark:text-slate-400 tabular-nums">
-                            {log.weight && `${log.weight}lb`}
-                            {log.weight && log.reps && ' × '}
-                            {log.reps && `${log.reps}`}
-                            {log.duration && `${log.duration}s`}
+                            {formatSets(log.sets, units.weight)}
                           </span>
                         </div>
                       );
@@ -481,6 +520,106 @@ export function HomePage() {
       {/* Greeting */}
       <p className="px-4 mt-4 text-base text-slate-600 dark:text-slate-300 leading-relaxed">{greeting}</p>
 
+      {/* Running programs: today's workout and progress through the plan */}
+      {/* Today's planned workout */}
+      {todaysPlans.length > 0 && (
+        <section className="px-4 mt-4">
+          <div className="p-4 rounded-xl bg-white dark:bg-slate-800 border border-blue-200 dark:border-blue-800 shadow-sm">
+            <h2 className="text-base font-semibold text-slate-800 dark:text-slate-200 mb-3">Today's Planned Workout</h2>
+            <div className="space-y-2">
+              {todaysPlans.map((plan, idx) => (
+                <div key={idx} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+                  <div className="min-w-0">
+                    <div className="font-medium text-slate-800 dark:text-slate-200 truncate">
+                      {plan.workout?.name ?? 'Deleted workout'}
+                    </div>
+                    {plan.workout?.estimatedMinutes && (
+                      <div className="text-xs text-slate-500 dark:text-slate-400">~{plan.workout.estimatedMinutes} min</div>
+                    )}
+                  </div>
+                  {plan.status === 'done' ? (
+                    <span className="flex items-center gap-1 text-sm font-semibold text-emerald-600 dark:text-emerald-400">
+                      <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>check_circle</span>
+                      Done
+                    </span>
+                  ) : plan.workout && (
+                    <button
+                      onClick={() => onStartPlannedWorkout(plan)}
+                      className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-semibold transition-colors"
+                    >
+                      Start
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </section>
+      )}
+
+      {programsToday.map(({ program, progress, today, next }) => (
+        <section key={program.id} className="px-4 mt-4">
+          <div className="p-4 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-sm">
+            <div className="flex items-center justify-between mb-1">
+              <h2 className="text-base font-semibold text-slate-800 dark:text-slate-200">{program.name}</h2>
+              <span className="text-xs font-medium text-slate-500 dark:text-slate-400">
+                Week {progress.week} of {program.weeks}
+              </span>
+            </div>
+            <div className="h-1.5 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden mb-1">
+              <div
+                className="h-full bg-emerald-500 rounded-full"
+                style={{ width: `${progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+              {progress.completed} of {progress.total} done
+              {progress.missed > 0 && <span className="text-amber-600 dark:text-amber-400"> · {progress.missed} missed</span>}
+            </p>
+
+            {today.length > 0 ? (
+              <div className="space-y-2">
+                {today.map(scheduled => (
+                  <div
+                    key={`${scheduled.slot.week}-${scheduled.slot.weekday}`}
+                    className="flex items-center justify-between gap-3 p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-xs text-slate-500 dark:text-slate-400">Today</div>
+                      <div className="font-medium text-slate-800 dark:text-slate-200 truncate">
+                        {scheduled.workout?.name ?? 'Deleted workout'}
+                      </div>
+                    </div>
+                    {scheduled.session ? (
+                      <span className="flex items-center gap-1 text-sm font-semibold text-emerald-600 dark:text-emerald-400">
+                        <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>check_circle</span>
+                        Done
+                      </span>
+                    ) : scheduled.workout && (
+                      <button
+                        onClick={() => onStartProgramWorkout(scheduled)}
+                        className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-semibold transition-colors"
+                      >
+                        Start
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-600 dark:text-slate-300">
+                Nothing scheduled today.
+                {next && (
+                  <span className="text-slate-500 dark:text-slate-400">
+                    {' '}Next: {WEEKDAY_NAMES[next.slot.weekday]} · {next.workout?.name ?? 'Deleted workout'}
+                  </span>
+                )}
+              </p>
+            )}
+          </div>
+        </section>
+      ))}
+
       {/* This Month Calendar */}
       <section className="px-4 mb-6 mt-4">
         <div className="flex items-center justify-between mb-3">
@@ -527,9 +666,9 @@ export function HomePage() {
           </div>
           {/* Day headers */}
           <div className="grid grid-cols-7 mb-2">
-            {['M', 'T', 'W', 'T', 'F', 'S', 'S'].map((day, i) => (
-              <div key={i} className="flex justify-center text-xs text-slate-400 dark:text-slate-500 font-medium">
-                {day}
+            {getWeekdayOrder(weekStart).map(weekday => (
+              <div key={weekday} className="flex justify-center text-xs text-slate-400 dark:text-slate-500 font-medium">
+                {WEEKDAY_NAMES[weekday][0]}
               </div>
             ))}
           </div>
@@ -545,76 +684,141 @@ export function HomePage() {
                 }`}
               >
                 {week.days.map((day, dayIdx) => {
-                  const hasRealWorkout = day.dateStr ? hasRealWorkoutOnDate(day.dateStr) : false;
                   const isMenuOpen = dateMenuOpen === day.dateStr;
+                  const isFuture = !!day.date && !day.isPast && !day.isToday;
+                  const hasOwnPlan = day.plans.some(plan => !plan.scheduled);
                   return (
                     <div key={dayIdx} className="flex justify-center relative">
                       <button
                         onClick={() => {
                           if (!day.dateStr) return;
                           setDateMenuOpen(isMenuOpen ? null : day.dateStr);
+                          setPlanPickerOpen(false);
                         }}
                         disabled={!day.date}
-                        className={`w-10 h-10 rounded-full flex items-center justify-center text-xs font-medium transition-colors ${
+                        className={`relative w-10 h-10 rounded-full flex items-center justify-center text-xs font-medium transition-colors ${
                           !day.date
                             ? 'bg-transparent'
                             : day.hasWorkout
-                            ? hasRealWorkout
-                              ? `bg-emerald-500 text-white ring-2 ring-emerald-300 dark:ring-emerald-700 ${day.isPast ? 'opacity-60' : ''}`
-                              : `bg-emerald-500 text-white ${day.isPast ? 'opacity-60' : ''}`
+                            ? `bg-emerald-500 text-white ring-2 ring-emerald-300 dark:ring-emerald-700 ${day.isPast ? 'opacity-60' : ''}`
                             : day.isRest
                             ? `bg-violet-300 dark:bg-violet-400 text-white ${day.isPast ? 'opacity-60' : ''}`
+                            : day.planStatus === 'missed'
+                            ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 opacity-80'
+                            : day.planStatus === 'planned'
+                            ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 border-2 border-dashed border-blue-400'
                             : day.isToday
                             ? 'border-2 border-dashed border-emerald-500 text-slate-700 dark:text-slate-300'
                             : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-600'
                         } ${day.isToday && day.date ? 'ring-2 ring-offset-2 ring-emerald-500 dark:ring-offset-slate-800' : ''}`}
                       >
                         {day.date?.getDate()}
+                        {/* Plan marker on days with a workout, where the fill doesn't show it */}
+                        {day.hasWorkout && day.planStatus && (
+                          <span className={`absolute bottom-1 w-1.5 h-1.5 rounded-full ${
+                            day.planStatus === 'done' ? 'bg-white' : day.planStatus === 'missed' ? 'bg-amber-300' : 'bg-blue-300'
+                          }`} />
+                        )}
                       </button>
                       {/* Date menu popup */}
                       {isMenuOpen && (
                         <>
-                          <div className="fixed inset-0 z-40" onClick={() => setDateMenuOpen(null)} />
-                          <div className="absolute top-12 left-1/2 -translate-x-1/2 z-50 bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 py-1 min-w-[160px]">
-                            {/* Empty option - only show if day has something to clear */}
-                            {(day.hasWorkout || day.isRest) && !hasRealWorkout && (
-                              <button
-                                onClick={() => handleDateMenuAction(day.dateStr, 'clear')}
-                                className="w-full px-4 py-2.5 text-left text-sm hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-3"
-                              >
-                                <span className="material-symbols-outlined text-slate-400 dark:text-slate-500" style={{ fontSize: '18px' }}>blur_on</span>
-                                <span className="font-semibold text-slate-400 dark:text-slate-500">Empty</span>
-                              </button>
-                            )}
-                            {/* Active option - only for non-real workouts */}
-                            {!hasRealWorkout && (
-                              <button
-                                onClick={() => handleDateMenuAction(day.dateStr, 'workout')}
-                                className="w-full px-4 py-2.5 text-left text-sm hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-3"
-                              >
-                                <span className="material-symbols-outlined text-emerald-500" style={{ fontSize: '18px' }}>exercise</span>
-                                <span className="font-semibold text-emerald-600 dark:text-emerald-400">Active</span>
-                              </button>
-                            )}
-                            {/* Rest option - only for non-real workouts */}
-                            {!hasRealWorkout && (
-                              <button
-                                onClick={() => handleDateMenuAction(day.dateStr, 'rest')}
-                                className="w-full px-4 py-2.5 text-left text-sm hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-3"
-                              >
-                                <span className="material-symbols-outlined text-violet-400 dark:text-violet-300" style={{ fontSize: '18px' }}>relax</span>
-                                <span className="font-semibold text-violet-500 dark:text-violet-400">Rest</span>
-                              </button>
-                            )}
-                            {/* View History - only for real workouts */}
-                            {hasRealWorkout && (
-                              <button
-                                onClick={() => handleDateMenuAction(day.dateStr, 'view')}
-                                className="w-full px-4 py-2.5 text-left text-sm hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-3"
-                              >
-                                <span className="material-symbols-outlined text-slate-500 dark:text-slate-400" style={{ fontSize: '18px' }}>history</span>
-                                <span className="font-semibold text-slate-600 dark:text-slate-300">View History</span>
-                              </button>
+                          <div className="fixed inset-0 z-40" onClick={() => { setDateMenuOpen(null); setPlanPickerOpen(false); }} />
+                          <div className="absolute top-12 left-1/2 -translate-x-1/2 z-50 bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 py-1 min-w-[180px] max-h-72 overflow-y-auto">
+                            {planPickerOpen ? (
+                              <>
+                                {/* Saved workouts to plan on this date */}
+                                <div className="px-4 pt-2 pb-1 text-xs font-medium text-slate-500 dark:text-slate-400">Plan a workout</div>
+                                {savedWorkouts.length === 0 && (
+                                  <div className="px-4 py-2 text-sm text-slate-500 dark:text-slate-400">No saved workouts yet</div>
+                                )}
+                                {savedWorkouts.map(workout => (
+                                  <button
+                                    key={workout.id}
+                                    onClick={() => handlePlanWorkout(day.dateStr, workout.id)}
+                                    className="w-full px-4 py-2.5 text-left text-sm font-medium text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 truncate"
+                                  >
+                                    {workout.name}
+                                  </button>
+                                ))}
+                              </>
+                            ) : (
+                              <>
+                                {/* What's planned, with how it went */}
+                                {day.plans.map((plan, idx) => (
+                                  <div key={idx} className="px-4 py-2 text-xs border-b border-slate-100 dark:border-slate-700/50">
+                                    <div className="font-semibold text-slate-700 dark:text-slate-200 truncate">{plan.workout?.name ?? 'Deleted workout'}</div>
+                                    <div className={
+                                      plan.status === 'done' ? 'text-emerald-600 dark:text-emerald-400'
+                                        : plan.status === 'missed' ? 'text-amber-600 dark:text-amber-400'
+                                        : 'text-blue-600 dark:text-blue-400'
+                                    }>
+                                      {plan.status === 'done' ? 'Done' : plan.status === 'missed' ? 'Missed' : 'Planned'}
+                                      {plan.scheduled && ` · ${plan.scheduled.program.name}`}
+                                    </div>
+                                  </div>
+                                ))}
+                                {/* Empty option - only show if day has a rest or plan to clear */}
+                                {(day.isRest || hasOwnPlan) && !day.hasWorkout && (
+                                  <button
+                                    onClick={() => handleDateMenuAction(day.dateStr, 'clear')}
+                                    className="w-full px-4 py-2.5 text-left text-sm hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-3"
+                                  >
+                                    <span className="material-symbols-outlined text-slate-400 dark:text-slate-500" style={{ fontSize: '18px' }}>blur_on</span>
+                                    <span className="font-semibold text-slate-400 dark:text-slate-500">Empty</span>
+                                  </button>
+                                )}
+                                {/* Log option - days that have happened */}
+                                {!isFuture && (
+                                  <button
+                                    onClick={() => handleDateMenuAction(day.dateStr, 'log')}
+                                    className="w-full px-4 py-2.5 text-left text-sm hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-3"
+                                  >
+                                    <span className="material-symbols-outlined text-emerald-500" style={{ fontSize: '18px' }}>exercise</span>
+                                    <span className="font-semibold text-emerald-600 dark:text-emerald-400">Log Workout</span>
+                                  </button>
+                                )}
+                                {/* Plan option - today and future days */}
+                                {!day.isPast && (
+                                  <button
+                                    onClick={() => setPlanPickerOpen(true)}
+                                    className="w-full px-4 py-2.5 text-left text-sm hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-3"
+                                  >
+                                    <span className="material-symbols-outlined text-blue-500" style={{ fontSize: '18px' }}>event</span>
+                                    <span className="font-semibold text-blue-600 dark:text-blue-400">{hasOwnPlan ? 'Change Plan' : 'Plan Workout'}</span>
+                                  </button>
+                                )}
+                                {/* Remove plan - when the day has one of its own */}
+                                {hasOwnPlan && (
+                                  <button
+                                    onClick={() => handleDateMenuAction(day.dateStr, 'unplan')}
+                                    className="w-full px-4 py-2.5 text-left text-sm hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-3"
+                                  >
+                                    <span className="material-symbols-outlined text-slate-400 dark:text-slate-500" style={{ fontSize: '18px' }}>event_busy</span>
+                                    <span className="font-semibold text-slate-500 dark:text-slate-400">Remove Plan</span>
+                                  </button>
+                                )}
+                                {/* Rest option - only for days without a workout */}
+                                {!day.hasWorkout && (
+                                  <button
+                                    onClick={() => handleDateMenuAction(day.dateStr, 'rest')}
+                                    className="w-full px-4 py-2.5 text-left text-sm hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-3"
+                                  >
+                                    <span className="material-symbols-outlined text-violet-400 dark:text-violet-300" style={{ fontSize: '18px' }}>relax</span>
+                                    <span className="font-semibold text-violet-500 dark:text-violet-400">Rest</span>
+                                  </button>
+                                )}
+                                {/* View History - days with a workout */}
+                                {day.hasWorkout && (
+                                  <button
+                                    onClick={() => handleDateMenuAction(day.dateStr, 'view')}
+                                    className="w-full px-4 py-2.5 text-left text-sm hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-3"
+                                  >
+                                    <span className="material-symbols-outlined text-slate-500 dark:text-slate-400" style={{ fontSize: '18px' }}>history</span>
+                                    <span className="font-semibold text-slate-600 dark:text-slate-300">View History</span>
+                                  </button>
+                                )}
+                              </>
                             )}
                           </div>
                         </>
@@ -626,11 +830,23 @@ export function HomePage() {
             ))}
           </div>
           {/* Legend */}
-          <div className="flex items-center justify-center gap-4 mt-3 text-[11px]">
+          <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1.5 mt-3 text-[11px]">
             <div className="flex items-center gap-1.5">
               <span className="material-symbols-outlined text-emerald-500" style={{ fontSize: '14px' }}>exercise</span>
               <span className="font-semibold text-emerald-600 dark:text-emerald-400">Active</span>
             </div>
+            <div className="flex items-center gap-1.5">
+              <span className="material-symbols-outlined text-emerald-500" style={{ fontSize: '14px' }}>event_available</span>
+              <span className="font-semibold text-emerald-600 dark:text-emerald-400">Done</span>
+            </div>
+            <div className="flex items-center gap-1.5">
+              <span className="material-symbols-outlined text-blue-500" style={{ fontSize: '14px' }}>event</span>
+              <span className="font-semibold text-blue-600 dark:text-blue-400">Planned</span>
+            </div>
+            <div className="flex items-center gap-1.5">
+              <span className="material-symbols-outlined text-amber-500" style={{ fontSize: '14px' }}>event_busy</span>
+              <span className="font-semibold text-amber-600 dark:text-amber-400">Missed</span>
+            </div>
             <div className="flex items-center gap-1.5">
               <span className="material-symbols-outlined text-violet-400 dark:text-violet-300" style={{ fontSize: '14px' }}>relax</span>
               <span className="font-semibold text-violet-500 dark:text-violet-400">Rest</span>
@@ -742,6 +958,18 @@ export function HomePage() {
             </div>
           </div>
 
+          {/* Cardio Trends Card */}
+          {hasCardio && (
+            <div className="rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
+              <div className="px-4 pt-3 pb-1">
+                <h3 className="text-sm font-medium text-slate-600 dark:text-slate-400">Cardio Trends</h3>
+              </div>
+              <div className="p-4 pt-2">
+                <CardioTrends unit={units.distance} />
+              </div>
+            </div>
+          )}
+
           {/* Stats Card */}
           <div className="rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
             <div className="px-4 pt-3 pb-1">
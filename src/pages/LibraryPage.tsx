@@ -1,21 +1,41 @@
-import { useState, useRef, useMemo } from 'react';
-import type { SavedWorkout, WorkoutBlock, Exercise, MuscleArea, EquipmentType, WorkoutSession } from '../types';
-import { CARDIO_TYPE_LABELS, CARDIO_TYPE_ICONS } from '../types';
-import { loadSavedWorkouts, deleteSavedWorkout, addSavedWorkout, updateSavedWorkout, getLastWeekAverages, loadFavorites, toggleFavoriteWorkout, toggleFavoriteExercise, getExerciseDescription, setExerciseDescription, clearExerciseDescription, loadSessions, deleteSession } from '../data/storage';
+import { useState, useRef, useMemo, useEffect } from 'react';
+import type { SavedWorkout, Program, WorkoutBlock, Exercise, MuscleArea, EquipmentType, WorkoutSession, PersonalRecordKind, ExerciseLog } from '../types';
+import { PERSONAL_RECORD_LABELS } from '../types';
+import { loadSavedWorkouts, deleteSavedWorkout, addSavedWorkout, updateSavedWorkout, getLastWeekAverages, getExerciseHistory, loadFavorites, toggleFavoriteWorkout, toggleFavoriteExercise, getExerciseDescription, setExerciseDescription, clearExerciseDescription, loadSessions, deleteSession, saveSession, loadUnitPreferences, loadPrograms, addProgram, updateProgram, deleteProgram, formatLocalDate, formatCardioActivity } from '../data/storage';
 import { useExercises } from '../contexts/ExerciseContext';
 import { useSignUpPrompt } from '../contexts/SignUpPromptContext';
 import { Button } from '../components/Button';
+import { formatSets, formatSet } from '../utils/sets';
+import { formatWeight, formatDistance } from '../utils/units';
+import { formatRest, summarizeRests } from '../utils/rest';
+import { describeTiming, formatBlockResult } from '../utils/timedBlocks';
+import { getGroupLabel } from '../utils/groups';
+import { getExerciseRecords, getSessionTonnage, estimateOneRepMax, formatRecordValue, type ExerciseRecords } from '../data/progression';
 import { WorkoutBuilder } from '../components/WorkoutBuilder';
+import { ProgramEditor } from '../components/ProgramEditor';
+import { SessionEditor } from '../components/SessionEditor';
+import { CardioSessionDetail } from '../components/CardioSessionDetail';
+import { HeartRateSummary } from '../components/HeartRateSummary';
+import { exportSessionAsGPX, exportSessionAsTCX, getActivityFileName } from '../data/activityFiles';
+import { getProgramProgress, describeProgramWeek, WEEKDAY_NAMES } from '../data/programs';
 
 interface LibraryPageProps {
   onStartWorkout: (blocks: WorkoutBlock[]) => void;
 }
 
-type TabType = 'workouts' | 'exercises' | 'history';
+type TabType = 'workouts' | 'programs' | 'exercises' | 'history';
 
 type SourceFilter = 'all' | 'default' | 'custom' | 'favorites';
 type TypeFilter = 'all' | MuscleArea;
 
+/** History shown on an exercise's detail view */
+interface ExerciseDetail {
+  exerciseId: string;
+  averages: { avgWeight: number; avgReps: number } | null;
+  recentLogs: ExerciseLog[];
+  records: ExerciseRecords;
+}
+
 const SOURCE_FILTERS: { value: SourceFilter; label: string }[] = [
   { value: 'all', label: 'All' },
   { value: 'default', label: 'Built-In' },
@@ -41,6 +61,7 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
   const { triggerSignUpPrompt } = useSignUpPrompt();
   const { exercises, addExercise, updateExercise, deleteExercise, getExerciseById } = useExercises();
   const [activeTab, setActiveTab] = useState<TabType>('workouts');
+  const [units] = useState(() => loadUnitPreferences());
 
   // Workouts state
   const [workouts, setWorkouts] = useState(() => loadSavedWorkouts());
@@ -52,6 +73,11 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
+  // Programs state
+  const [programs, setPrograms] = useState(() => loadPrograms());
+  const [editingProgram, setEditingProgram] = useState<Program | 'new' | null>(null);
+  const [showProgramDeleteConfirm, setShowProgramDeleteConfirm] = useState<string | null>(null);
+
   // Exercises state
   const [sourceFilter, setSourceFilter] = useState<SourceFilter>('all');
   const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
@@ -60,6 +86,21 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
   const [showExerciseDeleteConfirm, setShowExerciseDeleteConfirm] = useState<string | null>(null);
   const [favorites, setFavorites] = useState(() => loadFavorites());
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [exerciseDetail, setExerciseDetail] = useState<ExerciseDetail | null>(null);
+
+  // History for the exercise detail view, read when an exercise is opened
+  useEffect(() => {
+    if (!selectedExercise) return;
+    const exerciseId = selectedExercise.id;
+    let stale = false;
+    Promise.all([getLastWeekAverages(exerciseId), getExerciseHistory(exerciseId, 5), getExerciseRecords(exerciseId)])
+      .then(([averages, recentLogs, records]) => {
+        if (!stale) setExerciseDetail({ exerciseId, averages, recentLogs, records });
+      });
+    return () => {
+      stale = true;
+    };
+  }, [selectedExercise]);
 
   // Create/edit exercise modal state
   const [showCreateExercise, setShowCreateExercise] = useState(false);
@@ -74,6 +115,7 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
   // History state
   const [sessions, setSessions] = useState(() => loadSessions().filter(s => s.completedAt));
   const [selectedSession, setSelectedSession] = useState<WorkoutSession | null>(null);
+  const [editingSession, setEditingSession] = useState<WorkoutSession | 'new' | null>(null);
 
   // History swipe to delete state
   const [swipingSession, setSwipingSession] = useState<string | null>(null);
@@ -130,6 +172,26 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
     historySwipeActive.current = false;
   };
 
+  const handleSaveSession = (session: WorkoutSession) => {
+    saveSession(session);
+    setSessions(loadSessions().filter(s => s.completedAt));
+    if (editingSession !== 'new') setSelectedSession(session);
+    setEditingSession(null);
+  };
+
+  const handleExportActivity = (session: WorkoutSession, format: 'gpx' | 'tcx') => {
+    const data = format === 'gpx' ? exportSessionAsGPX(session) : exportSessionAsTCX(session);
+    const blob = new Blob([data], { type: format === 'gpx' ? 'application/gpx+xml' : 'application/vnd.garmin.tcx+xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = getActivityFileName(session, format);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const handleDeleteSession = (sessionId: string) => {
     deleteSession(sessionId);
     setSessions(loadSessions().filter(s => s.completedAt));
@@ -465,6 +527,28 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
     setShowDeleteConfirm(null);
   };
 
+  const handleSaveProgram = (program: Omit<Program, 'id' | 'createdAt' | 'updatedAt'>) => {
+    if (editingProgram && editingProgram !== 'new') {
+      updateProgram(editingProgram.id, program);
+    } else {
+      addProgram(program);
+    }
+    setPrograms(loadPrograms());
+    setEditingProgram(null);
+  };
+
+  const handleDeleteProgram = (id: string) => {
+    deleteProgram(id);
+    setPrograms(loadPrograms());
+    setShowProgramDeleteConfirm(null);
+  };
+
+  // Starting again from today begins a fresh run; sessions from the last one stay in history
+  const handleToggleProgramRun = (program: Program, running: boolean) => {
+    updateProgram(program.id, { startDate: running ? undefined : formatLocalDate(new Date()) });
+    setPrograms(loadPrograms());
+  };
+
   const handleDeleteExercise = (id: string) => {
     deleteExercise(id);
     setShowExerciseDeleteConfirm(null);
@@ -577,6 +661,27 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
     );
   }
 
+  if (editingSession) {
+    return (
+      <SessionEditor
+        session={editingSession === 'new' ? undefined : editingSession}
+        onSave={handleSaveSession}
+        onCancel={() => setEditingSession(null)}
+      />
+    );
+  }
+
+  if (editingProgram) {
+    return (
+      <ProgramEditor
+        program={editingProgram === 'new' ? undefined : editingProgram}
+        workouts={workouts}
+        onSave={handleSaveProgram}
+        onCancel={() => setEditingProgram(null)}
+      />
+    );
+  }
+
   // Save workout form
   if (savingBlocks) {
     return (
@@ -740,7 +845,7 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
                                   <span className="shrink-0 text-sm text-slate-400 dark:text-slate-500 tabular-nums">
                                     {ex.reps && `${ex.reps} reps`}
                                     {ex.duration && `${ex.duration}s`}
-                                    {ex.weight && ` @ ${ex.weight}lb`}
+                                    {ex.weight && ` @ ${formatWeight(ex.weight, units.weight)}`}
                                   </span>
                                   {/* Copy to next set - only for strength block and not last set */}
                                   {block.type === 'strength' && setNum < 3 && (
@@ -865,7 +970,11 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
 
   // Exercise detail view
   if (selectedExercise) {
-    const averages = getLastWeekAverages(selectedExercise.id);
+    const detail = exerciseDetail?.exerciseId === selectedExercise.id ? exerciseDetail : null;
+    const averages = detail?.averages ?? null;
+    const recentLogs = detail?.recentLogs ?? [];
+    const records = detail?.records ?? {};
+    const recordKinds = (Object.keys(PERSONAL_RECORD_LABELS) as PersonalRecordKind[]).filter(kind => records[kind]);
     const isCustom = selectedExercise.id.startsWith('custom-');
     const customDescription = getExerciseDescription(selectedExercise.id);
 
@@ -921,7 +1030,7 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
               {selectedExercise.defaultWeight && (
                 <div>
                   <div className="text-2xl font-bold text-slate-900 dark:text-slate-100">
-                    {selectedExercise.defaultWeight} lb
+                    {formatWeight(selectedExercise.defaultWeight, units.weight)}
                   </div>
                   <div className="text-sm text-slate-500 dark:text-slate-400">Weight</div>
                 </div>
@@ -945,13 +1054,41 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
             </div>
           </div>
 
+          {recordKinds.length > 0 && (
+            <div className="p-4 rounded-xl bg-amber-50 dark:bg-amber-600/10 border border-amber-200 dark:border-amber-600/20">
+              <h3 className="text-sm font-medium text-amber-700 dark:text-amber-400 mb-3">Personal Records</h3>
+              <div className="grid grid-cols-2 gap-4">
+                {recordKinds.map(kind => {
+                  const record = records[kind]!;
+                  return (
+                    <div key={kind}>
+                      <div className="text-2xl font-bold text-slate-900 dark:text-slate-100">
+                        {formatRecordValue(kind, record.value, units.weight)}
+                      </div>
+                      <div className="text-sm text-slate-500 dark:text-slate-400">{PERSONAL_RECORD_LABELS[kind]}</div>
+                      <div className="text-xs text-slate-400 dark:text-slate-500">
+                        {record.set && kind !== 'reps' && `${formatSet(record.set, units.weight)} · `}
+                        {new Date(record.achievedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              {records.e1rm?.set?.weight && records.e1rm.set.reps && records.e1rm.set.reps > 1 && (
+                <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+                  Estimated 1RM uses the Epley formula (Brzycki: {formatWeight(estimateOneRepMax(records.e1rm.set.weight, records.e1rm.set.reps, 'brzycki'), units.weight)})
+                </p>
+              )}
+            </div>
+          )}
+
           {averages && (averages.avgWeight > 0 || averages.avgReps > 0) && (
             <div className="p-4 rounded-xl bg-emerald-50 dark:bg-emerald-600/10 border border-emerald-200 dark:border-emerald-600/20">
               <h3 className="text-sm font-medium text-emerald-700 dark:text-emerald-400 mb-3">Last Week Averages</h3>
               <div className="grid grid-cols-2 gap-4">
                 {averages.avgWeight > 0 && (
                   <div>
-                    <div className="text-2xl font-bold text-slate-900 dark:text-slate-100">{averages.avgWeight} lb</div>
+                    <div className="text-2xl font-bold text-slate-900 dark:text-slate-100">{formatWeight(averages.avgWeight, units.weight)}</div>
                     <div className="text-sm text-slate-500 dark:text-slate-400">Avg Weight</div>
                   </div>
                 )}
@@ -965,6 +1102,22 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
             </div>
           )}
 
+          {recentLogs.length > 0 && (
+            <div className="p-4 rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 shadow-sm dark:shadow-none">
+              <h3 className="text-sm font-medium text-slate-500 dark:text-slate-400 mb-3">Recent Sets</h3>
+              <div className="space-y-2">
+                {recentLogs.map((log, idx) => (
+                  <div key={idx} className="flex items-center justify-between text-sm">
+                    <span className="text-slate-500 dark:text-slate-400">
+                      {new Date(log.completedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    </span>
+                    <span className="text-slate-700 dark:text-slate-300 tabular-nums">{formatSets(log.sets, units.weight)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {selectedExercise.alternatives && selectedExercise.alternatives.length > 0 && (
             <div className="p-4 rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 shadow-sm dark:shadow-none">
               <h3 className="text-sm font-medium text-slate-500 dark:text-slate-400 mb-3">Alternatives</h3>
@@ -1035,6 +1188,8 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
     );
   }
 
+  const restSummary = selectedSession ? summarizeRests(selectedSession.rests) : null;
+
   return (
     <div className="min-h-screen pb-24 bg-slate-100 dark:bg-slate-950">
       <header className="px-4 pt-16 pb-4 safe-top bg-white dark:bg-slate-900 border-b border-slate-200 dark:border-slate-800">
@@ -1057,6 +1212,16 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
           >
             Workouts
           </button>
+          <button
+            onClick={() => setActiveTab('programs')}
+            className={`flex-1 py-2.5 rounded-lg text-sm font-medium transition-colors ${
+              activeTab === 'programs'
+                ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 shadow-sm'
+                : 'text-slate-600 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200'
+            }`}
+          >
+            Programs
+          </button>
           <button
             onClick={() => setActiveTab('exercises')}
             className={`flex-1 py-2.5 rounded-lg text-sm font-medium transition-colors ${
@@ -1213,6 +1378,112 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
         </div>
       )}
 
+      {/* Programs Tab */}
+      {activeTab === 'programs' && (
+        <div className="px-4">
+          <Button
+            variant="primary"
+            size="lg"
+            onClick={() => setEditingProgram('new')}
+            className="w-full mb-4"
+          >
+            Create New Program
+          </Button>
+
+          {programs.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-slate-500 dark:text-slate-400">No programs yet</div>
+              <div className="text-sm text-slate-400 dark:text-slate-500 mt-1">
+                Plan saved workouts across the week for several weeks
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {programs.map(program => {
+                const progress = getProgramProgress(program);
+                const running = progress.status === 'running' || progress.status === 'upcoming';
+                return (
+                  <div
+                    key={program.id}
+                    className="p-5 rounded-2xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 shadow-sm"
+                  >
+                    {showProgramDeleteConfirm === program.id ? (
+                      <div className="text-center py-2">
+                        <p className="text-lg text-slate-800 dark:text-slate-200 mb-4">Delete "{program.name}"?</p>
+                        <div className="flex gap-3">
+                          <Button variant="secondary" onClick={() => setShowProgramDeleteConfirm(null)} className="flex-1">
+                            Cancel
+                          </Button>
+                          <Button variant="danger" onClick={() => handleDeleteProgram(program.id)} className="flex-1">
+                            Delete
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <>
+                        <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">{program.name}</h3>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                          {program.days.map(day => {
+                            const workout = workouts.find(w => w.id === day.workoutId);
+                            return `${WEEKDAY_NAMES[day.weekday].slice(0, 3)} ${workout?.name ?? 'Deleted workout'}`;
+                          }).join(' · ')}
+                        </p>
+                        <div className="flex items-center gap-2 mt-3 flex-wrap">
+                          <span className="px-2.5 py-1 rounded-lg bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 text-sm font-medium">
+                            {program.weeks} week{program.weeks !== 1 ? 's' : ''}
+                          </span>
+                          {progress.status === 'running' && progress.week !== null && (
+                            <span className="px-2.5 py-1 rounded-lg bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 text-sm font-medium">
+                              {describeProgramWeek(program, progress.week)}
+                            </span>
+                          )}
+                          {progress.status === 'upcoming' && (
+                            <span className="px-2.5 py-1 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 text-sm font-medium">
+                              Starts {program.startDate}
+                            </span>
+                          )}
+                          {progress.status === 'finished' && (
+                            <span className="px-2.5 py-1 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 text-sm font-medium">
+                              Finished
+                            </span>
+                          )}
+                          {progress.total > 0 && (
+                            <span className="text-sm text-slate-500 dark:text-slate-400">
+                              {progress.completed}/{progress.total} done
+                              {progress.missed > 0 && ` · ${progress.missed} missed`}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex gap-3 mt-4">
+                          <Button
+                            variant={running ? 'secondary' : 'primary'}
+                            onClick={() => handleToggleProgramRun(program, running)}
+                            className="flex-1"
+                          >
+                            {running ? 'Stop' : progress.status === 'finished' ? 'Restart Today' : 'Start Today'}
+                          </Button>
+                          <Button variant="secondary" onClick={() => setEditingProgram(program)}>
+                            Edit
+                          </Button>
+                          <button
+                            onClick={() => setShowProgramDeleteConfirm(program.id)}
+                            className="p-2.5 rounded-xl text-slate-400 dark:text-slate-500 hover:text-red-500 hover:bg-red-50 dark:hover:text-red-400 dark:hover:bg-red-900/20 transition-all"
+                          >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Exercises Tab */}
       {activeTab === 'exercises' && (
         <div>
@@ -1374,18 +1645,38 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
                 {selectedSession.cardioType ? (
                   <>
                     <span className="px-2.5 py-1 rounded-lg bg-cyan-50 dark:bg-cyan-900/30 text-cyan-700 dark:text-cyan-300 text-sm font-medium">
-                      {CARDIO_TYPE_ICONS[selectedSession.cardioType]} {CARDIO_TYPE_LABELS[selectedSession.cardioType]}
+                      {formatCardioActivity(selectedSession.cardioType, selectedSession.customActivityId)}
                     </span>
                     {selectedSession.distance && (
                       <span className="px-2.5 py-1 rounded-lg bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 text-sm font-medium">
-                        {selectedSession.distance} miles
+                        {formatDistance(selectedSession.distance, units.distance)}
                       </span>
                     )}
                   </>
                 ) : (
-                  <span className="px-2.5 py-1 rounded-lg bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 text-sm font-medium">
-                    {selectedSession.exercises.length} exercises
-                  </span>
+                  <>
+                    <span className="px-2.5 py-1 rounded-lg bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 text-sm font-medium">
+                      {selectedSession.exercises.length} exercises
+                    </span>
+                    {getSessionTonnage(selectedSession) > 0 && (
+                      <span className="px-2.5 py-1 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 text-sm font-medium">
+                        {formatWeight(getSessionTonnage(selectedSession), units.weight)} volume
+                      </span>
+                    )}
+                    {selectedSession.personalRecords && selectedSession.personalRecords.length > 0 && (
+                      <span className="px-2.5 py-1 rounded-lg bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 text-sm font-medium">
+                        {'🏆'} {selectedSession.personalRecords.length} PR{selectedSession.personalRecords.length === 1 ? '' : 's'}
+                      </span>
+                    )}
+                    {restSummary && (
+                      <span
+                        className="px-2.5 py-1 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 text-sm font-medium"
+                        title="Average rest taken vs planned"
+                      >
+                        Rest {formatRest(restSummary.taken)} / {formatRest(restSummary.planned)}
+                      </span>
+                    )}
+                  </>
                 )}
                 {selectedSession.totalDuration && (
                   <span className="px-2.5 py-1 rounded-lg bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 text-sm font-medium">
@@ -1406,45 +1697,75 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
               )}
             </div>
 
-            {/* Workout Structure with Blocks > Exercises */}
-            {selectedSession.blocks && selectedSession.blocks.length > 0 ? (
+            {selectedSession.heartRate && selectedSession.heartRate.length > 0 && (
+              <div className="mb-4">
+                <HeartRateSummary samples={selectedSession.heartRate} />
+              </div>
+            )}
+
+            {/* Cardio: pace and splits; otherwise the workout structure with blocks > exercises */}
+            {selectedSession.cardioType ? (
+              <CardioSessionDetail session={selectedSession} unit={units.distance} />
+            ) : selectedSession.blocks && selectedSession.blocks.length > 0 ? (
               <div className="space-y-4">
-                {selectedSession.blocks.map((block, blockIdx) => (
-                  <div key={blockIdx} className="p-4 rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700">
-                    <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-3">
-                      {block.name}
-                    </h4>
-                    <div className="space-y-2">
-                      {block.exercises.map((workoutExercise, exIdx) => {
-                        const exercise = getExerciseById(workoutExercise.exerciseId);
-                        const log = selectedSession.exercises.find(l => l.exerciseId === workoutExercise.exerciseId);
-                        return (
-                          <div
-                            key={exIdx}
-                            className="flex items-center justify-between py-2 px-3 rounded-lg bg-slate-50 dark:bg-slate-800"
-                          >
-                            <div className="flex items-center gap-2">
-                              {workoutExercise.sets && (
-                                <span className="px-1.5 py-0.5 rounded bg-slate-200 dark:bg-slate-700 text-xs text-slate-500 dark:text-slate-400 font-medium">
-                                  {workoutExercise.sets}
+                {selectedSession.blocks.map((block, blockIdx) => {
+                  const blockResults = selectedSession.blockResults?.filter(r => r.blockId === block.id) ?? [];
+                  return (
+                    <div key={blockIdx} className="p-4 rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700">
+                      <h4 className="flex items-center justify-between gap-2 text-sm font-semibold text-slate-700 dark:text-slate-300 mb-3">
+                        <span>
+                          {block.name}
+                          {block.timing && (
+                            <span className="ml-2 text-xs font-medium text-slate-400 dark:text-slate-500">{describeTiming(block.timing)}</span>
+                          )}
+                        </span>
+                        {blockResults.length > 0 && (
+                          <span className="flex flex-wrap justify-end gap-1">
+                            {blockResults.map((blockResult, i) => (
+                              <span key={i} className="px-2 py-0.5 rounded-lg bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 text-xs tabular-nums">
+                                {blockResult.round ? `R${blockResult.round} · ` : ''}{formatBlockResult(blockResult)}
+                              </span>
+                            ))}
+                          </span>
+                        )}
+                      </h4>
+                      <div className="space-y-2">
+                        {block.exercises.map((workoutExercise, exIdx) => {
+                          const exercise = getExerciseById(workoutExercise.exerciseId);
+                          const log = selectedSession.exercises.find(l => l.exerciseId === workoutExercise.exerciseId);
+                          const groupLabel = getGroupLabel(block, exIdx);
+                          return (
+                            <div
+                              key={exIdx}
+                              className="flex items-center justify-between py-2 px-3 rounded-lg bg-slate-50 dark:bg-slate-800"
+                            >
+                              <div className="flex items-center gap-2">
+                                {workoutExercise.sets && (
+                                  <span className="px-1.5 py-0.5 rounded bg-slate-200 dark:bg-slate-700 text-xs text-slate-500 dark:text-slate-400 font-medium">
+                                    {workoutExercise.sets}
+                                  </span>
+                                )}
+                                {groupLabel && (
+                                  <span className="px-1.5 py-0.5 rounded bg-emerald-100 dark:bg-emerald-900/40 text-xs text-emerald-700 dark:text-emerald-300 font-semibold">
+                                    {groupLabel}
+                                  </span>
+                                )}
+                                <span className="font-medium text-slate-700 dark:text-slate-300 text-sm">
+                                  {exercise?.name || workoutExercise.exerciseId}
                                 </span>
-                              )}
-                              <span className="font-medium text-slate-700 dark:text-slate-300 text-sm">
-                                {exercise?.name || workoutExercise.exerciseId}
+                              </div>
+                              <span className="text-sm text-slate-500 dark:text-slate-400 tabular-nums">
+                                {log
+                                  ? formatSets(log.sets, units.weight)
+                                  : workoutExercise.duration ? `${workoutExercise.duration}s` : workoutExercise.reps}
                               </span>
                             </div>
-                            <span className="text-sm text-slate-500 dark:text-slate-400 tabular-nums">
-                              {log?.weight && `${log.weight}lb`}
-                              {log?.weight && log?.reps && ' × '}
-                              {log?.reps || workoutExercise.reps}
-                              {(log?.duration || workoutExercise.duration) && `${log?.duration || workoutExercise.duration}s`}
-                            </span>
-                          </div>
-                        );
-                      })}
+                          );
+                        })}
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             ) : selectedSession.exercises.length > 0 ? (
               /* Fallback for sessions without blocks */
@@ -1461,10 +1782,7 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
                         {exercise?.name || log.exerciseId}
                       </span>
                       <span className="text-sm text-slate-500 dark:text-slate-400 tabular-nums">
-                        {log.weight && `${log.weight}lb`}
-                        {log.weight && log.reps && ' × '}
-                        {log.reps && `${log.reps}`}
-                        {log.duration && `${log.duration}s`}
+                        {formatSets(log.sets, units.weight)}
                       </span>
                     </div>
                   );
@@ -1472,8 +1790,25 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
               </div>
             ) : null}
 
-            {/* Delete button */}
-            <div className="mt-6">
+            {/* Edit and delete buttons */}
+            <div className="mt-6 space-y-2">
+              {selectedSession.cardioType && (
+                <div className="flex gap-2">
+                  <Button variant="secondary" onClick={() => handleExportActivity(selectedSession, 'gpx')} className="flex-1">
+                    Export GPX
+                  </Button>
+                  <Button variant="secondary" onClick={() => handleExportActivity(selectedSession, 'tcx')} className="flex-1">
+                    Export TCX
+                  </Button>
+                </div>
+              )}
+              <Button
+                variant="secondary"
+                onClick={() => setEditingSession(selectedSession)}
+                className="w-full"
+              >
+                Edit This Workout
+              </Button>
               <Button
                 variant="ghost"
                 onClick={() => handleDeleteSession(selectedSession.id)}
@@ -1485,6 +1820,13 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
           </div>
         ) : (
           <div className="px-4">
+            <button
+              onClick={() => setEditingSession('new')}
+              className="w-full mb-4 p-3 rounded-xl border-2 border-dashed border-slate-300 dark:border-slate-700 text-sm font-medium text-slate-500 dark:text-slate-400 hover:border-emerald-400 hover:text-emerald-600 dark:hover:text-emerald-400 transition-colors flex items-center justify-center gap-2"
+            >
+              <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>edit_calendar</span>
+              Log Past Workout
+            </button>
             {sessions.length === 0 ? (
               <div className="text-center py-12">
                 <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-slate-200 dark:bg-slate-800 flex items-center justify-center">
@@ -1544,11 +1886,11 @@ export function LibraryPage({ onStartWorkout }: LibraryPageProps) {
                             {session.cardioType ? (
                               <>
                                 <span className="px-2.5 py-1 rounded-lg bg-cyan-50 dark:bg-cyan-900/30 text-cyan-700 dark:text-cyan-300 text-sm font-medium">
-                                  {CARDIO_TYPE_ICONS[session.cardioType]} {CARDIO_TYPE_LABELS[session.cardioType]}
+                                  {formatCardioActivity(session.cardioType, session.customActivityId)}
                                 </span>
                                 {session.distance && (
                                   <span className="px-2.5 py-1 rounded-lg bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 text-sm font-medium">
-                                    {session.distance} mi
+                                    {formatDistance(session.distance, units.distance)}
                                   </span>
                                 )}
                               </>
@@ -1730,6 +2072,7 @@ function ExerciseCard({ exercise, onClick, isFavorite, onToggleFavorite }: {
   onToggleFavorite?: (e: React.MouseEvent) => void;
 }) {
   const isCustom = exercise.id.startsWith('custom-');
+  const weightUnit = loadUnitPreferences().weight;
   const equipmentLabel = exercise.equipment.charAt(0).toUpperCase() + exercise.equipment.slice(1).replace('-', ' ');
 
   return (
@@ -1774,7 +2117,7 @@ function ExerciseCard({ exercise, onClick, isFavorite, onToggleFavorite }: {
             </span>
             {exercise.defaultWeight && (
               <span className="px-2 py-0.5 rounded-md bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 text-xs font-medium">
-                {exercise.defaultWeight} lb
+                {formatWeight(exercise.defaultWeight, weightUnit)}
               </span>
             )}
             {exercise.defaultReps && (
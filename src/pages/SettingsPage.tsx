@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import {
   getClaudeApiKey,
   setClaudeApiKey,
@@ -8,20 +8,67 @@ import {
   clearChatHistory,
   loadPersonality,
   savePersonality,
+  loadProgressionStrategy,
+  saveProgressionStrategy,
+  loadUnitPreferences,
+  saveUnitPreferences,
+  loadCueSettings,
+  saveCueSettings,
+  loadHeartRateSettings,
+  saveHeartRateSettings,
+  loadWeekStart,
+  saveWeekStart,
+  loadEquipmentInventory,
+  saveEquipmentInventory,
   loadUserName,
   saveUserName,
   exportAllDataAsJSON,
   exportWorkoutsAsCSV,
   exportExerciseLogsAsCSV,
   clearAllData,
+  resolveSyncConflict,
 } from '../data/storage';
+import { loadSyncConflicts } from '../data/changeTracking';
 import { getDeviceId } from '../data/sync';
 import { deleteAllCloudData } from '../data/supabaseSync';
+import { getStorageBackendName } from '../data/repository';
+import { getOverloadStrategies } from '../data/overload';
+import { playCue, unlockAudio, canVibrate } from '../utils/cues';
+import { getZoneBounds, isBluetoothAvailable } from '../utils/heartRate';
+import { formatDistance } from '../utils/units';
+import { parseBackup, previewBackup, applyBackup, type ParsedBackup, type BackupCollection, type ImportMode } from '../data/backupImport';
+import { parseActivityFile, previewActivityImport, importActivities } from '../data/activityFiles';
 import { useAuth } from '../contexts/AuthContext';
 import { AuthModal } from '../components/AuthModal';
 import { Button } from '../components/Button';
-import type { Exercise, PersonalityType } from '../types';
-import { PERSONALITY_OPTIONS } from '../types';
+import { EquipmentInventoryEditor } from '../components/EquipmentInventoryEditor';
+import type { WorkoutSession, Exercise, PersonalityType, OverloadStrategyId, UnitPreferences, CueSettings, HeartRateSettings, EquipmentInventory, SyncConflict, SyncRecordKind } from '../types';
+import type { WeekStart } from '../utils/dates';
+import { PERSONALITY_OPTIONS, CARDIO_TYPE_ICONS, HEART_RATE_ZONE_LABELS } from '../types';
+
+const SYNC_KIND_LABELS: Record<SyncRecordKind, string> = {
+  sessions: 'Workout',
+  savedWorkouts: 'Saved workout',
+  customExercises: 'Custom exercise',
+  programs: 'Program',
+};
+
+const BACKUP_COLLECTION_LABELS: Record<BackupCollection, string> = {
+  sessions: 'Workouts',
+  savedWorkouts: 'Saved workouts',
+  customExercises: 'Custom exercises',
+  programs: 'Programs',
+};
+
+/** Human-readable summary of why a conflict needs attention */
+function describeConflict(conflict: SyncConflict): string {
+  if (conflict.reason === 'edit-edit') {
+    return `Changed on two devices at once: ${conflict.fields.join(', ')}`;
+  }
+  return conflict.local
+    ? 'Deleted on another device after being edited here'
+    : 'Deleted on this device after being edited on another';
+}
 
 interface SettingsPageProps {
   theme: 'dark' | 'light';
@@ -35,12 +82,38 @@ export function SettingsPage({ theme, onToggleTheme }: SettingsPageProps) {
   const [customExercises, setCustomExercises] = useState<Exercise[]>([]);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
   const [personality, setPersonality] = useState<PersonalityType>('neutral');
+  const [progressionStrategy, setProgressionStrategy] = useState<OverloadStrategyId>('linear');
+  const [units, setUnits] = useState<UnitPreferences>(() => loadUnitPreferences());
+  const [weekStart, setWeekStart] = useState<WeekStart>(() => loadWeekStart());
+  const [inventory, setInventory] = useState<EquipmentInventory>(() => loadEquipmentInventory());
+  const [cueSettings, setCueSettings] = useState<CueSettings>(() => loadCueSettings());
+  const [heartRateSettings, setHeartRateSettings] = useState<HeartRateSettings>(() => loadHeartRateSettings());
   const [userName, setUserName] = useState<string>('');
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set());
   const [showDeleteAllConfirm, setShowDeleteAllConfirm] = useState(false);
   const [showAuthModal, setShowAuthModal] = useState(false);
+  const [conflicts, setConflicts] = useState(loadSyncConflicts);
+  const [pendingImport, setPendingImport] = useState<ParsedBackup | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [pendingActivities, setPendingActivities] = useState<{ added: WorkoutSession[]; duplicates: number } | null>(null);
+  const [activityErrors, setActivityErrors] = useState<string[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const activityInputRef = useRef<HTMLInputElement>(null);
   const deviceId = getDeviceId();
-  const { user, syncStatus, signOut, isConfigured } = useAuth();
+  const { user, syncStatus, pendingChanges, signOut, isConfigured } = useAuth();
+
+  // Re-read when the sync status changes (during render rather than in an effect)
+  const [conflictsSyncStatus, setConflictsSyncStatus] = useState(syncStatus);
+  if (conflictsSyncStatus !== syncStatus) {
+    setConflictsSyncStatus(syncStatus);
+    setConflicts(loadSyncConflicts());
+  }
+
+  const importPreview = useMemo(
+    () => (pendingImport ? previewBackup(pendingImport) : null),
+    [pendingImport]
+  );
 
   const toggleSection = (section: string) => {
     setExpandedSections(prev => {
@@ -55,6 +128,7 @@ export function SettingsPage({ theme, onToggleTheme }: SettingsPageProps) {
     setSavedKey(getClaudeApiKey());
     setCustomExercises(loadCustomExercises());
     setPersonality(loadPersonality());
+    setProgressionStrategy(loadProgressionStrategy());
     setUserName(loadUserName() || '');
   }, []);
 
@@ -68,6 +142,56 @@ export function SettingsPage({ theme, onToggleTheme }: SettingsPageProps) {
     savePersonality(newPersonality);
   };
 
+  const handleUnitsChange = (changes: Partial<UnitPreferences>) => {
+    const next = { ...units, ...changes };
+    setUnits(next);
+    saveUnitPreferences(next);
+    // Untouched inventories follow the unit (metric or imperial sizes)
+    setInventory(loadEquipmentInventory());
+  };
+
+  const handleWeekStartChange = (next: WeekStart) => {
+    setWeekStart(next);
+    saveWeekStart(next);
+  };
+
+  const handleInventoryChange = (next: EquipmentInventory) => {
+    setInventory(next);
+    saveEquipmentInventory(next);
+  };
+
+  const handleCueSettingsChange = (changes: Partial<CueSettings>) => {
+    const next = { ...cueSettings, ...changes };
+    setCueSettings(next);
+    saveCueSettings(next);
+  };
+
+  const handleHeartRateSettingsChange = (changes: Partial<HeartRateSettings>) => {
+    const next = { ...heartRateSettings, ...changes };
+    setHeartRateSettings(next);
+    saveHeartRateSettings(next);
+  };
+
+  // Custom zones start out as the age-based ones (or typical values without an age)
+  const heartRateZones = getZoneBounds(heartRateSettings);
+  const customZones = heartRateSettings.customZones
+    ?? getZoneBounds({ ...heartRateSettings, zones: 'age' })
+    ?? [95, 114, 133, 152, 171];
+
+  const handleCustomZoneChange = (zone: number, value: string) => {
+    handleHeartRateSettingsChange({ customZones: customZones.map((bpm, i) => (i === zone ? Number(value) || 0 : bpm)) });
+  };
+
+  const handleTestCue = () => {
+    unlockAudio();
+    playCue('end', cueSettings);
+  };
+
+  const handleProgressionChange = (strategy: OverloadStrategyId) => {
+    setProgressionStrategy(strategy);
+    saveProgressionStrategy(strategy);
+  };
+
   const handleSaveKey = () => {
     if (apiKey.trim()) {
       setClaudeApiKey(apiKey.trim());
@@ -88,6 +212,12 @@ export function SettingsPage({ theme, onToggleTheme }: SettingsPageProps) {
     setShowDeleteConfirm(null);
   };
 
+  const handleResolveConflict = async (conflict: SyncConflict, keep: 'local' | 'remote') => {
+    await resolveSyncConflict(conflict, keep);
+    setCustomExercises(loadCustomExercises());
+    setConflicts(loadSyncConflicts());
+  };
+
   const handleClearChat = () => {
     clearChatHistory();
   };
@@ -105,6 +235,57 @@ export function SettingsPage({ theme, onToggleTheme }: SettingsPageProps) {
     URL.revokeObjectURL(url);
   };
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';           // Allow picking the same file again
+    if (!file) return;
+
+    setImportError(null);
+    try {
+      setPendingImport(parseBackup(await file.text()));
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Could not read this file.');
+    }
+  };
+
+  const handleApplyImport = async (mode: ImportMode) => {
+    if (!pendingImport) return;
+    setIsImporting(true);
+    try {
+      await applyBackup(pendingImport, mode);
+      window.location.reload();
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Import failed.');
+      setIsImporting(false);
+      setPendingImport(null);
+    }
+  };
+
+  const handleImportActivityFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    // Files that can't be read are reported; the rest still import
+    const parsed: WorkoutSession[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        parsed.push(...parseActivityFile(await file.text(), file.name));
+      } catch (err) {
+        errors.push(err instanceof Error ? err.message : `Could not read ${file.name}.`);
+      }
+    }
+    setActivityErrors(errors);
+    if (parsed.length > 0) setPendingActivities(previewActivityImport(parsed));
+  };
+
+  const handleApplyActivityImport = () => {
+    if (!pendingActivities) return;
+    importActivities(pendingActivities.added);
+    window.location.reload();
+  };
+
   const handleExportWorkoutsCSV = () => {
     const data = exportWorkoutsAsCSV();
     const blob = new Blob([data], { type: 'text/csv' });
@@ -186,8 +367,42 @@ export function SettingsPage({ theme, onToggleTheme }: SettingsPageProps) {
                       </div>
                     </div>
                     <p className="text-xs text-slate-500 dark:text-slate-400">
-                      Your workouts sync automatically across all your devices.
+                      {pendingChanges > 0
+                        ? `${pendingChanges} change${pendingChanges !== 1 ? 's' : ''} pending. ${syncStatus === 'offline' ? 'They will sync when you are back online.' : 'Retrying automatically.'}`
+                        : 'Your workouts sync automatically across all your devices.'}
                     </p>
+                    {conflicts.length > 0 && (
+                      <div className="space-y-2">
+                        <p className="text-xs font-medium text-amber-600 dark:text-amber-400">
+                          {conflicts.length} sync conflict{conflicts.length !== 1 ? 's' : ''} need{conflicts.length === 1 ? 's' : ''} your attention
+                        </p>
+                        {conflicts.map(conflict => (
+                          <div
+                            key={conflict.id}
+                            className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800"
+                          >
+                            <div className="font-medium text-sm text-slate-800 dark:text-slate-200">{conflict.recordName}</div>
+                            <div className="text-xs text-slate-500 dark:text-slate-400">
+                              {SYNC_KIND_LABELS[conflict.kind]} • {describeConflict(conflict)}
+                            </div>
+                            <div className="flex gap-2 mt-2">
+                              <button
+                                onClick={() => handleResolveConflict(conflict, 'local')}
+                                className="flex-1 px-3 py-1.5 rounded bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-200 text-xs font-medium"
+                              >
+                                {conflict.reason === 'edit-edit' ? 'Keep this device' : conflict.local ? 'Keep it' : 'Delete it'}
+                              </button>
+                              <button
+                                onClick={() => handleResolveConflict(conflict, 'remote')}
+                                className="flex-1 px-3 py-1.5 rounded bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-200 text-xs font-medium"
+                              >
+                                {conflict.reason === 'edit-edit' ? 'Keep cloud' : conflict.remote ? 'Keep it' : 'Delete it'}
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     <Button variant="ghost" onClick={signOut} className="w-full">
                       Sign Out
                     </Button>
@@ -278,6 +493,248 @@ export function SettingsPage({ theme, onToggleTheme }: SettingsPageProps) {
           </div>
         </section>
 
+        {/* Units Section */}
+        <section className="p-4 rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 shadow-sm dark:shadow-none">
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-1">Units</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            Used for entering and showing weights and distances.
+          </p>
+          <div className="space-y-3">
+            {([
+              { label: 'Weight', key: 'weight', options: [{ value: 'lb', label: 'Pounds (lb)' }, { value: 'kg', label: 'Kilograms (kg)' }] },
+              { label: 'Distance', key: 'distance', options: [{ value: 'mi', label: 'Miles (mi)' }, { value: 'km', label: 'Kilometers (km)' }] },
+            ] as const).map(row => (
+              <div key={row.key}>
+                <div className="text-xs text-slate-500 dark:text-slate-400 mb-1.5">{row.label}</div>
+                <div className="flex gap-3">
+                  {row.options.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => handleUnitsChange({ [row.key]: option.value })}
+                      className={`flex-1 p-2.5 rounded-lg border-2 text-sm font-medium transition-all ${
+                        units[row.key] === option.value
+                          ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400'
+                          : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 text-slate-600 dark:text-slate-400'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Calendar Section */}
+        <section className="p-4 rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 shadow-sm dark:shadow-none">
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-1">Calendar</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            First day of the week on calendars and in weekly counts.
+          </p>
+          <div className="flex gap-3">
+            {([
+              { value: 1, label: 'Monday' },
+              { value: 0, label: 'Sunday' },
+              { value: 6, label: 'Saturday' },
+            ] as const).map(option => (
+              <button
+                key={option.value}
+                onClick={() => handleWeekStartChange(option.value)}
+                className={`flex-1 p-2.5 rounded-lg border-2 text-sm font-medium transition-all ${
+                  weekStart === option.value
+                    ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400'
+                    : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 text-slate-600 dark:text-slate-400'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        {/* Sounds Section */}
+        <section className="p-4 rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 shadow-sm dark:shadow-none">
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-1">Sounds</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            Beeps for the last 3 seconds of a timer, interval changes and time up.
+          </p>
+          <div className="space-y-3">
+            <div>
+              <div className="flex items-center justify-between mb-1.5">
+                <span className="text-xs text-slate-500 dark:text-slate-400">Volume</span>
+                <span className="text-xs tabular-nums text-slate-500 dark:text-slate-400">
+                  {cueSettings.muted ? 'Muted' : `${Math.round(cueSettings.volume * 100)}%`}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={cueSettings.volume}
+                  disabled={cueSettings.muted}
+                  onChange={e => handleCueSettingsChange({ volume: Number(e.target.value) })}
+                  className="flex-1 accent-emerald-500 disabled:opacity-40"
+                />
+                <button
+                  onClick={() => handleCueSettingsChange({ muted: !cueSettings.muted })}
+                  className={`px-3 py-1.5 rounded-lg border-2 text-sm font-medium transition-all ${
+                    cueSettings.muted
+                      ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400'
+                      : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 text-slate-600 dark:text-slate-400'
+                  }`}
+                >
+                  Mute
+                </button>
+              </div>
+            </div>
+            {canVibrate() && (
+              <div>
+                <div className="text-xs text-slate-500 dark:text-slate-400 mb-1.5">Vibration</div>
+                <div className="flex gap-3">
+                  {[{ value: true, label: 'On' }, { value: false, label: 'Off' }].map(option => (
+                    <button
+                      key={option.label}
+                      onClick={() => handleCueSettingsChange({ vibrate: option.value })}
+                      className={`flex-1 p-2.5 rounded-lg border-2 text-sm font-medium transition-all ${
+                        cueSettings.vibrate === option.value
+                          ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400'
+                          : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 text-slate-600 dark:text-slate-400'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            <button
+              onClick={handleTestCue}
+              className="w-full py-2.5 rounded-lg bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-sm font-medium text-slate-700 dark:text-slate-200 transition-colors"
+            >
+              Test
+            </button>
+          </div>
+        </section>
+
+        {/* Heart Rate Section */}
+        <section className="p-4 rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 shadow-sm dark:shadow-none">
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-1">Heart Rate</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            Pair a monitor from the heart button during a workout. Zones are used for time in zone.
+          </p>
+          <div className="space-y-3">
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400 mb-1.5">Zones</div>
+              <div className="flex gap-3">
+                {([
+                  { value: 'age', label: 'From age' },
+                  { value: 'custom', label: 'Custom' },
+                ] as const).map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => handleHeartRateSettingsChange(option.value === 'custom' ? { zones: 'custom', customZones } : { zones: 'age' })}
+                    className={`flex-1 p-2.5 rounded-lg border-2 text-sm font-medium transition-all ${
+                      heartRateSettings.zones === option.value
+                        ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400'
+                        : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 text-slate-600 dark:text-slate-400'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {heartRateSettings.zones === 'age' ? (
+              <div>
+                <div className="text-xs text-slate-500 dark:text-slate-400 mb-1.5">Age</div>
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={10}
+                  max={100}
+                  value={heartRateSettings.age ?? ''}
+                  onChange={e => handleHeartRateSettingsChange({ age: Number(e.target.value) || undefined })}
+                  placeholder="35"
+                  className="w-full px-3 py-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-slate-900 dark:text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+                />
+              </div>
+            ) : (
+              <div className="grid grid-cols-5 gap-2">
+                {HEART_RATE_ZONE_LABELS.map((label, i) => (
+                  <div key={label}>
+                    <div className="text-xs text-slate-500 dark:text-slate-400 mb-1.5 truncate" title={label}>Zone {i + 1}</div>
+                    <input
+                      type="number"
+                      inputMode="numeric"
+                      value={customZones[i] || ''}
+                      onChange={e => handleCustomZoneChange(i, e.target.value)}
+                      className="w-full px-2 py-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm text-center text-slate-900 dark:text-slate-100 focus:outline-none focus:border-emerald-500"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {heartRateZones
+                ? `Zones start at ${heartRateZones.join(', ')} bpm.`
+                : heartRateSettings.zones === 'age'
+                  ? 'Enter your age to work out your zones.'
+                  : 'Each zone must start higher than the one before.'}
+            </p>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400 mb-1.5">Monitor</div>
+              <div className="flex gap-3">
+                {[{ value: false, label: 'Bluetooth' }, { value: true, label: 'Simulated' }].map(option => (
+                  <button
+                    key={option.label}
+                    onClick={() => handleHeartRateSettingsChange({ simulated: option.value })}
+                    className={`flex-1 p-2.5 rounded-lg border-2 text-sm font-medium transition-all ${
+                      heartRateSettings.simulated === option.value
+                        ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400'
+                        : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 text-slate-600 dark:text-slate-400'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-1.5 text-xs text-slate-500 dark:text-slate-400">
+                {heartRateSettings.simulated
+                  ? 'A made-up heart rate for trying this out without a strap.'
+                  : isBluetoothAvailable()
+                    ? 'Any chest strap or watch that broadcasts heart rate over Bluetooth.'
+                    : "This browser can't pair Bluetooth devices; try Chrome on Android or a computer."}
+              </p>
+            </div>
+          </div>
+        </section>
+
+        {/* Equipment Section - Collapsible */}
+        <section className="rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 shadow-sm dark:shadow-none overflow-hidden">
+          <button
+            onClick={() => toggleSection('equipment')}
+            className="w-full p-4 flex items-center justify-between text-left"
+          >
+            <div>
+              <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Equipment</h2>
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                What you own, so suggested weights are ones you can load.
+              </p>
+            </div>
+            <svg className={`w-5 h-5 text-slate-400 transition-transform ${expandedSections.has('equipment') ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+          {expandedSections.has('equipment') && (
+            <div className="px-4 pb-4">
+              <EquipmentInventoryEditor inventory={inventory} unit={units.weight} onChange={handleInventoryChange} />
+            </div>
+          )}
+        </section>
+
         {/* Personality Section */}
         <section className="p-4 rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 shadow-sm dark:shadow-none">
           <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-1">Personality</h2>
@@ -305,6 +762,34 @@ export function SettingsPage({ theme, onToggleTheme }: SettingsPageProps) {
             ))}
           </div>
         </section>
+
+        {/* Progression Section */}
+        <section className="p-4 rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 shadow-sm dark:shadow-none">
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-1">Progression</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            How suggested weights and reps are worked out from your history.
+          </p>
+          <div className="space-y-2">
+            {getOverloadStrategies().map(strategy => (
+              <button
+                key={strategy.id}
+                onClick={() => handleProgressionChange(strategy.id)}
+                className={`w-full p-3 rounded-lg border-2 transition-all text-left ${
+                  progressionStrategy === strategy.id
+                    ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20'
+                    : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600'
+                }`}
+              >
+                <div className={`font-medium text-sm ${progressionStrategy === strategy.id ? 'text-emerald-700 dark:text-emerald-400' : 'text-slate-700 dark:text-slate-300'}`}>
+                  {strategy.label}
+                </div>
+                <div className="text-[11px] text-slate-500 dark:text-slate-400 mt-0.5">
+                  {strategy.description}
+                </div>
+              </button>
+            ))}
+          </div>
+        </section>
           </div>
         </div>
 
@@ -411,7 +896,7 @@ export function SettingsPage({ theme, onToggleTheme }: SettingsPageProps) {
           >
             <div>
               <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Manage Data</h2>
-              <p className="text-sm text-slate-500 dark:text-slate-400">Export or delete your data</p>
+              <p className="text-sm text-slate-500 dark:text-slate-400">Export, import or delete your data</p>
             </div>
             <svg className={`w-5 h-5 text-slate-400 transition-transform ${expandedSections.has('exportData') ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
@@ -445,6 +930,53 @@ export function SettingsPage({ theme, onToggleTheme }: SettingsPageProps) {
                 </div>
               </Button>
 
+              <div className="border-t border-slate-200 dark:border-slate-700 mt-4 pt-4">
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">Restore from a JSON backup</p>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleImportFile}
+                  className="hidden"
+                />
+                <Button variant="secondary" onClick={() => importInputRef.current?.click()} className="w-full">
+                  <div className="flex items-center justify-center gap-2">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                    </svg>
+                    Import Backup (JSON)
+                  </div>
+                </Button>
+                {importError && (
+                  <p className="text-xs text-red-500 dark:text-red-400 mt-2">{importError}</p>
+                )}
+              </div>
+
+              <div className="border-t border-slate-200 dark:border-slate-700 mt-4 pt-4">
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+                  Add runs, rides, swims and more from a watch (GPX or TCX; convert FIT files first)
+                </p>
+                <input
+                  ref={activityInputRef}
+                  type="file"
+                  accept=".gpx,.tcx,application/gpx+xml,application/vnd.garmin.tcx+xml"
+                  multiple
+                  onChange={handleImportActivityFiles}
+                  className="hidden"
+                />
+                <Button variant="secondary" onClick={() => activityInputRef.current?.click()} className="w-full">
+                  <div className="flex items-center justify-center gap-2">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                    </svg>
+                    Import Activities (GPX/TCX)
+                  </div>
+                </Button>
+                {activityErrors.map(error => (
+                  <p key={error} className="text-xs text-red-500 dark:text-red-400 mt-2">{error}</p>
+                ))}
+              </div>
+
               <div className="border-t border-slate-200 dark:border-slate-700 mt-4 pt-4">
                 <p className="text-xs text-red-500 dark:text-red-400 mb-3">Danger zone</p>
                 <Button
@@ -602,8 +1134,8 @@ export function SettingsPage({ theme, onToggleTheme }: SettingsPageProps) {
                     if (user) {
                       await deleteAllCloudData(user.id);
                     }
-                    // Delete from localStorage
-                    clearAllData();
+                    // Delete from this device
+                    await clearAllData();
                     window.location.reload();
                   }}
                   className="flex-1 py-2.5 px-4 rounded-xl bg-red-500 hover:bg-red-600 text-white font-medium transition-colors"
@@ -615,6 +1147,103 @@ export function SettingsPage({ theme, onToggleTheme }: SettingsPageProps) {
           </div>
         )}
 
+        {/* Import Backup Preview Modal */}
+        {pendingImport && importPreview && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+            <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 max-w-sm w-full shadow-xl">
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-1">
+                Import Backup?
+              </h3>
+              {pendingImport.exportDate && (
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+                  Exported {new Date(pendingImport.exportDate).toLocaleString()}
+                </p>
+              )}
+              <div className="space-y-2 mb-4">
+                {(Object.keys(BACKUP_COLLECTION_LABELS) as BackupCollection[]).map(collection => {
+                  const preview = importPreview[collection];
+                  return (
+                    <div key={collection} className="text-sm">
+                      <div className="flex justify-between text-slate-700 dark:text-slate-300">
+                        <span>{BACKUP_COLLECTION_LABELS[collection]}</span>
+                        <span>{preview.total}</span>
+                      </div>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">
+                        {preview.added} new · {preview.unchanged} already here · {preview.collisions} different from this device
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+              {(pendingImport.skipped > 0 || pendingImport.duplicates > 0) && (
+                <p className="text-xs text-amber-600 dark:text-amber-400 mb-4 p-2 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
+                  {pendingImport.skipped > 0 && `${pendingImport.skipped} invalid record${pendingImport.skipped === 1 ? '' : 's'} will be skipped. `}
+                  {pendingImport.duplicates > 0 && `${pendingImport.duplicates} duplicate${pendingImport.duplicates === 1 ? '' : 's'} in the file will be combined.`}
+                </p>
+              )}
+              <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+                Merge keeps everything on this device and adds the backup (the newer copy wins where both have a record).
+                Replace makes this device match the backup.
+              </p>
+              <div className="flex flex-col gap-2">
+                <Button onClick={() => handleApplyImport('merge')} disabled={isImporting} className="w-full">
+                  Merge
+                </Button>
+                <Button variant="danger" onClick={() => handleApplyImport('replace')} disabled={isImporting} className="w-full">
+                  Replace
+                </Button>
+                <Button
+                  variant="secondary"
+                  onClick={() => setPendingImport(null)}
+                  disabled={isImporting}
+                  className="w-full"
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {pendingActivities && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+            <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 max-w-sm w-full shadow-xl">
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-3">
+                Import Activities?
+              </h3>
+              <div className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+                {pendingActivities.added.map(session => (
+                  <div key={session.id} className="flex justify-between gap-2 text-sm text-slate-700 dark:text-slate-300">
+                    <span className="truncate">
+                      {session.cardioType && CARDIO_TYPE_ICONS[session.cardioType]} {session.name}
+                    </span>
+                    <span className="shrink-0 text-slate-500 dark:text-slate-400">
+                      {new Date(session.startedAt).toLocaleDateString()}
+                      {session.distance ? ` · ${formatDistance(session.distance, units.distance)}` : ''}
+                    </span>
+                  </div>
+                ))}
+                {pendingActivities.added.length === 0 && (
+                  <p className="text-sm text-slate-500 dark:text-slate-400">Nothing new to import.</p>
+                )}
+              </div>
+              {pendingActivities.duplicates > 0 && (
+                <p className="text-xs text-amber-600 dark:text-amber-400 mb-4 p-2 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
+                  {pendingActivities.duplicates} activit{pendingActivities.duplicates === 1 ? 'y starts' : 'ies start'} at the same time as a workout already in your history (or in another of these files) and will be skipped.
+                </p>
+              )}
+              <div className="flex flex-col gap-2">
+                <Button onClick={handleApplyActivityImport} disabled={pendingActivities.added.length === 0} className="w-full">
+                  Import {pendingActivities.added.length}
+                </Button>
+                <Button variant="secondary" onClick={() => setPendingActivities(null)} className="w-full">
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* App Info - Collapsible */}
         <section className="rounded-xl bg-white dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 shadow-sm dark:shadow-none overflow-hidden">
           <button
@@ -637,7 +1266,7 @@ export function SettingsPage({ theme, onToggleTheme }: SettingsPageProps) {
               </div>
               <div className="flex justify-between">
                 <span>Storage</span>
-                <span className="text-slate-700 dark:text-slate-300">localStorage</span>
+                <span className="text-slate-700 dark:text-slate-300">{getStorageBackendName()}</span>
               </div>
               <div className="flex justify-between">
                 <span>Device ID</span>
@@ -1,34 +1,56 @@
-import { useState, useMemo, useEffect } from 'react';
-import type { WorkoutSession, EffortLevel, WorkoutBlock } from '../types';
+import { useState, useMemo } from 'react';
+import type { ActiveSession, SessionTimers, EffortLevel, WorkoutBlock, SetLog, PersonalRecord, RestLog, BlockResult, TrackPoint, CardioMetrics, TimerState } from '../types';
 import { ExerciseView } from '../components/ExerciseView';
 import { EffortPicker } from '../components/EffortPicker';
 import { Button } from '../components/Button';
 import { CowCelebration } from '../components/CowCelebration';
+import { PRCelebration } from '../components/PRCelebration';
 import { CardioWorkoutView } from '../components/CardioWorkoutView';
+import { HeartRateButton } from '../components/HeartRateButton';
+import { HeartRateSummary } from '../components/HeartRateSummary';
+import { RestTimer } from '../components/RestTimer';
+import { TimedBlockRunner } from '../components/TimedBlockRunner';
 import { getExerciseById, getAllExercises } from '../data/exercises';
 import { incrementSkipCount, incrementSwapCount } from '../data/storage';
+import { detectPersonalRecords } from '../data/progression';
 import { useLandscape } from '../hooks/useLandscape';
-
-// Extended session type with persisted state
-interface ExtendedSession extends WorkoutSession {
-  currentBlockIndex?: number;
-  currentExerciseIndex?: number;
-  swappedExercises?: Record<string, string>;
+import { useNow } from '../hooks/useTimer';
+import { useWakeLock } from '../hooks/useWakeLock';
+import type { HeartRateMonitor } from '../hooks/useHeartRateMonitor';
+import {
+  getGroupSpan, getGroupKind, getGroupLabel, getNextPosition, getPreviousPosition,
+  countVisits, countBlockSteps, countStepsBefore, getRestAfter,
+} from '../utils/groups';
+import { getBlockRepeats } from '../utils/blocks';
+import { createTimer, startTimer, pauseTimer, extendTimer, getElapsed, isTimerRunning } from '../utils/timer';
+import { buildTimedBlockLogs } from '../utils/timedBlocks';
+
+// "A1 Goblet Squat" for exercises in a superset/circuit
+function withGroupLabel(name: string, block: WorkoutBlock, exerciseIndex: number): string {
+  const label = getGroupLabel(block, exerciseIndex);
+  return label ? `${label} ${name}` : name;
 }
 
 interface WorkoutPageProps {
-  session: ExtendedSession | null;
+  session: ActiveSession | null;
   currentBlockIndex: number;
   currentExerciseIndex: number;
+  currentRound: number;
+  currentBlockRound: number;
+  timers: SessionTimers;
+  onUpdateTimers: (changes: Partial<SessionTimers>) => void;
   onLogExercise: (log: {
     exerciseId: string;
-    weight?: number;
-    reps?: number;
-    duration?: number;
+    sets: SetLog[];
+    round?: number;
   }) => void;
-  onNextExercise: (totalInBlock: number, totalBlocks: number) => void;
-  onPreviousExercise: (getBlockExerciseCount: (index: number) => number) => void;
-  onCompleteWorkout: (effort?: EffortLevel, distance?: number) => void;
+  onLogRest?: (rest: RestLog) => void;
+  onLogBlockResult?: (result: BlockResult) => void;
+  onLogTrackPoint?: (point: TrackPoint) => void;
+  heartRateMonitor?: HeartRateMonitor;
+  onNextExercise: () => void;
+  onPreviousExercise: () => void;
+  onCompleteWorkout: (effort?: EffortLevel, distance?: number, metrics?: CardioMetrics) => void;
   onCancelWorkout: () => void;
   onStartWorkout: () => void;
   onUpdateSwappedExercises?: (swapped: Record<string, string>) => void;
@@ -39,7 +61,15 @@ export function WorkoutPage({
   session,
   currentBlockIndex,
   currentExerciseIndex,
+  currentRound,
+  currentBlockRound,
+  timers,
+  onUpdateTimers,
   onLogExercise,
+  onLogRest,
+  onLogBlockResult,
+  onLogTrackPoint,
+  heartRateMonitor,
   onNextExercise,
   onPreviousExercise,
   onCompleteWorkout,
@@ -58,14 +88,14 @@ export function WorkoutPage({
   const [showComplete, setShowComplete] = useState(false);
   const [finalEffort, setFinalEffort] = useState<EffortLevel | undefined>();
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
-  const [showPauseMenu, setShowPauseMenu] = useState(false);
+  // A workout clock saved as paused (reload while the menu was open) reopens the menu
+  const [showPauseMenu, setShowPauseMenu] = useState(() => !!timers.clock && !isTimerRunning(timers.clock));
   const [showLandscapeTip, setShowLandscapeTip] = useState(false);
   const [hasSeenLandscapeTip, setHasSeenLandscapeTip] = useState(false);
   const [wasPortrait, setWasPortrait] = useState(!isLandscape);
-  const [elapsedTime, setElapsedTime] = useState(0);
-  const [pausedTime, setPausedTime] = useState(0); // Accumulated paused time
   const [expandedUpcoming, setExpandedUpcoming] = useState<Set<number>>(new Set([0]));
   const [showCowCelebration, setShowCowCelebration] = useState(false);
+  const [newRecords, setNewRecords] = useState<PersonalRecord[]>([]);
   const [editingGroup, setEditingGroup] = useState<number | null>(null);
   const [showAddInGroup, setShowAddInGroup] = useState<number | null>(null);
   const [exerciseSearchQuery, setExerciseSearchQuery] = useState('');
@@ -76,43 +106,28 @@ export function WorkoutPage({
   const currentExercise = currentBlock?.exercises[currentExerciseIndex];
   const currentSetNumber = currentExercise?.sets;
   const swapKey = `${currentBlockIndex}-${currentExerciseIndex}`;
+  const position = { blockIndex: currentBlockIndex, blockRound: currentBlockRound, exerciseIndex: currentExerciseIndex, round: currentRound };
 
-  // Track elapsed time (pauses when menu is open)
-  useEffect(() => {
-    if (!session || showPauseMenu) return;
-    const startTime = new Date(session.startedAt).getTime();
-    const updateElapsed = () => setElapsedTime(Math.floor((Date.now() - startTime - pausedTime) / 1000));
-    updateElapsed();
-    const interval = setInterval(updateElapsed, 1000);
-    return () => clearInterval(interval);
-  }, [session, showPauseMenu, pausedTime]);
-
-  // Track paused duration
-  const [pauseStartTime, setPauseStartTime] = useState<number | null>(null);
-  useEffect(() => {
-    if (showPauseMenu && !pauseStartTime) {
-      setPauseStartTime(Date.now());
-    } else if (!showPauseMenu && pauseStartTime) {
-      setPausedTime(prev => prev + (Date.now() - pauseStartTime));
-      setPauseStartTime(null);
-    }
-  }, [showPauseMenu, pauseStartTime]);
+  // Workout time comes from the saved clock (paused while the pause menu is open);
+  // sessions saved before the clock existed count from when they started
+  const now = useNow(!!session && !showPauseMenu, 1000);
+  const clock = timers.clock ?? { startedAt: session ? new Date(session.startedAt).getTime() : null, accumulated: 0 };
+  const elapsedTime = Math.floor(getElapsed(clock, now));
+
+  // Keep the screen on for the whole workout
+  useWakeLock(!!session);
 
   // Auto-show completion if workout ended (no more exercises)
-  useEffect(() => {
-    if (session && blocks.length > 0 && !currentBlock && !showComplete) {
-      setShowComplete(true);
-    }
-  }, [session, blocks.length, currentBlock, showComplete]);
+  const isOutOfExercises = !!session && blocks.length > 0 && !currentBlock;
 
   // Show landscape tip when rotating to landscape (once per session)
-  useEffect(() => {
-    if (isLandscape && wasPortrait && !hasSeenLandscapeTip) {
+  if (wasPortrait === isLandscape) {
+    setWasPortrait(!isLandscape);
+    if (isLandscape && !hasSeenLandscapeTip) {
       setShowLandscapeTip(true);
       setHasSeenLandscapeTip(true);
     }
-    setWasPortrait(!isLandscape);
-  }, [isLandscape, wasPortrait, hasSeenLandscapeTip]);
+  }
 
   // Build timeline segments - grouped by block
   const timelineBlocks = useMemo(() => {
@@ -162,7 +177,7 @@ export function WorkoutPage({
           const existing = setGroups.get(setNum) || [];
           existing.push({
             id: exercise.id,
-            name: exercise.name,
+            name: withGroupLabel(exercise.name, currentBlock, eIdx),
             exerciseId: ex.exerciseId,
             isCompleted: eIdx < currentExerciseIndex,
             isCurrent: eIdx === currentExerciseIndex,
@@ -209,7 +224,7 @@ export function WorkoutPage({
           if (!exercise) return;
           allExercises.push({
             id: exercise.id,
-            name: exercise.name,
+            name: withGroupLabel(exercise.name, currentBlock, eIdx),
             exerciseId: ex.exerciseId,
             isCompleted: eIdx < currentExerciseIndex,
             isCurrent: eIdx === currentExerciseIndex,
@@ -220,7 +235,9 @@ export function WorkoutPage({
         if (allExercises.length > 0) {
           const remainingCount = allExercises.filter(e => !e.isCompleted && !e.isCurrent).length;
           groups.push({
-            label: currentBlock.name,
+            label: getBlockRepeats(currentBlock) > 1
+              ? `${currentBlock.name} · Round ${currentBlockRound} of ${getBlockRepeats(currentBlock)}`
+              : currentBlock.name,
             exercises: allExercises,
             type: 'set',
             remainingCount,
@@ -239,7 +256,7 @@ export function WorkoutPage({
         if (!exercise) return;
         exercises.push({
           id: exercise.id,
-          name: exercise.name,
+          name: withGroupLabel(exercise.name, block, eIdx),
           exerciseId: ex.exerciseId,
           isCompleted: false,
           isCurrent: false,
@@ -248,28 +265,54 @@ export function WorkoutPage({
         });
       });
       if (exercises.length > 0) {
-        groups.push({ label: block.name, exercises, type: 'block', remainingCount: exercises.length, blockIdx: bIdx });
+        const repeats = getBlockRepeats(block);
+        groups.push({ label: repeats > 1 ? `${block.name} ×${repeats}` : block.name, exercises, type: 'block', remainingCount: exercises.length, blockIdx: bIdx });
       }
     });
 
     return groups;
-  }, [blocks, currentBlock, currentBlockIndex, currentExerciseIndex, currentSetNumber]);
+  }, [blocks, currentBlock, currentBlockIndex, currentBlockRound, currentExerciseIndex, currentSetNumber]);
 
-  // Build completed count
+  // Build completed count (each round of a superset/circuit counts)
   const completedCount = useMemo(() => {
     let count = 0;
     blocks.forEach((block, bIdx) => {
       block.exercises.forEach((_, eIdx) => {
-        if (bIdx < currentBlockIndex || (bIdx === currentBlockIndex && eIdx < currentExerciseIndex)) {
-          count++;
+        if (bIdx < currentBlockIndex) {
+          count += countVisits(block, eIdx);
+        } else if (bIdx === currentBlockIndex && eIdx === currentExerciseIndex) {
+          count += countStepsBefore(block, { blockRound: currentBlockRound, exerciseIndex: eIdx, round: currentRound });
         }
       });
     });
     return count;
-  }, [blocks, currentBlockIndex, currentExerciseIndex]);
+  }, [blocks, currentBlockIndex, currentBlockRound, currentExerciseIndex, currentRound]);
 
   // === ALL HOOKS ARE NOW DONE - EARLY RETURNS CAN HAPPEN BELOW ===
 
+  // Pausing freezes every running clock: workout time, the rest countdown and a timed block
+  const setClocksRunning = (running: boolean) => {
+    const toggle = running ? startTimer : pauseTimer;
+    const { rest, timedBlock, exercise } = timers;
+    onUpdateTimers({
+      clock: toggle(clock),
+      rest: rest && { ...rest, timer: toggle(rest.timer) },
+      timedBlock: timedBlock && !timedBlock.ended ? { ...timedBlock, timer: toggle(timedBlock.timer) } : timedBlock,
+      // The exercise stopwatch may have been stopped by hand, so resuming leaves it for a tap
+      exercise: exercise && !running ? { ...exercise, timer: pauseTimer(exercise.timer) } : exercise,
+    });
+  };
+
+  const pauseWorkout = () => {
+    setShowPauseMenu(true);
+    setClocksRunning(false);
+  };
+
+  const resumeWorkout = () => {
+    setShowPauseMenu(false);
+    setClocksRunning(true);
+  };
+
   const formatElapsedTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -281,7 +324,12 @@ export function WorkoutPage({
     return (
       <CardioWorkoutView
         cardioType={session.cardioType}
+        customActivityId={session.customActivityId}
         startedAt={session.startedAt}
+        track={session.track}
+        onTrackPoint={onLogTrackPoint}
+        heartRate={session.heartRate}
+        heartRateMonitor={heartRateMonitor}
         onComplete={onCompleteWorkout}
         onCancel={onCancelWorkout}
       />
@@ -309,13 +357,16 @@ export function WorkoutPage({
   }
 
   // Show completion screen
-  if (showComplete) {
-    const duration = Math.round((Date.now() - new Date(session.startedAt).getTime()) / 1000 / 60);
+  if (showComplete || isOutOfExercises) {
+    const duration = Math.round(elapsedTime / 60);
     return (
       <div className="min-h-screen flex flex-col px-4 pt-12 pb-24 safe-top bg-slate-100 dark:bg-slate-950">
         {/* Cow celebration animation */}
         {showCowCelebration && (
-          <CowCelebration onComplete={() => setShowCowCelebration(false)} />
+          <>
+            <CowCelebration onComplete={() => setShowCowCelebration(false)} />
+            <PRCelebration records={newRecords} />
+          </>
         )}
 
         <div className="flex-1 flex flex-col items-center justify-center text-center">
@@ -328,6 +379,11 @@ export function WorkoutPage({
           <p className="text-slate-500 dark:text-slate-400 mb-8">
             {duration} min • {session.exercises.length} exercises
           </p>
+          {session.heartRate && session.heartRate.length > 0 && (
+            <div className="w-full max-w-sm mb-8">
+              <HeartRateSummary samples={session.heartRate} />
+            </div>
+          )}
           <div className="w-full max-w-sm">
             <label className="block text-sm text-slate-600 dark:text-slate-400 mb-3 text-center">
               How was your overall effort?
@@ -340,6 +396,8 @@ export function WorkoutPage({
             variant="primary"
             size="lg"
             onClick={() => {
+              // Same check completeWorkout makes when it saves the session
+              detectPersonalRecords({ ...session, completedAt: new Date().toISOString() }).then(setNewRecords);
               setShowCowCelebration(true);
               // Delay the actual completion to let animation play
               setTimeout(() => onCompleteWorkout(finalEffort), 3000);
@@ -381,9 +439,16 @@ export function WorkoutPage({
   }
 
   // === MAIN WORKOUT UI ===
-  const isLastExercise =
-    currentBlockIndex === blocks.length - 1 &&
-    currentExerciseIndex === (currentBlock.exercises.length) - 1;
+  const isLastExercise = getNextPosition(blocks, position) === null;
+
+  // Supersets and circuits: where we are in the group and its rounds
+  const currentGroup = getGroupSpan(currentBlock, currentExerciseIndex);
+  const blockSteps = countBlockSteps(currentBlock);
+  const blockStepsDone = countStepsBefore(currentBlock, position);
+
+  // Repeated blocks: which pass this is, recorded on each log
+  const blockRepeats = getBlockRepeats(currentBlock);
+  const logRound = blockRepeats > 1 ? currentBlockRound : undefined;
 
   const totalSetsInBlock = [...new Set(currentBlock.exercises.map(e => e.sets).filter(Boolean))].length;
   const hasMultipleSets = totalSetsInBlock > 1;
@@ -397,27 +462,72 @@ export function WorkoutPage({
 
   const effectiveExerciseId = swappedExercises[swapKey] || currentExercise.exerciseId;
   const effectiveExercise = { ...currentExercise, exerciseId: effectiveExerciseId };
+  const timedBlock = currentBlock.timing ? { ...currentBlock, timing: currentBlock.timing } : null;
+  const exerciseTimer = timers.exercise?.exerciseId === effectiveExerciseId ? timers.exercise.timer : undefined;
+
+  const handleExerciseTimerChange = (timer: TimerState | undefined) => {
+    onUpdateTimers({ exercise: timer && { exerciseId: effectiveExerciseId, timer } });
+  };
+
+  // Record how long was actually rested, including any time past the countdown
+  const endRest = () => {
+    const { rest } = timers;
+    if (!rest) return;
+    const taken = getElapsed(rest.timer);
+    onLogRest?.({
+      afterExerciseId: rest.afterExerciseId,
+      planned: rest.planned,
+      taken: Math.round(taken),
+      startedAt: new Date(Date.now() - taken * 1000).toISOString(),
+    });
+    onUpdateTimers({ rest: undefined });
+  };
 
   const handleComplete = (log: Parameters<typeof onLogExercise>[0]) => {
-    onLogExercise(log);
+    endRest();
+    onUpdateTimers({ exercise: undefined });
+    onLogExercise({ ...log, round: logRound });
     if (isLastExercise) {
       setShowComplete(true);
-    } else {
-      onNextExercise(currentBlock.exercises.length, blocks.length);
+      return;
+    }
+    const planned = getRestAfter(currentBlock, currentExerciseIndex);
+    if (planned > 0) {
+      onUpdateTimers({ rest: { afterExerciseId: log.exerciseId, planned, timer: startTimer(createTimer(planned)) } });
     }
+    onNextExercise();
   };
 
   const handleSkip = () => {
+    endRest();
+    onUpdateTimers({ exercise: undefined });
     // Track the skip
     incrementSkipCount(effectiveExerciseId);
 
     if (isLastExercise) {
       setShowComplete(true);
     } else {
-      onNextExercise(currentBlock.exercises.length, blocks.length);
+      onNextExercise();
     }
   };
 
+  // Timed blocks run as a whole, so finishing or skipping one moves on to the next block
+  const advanceBlock = () => {
+    onUpdateTimers({ timedBlock: undefined });
+    if (isLastExercise) {
+      setShowComplete(true);
+    } else {
+      onNextExercise();
+    }
+  };
+
+  const handleBlockFinish = (result: BlockResult) => {
+    endRest();
+    onLogBlockResult?.({ ...result, round: logRound });
+    buildTimedBlockLogs(currentBlock, result).forEach(log => onLogExercise({ ...log, round: logRound }));
+    advanceBlock();
+  };
+
   const handleSwap = (newExerciseId: string) => {
     // Track the swap (track original exercise being swapped out)
     incrementSwapCount(effectiveExerciseId);
@@ -428,8 +538,7 @@ export function WorkoutPage({
   };
 
   const handleBack = () => {
-    const getBlockExerciseCount = (idx: number) => blocks[idx]?.exercises.length ?? 0;
-    onPreviousExercise(getBlockExerciseCount);
+    onPreviousExercise();
   };
 
   // Delete exercise from workout at specific position
@@ -504,14 +613,25 @@ export function WorkoutPage({
     return e.name.toLowerCase().includes(exerciseSearchQuery.toLowerCase());
   }).slice(0, 10);
 
-  const isFirstExercise = currentBlockIndex === 0 && currentExerciseIndex === 0;
+  const isFirstExercise = getPreviousPosition(blocks, position) === null;
+
+  // Shown over either layout; the exercise on screen is already the next one
+  const activeRest = timers.rest;
+  const restOverlay = activeRest && (
+    <RestTimer
+      timer={activeRest.timer}
+      nextName={getExerciseById(effectiveExerciseId)?.name}
+      onExtend={() => onUpdateTimers({ rest: { ...activeRest, timer: extendTimer(activeRest.timer, 15) } })}
+      onEnd={endRest}
+    />
+  );
 
   // Shared progress bar component
-  const ProgressBar = ({ compact = false }: { compact?: boolean }) => {
+  const renderProgressBar = (compact = false) => {
     // Build counter text for current block
     const counterText = hasMultipleSets && currentSetNumber
       ? `${exerciseIndexInSet} of ${exercisesInCurrentSet.length}`
-      : `${currentExerciseIndex + 1} of ${currentBlock.exercises.length}`;
+      : `${blockStepsDone + 1} of ${blockSteps}`;
 
     return (
       <div className={`${compact ? 'p-3' : 'p-4'} rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-sm`}>
@@ -521,7 +641,7 @@ export function WorkoutPage({
             if (block.isComplete) {
               progressPercent = 100;
             } else if (block.isCurrent && currentBlock) {
-              progressPercent = (currentExerciseIndex / currentBlock.exercises.length) * 100;
+              progressPercent = (blockStepsDone / blockSteps) * 100;
             }
 
             if (block.isCurrent) {
@@ -563,18 +683,32 @@ export function WorkoutPage({
             Set {currentSetNumber} of {totalSetsInBlock}
           </div>
         )}
+        {blockRepeats > 1 && (
+          <div className="mt-3 text-center text-sm text-slate-500 dark:text-slate-400">
+            Round {currentBlockRound} of {blockRepeats}
+          </div>
+        )}
+        {currentGroup && (
+          <div className="mt-3 text-center text-sm text-slate-500 dark:text-slate-400">
+            <span className="font-semibold text-emerald-600 dark:text-emerald-400">{getGroupLabel(currentBlock, currentExerciseIndex)}</span>
+            {' '}· {getGroupKind(currentGroup)} · Round {currentRound} of {Math.max(1, currentGroup.group.rounds)}
+          </div>
+        )}
       </div>
     );
   };
 
   // Shared header component
-  const Header = ({ compact = false }: { compact?: boolean }) => (
+  const renderHeader = (compact = false) => (
     <div className={`bg-white dark:bg-slate-900 border-b border-slate-200 dark:border-slate-800 safe-top ${compact ? 'px-4 pt-12 pb-2' : 'px-4 pt-16 pb-4'}`}>
       <div className="flex justify-between items-center">
         <img src="/logo_icon.png" alt="Moove" className={`${compact ? 'h-6' : 'h-9'} dark:invert`} />
-        <span className="text-lg text-slate-600 dark:text-slate-400 tabular-nums font-medium">{formatElapsedTime(elapsedTime)}</span>
+        <div className="flex items-center gap-2">
+          <span className="text-lg text-slate-600 dark:text-slate-400 tabular-nums font-medium">{formatElapsedTime(elapsedTime)}</span>
+          {heartRateMonitor && <HeartRateButton monitor={heartRateMonitor} compact={compact} />}
+        </div>
         <button
-          onClick={() => setShowPauseMenu(true)}
+          onClick={pauseWorkout}
           className="p-2 -mr-2 text-red-600 hover:text-red-500 dark:text-red-400 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
           title="Pause workout"
         >
@@ -596,6 +730,7 @@ export function WorkoutPage({
           <div className="flex items-center gap-4">
             {/* Timer */}
             <span className="text-sm text-slate-600 dark:text-slate-400 tabular-nums font-medium">{formatElapsedTime(elapsedTime)}</span>
+            {heartRateMonitor && <HeartRateButton monitor={heartRateMonitor} compact />}
             {/* Block progress */}
             <div className="flex-1 flex gap-1 items-center">
               {timelineBlocks.map((block, idx) => {
@@ -603,12 +738,12 @@ export function WorkoutPage({
                 if (block.isComplete) {
                   progressPercent = 100;
                 } else if (block.isCurrent && currentBlock) {
-                  progressPercent = (currentExerciseIndex / currentBlock.exercises.length) * 100;
+                  progressPercent = (blockStepsDone / blockSteps) * 100;
                 }
                 // Build counter text for current block
                 const counterText = hasMultipleSets && currentSetNumber
                   ? `${exerciseIndexInSet} of ${exercisesInCurrentSet.length}`
-                  : `${currentExerciseIndex + 1} of ${currentBlock.exercises.length}`;
+                  : `${blockStepsDone + 1} of ${blockSteps}`;
 
                 if (block.isCurrent) {
                   // Current block: pill with counter inside
@@ -645,7 +780,7 @@ export function WorkoutPage({
             </div>
             {/* Pause button */}
             <button
-              onClick={() => setShowPauseMenu(true)}
+              onClick={pauseWorkout}
               className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
               title="Pause workout"
             >
@@ -658,7 +793,7 @@ export function WorkoutPage({
 
         {/* Pause Menu Popup */}
         {showPauseMenu && (
-          <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center" onClick={() => setShowPauseMenu(false)}>
+          <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center" onClick={resumeWorkout}>
             <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl max-w-sm w-full mx-4 overflow-hidden" onClick={(e) => e.stopPropagation()}>
               <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
                 <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Workout Paused</h3>
@@ -668,7 +803,7 @@ export function WorkoutPage({
               </div>
               <div className="p-2">
                 <button
-                  onClick={() => setShowPauseMenu(false)}
+                  onClick={resumeWorkout}
                   className="w-full px-4 py-3 text-left rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors flex items-center gap-3"
                 >
                   <svg className="w-5 h-5 text-emerald-500" viewBox="0 0 24 24" fill="currentColor">
@@ -728,15 +863,28 @@ export function WorkoutPage({
         <div className="flex-1 flex gap-4 min-h-0 overflow-hidden">
           {/* Left Panel - Exercise Card */}
           <div className="w-1/2 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-sm dark:shadow-none overflow-y-auto scrollbar-hide">
-            <ExerciseView
-              workoutExercise={effectiveExercise}
-              onComplete={handleComplete}
-              onSkip={handleSkip}
-              onSwapExercise={handleSwap}
-              onBack={handleBack}
-              canGoBack={!isFirstExercise}
-              compact
-            />
+            {timedBlock ? (
+              <TimedBlockRunner
+                key={`${timedBlock.id}-${currentBlockRound}`}
+                block={timedBlock}
+                progress={timers.timedBlock?.blockId === timedBlock.id ? timers.timedBlock : undefined}
+                onProgress={timedBlockProgress => onUpdateTimers({ timedBlock: timedBlockProgress })}
+                onFinish={handleBlockFinish}
+                onSkip={advanceBlock}
+              />
+            ) : (
+              <ExerciseView
+                workoutExercise={effectiveExercise}
+                onComplete={handleComplete}
+                onSkip={handleSkip}
+                onSwapExercise={handleSwap}
+                timer={exerciseTimer}
+                onTimerChange={handleExerciseTimerChange}
+                onBack={handleBack}
+                canGoBack={!isFirstExercise}
+                compact
+              />
+            )}
           </div>
 
           {/* Right Panel - Upcoming exercises */}
@@ -809,6 +957,8 @@ export function WorkoutPage({
           </div>
         </div>
         </div>
+
+        {restOverlay}
       </div>
     );
   }
@@ -816,11 +966,11 @@ export function WorkoutPage({
   // === PORTRAIT LAYOUT (original) ===
   return (
     <div className="min-h-screen flex flex-col pb-20 bg-slate-100 dark:bg-slate-950">
-      <Header />
+      {renderHeader()}
 
       {/* Pause Menu Popup */}
       {showPauseMenu && (
-        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center" onClick={() => setShowPauseMenu(false)}>
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center" onClick={resumeWorkout}>
           <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl max-w-sm w-full mx-4 overflow-hidden" onClick={(e) => e.stopPropagation()}>
             <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
               <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Workout Paused</h3>
@@ -830,7 +980,7 @@ export function WorkoutPage({
             </div>
             <div className="p-2">
               <button
-                onClick={() => setShowPauseMenu(false)}
+                onClick={resumeWorkout}
                 className="w-full px-4 py-3 text-left rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors flex items-center gap-3"
               >
                 <svg className="w-5 h-5 text-emerald-500" viewBox="0 0 24 24" fill="currentColor">
@@ -863,7 +1013,7 @@ export function WorkoutPage({
 
       {/* Progress Card */}
       <div className="px-4 pt-4">
-        <ProgressBar />
+        {renderProgressBar()}
       </div>
 
       {/* Scrollable Content */}
@@ -871,14 +1021,27 @@ export function WorkoutPage({
         {/* Current Exercise */}
         <div className="px-4 pt-4 pb-2">
           <div className="rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-sm dark:shadow-none overflow-hidden">
-            <ExerciseView
-              workoutExercise={effectiveExercise}
-              onComplete={handleComplete}
-              onSkip={handleSkip}
-              onSwapExercise={handleSwap}
-              onBack={handleBack}
-              canGoBack={!isFirstExercise}
-            />
+            {timedBlock ? (
+              <TimedBlockRunner
+                key={`${timedBlock.id}-${currentBlockRound}`}
+                block={timedBlock}
+                progress={timers.timedBlock?.blockId === timedBlock.id ? timers.timedBlock : undefined}
+                onProgress={timedBlockProgress => onUpdateTimers({ timedBlock: timedBlockProgress })}
+                onFinish={handleBlockFinish}
+                onSkip={advanceBlock}
+              />
+            ) : (
+              <ExerciseView
+                workoutExercise={effectiveExercise}
+                onComplete={handleComplete}
+                onSkip={handleSkip}
+                onSwapExercise={handleSwap}
+                timer={exerciseTimer}
+                onTimerChange={handleExerciseTimerChange}
+                onBack={handleBack}
+                canGoBack={!isFirstExercise}
+              />
+            )}
           </div>
         </div>
 
@@ -1030,6 +1193,8 @@ export function WorkoutPage({
           </section>
         )}
       </div>
+
+      {restOverlay}
     </div>
   );
 }
@@ -18,6 +18,53 @@ export type EquipmentType =
   | 'cable'
   | 'machine';
 
+/** Units for showing and entering values (stored values are always lb and miles) */
+export type WeightUnit = 'lb' | 'kg';
+export type DistanceUnit = 'mi' | 'km';
+
+export interface UnitPreferences {
+  weight: WeightUnit;
+  distance: DistanceUnit;
+}
+
+/** Sound and vibration for timer countdowns and interval changes (per device) */
+export interface CueSettings {
+  volume: number;                // 0-1
+  muted: boolean;
+  vibrate: boolean;
+}
+
+/** Heart-rate zones and monitor choice (per device) */
+export interface HeartRateSettings {
+  zones: 'age' | 'custom';       // Zones from age-predicted max HR, or typed in
+  age?: number;
+  customZones?: number[];        // Lowest bpm of zones 1-5, ascending
+  simulated: boolean;            // Use the built-in simulated monitor instead of Bluetooth
+}
+
+export const HEART_RATE_ZONE_LABELS = ['Warm up', 'Easy', 'Aerobic', 'Threshold', 'Max'] as const;
+
+/** Plates of one size owned for a barbell (loaded in pairs) */
+export interface PlateStock {
+  weight: number;                // lb
+  count: number;                 // Plates owned, not pairs
+}
+
+/** A resistance band, rated by the load it adds at full stretch */
+export interface ResistanceBand {
+  label: string;                 // e.g. "Red", "Medium"
+  resistance: number;            // lb
+}
+
+/** The equipment a user owns; suggested weights snap to loads it can make (all weights in lb) */
+export interface EquipmentInventory {
+  kettlebells: number[];
+  dumbbells: { min: number; max: number; step: number };
+  barbell: { bar: number; plates: PlateStock[] };
+  sandbags: number[];
+  bands: ResistanceBand[];
+}
+
 /** Movement patterns / muscle groups for categorizing exercises */
 export type MuscleArea =
   | 'squat'
@@ -34,8 +81,43 @@ export type MuscleArea =
 /** Workout block types for structuring sessions */
 export type BlockType = 'warmup' | 'strength' | 'conditioning' | 'cardio' | 'cooldown';
 
-/** Cardio workout types (no blocks/sets needed) */
-export type CardioType = 'walk' | 'run' | 'trail-run' | 'hike';
+/** Seconds of rest after each exercise when a block doesn't set its own */
+export const DEFAULT_REST_SECONDS: Record<BlockType, number> = {
+  'warmup': 15,
+  'strength': 90,
+  'conditioning': 30,
+  'cardio': 0,
+  'cooldown': 0,
+};
+
+/** How a timed block is run (blocks without one are worked through exercise by exercise) */
+export type BlockMode = 'emom' | 'amrap' | 'tabata' | 'for-time';
+
+/** Labels for block modes */
+export const BLOCK_MODE_LABELS: Record<BlockMode, string> = {
+  'emom': 'EMOM',
+  'amrap': 'AMRAP',
+  'tabata': 'Tabata',
+  'for-time': 'For Time',
+};
+
+/** Timing for a block run against the clock */
+export interface BlockTiming {
+  mode: BlockMode;
+  minutes?: number;              // EMOM/AMRAP length, for-time cap
+  work?: number;                 // Tabata work interval in seconds
+  rest?: number;                 // Tabata rest interval in seconds
+  rounds?: number;               // Tabata rounds
+}
+
+/**
+ * Cardio workout types (no blocks/sets needed). 'custom' marks a session of
+ * one of the user's own activities (see CustomCardioActivity).
+ */
+export type CardioType =
+  | 'walk' | 'run' | 'trail-run' | 'hike'
+  | 'cycle' | 'row' | 'swim' | 'elliptical' | 'ski-erg' | 'jump-rope'
+  | 'custom';
 
 /** Labels for cardio types */
 export const CARDIO_TYPE_LABELS: Record<CardioType, string> = {
@@ -43,6 +125,13 @@ export const CARDIO_TYPE_LABELS: Record<CardioType, string> = {
   'run': 'Run',
   'trail-run': 'Trail Run',
   'hike': 'Hike',
+  'cycle': 'Cycling',
+  'row': 'Rowing',
+  'swim': 'Swimming',
+  'elliptical': 'Elliptical',
+  'ski-erg': 'Ski Erg',
+  'jump-rope': 'Jump Rope',
+  'custom': 'Custom Activity',
 };
 
 /** Icons/emoji for cardio types */
@@ -51,8 +140,72 @@ export const CARDIO_TYPE_ICONS: Record<CardioType, string> = {
   'run': '🏃',
   'trail-run': '⛰️',
   'hike': '🥾',
+  'cycle': '🚴',
+  'row': '🚣',
+  'swim': '🏊',
+  'elliptical': '🔄',
+  'ski-erg': '⛷️',
+  'jump-rope': '🪢',
+  'custom': '⭐',
 };
 
+/**
+ * Numbers recorded for a cardio session. Distance is kept on the session
+ * itself (in miles, like every distance); the rest go in its metrics.
+ */
+export type CardioMetric = 'distance' | 'meters' | 'strokeRate' | 'laps' | 'calories' | 'cadence' | 'jumps';
+
+/** Labels and units for cardio metrics (distance uses the user's unit) */
+export const CARDIO_METRIC_LABELS: Record<CardioMetric, { label: string; unit?: string }> = {
+  distance: { label: 'Distance' },
+  meters: { label: 'Meters', unit: 'm' },
+  strokeRate: { label: 'Stroke rate', unit: 'spm' },
+  laps: { label: 'Laps' },
+  calories: { label: 'Calories', unit: 'kcal' },
+  cadence: { label: 'Cadence', unit: 'rpm' },
+  jumps: { label: 'Jumps' },
+};
+
+/** What each built-in cardio type records at the end */
+export const CARDIO_TYPE_METRICS: Record<CardioType, CardioMetric[]> = {
+  'walk': ['distance'],
+  'run': ['distance'],
+  'trail-run': ['distance'],
+  'hike': ['distance'],
+  'cycle': ['distance', 'cadence', 'calories'],
+  'row': ['meters', 'strokeRate', 'calories'],
+  'swim': ['laps', 'meters'],
+  'elliptical': ['distance', 'calories'],
+  'ski-erg': ['meters', 'calories'],
+  'jump-rope': ['jumps', 'calories'],
+  'custom': [],
+};
+
+export type CardioMetrics = Partial<Record<Exclude<CardioMetric, 'distance'>, number>>;
+
+/** A cardio activity the user added, with its own name, icon and metrics */
+export interface CustomCardioActivity {
+  id: string;
+  name: string;
+  icon: string;                  // Emoji
+  metrics: CardioMetric[];
+}
+
+/** A GPS fix recorded during a cardio session */
+export interface TrackPoint {
+  time: string;                  // ISO timestamp of the fix
+  lat: number;
+  lon: number;
+  elevation?: number;            // Meters above sea level, if the device reports it
+  accuracy?: number;             // Horizontal accuracy in meters
+}
+
+/** A heart-rate reading from a paired monitor */
+export interface HeartRateSample {
+  time: string;                  // ISO timestamp of the reading
+  bpm: number;
+}
+
 /** Rate of Perceived Exertion (RPE) scale 1-10 */
 export type EffortLevel = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10;
 
@@ -66,21 +219,26 @@ export interface Exercise {
   name: string;
   area: MuscleArea;
   equipment: EquipmentType;
-  defaultWeight?: number;
+  defaultWeight?: number;        // lb
   defaultReps?: number | 'AMRAP';
   defaultDuration?: number;      // Duration in seconds
   imageUrl?: string;
   description?: string;
   alternatives?: string[];       // IDs of exercises that can substitute
+  updatedAt?: string;            // Custom exercises only (sync change tracking)
+  version?: number;
 }
 
 /** An exercise as configured within a workout (with specific parameters) */
 export interface WorkoutExercise {
   exerciseId: string;
-  weight?: number;
+  weight?: number;               // lb
   reps?: number | 'AMRAP';
   duration?: number;             // Duration in seconds
-  sets?: number;
+  sets?: number;                 // Round this exercise belongs to within its block (not a set count)
+  group?: string;                // ExerciseGroup id; grouped exercises sit next to each other
+  rest?: number;                 // Seconds to rest afterwards (overrides the block)
+  prescribed?: string;           // Why `weight` is set by a program (e.g. "Week 3: +10 lb"); replaces the suggestion
   notes?: string;
 }
 
@@ -95,14 +253,24 @@ export interface WorkoutSet {
   exercises: WorkoutExercise[];
 }
 
+/** Exercises done back to back (A1, A2, ...) for a number of rounds: a superset, or a circuit with 3+ */
+export interface ExerciseGroup {
+  id: string;
+  rounds: number;
+  rest?: number;                 // Seconds to rest after each round (the block's rest if unset)
+}
+
 /** A block/section within a workout (warmup, strength, etc.) */
 export interface WorkoutBlock {
   id: string;
   type: BlockType;
   name: string;
   exercises: WorkoutExercise[];  // Flat exercise list
-  sets?: WorkoutSet[];           // Optional set-based structure
-  repeat?: number;               // Times to repeat block
+  sets?: WorkoutSet[];           // Optional set-based structure; run in place of `exercises` when present
+  groups?: ExerciseGroup[];      // Supersets/circuits, referenced by WorkoutExercise.group
+  repeat?: number;               // Times to run through the block (once if unset)
+  rest?: number;                 // Seconds to rest after each exercise (DEFAULT_REST_SECONDS if unset)
+  timing?: BlockTiming;          // Run the block against the clock instead
 }
 
 /** A saved workout template */
@@ -120,25 +288,130 @@ export interface SavedWorkout {
   blocks: WorkoutBlock[];
   createdAt: string;
   updatedAt: string;
+  version?: number;              // Incremented on every local change (sync)
   // Cardio-specific fields (if cardioType is set, blocks should be empty)
   cardioType?: CardioType;
 }
 
+// ============================================================================
+// PROGRAMS
+// ============================================================================
+
+/** A saved workout on a day of the week, the same every week of the program */
+export interface ProgramDay {
+  weekday: number;               // 0 = Sunday ... 6 = Saturday
+  workoutId: string;             // SavedWorkout id
+}
+
+/** How working weights change from week to week */
+export interface ProgramProgression {
+  weeklyIncrease: number;        // lb added each week after the first (0 = none)
+  deloadWeeks: number[];         // Weeks (from 1) lifted at reduced load
+  deloadPercent: number;         // Load in a deload week, as a % of that week's weight
+}
+
+/** A multi-week plan assigning saved workouts to weekdays */
+export interface Program {
+  id: string;
+  name: string;
+  weeks: number;
+  days: ProgramDay[];
+  progression: ProgramProgression;
+  startDate?: string;            // Local date (YYYY-MM-DD) week 1 begins; unset until started
+  createdAt: string;
+  updatedAt: string;
+  version?: number;              // Incremented on every local change (sync)
+}
+
+/** One scheduled workout of a program, recorded on the session that did it */
+export interface ProgramSlot {
+  programId: string;
+  week: number;                  // From 1
+  weekday: number;               // 0 = Sunday ... 6 = Saturday
+}
+
+/** A saved workout planned for one date from the calendar */
+export interface PlannedWorkout {
+  date: string;                  // Local date (YYYY-MM-DD)
+  workoutId: string;             // SavedWorkout id
+}
+
 // ============================================================================
 // SESSION TRACKING
 // ============================================================================
 
+/** Kind of set within a logged exercise */
+export type SetType = 'warmup' | 'working' | 'drop' | 'failure';
+
+/** Labels for set types */
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  'warmup': 'Warmup',
+  'working': 'Working',
+  'drop': 'Drop set',
+  'failure': 'To failure',
+};
+
+/** One performed set of an exercise */
+export interface SetLog {
+  type: SetType;
+  weight?: number;               // lb
+  reps?: number;
+  duration?: number;             // Duration in seconds (timed exercises)
+  rpe?: EffortLevel;
+}
+
 /** Log entry for a completed exercise during a session */
 export interface ExerciseLog {
   exerciseId: string;
-  weight?: number;
-  reps?: number;
-  duration?: number;
+  sets: SetLog[];                // In the order performed
+  round?: number;                // Pass through a repeated block, from 1 (unset when it runs once)
   effort?: EffortLevel;
   notes?: string;
   completedAt: string;
 }
 
+/** A rest taken between exercises during a session */
+export interface RestLog {
+  afterExerciseId: string;
+  planned: number;               // Seconds the block or exercise called for
+  taken: number;                 // Seconds actually rested
+  startedAt: string;
+}
+
+/** Outcome of a timed block */
+export interface BlockResult {
+  blockId: string;
+  mode: BlockMode;
+  rounds: number;                // Full rounds (AMRAP), minutes (EMOM) or intervals (Tabata) completed
+  extraReps?: number;            // AMRAP reps into the unfinished round
+  finishTime?: number;           // For time: seconds to finish
+  capped?: boolean;              // For time: the cap ran out first
+  round?: number;                // Pass through a repeated block, from 1 (unset when it runs once)
+  completedAt: string;
+}
+
+/** What a personal record is a best of */
+export type PersonalRecordKind = 'weight' | 'reps' | 'volume' | 'e1rm';
+
+/** Labels for personal record kinds */
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordKind, string> = {
+  'weight': 'Heaviest weight',
+  'reps': 'Most reps',
+  'volume': 'Most volume',
+  'e1rm': 'Estimated 1RM',
+};
+
+/** A new best for an exercise, set during a session */
+export interface PersonalRecord {
+  exerciseId: string;
+  kind: PersonalRecordKind;
+  value: number;                 // lb, reps, or lb x reps (volume)
+  previous: number;              // Best before this session
+}
+
+/** How the next weight and reps are suggested from an exercise's history */
+export type OverloadStrategyId = 'linear' | 'double' | 'rpe';
+
 /** An active or completed workout session */
 export interface WorkoutSession {
   id: string;
@@ -146,13 +419,72 @@ export interface WorkoutSession {
   name: string;
   blocks: WorkoutBlock[];
   startedAt: string;
+  timeZone?: string;             // IANA zone the session started in; its calendar day is taken there
   completedAt?: string;
   exercises: ExerciseLog[];
   totalDuration?: number;        // Duration in seconds
   overallEffort?: EffortLevel;
   // Cardio-specific fields
   cardioType?: CardioType;       // If set, this is a cardio workout
-  distance?: number;             // Distance in miles
+  distance?: number;             // Distance in miles (converted for display)
+  customActivityId?: string;     // CustomCardioActivity done, when cardioType is 'custom'
+  metrics?: CardioMetrics;       // Cardio numbers besides distance (meters, calories...)
+  track?: TrackPoint[];          // GPS track, if the session was tracked
+  heartRate?: HeartRateSample[]; // Readings from a heart-rate monitor, if one was paired
+  personalRecords?: PersonalRecord[]; // PRs set in this session
+  rests?: RestLog[];             // Rest periods between exercises, in order
+  blockResults?: BlockResult[];  // Timed block outcomes (EMOM, AMRAP, Tabata, for time)
+  program?: ProgramSlot;         // Program workout this session completes
+  updatedAt?: string;            // Last local change (sync change tracking)
+  version?: number;              // Incremented on every local change (sync)
+}
+
+/**
+ * A clock kept as timestamps rather than a ticking counter, so it stays right
+ * when the browser throttles timers in the background and survives reloads
+ */
+export interface TimerState {
+  startedAt: number | null;      // ms epoch the current run began; null while paused
+  accumulated: number;           // ms run before the current start
+  duration?: number;             // Countdown length in seconds; counts up if unset
+}
+
+/** A rest countdown in progress */
+export interface ActiveRest {
+  afterExerciseId: string;
+  planned: number;               // Seconds
+  timer: TimerState;             // Countdown; runs on past zero until the rest ends
+}
+
+/** A timed block (EMOM, AMRAP, Tabata, for time) in progress */
+export interface ActiveTimedBlock {
+  blockId: string;
+  timer: TimerState;             // Paused once the block is ended early
+  rounds: number;                // AMRAP rounds counted so far
+  ended: boolean;
+}
+
+/** The stopwatch opened on an exercise */
+export interface ActiveExerciseTimer {
+  exerciseId: string;
+  timer: TimerState;
+}
+
+/** Clocks running during a session, saved with it so they survive reloads */
+export interface SessionTimers {
+  clock?: TimerState;            // Workout time, paused while the pause menu is open
+  rest?: ActiveRest;
+  timedBlock?: ActiveTimedBlock;
+  exercise?: ActiveExerciseTimer;
+}
+
+/** The in-progress session, persisted with navigation state for crash recovery */
+export interface ActiveSession extends WorkoutSession, SessionTimers {
+  currentBlockIndex?: number;
+  currentExerciseIndex?: number;
+  currentRound?: number;                       // Round of the current superset/circuit, from 1
+  currentBlockRound?: number;                  // Pass through a repeated block, from 1
+  swappedExercises?: Record<string, string>;   // "block-exercise" position -> replacement exercise id
 }
 
 /** State for tracking position within an active workout */
@@ -165,6 +497,36 @@ export interface WorkoutState {
   timerSeconds: number;
 }
 
+// ============================================================================
+// SYNC
+// ============================================================================
+
+/** Record collections that sync record-by-record */
+export type SyncRecordKind = 'sessions' | 'savedWorkouts' | 'customExercises' | 'programs';
+
+/** Any record that carries change-tracking metadata */
+export type SyncRecord = WorkoutSession | SavedWorkout | Exercise | Program;
+
+/** Marker left behind when a record is deleted so the deletion can sync */
+export interface Tombstone {
+  kind: SyncRecordKind;
+  id: string;
+  deletedAt: string;
+}
+
+/** A difference between this device and the cloud that the merge could not resolve */
+export interface SyncConflict {
+  id: string;
+  kind: SyncRecordKind;
+  recordId: string;
+  recordName: string;
+  reason: 'edit-edit' | 'delete-edit';
+  fields: string[];              // Fields changed on both sides (edit-edit only)
+  local: SyncRecord | null;      // null when deleted on this device
+  remote: SyncRecord | null;     // null when deleted in the cloud
+  detectedAt: string;
+}
+
 // ============================================================================
 // USER PREFERENCES
 // ============================================================================
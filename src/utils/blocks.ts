@@ -0,0 +1,23 @@
+/**
+ * Block structure - Repeated blocks and structured sets
+ *
+ * The runner and the builder work on a block's flat `exercises` list, with
+ * each entry tagged by the set it belongs to. Blocks authored as `WorkoutSet`
+ * arrays are flattened into that list before a workout starts or is edited.
+ */
+
+import type { WorkoutBlock } from '../types';
+
+/** Times a block is run through (`repeat`, at least once) */
+export function getBlockRepeats(block: WorkoutBlock): number {
+  return Math.max(1, Math.floor(block.repeat ?? 1));
+}
+
+/** A block's `WorkoutSet`s (in set order) as the flat list the runner uses; blocks without sets are unchanged */
+export function expandWorkoutSets(block: WorkoutBlock): WorkoutBlock {
+  if (!block.sets || block.sets.length === 0) return block;
+  const exercises = [...block.sets]
+    .sort((a, b) => a.setNumber - b.setNumber)
+    .flatMap(set => set.exercises.map(exercise => ({ ...exercise, sets: set.setNumber })));
+  return { ...block, exercises, sets: undefined };
+}
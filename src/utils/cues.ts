@@ -0,0 +1,84 @@
+/**
+ * Timer cues - Beeps and vibration for countdowns and interval changes
+ *
+ * Tones are synthesized with the Web Audio API, so there are no sound files
+ * to load. Browsers only allow audio after a user gesture; `unlockAudio` is
+ * called from a tap before the first cue is needed.
+ */
+
+import type { CueSettings } from '../types';
+
+export type CueKind = 'countdown' | 'switch' | 'end';
+
+interface Tone {
+  frequency: number;             // Hz
+  duration: number;              // Seconds
+  delay?: number;                // Seconds after the cue starts
+}
+
+// Short pip for 3-2-1, a rising pair for work/rest changes, a long high tone to finish
+const CUE_TONES: Record<CueKind, Tone[]> = {
+  'countdown': [{ frequency: 880, duration: 0.12 }],
+  'switch': [{ frequency: 660, duration: 0.15 }, { frequency: 990, duration: 0.25, delay: 0.18 }],
+  'end': [{ frequency: 1320, duration: 0.2 }, { frequency: 1320, duration: 0.6, delay: 0.28 }],
+};
+
+const CUE_VIBRATIONS: Record<CueKind, number[]> = {
+  'countdown': [80],
+  'switch': [150, 80, 150],
+  'end': [400, 120, 400],
+};
+
+let context: AudioContext | null = null;
+
+function getAudioContext(): AudioContext | null {
+  if (context) return context;
+  const AudioContextClass = window.AudioContext
+    ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) return null;
+  context = new AudioContextClass();
+  return context;
+}
+
+/** Create or resume the audio context; only works from inside a user gesture */
+export function unlockAudio(): void {
+  const ctx = getAudioContext();
+  if (ctx?.state === 'suspended') ctx.resume().catch(() => {});
+}
+
+function playTone(ctx: AudioContext, tone: Tone, volume: number): void {
+  const start = ctx.currentTime + (tone.delay ?? 0);
+  const end = start + tone.duration;
+
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.type = 'square';      // Cuts through better than a sine over music and clanking plates
+  oscillator.frequency.value = tone.frequency;
+
+  // Quick fade in and out so the tone doesn't click
+  gain.gain.setValueAtTime(0.0001, start);
+  gain.gain.exponentialRampToValueAtTime(Math.max(0.0001, volume * 0.3), start + 0.01);
+  gain.gain.exponentialRampToValueAtTime(0.0001, end);
+
+  oscillator.connect(gain).connect(ctx.destination);
+  oscillator.start(start);
+  oscillator.stop(end + 0.02);
+}
+
+/** Beep and/or vibrate for a cue, as the settings allow */
+export function playCue(kind: CueKind, settings: CueSettings): void {
+  if (!settings.muted && settings.volume > 0) {
+    const ctx = getAudioContext();
+    if (ctx && ctx.state !== 'closed') {
+      if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+      CUE_TONES[kind].forEach(tone => playTone(ctx, tone, settings.volume));
+    }
+  }
+  if (settings.vibrate && canVibrate()) {
+    navigator.vibrate(CUE_VIBRATIONS[kind]);
+  }
+}
+
+export function canVibrate(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+}
@@ -0,0 +1,141 @@
+// Date helpers shared by the storage layer and the UI
+//
+// Calendar days are YYYY-MM-DD strings. A session belongs to the day it
+// started, in the time zone it started in, so a late session that runs past
+// midnight stays on its first day and a workout logged abroad keeps its date
+// after flying home. Day arithmetic runs on the date strings (through UTC),
+// so daylight saving changes never add or lose a day.
+
+/** Weekday a calendar week starts on: 0 = Sunday, 1 = Monday, 6 = Saturday */
+export type WeekStart = 0 | 1 | 6;
+
+export const DEFAULT_WEEK_START: WeekStart = 1;
+
+const DAY_MS = 86_400_000;
+
+/** Format a date as YYYY-MM-DD in local timezone (not UTC) */
+export function formatLocalDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/** A YYYY-MM-DD date as local midnight */
+export function parseLocalDate(dateStr: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// ============================================================================
+// TIME ZONES
+// ============================================================================
+
+/** IANA time zone of this device ("Europe/Berlin"), if the browser reports one */
+export function getDeviceTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Wall-clock fields of an instant in a time zone; null if the zone isn't known
+function getZonedFields(date: Date, timeZone: string): Record<string, number> | null {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+    }).formatToParts(date);
+    return Object.fromEntries(parts.filter(p => p.type !== 'literal').map(p => [p.type, Number(p.value)]));
+  } catch {
+    return null;
+  }
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/** YYYY-MM-DD of an instant in `timeZone` (device zone when unset or unknown) */
+export function formatDateInTimeZone(date: Date, timeZone?: string): string {
+  const fields = timeZone ? getZonedFields(date, timeZone) : null;
+  if (!fields) return formatLocalDate(date);
+  return `${fields.year}-${pad(fields.month)}-${pad(fields.day)}`;
+}
+
+/** HH:MM (24h) of an instant in `timeZone` (device zone when unset or unknown) */
+export function formatTimeInTimeZone(date: Date, timeZone?: string): string {
+  const fields = timeZone ? getZonedFields(date, timeZone) : null;
+  if (!fields) return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  return `${pad(fields.hour)}:${pad(fields.minute)}`;
+}
+
+// How far `timeZone` is ahead of UTC at an instant, in ms
+function getOffset(date: Date, timeZone: string): number | null {
+  const fields = getZonedFields(date, timeZone);
+  if (!fields) return null;
+  const wall = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+  return wall - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock date and time (YYYY-MM-DD, HH:MM) happen in
+ * `timeZone` (device zone when unset or unknown). The offset is checked
+ * twice so times next to a daylight saving change land on the right side.
+ */
+export function fromDateTimeInTimeZone(dateStr: string, time: string, timeZone?: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wall = Date.UTC(year, month - 1, day, hour || 0, minute || 0);
+  const offset = timeZone ? getOffset(new Date(wall), timeZone) : null;
+  if (offset === null) return new Date(year, month - 1, day, hour || 0, minute || 0);
+  const settled = getOffset(new Date(wall - offset), timeZone!) ?? offset;
+  return new Date(wall - settled);
+}
+
+/** Calendar day a session belongs to: the day it started, where it started */
+export function getSessionDate(session: { startedAt: string; timeZone?: string }): string {
+  return formatDateInTimeZone(new Date(session.startedAt), session.timeZone);
+}
+
+// ============================================================================
+// DAY ARITHMETIC
+// ============================================================================
+
+function toUtcDay(dateStr: string): number {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function fromUtcDay(time: number): string {
+  const date = new Date(time);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+/** The date `days` after (or before, if negative) a YYYY-MM-DD date */
+export function addDays(dateStr: string, days: number): string {
+  return fromUtcDay(toUtcDay(dateStr) + days * DAY_MS);
+}
+
+/** Whole days from one YYYY-MM-DD date to another (negative if `to` is earlier) */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtcDay(to) - toUtcDay(from)) / DAY_MS);
+}
+
+/** Weekday of a YYYY-MM-DD date, 0 = Sunday */
+export function getWeekday(dateStr: string): number {
+  return new Date(toUtcDay(dateStr)).getUTCDay();
+}
+
+/** First day of the week containing `dateStr` */
+export function getWeekStartDate(dateStr: string, weekStart: WeekStart = DEFAULT_WEEK_START): string {
+  return addDays(dateStr, -((getWeekday(dateStr) - weekStart + 7) % 7));
+}
+
+/** Weekdays (0 = Sunday) in display order for a week start */
+export function getWeekdayOrder(weekStart: WeekStart = DEFAULT_WEEK_START): number[] {
+  return Array.from({ length: 7 }, (_, i) => (weekStart + i) % 7);
+}
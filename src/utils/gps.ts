@@ -0,0 +1,238 @@
+/**
+ * GPS - Tracks recorded during outdoor cardio, and the numbers read off them
+ *
+ * Fixes come from a LocationSource: the browser's Geolocation API on a
+ * device, or a mock that is fed points by hand. Stats are worked out from the
+ * stored track every time, so a reload mid-run picks up where it left off.
+ * Only stretches covered at walking pace or faster count towards distance
+ * and moving time; standing at a crossing auto-pauses instead of adding GPS
+ * drift.
+ */
+
+import type { CardioType, DistanceUnit, TrackPoint } from '../types';
+import { KM_PER_MILE } from './units';
+
+/** Cardio done outdoors on foot, where a track makes sense */
+export const GPS_CARDIO_TYPES: CardioType[] = ['walk', 'run', 'trail-run', 'hike'];
+
+const METERS_PER_MILE = KM_PER_MILE * 1000;
+const EARTH_RADIUS_M = 6_371_000;
+
+const MAX_ACCURACY_M = 50;        // Fixes vaguer than this are dropped
+const MOVING_SPEED_MPS = 0.5;     // Slower than a slow walk counts as stopped
+const MAX_SPEED_MPS = 12;         // Faster than a sprint on foot is a bad fix
+const AUTO_PAUSE_AFTER_S = 10;    // Stopped this long shows as auto-paused
+const PACE_WINDOW_S = 30;         // Current pace is taken over the last stretch this long
+const ELEVATION_STEP_M = 3;       // Climbs smaller than this are altimeter noise
+
+export function supportsGpsTracking(cardioType: CardioType): boolean {
+  return GPS_CARDIO_TYPES.includes(cardioType);
+}
+
+// ============================================================================
+// TRACK MATH
+// ============================================================================
+
+/** Great-circle distance between two fixes, in meters */
+export function distanceBetween(a: TrackPoint, b: TrackPoint): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Length of a whole track in miles, stops and all (for tracks already cleaned up by a watch) */
+export function getTrackDistance(track: TrackPoint[]): number {
+  let meters = 0;
+  for (let i = 1; i < track.length; i++) meters += distanceBetween(track[i - 1], track[i]);
+  return meters / METERS_PER_MILE;
+}
+
+/** Whether a new fix is worth recording after the last one kept */
+export function shouldRecordPoint(point: TrackPoint, last?: TrackPoint): boolean {
+  if (point.accuracy !== undefined && point.accuracy > MAX_ACCURACY_M) return false;
+  return !last || new Date(point.time).getTime() > new Date(last.time).getTime();
+}
+
+interface Segment {
+  meters: number;
+  seconds: number;
+  endTime: number;
+  moving: boolean;
+}
+
+function getSegments(track: TrackPoint[]): Segment[] {
+  const segments: Segment[] = [];
+  for (let i = 1; i < track.length; i++) {
+    const meters = distanceBetween(track[i - 1], track[i]);
+    const endTime = new Date(track[i].time).getTime();
+    const seconds = (endTime - new Date(track[i - 1].time).getTime()) / 1000;
+    if (seconds <= 0) continue;
+    const speed = meters / seconds;
+    segments.push({ meters, seconds, endTime, moving: speed >= MOVING_SPEED_MPS && speed <= MAX_SPEED_MPS });
+  }
+  return segments;
+}
+
+// Total climb, ignoring wobble smaller than ELEVATION_STEP_M
+function getElevationGain(track: TrackPoint[]): number {
+  let gain = 0;
+  let base: number | undefined;
+  for (const point of track) {
+    if (point.elevation === undefined) continue;
+    if (base === undefined || point.elevation < base) {
+      base = point.elevation;
+    } else if (point.elevation - base >= ELEVATION_STEP_M) {
+      gain += point.elevation - base;
+      base = point.elevation;
+    }
+  }
+  return gain;
+}
+
+export interface TrackStats {
+  distance: number;              // Miles covered while moving
+  movingTime: number;            // Seconds spent moving
+  pace: number | null;           // Current seconds per mile; null while stopped or too early to tell
+  elevationGain: number;         // Meters climbed
+  paused: boolean;               // Stopped long enough to auto-pause
+}
+
+/** Distance, moving time, current pace and auto-pause for a track as of `now` */
+export function getTrackStats(track: TrackPoint[], now: number = Date.now()): TrackStats {
+  const segments = getSegments(track);
+  const moving = segments.filter(segment => segment.moving);
+  const meters = moving.reduce((sum, segment) => sum + segment.meters, 0);
+  const movingTime = moving.reduce((sum, segment) => sum + segment.seconds, 0);
+
+  const lastMoved = moving.length > 0 ? moving[moving.length - 1].endTime : null;
+  const paused = track.length > 0 && (lastMoved === null || now - lastMoved > AUTO_PAUSE_AFTER_S * 1000);
+
+  let pace: number | null = null;
+  if (!paused && lastMoved !== null) {
+    const recent = segments.filter(segment => segment.endTime > lastMoved - PACE_WINDOW_S * 1000);
+    const recentMeters = recent.reduce((sum, segment) => sum + (segment.moving ? segment.meters : 0), 0);
+    const recentSeconds = recent.reduce((sum, segment) => sum + segment.seconds, 0);
+    if (recentMeters > 0) pace = recentSeconds / (recentMeters / METERS_PER_MILE);
+  }
+
+  return {
+    distance: meters / METERS_PER_MILE,
+    movingTime: Math.round(movingTime),
+    pace,
+    elevationGain: getElevationGain(track),
+    paused,
+  };
+}
+
+export interface Split {
+  distance: number;              // In the split's unit: 1, or less for the last one
+  seconds: number;               // Clock time for the split, stops included
+  elevationChange: number;       // Meters up (or down, if negative) over the split
+}
+
+/**
+ * Time and climb for each mile or km of a track. Boundaries fall between
+ * fixes, so times and elevations are interpolated along the segment that
+ * crosses them.
+ */
+export function getSplits(track: TrackPoint[], unit: DistanceUnit): Split[] {
+  if (track.length < 2) return [];
+  const splitMeters = unit === 'km' ? 1000 : METERS_PER_MILE;
+  const timeOf = (point: TrackPoint) => new Date(point.time).getTime();
+  const elevations = track.filter(point => point.elevation !== undefined);
+  const elevationOf = (point: TrackPoint) => point.elevation ?? elevations[0]?.elevation ?? 0;
+
+  const splits: Split[] = [];
+  let covered = 0;
+  let startTime = timeOf(track[0]);
+  let startElevation = elevationOf(track[0]);
+  for (let i = 1; i < track.length; i++) {
+    const from = track[i - 1];
+    const to = track[i];
+    const meters = distanceBetween(from, to);
+    let used = 0;
+    // Close every split boundary this segment crosses
+    while (covered + meters - used >= splitMeters) {
+      used += splitMeters - covered;
+      const fraction = used / meters;
+      const time = timeOf(from) + (timeOf(to) - timeOf(from)) * fraction;
+      const elevation = elevationOf(from) + (elevationOf(to) - elevationOf(from)) * fraction;
+      splits.push({ distance: 1, seconds: (time - startTime) / 1000, elevationChange: elevation - startElevation });
+      covered = 0;
+      startTime = time;
+      startElevation = elevation;
+    }
+    covered += meters - used;
+  }
+
+  // What's left after the last full split, if it's more than GPS wobble
+  const last = track[track.length - 1];
+  if (covered >= 10) {
+    splits.push({
+      distance: covered / splitMeters,
+      seconds: (timeOf(last) - startTime) / 1000,
+      elevationChange: elevationOf(last) - startElevation,
+    });
+  }
+  return splits;
+}
+
+// ============================================================================
+// LOCATION SOURCES
+// ============================================================================
+
+/** Somewhere fixes come from */
+export interface LocationSource {
+  /** Start delivering fixes; returns a function that stops them */
+  watch(onPoint: (point: TrackPoint) => void, onError: (message: string) => void): () => void;
+}
+
+/** The device's GPS, through the Geolocation API */
+export const browserLocationSource: LocationSource = {
+  watch(onPoint, onError) {
+    if (typeof navigator === 'undefined' || !('geolocation' in navigator)) {
+      onError('GPS is not available on this device');
+      return () => {};
+    }
+    const id = navigator.geolocation.watchPosition(
+      position => onPoint({
+        time: new Date(position.timestamp).toISOString(),
+        lat: position.coords.latitude,
+        lon: position.coords.longitude,
+        elevation: position.coords.altitude ?? undefined,
+        accuracy: position.coords.accuracy,
+      }),
+      error => onError(error.code === error.PERMISSION_DENIED
+        ? 'Location permission was denied'
+        : 'Waiting for a GPS signal'),
+      { enableHighAccuracy: true, maximumAge: 0, timeout: 30_000 },
+    );
+    return () => navigator.geolocation.clearWatch(id);
+  },
+};
+
+/** A source that delivers whatever points it's given, for trying tracking without moving */
+export interface MockLocationSource extends LocationSource {
+  emit(point: TrackPoint): void;
+  fail(message: string): void;
+}
+
+export function createMockLocationSource(): MockLocationSource {
+  const watchers = new Set<{ onPoint: (point: TrackPoint) => void; onError: (message: string) => void }>();
+  return {
+    watch(onPoint, onError) {
+      const watcher = { onPoint, onError };
+      watchers.add(watcher);
+      return () => watchers.delete(watcher);
+    },
+    emit(point) {
+      watchers.forEach(watcher => watcher.onPoint(point));
+    },
+    fail(message) {
+      watchers.forEach(watcher => watcher.onError(message));
+    },
+  };
+}
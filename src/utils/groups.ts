@@ -0,0 +1,149 @@
+/**
+ * Exercise groups - Supersets and circuits within a block, and moving through them
+ *
+ * Grouped exercises sit next to each other in the block's list and are worked
+ * through in turn (A1, A2, A1, A2, ...) for the group's rounds. A position in
+ * a workout is the block and which pass through it (repeated blocks), the
+ * exercise, and which round of its group it is.
+ */
+
+import type { WorkoutBlock, ExerciseGroup } from '../types';
+import { getRestSeconds } from './rest';
+import { getBlockRepeats } from './blocks';
+
+export interface WorkoutPosition {
+  blockIndex: number;
+  blockRound: number;            // Pass through a repeated block, from 1
+  exerciseIndex: number;
+  round: number;                 // Group round, from 1; always 1 outside a group
+}
+
+export interface GroupSpan {
+  group: ExerciseGroup;
+  letter: string;                // "A" for the block's first group, "B" for the next...
+  start: number;                 // Index of the group's first exercise
+  end: number;                   // Index of its last
+}
+
+/** The group an exercise belongs to and the run of exercises it covers (timed blocks ignore groups) */
+export function getGroupSpan(block: WorkoutBlock, exerciseIndex: number): GroupSpan | null {
+  const id = block.exercises[exerciseIndex]?.group;
+  const group = id && !block.timing ? block.groups?.find(g => g.id === id) : undefined;
+  if (!group) return null;
+
+  let start = exerciseIndex;
+  while (start > 0 && block.exercises[start - 1].group === id) start--;
+  let end = exerciseIndex;
+  while (end < block.exercises.length - 1 && block.exercises[end + 1].group === id) end++;
+
+  const order = [...new Set(block.exercises.map(e => e.group))]
+    .filter(groupId => block.groups?.some(g => g.id === groupId));
+  return { group, letter: String.fromCharCode(65 + order.indexOf(id)), start, end };
+}
+
+function getRounds(span: GroupSpan): number {
+  return Math.max(1, span.group.rounds);
+}
+
+/** "Superset" for two exercises, "Circuit" for more */
+export function getGroupKind(span: GroupSpan): string {
+  return span.end - span.start === 1 ? 'Superset' : 'Circuit';
+}
+
+/** "A1", "B3", or null outside a group */
+export function getGroupLabel(block: WorkoutBlock, exerciseIndex: number): string | null {
+  const span = getGroupSpan(block, exerciseIndex);
+  return span ? `${span.letter}${exerciseIndex - span.start + 1}` : null;
+}
+
+// ============================================================================
+// NAVIGATION
+// ============================================================================
+
+/** Where to go after the exercise at `position`; null at the end of the workout */
+export function getNextPosition(blocks: WorkoutBlock[], position: WorkoutPosition): WorkoutPosition | null {
+  const { blockIndex, blockRound, exerciseIndex, round } = position;
+  const block = blocks[blockIndex];
+  if (!block) return null;
+
+  // Timed blocks run as a whole, so the next step is always the next pass or block
+  if (!block.timing) {
+    const span = getGroupSpan(block, exerciseIndex);
+    if (span && exerciseIndex < span.end) return { ...position, exerciseIndex: exerciseIndex + 1 };
+    if (span && round < getRounds(span)) return { ...position, exerciseIndex: span.start, round: round + 1 };
+    if (exerciseIndex < block.exercises.length - 1) return { ...position, exerciseIndex: exerciseIndex + 1, round: 1 };
+  }
+  if (blockRound < getBlockRepeats(block)) return { blockIndex, blockRound: blockRound + 1, exerciseIndex: 0, round: 1 };
+  return blockIndex < blocks.length - 1 ? { blockIndex: blockIndex + 1, blockRound: 1, exerciseIndex: 0, round: 1 } : null;
+}
+
+// Going back into a group lands on its last round
+function lastRoundAt(blocks: WorkoutBlock[], blockIndex: number, blockRound: number, exerciseIndex: number): WorkoutPosition {
+  const span = getGroupSpan(blocks[blockIndex], exerciseIndex);
+  return { blockIndex, blockRound, exerciseIndex, round: span ? getRounds(span) : 1 };
+}
+
+/** Where going back from `position` lands; null at the start of the workout */
+export function getPreviousPosition(blocks: WorkoutBlock[], position: WorkoutPosition): WorkoutPosition | null {
+  const { blockIndex, blockRound, exerciseIndex, round } = position;
+  const block = blocks[blockIndex];
+  if (!block) return null;
+
+  if (!block.timing) {
+    const span = getGroupSpan(block, exerciseIndex);
+    if (span && exerciseIndex > span.start) return { ...position, exerciseIndex: exerciseIndex - 1 };
+    if (span && round > 1) return { ...position, exerciseIndex: span.end, round: round - 1 };
+    if (exerciseIndex > 0) return lastRoundAt(blocks, blockIndex, blockRound, exerciseIndex - 1);
+  }
+  const lastIndex = (idx: number) => Math.max(0, blocks[idx].exercises.length - 1);
+  if (blockRound > 1) return lastRoundAt(blocks, blockIndex, blockRound - 1, lastIndex(blockIndex));
+  if (blockIndex === 0) return null;
+  return lastRoundAt(blocks, blockIndex - 1, getBlockRepeats(blocks[blockIndex - 1]), lastIndex(blockIndex - 1));
+}
+
+// ============================================================================
+// PROGRESS AND REST
+// ============================================================================
+
+// Times the exercise at `exerciseIndex` comes up in one pass through the block
+function countPassVisits(block: WorkoutBlock, exerciseIndex: number): number {
+  const span = getGroupSpan(block, exerciseIndex);
+  return span ? getRounds(span) : 1;
+}
+
+function countPassSteps(block: WorkoutBlock): number {
+  return block.exercises.reduce((sum, _, idx) => sum + countPassVisits(block, idx), 0);
+}
+
+/** Times the exercise at `exerciseIndex` comes up in the block (group rounds and block repeats) */
+export function countVisits(block: WorkoutBlock, exerciseIndex: number): number {
+  return countPassVisits(block, exerciseIndex) * getBlockRepeats(block);
+}
+
+/** Exercises to work through in a block, counting every group round and block repeat */
+export function countBlockSteps(block: WorkoutBlock): number {
+  return countPassSteps(block) * getBlockRepeats(block);
+}
+
+/** Steps of the block already done when standing at `position` within it */
+export function countStepsBefore(block: WorkoutBlock, position: Omit<WorkoutPosition, 'blockIndex'>): number {
+  const { blockRound, exerciseIndex, round } = position;
+  const span = getGroupSpan(block, exerciseIndex);
+  const groupStart = span ? span.start : exerciseIndex;
+  let count = (blockRound - 1) * countPassSteps(block);
+  for (let idx = 0; idx < groupStart; idx++) count += countPassVisits(block, idx);
+  if (span) count += (round - 1) * (span.end - span.start + 1) + (exerciseIndex - span.start);
+  return count;
+}
+
+/**
+ * Planned rest after an exercise. Inside a group there's none between
+ * exercises (unless one sets its own); after the round comes the group's rest.
+ */
+export function getRestAfter(block: WorkoutBlock, exerciseIndex: number): number {
+  const exercise = block.exercises[exerciseIndex];
+  const span = getGroupSpan(block, exerciseIndex);
+  if (!span) return getRestSeconds(exercise, block);
+  if (exerciseIndex < span.end) return exercise.rest ?? 0;
+  return exercise.rest ?? span.group.rest ?? getRestSeconds(exercise, block);
+}
@@ -0,0 +1,207 @@
+/**
+ * Heart Rate - Readings from a chest strap or watch, and the numbers read off them
+ *
+ * Readings come from a HeartRateSource: a Bluetooth monitor that offers the
+ * standard Heart Rate Service, or a simulated one that needs no hardware.
+ * Averages and time in zone weight each reading by how long it stood until
+ * the next, so a strap that reports twice a second doesn't count double and
+ * a dropout doesn't stretch the last reading over the gap.
+ */
+
+import type { HeartRateSample, HeartRateSettings } from '../types';
+
+const MIN_BPM = 25;               // Lower than this is a bad contact, not a heartbeat
+const MAX_BPM = 240;
+const MIN_SAMPLE_GAP_S = 1;       // Readings closer than this add nothing
+const MAX_SAMPLE_GAP_S = 5;       // A longer gap is a dropout; the reading before it counts this long
+const ZONE_FRACTIONS = [0.5, 0.6, 0.7, 0.8, 0.9];   // Zone starts as a share of max heart rate
+
+/** Keep a reading if it's a plausible heartbeat at least a second after the last one kept */
+export function shouldRecordSample(sample: HeartRateSample, last?: HeartRateSample): boolean {
+  if (sample.bpm < MIN_BPM || sample.bpm > MAX_BPM) return false;
+  if (!last) return true;
+  return (new Date(sample.time).getTime() - new Date(last.time).getTime()) / 1000 >= MIN_SAMPLE_GAP_S;
+}
+
+// ============================================================================
+// ZONES
+// ============================================================================
+
+/** Age-predicted max heart rate (220 - age) */
+export function getMaxHeartRate(age: number): number {
+  return 220 - age;
+}
+
+/** Lowest bpm of each of the five zones, or null until an age or custom zones are set */
+export function getZoneBounds(settings: HeartRateSettings): number[] | null {
+  if (settings.zones === 'custom') {
+    const zones = settings.customZones ?? [];
+    const valid = zones.length === ZONE_FRACTIONS.length && zones.every((bpm, i) => bpm > 0 && (i === 0 || bpm > zones[i - 1]));
+    return valid ? zones : null;
+  }
+  if (!settings.age) return null;
+  const max = getMaxHeartRate(settings.age);
+  return ZONE_FRACTIONS.map(fraction => Math.round(max * fraction));
+}
+
+/** Zone 0-4 a heart rate falls in, or -1 below zone 1 */
+export function getZone(bpm: number, bounds: number[]): number {
+  let zone = -1;
+  bounds.forEach((start, i) => {
+    if (bpm >= start) zone = i;
+  });
+  return zone;
+}
+
+// ============================================================================
+// SESSION STATS
+// ============================================================================
+
+export interface HeartRateStats {
+  average: number;               // bpm, weighted by time
+  max: number;
+  timeInZones: number[] | null;  // Seconds in each zone; null without zones
+}
+
+/** Average, max and time in zone over a session's readings; null with none */
+export function getHeartRateStats(samples: HeartRateSample[], bounds: number[] | null): HeartRateStats | null {
+  if (samples.length === 0) return null;
+
+  let weighted = 0;
+  let total = 0;
+  const timeInZones = bounds ? bounds.map(() => 0) : null;
+  samples.forEach((sample, i) => {
+    const next = samples[i + 1];
+    const gap = next ? (new Date(next.time).getTime() - new Date(sample.time).getTime()) / 1000 : MIN_SAMPLE_GAP_S;
+    const seconds = Math.min(Math.max(gap, 0), MAX_SAMPLE_GAP_S);
+    weighted += sample.bpm * seconds;
+    total += seconds;
+    if (timeInZones && bounds) {
+      const zone = getZone(sample.bpm, bounds);
+      if (zone >= 0) timeInZones[zone] += seconds;
+    }
+  });
+
+  return {
+    average: Math.round(total > 0 ? weighted / total : samples[0].bpm),
+    max: Math.max(...samples.map(sample => sample.bpm)),
+    timeInZones,
+  };
+}
+
+// ============================================================================
+// HEART RATE SOURCES
+// ============================================================================
+
+/** Somewhere readings come from */
+export interface HeartRateSource {
+  /**
+   * Pair and start delivering readings; resolves to a function that
+   * disconnects. `onDisconnect` is called if the monitor drops on its own.
+   */
+  connect(onSample: (sample: HeartRateSample) => void, onDisconnect: (message: string) => void): Promise<() => void>;
+}
+
+/** Reads the bpm out of a Heart Rate Measurement value (8- or 16-bit, per its flags) */
+export function parseHeartRateMeasurement(value: DataView): number {
+  const flags = value.getUint8(0);
+  return flags & 0x01 ? value.getUint16(1, true) : value.getUint8(1);
+}
+
+// The slice of Web Bluetooth used here; TypeScript's DOM types don't include it
+interface BluetoothCharacteristicLike extends EventTarget {
+  value?: DataView;
+  startNotifications(): Promise<BluetoothCharacteristicLike>;
+}
+
+interface BluetoothDeviceLike extends EventTarget {
+  gatt?: {
+    connected: boolean;
+    connect(): Promise<{
+      getPrimaryService(service: string): Promise<{ getCharacteristic(characteristic: string): Promise<BluetoothCharacteristicLike> }>;
+    }>;
+    disconnect(): void;
+  };
+}
+
+interface BluetoothLike {
+  requestDevice(options: { filters: { services: string[] }[] }): Promise<BluetoothDeviceLike>;
+}
+
+function getBluetooth(): BluetoothLike | undefined {
+  return typeof navigator !== 'undefined' && 'bluetooth' in navigator
+    ? (navigator as Navigator & { bluetooth: BluetoothLike }).bluetooth
+    : undefined;
+}
+
+export function isBluetoothAvailable(): boolean {
+  return !!getBluetooth();
+}
+
+/**
+ * A strap or watch offering the Bluetooth Heart Rate Service. The browser
+ * shows its own device picker, so connect must be called from a tap.
+ */
+export const bluetoothHeartRateSource: HeartRateSource = {
+  async connect(onSample, onDisconnect) {
+    const bluetooth = getBluetooth();
+    if (!bluetooth) throw new Error('Bluetooth is not available in this browser');
+
+    let device: BluetoothDeviceLike;
+    try {
+      device = await bluetooth.requestDevice({ filters: [{ services: ['heart_rate'] }] });
+    } catch {
+      throw new Error('No heart-rate monitor was chosen');
+    }
+    if (!device.gatt) throw new Error('This device cannot be connected to');
+
+    const server = await device.gatt.connect();
+    const service = await server.getPrimaryService('heart_rate');
+    const characteristic = await service.getCharacteristic('heart_rate_measurement');
+
+    const handleValue = () => {
+      if (characteristic.value) {
+        onSample({ time: new Date().toISOString(), bpm: parseHeartRateMeasurement(characteristic.value) });
+      }
+    };
+    const handleDisconnect = () => onDisconnect('Heart-rate monitor disconnected');
+    characteristic.addEventListener('characteristicvaluechanged', handleValue);
+    device.addEventListener('gattserverdisconnected', handleDisconnect);
+    await characteristic.startNotifications();
+
+    return () => {
+      characteristic.removeEventListener('characteristicvaluechanged', handleValue);
+      device.removeEventListener('gattserverdisconnected', handleDisconnect);
+      if (device.gatt?.connected) device.gatt.disconnect();
+    };
+  },
+};
+
+interface SimulatedHeartRateOptions {
+  intervalMs?: number;           // Time between readings
+  random?: () => number;         // Jitter source, 0-1
+}
+
+/**
+ * A monitor that needs no hardware: a warm-up climb, then alternating hard
+ * and easy stretches with a little jitter, one reading a second
+ */
+export function createSimulatedHeartRateSource({ intervalMs = 1000, random = Math.random }: SimulatedHeartRateOptions = {}): HeartRateSource {
+  const targetAt = (seconds: number) => {
+    if (seconds < 120) return 85 + (40 * seconds) / 120;
+    return (seconds - 120) % 150 < 90 ? 155 : 120;
+  };
+
+  return {
+    async connect(onSample) {
+      const startedAt = Date.now();
+      let bpm = 80;
+      const id = setInterval(() => {
+        // Heart rate lags effort, so each reading closes part of the gap to the target
+        bpm += (targetAt((Date.now() - startedAt) / 1000) - bpm) * 0.1 + (random() - 0.5) * 4;
+        onSample({ time: new Date().toISOString(), bpm: Math.round(bpm) });
+      }, intervalMs);
+      return () => clearInterval(id);
+    },
+  };
+}
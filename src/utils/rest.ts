@@ -0,0 +1,27 @@
+/**
+ * Rest helpers - How long to rest after an exercise, and how long was rested
+ */
+
+import type { WorkoutExercise, WorkoutBlock, RestLog } from '../types';
+import { DEFAULT_REST_SECONDS } from '../types';
+
+/** Planned rest after an exercise: exercise override > block setting > block type default */
+export function getRestSeconds(exercise: WorkoutExercise, block: WorkoutBlock): number {
+  return exercise.rest ?? block.rest ?? DEFAULT_REST_SECONDS[block.type];
+}
+
+/** "1:30", "0:45" */
+export function formatRest(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+/** Average planned and taken rest across a session, or null if nothing was recorded */
+export function summarizeRests(rests: RestLog[] = []): { planned: number; taken: number; count: number } | null {
+  if (rests.length === 0) return null;
+  const planned = rests.reduce((sum, r) => sum + r.planned, 0) / rests.length;
+  const taken = rests.reduce((sum, r) => sum + r.taken, 0) / rests.length;
+  return { planned: Math.round(planned), taken: Math.round(taken), count: rests.length };
+}
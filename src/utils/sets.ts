@@ -0,0 +1,61 @@
+/**
+ * Set helpers - Summaries of the sets logged for an exercise
+ */
+
+import type { SetLog, WeightUnit } from '../types';
+import { toDisplayWeight } from './units';
+
+/** Sets that count toward the exercise (warmups excluded) */
+export function getWorkingSets(sets: SetLog[]): SetLog[] {
+  return sets.filter(s => s.type !== 'warmup');
+}
+
+/** Heaviest working set (most reps breaks ties), or undefined if none was weighted */
+export function getTopSet(sets: SetLog[]): SetLog | undefined {
+  return getWorkingSets(sets)
+    .filter(s => s.weight)
+    .reduce<SetLog | undefined>((top, s) => {
+      if (!top) return s;
+      if (s.weight! !== top.weight!) return s.weight! > top.weight! ? s : top;
+      return (s.reps ?? 0) > (top.reps ?? 0) ? s : top;
+    }, undefined);
+}
+
+/** "50lb × 8", "8", or "30s" */
+export function formatSet(set: SetLog, unit: WeightUnit): string {
+  const effort = set.duration ? `${set.duration}s` : set.reps !== undefined ? `${set.reps}` : '';
+  const weight = set.weight ? `${toDisplayWeight(set.weight, unit)}${unit}` : '';
+  if (weight && effort) return `${weight} × ${effort}`;
+  return weight || effort;
+}
+
+/**
+ * Compact summary of working sets, grouping consecutive identical sets:
+ * "3 × 8 @ 50lb", "2 × 8 @ 50lb, 6 @ 55lb", "3 × 30s".
+ * Warmups are noted only by count.
+ */
+export function formatSets(sets: SetLog[], unit: WeightUnit): string {
+  const working = getWorkingSets(sets);
+  const groups: { set: SetLog; count: number }[] = [];
+
+  for (const set of working) {
+    const last = groups[groups.length - 1];
+    if (last && last.set.weight === set.weight && last.set.reps === set.reps && last.set.duration === set.duration) {
+      last.count++;
+    } else {
+      groups.push({ set, count: 1 });
+    }
+  }
+
+  const parts = groups.map(({ set, count }) => {
+    const effort = set.duration ? `${set.duration}s` : set.reps !== undefined ? `${set.reps}` : '';
+    const weight = set.weight ? `${toDisplayWeight(set.weight, unit)}${unit}` : '';
+    const base = effort && count > 1 ? `${count} × ${effort}` : effort;
+    if (!base) return count > 1 ? `${count} × ${weight}` : weight;
+    return weight ? `${base} @ ${weight}` : base;
+  }).filter(Boolean);
+
+  const warmups = sets.length - working.length;
+  if (warmups > 0) parts.push(`+${warmups} warmup${warmups === 1 ? '' : 's'}`);
+  return parts.join(', ');
+}
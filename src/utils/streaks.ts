@@ -0,0 +1,33 @@
+/**
+ * Streaks - Runs of days kept going by training
+ *
+ * A day with a workout extends the streak, a planned rest day carries it over
+ * without adding to it, and any other day breaks it. Today only counts once
+ * something happens: an empty today leaves the streak standing from yesterday.
+ */
+
+import { addDays } from './dates';
+
+export interface Streaks {
+  current: number;               // Workout days in the run reaching today (or yesterday)
+  longest: number;               // Workout days in the longest run ever
+}
+
+/** Streaks from the YYYY-MM-DD days with workouts and the planned rest days, as of `today` */
+export function computeStreaks(workoutDays: Set<string>, restDays: Set<string>, today: string): Streaks {
+  if (workoutDays.size === 0) return { current: 0, longest: 0 };
+
+  const first = [...workoutDays].sort()[0];
+  let run = 0;
+  let longest = 0;
+  for (let day = first; day <= today; day = addDays(day, 1)) {
+    if (workoutDays.has(day)) {
+      run++;
+      longest = Math.max(longest, run);
+    } else if (!restDays.has(day) && day !== today) {
+      run = 0;
+    }
+  }
+
+  return { current: run, longest };
+}
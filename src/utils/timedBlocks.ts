@@ -0,0 +1,158 @@
+/**
+ * Timed blocks - Clock math and logging for EMOM, AMRAP, Tabata and for-time blocks
+ *
+ * Everything here works from seconds elapsed since the block started, so the
+ * runner only has to know when it began.
+ */
+
+import type { BlockMode, BlockTiming, BlockResult, WorkoutBlock, WorkoutExercise, ExerciseLog, SetLog } from '../types';
+
+/** Settings used for anything a block's timing leaves out */
+export const DEFAULT_BLOCK_TIMING: Record<BlockMode, Required<BlockTiming>> = {
+  'emom': { mode: 'emom', minutes: 10, work: 0, rest: 0, rounds: 0 },
+  'amrap': { mode: 'amrap', minutes: 12, work: 0, rest: 0, rounds: 0 },
+  'tabata': { mode: 'tabata', minutes: 0, work: 20, rest: 10, rounds: 8 },
+  'for-time': { mode: 'for-time', minutes: 20, work: 0, rest: 0, rounds: 0 },
+};
+
+export function resolveTiming(timing: BlockTiming): Required<BlockTiming> {
+  const defaults = DEFAULT_BLOCK_TIMING[timing.mode];
+  return {
+    mode: timing.mode,
+    minutes: timing.minutes ?? defaults.minutes,
+    work: timing.work ?? defaults.work,
+    rest: timing.rest ?? defaults.rest,
+    rounds: timing.rounds ?? defaults.rounds,
+  };
+}
+
+/** Length of the block in seconds (the cap, for time); Tabata drops the last rest */
+export function getTimedBlockSeconds(timing: BlockTiming): number {
+  const t = resolveTiming(timing);
+  if (t.mode === 'tabata') return t.rounds * t.work + Math.max(0, t.rounds - 1) * t.rest;
+  return t.minutes * 60;
+}
+
+/** "EMOM 10 min", "Tabata 8 × 20s/10s", "For Time (20 min cap)" */
+export function describeTiming(timing: BlockTiming): string {
+  const t = resolveTiming(timing);
+  switch (t.mode) {
+    case 'emom': return `EMOM ${t.minutes} min`;
+    case 'amrap': return `AMRAP ${t.minutes} min`;
+    case 'tabata': return `Tabata ${t.rounds} × ${t.work}s/${t.rest}s`;
+    case 'for-time': return `For Time (${t.minutes} min cap)`;
+  }
+}
+
+/** "12:00", "0:45" */
+export function formatClock(seconds: number): string {
+  const total = Math.max(0, Math.ceil(seconds));
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+// ============================================================================
+// PHASES
+// ============================================================================
+
+export interface TimedBlockPhase {
+  phase: 'work' | 'rest' | 'done';
+  interval: number;              // Current minute (EMOM) or round (Tabata), from 0; always 0 otherwise
+  remaining: number;             // Seconds left in this minute/interval, or in the whole block
+}
+
+/** Where the clock is `elapsed` seconds into a block */
+export function getTimedBlockPhase(timing: BlockTiming, elapsed: number): TimedBlockPhase {
+  const t = resolveTiming(timing);
+  const total = getTimedBlockSeconds(t);
+  if (elapsed >= total) {
+    const intervals = t.mode === 'emom' ? t.minutes : t.mode === 'tabata' ? t.rounds : 1;
+    return { phase: 'done', interval: Math.max(0, intervals - 1), remaining: 0 };
+  }
+
+  if (t.mode === 'emom') {
+    return { phase: 'work', interval: Math.floor(elapsed / 60), remaining: 60 - (elapsed % 60) };
+  }
+  if (t.mode === 'tabata') {
+    const cycle = t.work + t.rest;
+    const into = elapsed % cycle;
+    return into < t.work
+      ? { phase: 'work', interval: Math.floor(elapsed / cycle), remaining: t.work - into }
+      : { phase: 'rest', interval: Math.floor(elapsed / cycle), remaining: cycle - into };
+  }
+  return { phase: 'work', interval: 0, remaining: total - elapsed };
+}
+
+/** Minutes (EMOM) or work intervals (Tabata) fully done after `elapsed` seconds */
+export function countCompletedIntervals(timing: BlockTiming, elapsed: number): number {
+  const t = resolveTiming(timing);
+  if (t.mode === 'emom') return Math.min(t.minutes, Math.floor(elapsed / 60));
+  if (t.mode === 'tabata') {
+    const cycle = t.work + t.rest;
+    const full = Math.floor(elapsed / cycle) + (elapsed % cycle >= t.work ? 1 : 0);
+    return Math.min(t.rounds, full);
+  }
+  return 0;
+}
+
+/** EMOM minutes and Tabata rounds work through the block's exercises in turn */
+export function getIntervalExercise(block: WorkoutBlock, interval: number): WorkoutExercise | undefined {
+  if (block.exercises.length === 0) return undefined;
+  return block.exercises[interval % block.exercises.length];
+}
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+
+/** "7 rounds + 5 reps", "9:42", "Capped at 20:00", "10 minutes" */
+export function formatBlockResult(result: BlockResult): string {
+  switch (result.mode) {
+    case 'amrap':
+      return `${result.rounds} round${result.rounds === 1 ? '' : 's'}${result.extraReps ? ` + ${result.extraReps} reps` : ''}`;
+    case 'for-time':
+      return result.capped ? `Capped at ${formatClock(result.finishTime ?? 0)}` : formatClock(result.finishTime ?? 0);
+    case 'emom':
+      return `${result.rounds} minute${result.rounds === 1 ? '' : 's'}`;
+    case 'tabata':
+      return `${result.rounds} round${result.rounds === 1 ? '' : 's'}`;
+  }
+}
+
+function toSet(exercise: WorkoutExercise, duration?: number): SetLog {
+  return {
+    type: 'working',
+    weight: exercise.weight,
+    reps: duration || typeof exercise.reps !== 'number' ? undefined : exercise.reps,
+    duration: duration ?? exercise.duration,
+  };
+}
+
+/**
+ * Exercise logs for a finished timed block: one set for each minute or
+ * interval an exercise came up (EMOM, Tabata), each full round (AMRAP), or
+ * once through (for time). Exercises that never came up are left out.
+ */
+export function buildTimedBlockLogs(block: WorkoutBlock, result: BlockResult): Omit<ExerciseLog, 'completedAt'>[] {
+  const timing = block.timing ? resolveTiming(block.timing) : undefined;
+  return block.exercises
+    .map((exercise, idx) => {
+      let count: number;
+      switch (result.mode) {
+        case 'emom':
+        case 'tabata':
+          count = Math.floor(result.rounds / block.exercises.length) + (idx < result.rounds % block.exercises.length ? 1 : 0);
+          break;
+        case 'amrap':
+          count = result.rounds;
+          break;
+        case 'for-time':
+          count = result.capped ? 0 : 1;
+          break;
+      }
+      const duration = result.mode === 'tabata' ? timing?.work : undefined;
+      return { exerciseId: exercise.exerciseId, sets: Array.from({ length: count }, () => toSet(exercise, duration)) };
+    })
+    .filter(log => log.sets.length > 0);
+}
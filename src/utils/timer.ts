@@ -0,0 +1,45 @@
+/**
+ * Timer helpers - Stopwatches and countdowns kept as timestamps
+ *
+ * Time is always read from the wall clock, so an interval that the browser
+ * throttled (background tab, locked screen) or a page reload never loses or
+ * gains time. Intervals are only there to repaint.
+ */
+
+import type { TimerState } from '../types';
+
+/** A stopped timer; a countdown when `duration` (seconds) is given */
+export function createTimer(duration?: number): TimerState {
+  return { startedAt: null, accumulated: 0, duration };
+}
+
+export function isTimerRunning(timer: TimerState): boolean {
+  return timer.startedAt !== null;
+}
+
+export function startTimer(timer: TimerState, now = Date.now()): TimerState {
+  return timer.startedAt !== null ? timer : { ...timer, startedAt: now };
+}
+
+export function pauseTimer(timer: TimerState, now = Date.now()): TimerState {
+  if (timer.startedAt === null) return timer;
+  return { ...timer, startedAt: null, accumulated: timer.accumulated + (now - timer.startedAt) };
+}
+
+/** Seconds run so far (fractional) */
+export function getElapsed(timer: TimerState, now = Date.now()): number {
+  // Clamped: a repaint clock read just before the start can lag it slightly
+  const running = timer.startedAt !== null ? Math.max(0, now - timer.startedAt) : 0;
+  return (timer.accumulated + running) / 1000;
+}
+
+/** Seconds left on a countdown; negative once it's past zero, 0 for a stopwatch */
+export function getRemaining(timer: TimerState, now = Date.now()): number {
+  return timer.duration === undefined ? 0 : timer.duration - getElapsed(timer, now);
+}
+
+/** Add time to a countdown; one already past zero restarts from zero */
+export function extendTimer(timer: TimerState, seconds: number, now = Date.now()): TimerState {
+  const overrun = Math.max(0, -getRemaining(timer, now));
+  return { ...timer, duration: (timer.duration ?? 0) + overrun + seconds };
+}
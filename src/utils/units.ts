@@ -0,0 +1,73 @@
+/**
+ * Units - Conversion between stored values and the user's preferred units
+ *
+ * Everything is stored in pounds and miles. Values are converted only at the
+ * edges: when shown, when typed in, and when exported.
+ */
+
+import type { WeightUnit, DistanceUnit, UnitPreferences } from '../types';
+
+export const LB_PER_KG = 2.20462;
+export const KM_PER_MILE = 1.609344;
+export const FEET_PER_METER = 3.28084;
+
+/** Imperial for the US, Liberia and Myanmar (or an unknown region); metric everywhere else */
+export function getLocaleUnitPreferences(locale = typeof navigator !== 'undefined' ? navigator.language : 'en-US'): UnitPreferences {
+  const region = locale.split('-')[1]?.toUpperCase();
+  return region === 'US' || region === 'LR' || region === 'MM' || !region
+    ? { weight: 'lb', distance: 'mi' }
+    : { weight: 'kg', distance: 'km' };
+}
+
+// ============================================================================
+// WEIGHT
+// ============================================================================
+
+/** Stored pounds -> display value, rounded to 0.01 (enough for 1.25 kg plates) */
+export function toDisplayWeight(lb: number, unit: WeightUnit): number {
+  const value = unit === 'kg' ? lb / LB_PER_KG : lb;
+  return Math.round(value * 100) / 100;
+}
+
+/** Typed value -> stored pounds (kept to 0.01 so kg values round-trip) */
+export function fromDisplayWeight(value: number, unit: WeightUnit): number {
+  const lb = unit === 'kg' ? value * LB_PER_KG : value;
+  return Math.round(lb * 100) / 100;
+}
+
+/** "50 lb", "22.5 kg", "1,440 lb" */
+export function formatWeight(lb: number, unit: WeightUnit): string {
+  return `${toDisplayWeight(lb, unit).toLocaleString()} ${unit}`;
+}
+
+// ============================================================================
+// DISTANCE
+// ============================================================================
+
+/** Stored miles -> display value, rounded to 0.01 */
+export function toDisplayDistance(miles: number, unit: DistanceUnit): number {
+  const value = unit === 'km' ? miles * KM_PER_MILE : miles;
+  return Math.round(value * 100) / 100;
+}
+
+/** Typed value -> stored miles */
+export function fromDisplayDistance(value: number, unit: DistanceUnit): number {
+  const miles = unit === 'km' ? value / KM_PER_MILE : value;
+  return Math.round(miles * 10000) / 10000;
+}
+
+/** "3.1 mi", "5 km" */
+export function formatDistance(miles: number, unit: DistanceUnit): string {
+  return `${toDisplayDistance(miles, unit)} ${unit}`;
+}
+
+/** Stored seconds per mile -> "8:05 /mi" or "5:01 /km" */
+export function formatPace(secondsPerMile: number, unit: DistanceUnit): string {
+  const seconds = Math.round(unit === 'km' ? secondsPerMile / KM_PER_MILE : secondsPerMile);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')} /${unit}`;
+}
+
+/** Meters climbed -> "120 m", or "394 ft" alongside miles */
+export function formatElevation(meters: number, unit: DistanceUnit): string {
+  return unit === 'km' ? `${Math.round(meters)} m` : `${Math.round(meters * FEET_PER_METER)} ft`;
+}
@@ -8,6 +8,8 @@ CREATE TABLE profiles (
   name TEXT,
   personality TEXT DEFAULT 'encouraging',
   theme TEXT DEFAULT 'dark',
+  weight_unit TEXT,              -- 'lb' | 'kg' (null = follow device locale)
+  distance_unit TEXT,            -- 'mi' | 'km'
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -21,12 +23,23 @@ CREATE TABLE workout_sessions (
   blocks JSONB DEFAULT '[]',
   exercises JSONB DEFAULT '[]',
   started_at TIMESTAMPTZ NOT NULL,
+  time_zone TEXT,
   completed_at TIMESTAMPTZ,
   total_duration INTEGER,
   overall_effort INTEGER,
   cardio_type TEXT,
+  custom_activity_id UUID,       -- The user's own cardio activity, when cardio_type is 'custom'
   distance NUMERIC,
-  created_at TIMESTAMPTZ DEFAULT NOW()
+  metrics JSONB,                 -- Other cardio numbers: { meters, strokeRate, laps, calories, cadence, jumps }
+  track JSONB,                   -- GPS fixes [{ time, lat, lon, elevation, accuracy }] of a tracked cardio session
+  heart_rate JSONB,              -- Heart-rate monitor readings [{ time, bpm }]
+  personal_records JSONB,        -- PRs set in the session [{ exerciseId, kind, value, previous }]
+  rests JSONB,
+  block_results JSONB,
+  program JSONB,                 -- { programId, week, weekday } when done as part of a program
+  version INTEGER DEFAULT 1,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 -- Saved workout templates
@@ -37,6 +50,7 @@ CREATE TABLE saved_workouts (
   estimated_minutes INTEGER,
   blocks JSONB DEFAULT '[]',
   cardio_type TEXT,
+  version INTEGER DEFAULT 1,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -53,13 +67,41 @@ CREATE TABLE custom_exercises (
   default_duration INTEGER,
   description TEXT,
   alternatives TEXT[],
-  created_at TIMESTAMPTZ DEFAULT NOW()
+  version INTEGER DEFAULT 1,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Multi-week training programs (saved workouts on weekdays, with progression)
+CREATE TABLE programs (
+  id UUID PRIMARY KEY,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  name TEXT NOT NULL,
+  weeks INTEGER NOT NULL,
+  days JSONB DEFAULT '[]',
+  progression JSONB,
+  start_date DATE,
+  version INTEGER DEFAULT 1,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Deletion markers so deletes sync between devices
+-- kind: 'sessions' | 'savedWorkouts' | 'customExercises' | 'programs'
+CREATE TABLE sync_tombstones (
+  user_id UUID REFERENCES auth.users NOT NULL,
+  kind TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  deleted_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (user_id, kind, record_id)
 );
 
 -- User preferences (JSON blob for flexibility)
 CREATE TABLE user_preferences (
   user_id UUID REFERENCES auth.users PRIMARY KEY,
   rest_days TEXT[] DEFAULT '{}',
+  planned_workouts JSONB DEFAULT '[]',
+  custom_cardio_activities JSONB DEFAULT '[]',
   equipment_config JSONB DEFAULT '{}',
   favorites JSONB DEFAULT '{"workouts":[],"exercises":[]}',
   skip_counts JSONB DEFAULT '{}',
@@ -73,7 +115,9 @@ ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE workout_sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE saved_workouts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE custom_exercises ENABLE ROW LEVEL SECURITY;
+ALTER TABLE programs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_tombstones ENABLE ROW LEVEL SECURITY;
 
 -- Policies: Users can only access their own data
 CREATE POLICY "Users can view own profile" ON profiles FOR SELECT USING (auth.uid() = id);
@@ -83,7 +127,9 @@ CREATE POLICY "Users can insert own profile" ON profiles FOR INSERT WITH CHECK (
 CREATE POLICY "Users can CRUD own sessions" ON workout_sessions FOR ALL USING (auth.uid() = user_id);
 CREATE POLICY "Users can CRUD own workouts" ON saved_workouts FOR ALL USING (auth.uid() = user_id);
 CREATE POLICY "Users can CRUD own exercises" ON custom_exercises FOR ALL USING (auth.uid() = user_id);
+CREATE POLICY "Users can CRUD own programs" ON programs FOR ALL USING (auth.uid() = user_id);
 CREATE POLICY "Users can CRUD own preferences" ON user_preferences FOR ALL USING (auth.uid() = user_id);
+CREATE POLICY "Users can CRUD own tombstones" ON sync_tombstones FOR ALL USING (auth.uid() = user_id);
 
 -- Auto-create profile on signup
 CREATE OR REPLACE FUNCTION handle_new_user()
@@ -98,3 +144,67 @@ $$ LANGUAGE plpgsql SECURITY DEFINER;
 CREATE TRIGGER on_auth_user_created
   AFTER INSERT ON auth.users
   FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- ----------------------------------------------------------------------------
+-- Upgrading an existing database: record-level sync (versions + tombstones)
+-- ----------------------------------------------------------------------------
+-- ALTER TABLE workout_sessions ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1;
+-- ALTER TABLE workout_sessions ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+-- ALTER TABLE saved_workouts ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1;
+-- ALTER TABLE custom_exercises ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1;
+-- ALTER TABLE custom_exercises ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+-- Then create sync_tombstones with its RLS policy as above.
+
+-- ----------------------------------------------------------------------------
+-- Upgrading an existing database: personal records set in each session
+-- ----------------------------------------------------------------------------
+-- ALTER TABLE workout_sessions ADD COLUMN IF NOT EXISTS personal_records JSONB;
+
+-- ----------------------------------------------------------------------------
+-- Upgrading an existing database: unit preferences on the profile
+-- ----------------------------------------------------------------------------
+-- ALTER TABLE profiles ADD COLUMN IF NOT EXISTS weight_unit TEXT;
+-- ALTER TABLE profiles ADD COLUMN IF NOT EXISTS distance_unit TEXT;
+
+-- ----------------------------------------------------------------------------
+-- Upgrading an existing database: rest taken between exercises
+-- ----------------------------------------------------------------------------
+-- ALTER TABLE workout_sessions ADD COLUMN IF NOT EXISTS rests JSONB;
+
+-- ----------------------------------------------------------------------------
+-- Upgrading an existing database: timed block results (EMOM, AMRAP, Tabata, for time)
+-- ----------------------------------------------------------------------------
+-- ALTER TABLE workout_sessions ADD COLUMN IF NOT EXISTS block_results JSONB;
+
+-- ----------------------------------------------------------------------------
+-- Upgrading an existing database: training programs
+-- ----------------------------------------------------------------------------
+-- ALTER TABLE workout_sessions ADD COLUMN IF NOT EXISTS program JSONB;
+-- Then create programs with its RLS policy as above.
+
+-- ----------------------------------------------------------------------------
+-- Upgrading an existing database: workouts planned on calendar dates
+-- ----------------------------------------------------------------------------
+-- ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS planned_workouts JSONB DEFAULT '[]';
+
+-- ----------------------------------------------------------------------------
+-- Upgrading an existing database: time zone each session started in
+-- ----------------------------------------------------------------------------
+-- ALTER TABLE workout_sessions ADD COLUMN IF NOT EXISTS time_zone TEXT;
+
+-- ----------------------------------------------------------------------------
+-- Upgrading an existing database: GPS tracks of cardio sessions
+-- ----------------------------------------------------------------------------
+-- ALTER TABLE workout_sessions ADD COLUMN IF NOT EXISTS track JSONB;
+
+-- ----------------------------------------------------------------------------
+-- Upgrading an existing database: custom cardio activities and their metrics
+-- ----------------------------------------------------------------------------
+-- ALTER TABLE workout_sessions ADD COLUMN IF NOT EXISTS custom_activity_id UUID;
+-- ALTER TABLE workout_sessions ADD COLUMN IF NOT EXISTS metrics JSONB;
+-- ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS custom_cardio_activities JSONB DEFAULT '[]';
+
+-- ----------------------------------------------------------------------------
+-- Upgrading an existing database: heart-rate monitor readings
+-- ----------------------------------------------------------------------------
+-- ALTER TABLE workout_sessions ADD COLUMN IF NOT EXISTS heart_rate JSONB;